@@ -0,0 +1,318 @@
+import { vec2 } from 'gl-matrix';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { Camera } from './camera';
+import { CameraController, CameraControllerOptions } from './camera-controller';
+
+/**
+ * Creates a synthetic DOM event. Node has `Event` but not `PointerEvent` or
+ * `WheelEvent`, so their extra fields (and the read-only `timeStamp`) are
+ * defined on a plain one.
+ */
+function createEvent(type: string, fields: Record<string, unknown> = {}) {
+  const event = new Event(type, { cancelable: true });
+  for (const [name, value] of Object.entries(fields)) {
+    Object.defineProperty(event, name, { value });
+  }
+  return event;
+}
+
+/**
+ * Creates a controller listening to stand-ins for the canvas and the window,
+ * so that input can be faked without a browser.
+ *
+ * The canvas is 800x600 CSS pixels at the top left of the page, so at a zoom
+ * of 1 (where the screen is 2 world units high) each pixel is 1/300 of a
+ * world unit.
+ */
+function createController(options: CameraControllerOptions = {}) {
+  const canvas = Object.assign(new EventTarget(), {
+    style: { touchAction: '' },
+    width: 800,
+    height: 600,
+    getBoundingClientRect: () =>
+      ({
+        left: 0,
+        top: 0,
+        right: 800,
+        bottom: 600,
+        width: 800,
+        height: 600,
+      }) as DOMRect,
+  }) as unknown as HTMLCanvasElement;
+  const keyboardTarget = new EventTarget();
+
+  const camera = new Camera(canvas);
+  const controller = new CameraController(camera, canvas, {
+    ...options,
+    keyboardTarget,
+  });
+
+  const pressKey = (type: 'keydown' | 'keyup', code: string) =>
+    keyboardTarget.dispatchEvent(createEvent(type, { code }));
+
+  const pointer = (
+    type: 'pointerdown' | 'pointermove' | 'pointerup',
+    pointerId: number,
+    clientX: number,
+    clientY: number,
+    timeStamp: number
+  ) =>
+    canvas.dispatchEvent(
+      createEvent(type, { pointerId, clientX, clientY, timeStamp })
+    );
+
+  const wheel = (
+    deltaY: number,
+    clientX: number,
+    clientY: number,
+    deltaMode = 0
+  ) => {
+    const event = createEvent('wheel', { deltaY, deltaMode, clientX, clientY });
+    canvas.dispatchEvent(event);
+    return event;
+  };
+
+  return {
+    canvas,
+    keyboardTarget,
+    camera,
+    controller,
+    pressKey,
+    pointer,
+    wheel,
+  };
+}
+
+/**
+ * Checks that two positions are the same, give or take floating point error.
+ */
+function expectNear(actual: vec2, expected: vec2 | [number, number]) {
+  expect(actual[0]).toBeCloseTo(expected[0]);
+  expect(actual[1]).toBeCloseTo(expected[1]);
+}
+
+describe('CameraController', () => {
+  // The controller reads the delta mode constants from `WheelEvent`
+  beforeAll(() => {
+    vi.stubGlobal('WheelEvent', {
+      DOM_DELTA_PIXEL: 0,
+      DOM_DELTA_LINE: 1,
+      DOM_DELTA_PAGE: 2,
+    });
+  });
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('takes over touch gestures on the canvas until detached', () => {
+    const { canvas, controller } = createController();
+    expect(canvas.style.touchAction).toBe('none');
+
+    controller.detach();
+    expect(canvas.style.touchAction).toBe('');
+  });
+
+  it('pans while a key is held, at the same speed on screen at any zoom', () => {
+    const { camera, controller, pressKey } = createController();
+    pressKey('keydown', 'KeyD');
+
+    // One screen height (2 world units) per second by default
+    controller.update(0.5);
+    expect([...camera.position]).toEqual([1, 0]);
+
+    camera.zoom = 2;
+    controller.update(0.5);
+    expect([...camera.position]).toEqual([1.5, 0]);
+  });
+
+  it('pans diagonally no faster than straight', () => {
+    const { camera, controller, pressKey } = createController();
+    pressKey('keydown', 'ArrowUp');
+    pressKey('keydown', 'ArrowLeft');
+    controller.update(1);
+
+    expect(camera.position[0]).toBeCloseTo(-Math.SQRT2);
+    expect(camera.position[1]).toBeCloseTo(Math.SQRT2);
+  });
+
+  it('ignores keys that do not pan', () => {
+    const { camera, controller, pressKey } = createController();
+    pressKey('keydown', 'KeyQ');
+    controller.update(1);
+
+    expect([...camera.position]).toEqual([0, 0]);
+  });
+
+  it('stops at once after a key is released with no inertia', () => {
+    const { camera, controller, pressKey } = createController({ inertia: 0 });
+    pressKey('keydown', 'KeyW');
+    controller.update(1);
+    pressKey('keyup', 'KeyW');
+    controller.update(1);
+
+    expect([...camera.position]).toEqual([0, 2]);
+  });
+
+  it('drifts to a stop after a key is released with inertia', () => {
+    const { camera, controller, pressKey } = createController({
+      inertia: 0.5,
+    });
+    pressKey('keydown', 'KeyW');
+    controller.update(1);
+    pressKey('keyup', 'KeyW');
+
+    // Half the speed is kept after each second
+    controller.update(1);
+    expect(camera.position[1]).toBeCloseTo(3);
+
+    for (let i = 0; i < 100; i++) {
+      controller.update(1);
+    }
+    const stoppedAt = camera.position[1];
+    controller.update(1);
+    expect(camera.position[1]).toBe(stoppedAt);
+  });
+
+  it('forgets held keys when the window loses focus', () => {
+    const { keyboardTarget, camera, controller, pressKey } = createController({
+      inertia: 0,
+    });
+    pressKey('keydown', 'KeyD');
+    keyboardTarget.dispatchEvent(new Event('blur'));
+    controller.update(1);
+
+    expect([...camera.position]).toEqual([0, 0]);
+  });
+
+  it('stops listening to the keyboard once detached', () => {
+    const { camera, controller, pressKey } = createController();
+    controller.detach();
+    pressKey('keydown', 'KeyD');
+    controller.update(1);
+
+    expect([...camera.position]).toEqual([0, 0]);
+  });
+
+  it('drags the world along with the pointer', () => {
+    const { camera, pointer } = createController();
+    const grabbed = camera.screenToWorld(400, 300);
+    pointer('pointerdown', 1, 400, 300, 0);
+    pointer('pointermove', 1, 700, 150, 50);
+
+    expectNear(camera.position, [-1, -0.5]);
+    expectNear(camera.screenToWorld(700, 150), grabbed);
+  });
+
+  it('ignores the keyboard and inertia while the camera is held', () => {
+    const { camera, controller, pointer, pressKey } = createController();
+    pointer('pointerdown', 1, 400, 300, 0);
+    pressKey('keydown', 'KeyD');
+    controller.update(1);
+
+    expect([...camera.position]).toEqual([0, 0]);
+  });
+
+  it('glides after a drag that is let go of while moving', () => {
+    // Without slowing down, so the speed is easy to check
+    const { camera, controller, pointer } = createController({ inertia: 1 });
+    pointer('pointerdown', 1, 400, 300, 0);
+    pointer('pointermove', 1, 430, 300, 50);
+    pointer('pointerup', 1, 430, 300, 100);
+
+    // 30 pixels in 50ms is 2 world units per second
+    const releasedAt = camera.position[0];
+    controller.update(0.1);
+    expect(camera.position[0]).toBeCloseTo(releasedAt - 0.2);
+  });
+
+  it("doesn't glide if the pointer was held still before letting go", () => {
+    const { camera, controller, pointer } = createController();
+    pointer('pointerdown', 1, 400, 300, 0);
+    pointer('pointermove', 1, 430, 300, 50);
+    pointer('pointerup', 1, 430, 300, 151);
+
+    const releasedAt = vec2.clone(camera.position);
+    controller.update(0.1);
+    expect([...camera.position]).toEqual([...releasedAt]);
+  });
+
+  it('zooms towards the cursor, keeping the point under it still', () => {
+    const { camera, wheel } = createController();
+    const underCursor = camera.screenToWorld(600, 150);
+    const event = wheel(-100, 600, 150);
+
+    // Scrolling 100 pixels up zooms in by e^(100 * 0.002)
+    expect(camera.zoom).toBeCloseTo(Math.exp(0.2));
+    expectNear(camera.screenToWorld(600, 150), underCursor);
+    expect(event.defaultPrevented).toBe(true);
+  });
+
+  it('scrolls by lines as if they were 16 pixels', () => {
+    const { camera, wheel } = createController();
+    wheel(1, 400, 300, 1);
+
+    expect(camera.zoom).toBeCloseTo(Math.exp(-16 * 0.002));
+  });
+
+  it('keeps the wheel zoom within minZoom and maxZoom', () => {
+    const { camera, wheel } = createController({ minZoom: 0.5, maxZoom: 4 });
+    wheel(-10000, 400, 300);
+    expect(camera.zoom).toBe(4);
+
+    wheel(10000, 400, 300);
+    expect(camera.zoom).toBe(0.5);
+  });
+
+  it('pinches to zoom by how far apart the pointers move', () => {
+    const { camera, pointer } = createController();
+    pointer('pointerdown', 1, 300, 300, 0);
+    pointer('pointerdown', 2, 500, 300, 0);
+    const betweenFingers = camera.screenToWorld(400, 300);
+
+    // Both fingers move apart, so the centre between them stays put and the
+    // spread doubles
+    pointer('pointermove', 1, 200, 300, 10);
+    pointer('pointermove', 2, 600, 300, 20);
+
+    expect(camera.zoom).toBeCloseTo(2);
+    expectNear(camera.screenToWorld(400, 300), betweenFingers);
+  });
+
+  it('pans with the centre between two pointers', () => {
+    const { camera, pointer } = createController();
+    pointer('pointerdown', 1, 300, 300, 0);
+    pointer('pointerdown', 2, 500, 300, 0);
+    const betweenFingers = camera.screenToWorld(400, 300);
+
+    // Both fingers move up 60 pixels, one after the other
+    pointer('pointermove', 1, 300, 240, 10);
+    pointer('pointermove', 2, 500, 240, 20);
+
+    expect(camera.zoom).toBeCloseTo(1);
+    expectNear(camera.position, [0, -0.2]);
+    expectNear(camera.screenToWorld(400, 240), betweenFingers);
+  });
+
+  it('keeps the pinch zoom within minZoom and maxZoom', () => {
+    const { camera, pointer } = createController({ minZoom: 0.5, maxZoom: 4 });
+    pointer('pointerdown', 1, 390, 300, 0);
+    pointer('pointerdown', 2, 410, 300, 0);
+    pointer('pointermove', 2, 790, 300, 10);
+    expect(camera.zoom).toBe(4);
+
+    pointer('pointermove', 2, 391, 300, 20);
+    expect(camera.zoom).toBe(0.5);
+  });
+
+  it('stops listening to the pointer once detached', () => {
+    const { camera, controller, pointer, wheel } = createController();
+    controller.detach();
+    pointer('pointerdown', 1, 400, 300, 0);
+    pointer('pointermove', 1, 700, 300, 50);
+    wheel(-100, 400, 300);
+
+    expect([...camera.position]).toEqual([0, 0]);
+    expect(camera.zoom).toBe(1);
+  });
+});
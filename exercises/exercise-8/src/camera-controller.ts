@@ -0,0 +1,397 @@
+import { vec2 } from 'gl-matrix';
+
+import { Camera } from './camera';
+
+/**
+ * Options to control how a {@link CameraController} responds to input.
+ */
+export interface CameraControllerOptions {
+  /**
+   * How fast the keyboard pans the camera, in screen heights per second.
+   * Default is 1.
+   */
+  keyboardPanSpeed?: number;
+  /**
+   * How much each unit of mouse wheel scrolling zooms by. Default is 0.002.
+   */
+  wheelZoomSpeed?: number;
+  /**
+   * The smallest zoom level allowed (the furthest you can zoom out). Default
+   * is 0.1.
+   */
+  minZoom?: number;
+  /**
+   * The largest zoom level allowed (the furthest you can zoom in). Default is
+   * 10.
+   */
+  maxZoom?: number;
+  /**
+   * How quickly the camera slows down after you let go of it, from 0 (it
+   * stops immediately) to 1 (it never stops). This is the fraction of its
+   * speed that the camera keeps after each second. Default is 0.05.
+   */
+  inertia?: number;
+  /**
+   * What to listen to for keyboard events. Defaults to the whole window, so
+   * that the keyboard works without needing to click on the canvas first.
+   */
+  keyboardTarget?: EventTarget;
+}
+
+/**
+ * The keys that pan the camera, and which direction they move it in.
+ */
+const KEY_DIRECTIONS: Record<string, [number, number]> = {
+  KeyW: [0, 1],
+  ArrowUp: [0, 1],
+  KeyS: [0, -1],
+  ArrowDown: [0, -1],
+  KeyA: [-1, 0],
+  ArrowLeft: [-1, 0],
+  KeyD: [1, 0],
+  ArrowRight: [1, 0],
+};
+
+/**
+ * Below this speed (in world units per second), inertia stops moving the
+ * camera. Without this, the camera would keep creeping along by ever smaller
+ * amounts forever.
+ */
+const MIN_INERTIA_SPEED = 0.0001;
+
+/**
+ * If the user holds the pointer still for this long (in milliseconds) before
+ * letting go, they've stopped dragging, so the camera shouldn't glide.
+ */
+const RELEASE_GLIDE_TIMEOUT = 100;
+
+/**
+ * Roughly how many pixels a wheel event scrolls by when it's measured in lines
+ * or pages instead (which some browsers and mice do).
+ */
+const WHEEL_LINE_HEIGHT = 16;
+const WHEEL_PAGE_HEIGHT = 800;
+
+/**
+ * Lets the user move a {@link Camera} around with the mouse, touch screen, and
+ * keyboard:
+ * - Drag with the mouse, or one finger, to pan.
+ * - Scroll the mouse wheel, or pinch with two fingers, to zoom in and out
+ *   around the cursor (or between your fingers).
+ * - Use WASD or the arrow keys to pan.
+ *
+ * When you let go after dragging, the camera keeps gliding for a moment
+ * (inertia), which makes the controls feel much more natural.
+ *
+ * The controller listens for input events as soon as it's created, and
+ * {@link update} must be called every frame to apply keyboard movement and
+ * inertia. Call {@link detach} when you're done with it to stop listening.
+ *
+ * ```typescript
+ * const controller = new CameraController(camera, renderManager.canvas);
+ * renderManager.onRender(() => {
+ *   controller.update(deltaTime);
+ *   // ... render the scene
+ * });
+ * ```
+ */
+export class CameraController {
+  /**
+   * The camera's current velocity, in world units per second. This is what
+   * keeps the camera moving after you let go.
+   */
+  private velocity = vec2.create();
+
+  /**
+   * The pointers (mouse or fingers) currently pressed on the canvas, keyed by
+   * their pointer ID, with their last known position in CSS pixels.
+   */
+  private pointers = new Map<number, vec2>();
+
+  /**
+   * The time of the last pointer movement, in milliseconds, used to work out
+   * how fast the user was dragging.
+   */
+  private lastPointerMoveTime = 0;
+
+  /**
+   * The codes of the movement keys that are currently held down.
+   */
+  private keysDown = new Set<string>();
+
+  /**
+   * The value of the canvas's `touch-action` style before we changed it, so
+   * we can put it back when detaching.
+   */
+  private originalTouchAction: string;
+
+  private keyboardPanSpeed: number;
+  private wheelZoomSpeed: number;
+  private minZoom: number;
+  private maxZoom: number;
+  private inertia: number;
+  private keyboardTarget: EventTarget;
+
+  /**
+   * Creates a new CameraController and starts listening for input.
+   *
+   * @param camera The camera to control.
+   * @param canvas The canvas to listen for mouse and touch input on. This
+   * should be the canvas the camera is rendering to.
+   * @param options Optional configuration for the controls.
+   */
+  constructor(
+    private camera: Camera,
+    private canvas: HTMLCanvasElement,
+    options: CameraControllerOptions = {}
+  ) {
+    this.keyboardPanSpeed = options.keyboardPanSpeed ?? 1;
+    this.wheelZoomSpeed = options.wheelZoomSpeed ?? 0.002;
+    this.minZoom = options.minZoom ?? 0.1;
+    this.maxZoom = options.maxZoom ?? 10;
+    this.inertia = options.inertia ?? 0.05;
+    this.keyboardTarget = options.keyboardTarget ?? window;
+
+    // By default, the browser uses touch gestures on the canvas to scroll and
+    // zoom the page. We want to handle them ourselves instead.
+    this.originalTouchAction = this.canvas.style.touchAction;
+    this.canvas.style.touchAction = 'none';
+
+    // Pointer events cover the mouse, touch screens and pens all at once
+    this.canvas.addEventListener('pointerdown', this.onPointerDown);
+    this.canvas.addEventListener('pointermove', this.onPointerMove);
+    this.canvas.addEventListener('pointerup', this.onPointerUp);
+    this.canvas.addEventListener('pointercancel', this.onPointerUp);
+    // Wheel listeners must not be passive, so that we can stop the page from
+    // scrolling
+    this.canvas.addEventListener('wheel', this.onWheel, { passive: false });
+    this.keyboardTarget.addEventListener('keydown', this.onKeyDown);
+    this.keyboardTarget.addEventListener('keyup', this.onKeyUp);
+    // If the window loses focus, we'll never hear about keys being released
+    this.keyboardTarget.addEventListener('blur', this.onBlur);
+  }
+
+  /**
+   * Stops listening for input, and puts the canvas back how it was.
+   */
+  detach(): void {
+    this.canvas.removeEventListener('pointerdown', this.onPointerDown);
+    this.canvas.removeEventListener('pointermove', this.onPointerMove);
+    this.canvas.removeEventListener('pointerup', this.onPointerUp);
+    this.canvas.removeEventListener('pointercancel', this.onPointerUp);
+    this.canvas.removeEventListener('wheel', this.onWheel);
+    this.keyboardTarget.removeEventListener('keydown', this.onKeyDown);
+    this.keyboardTarget.removeEventListener('keyup', this.onKeyUp);
+    this.keyboardTarget.removeEventListener('blur', this.onBlur);
+
+    this.canvas.style.touchAction = this.originalTouchAction;
+    this.pointers.clear();
+    this.keysDown.clear();
+    vec2.zero(this.velocity);
+  }
+
+  /**
+   * Applies keyboard movement and inertia. This should be called once per
+   * frame.
+   *
+   * @param deltaTime The time since the last update, in seconds.
+   */
+  update(deltaTime: number): void {
+    // While the user is holding the camera, it goes exactly where they put it
+    if (this.pointers.size > 0) {
+      return;
+    }
+
+    const direction = this.getKeyboardDirection();
+    if (direction[0] !== 0 || direction[1] !== 0) {
+      // Holding a key moves the camera at a steady speed. We scale by the zoom
+      // so that it moves the same distance *on screen* however far in or out
+      // we are. The screen is 2 world units high at a zoom of 1.
+      vec2.scale(
+        this.velocity,
+        vec2.normalize(direction, direction),
+        (this.keyboardPanSpeed * 2) / this.camera.zoom
+      );
+    } else {
+      // Otherwise, the camera gradually slows down. Raising the inertia to the
+      // power of the elapsed time makes the slowdown the same no matter how
+      // often this is called.
+      vec2.scale(this.velocity, this.velocity, this.inertia ** deltaTime);
+      if (vec2.length(this.velocity) < MIN_INERTIA_SPEED) {
+        vec2.zero(this.velocity);
+      }
+    }
+
+    vec2.scaleAndAdd(
+      this.camera.position,
+      this.camera.position,
+      this.velocity,
+      deltaTime
+    );
+  }
+
+  /**
+   * Zooms the camera in or out, keeping the world position under a point on
+   * the canvas in the same place on screen. This is what makes it feel like
+   * you're zooming *towards* the cursor.
+   *
+   * @param factor How much to multiply the zoom by.
+   * @param clientX The x coordinate to zoom around, in CSS pixels.
+   * @param clientY The y coordinate to zoom around, in CSS pixels.
+   */
+  private zoomAt(factor: number, clientX: number, clientY: number): void {
+    const before = this.camera.screenToWorld(clientX, clientY);
+    this.camera.zoom = Math.min(
+      this.maxZoom,
+      Math.max(this.minZoom, this.camera.zoom * factor)
+    );
+    const after = this.camera.screenToWorld(clientX, clientY);
+
+    // The point under the cursor has moved from `before` to `after`, so move
+    // the camera by the difference to put it back
+    vec2.add(
+      this.camera.position,
+      this.camera.position,
+      vec2.subtract(before, before, after)
+    );
+  }
+
+  /**
+   * Works out which direction the held-down keys are asking to move in.
+   *
+   * @returns The direction, which isn't normalized. This is zero if no keys
+   * are held, or they cancel each other out.
+   */
+  private getKeyboardDirection(): vec2 {
+    const direction = vec2.create();
+    for (const key of this.keysDown) {
+      vec2.add(direction, direction, KEY_DIRECTIONS[key]);
+    }
+    return direction;
+  }
+
+  /**
+   * Gets the average position of all of the pointers on the canvas, and the
+   * average distance of each of them from it. With two fingers, that's the
+   * point halfway between them and half the distance between them.
+   */
+  private getPointerCentre(): { centre: vec2; spread: number } {
+    const centre = vec2.create();
+    for (const position of this.pointers.values()) {
+      vec2.add(centre, centre, position);
+    }
+    vec2.scale(centre, centre, 1 / this.pointers.size);
+
+    let spread = 0;
+    for (const position of this.pointers.values()) {
+      spread += vec2.distance(centre, position);
+    }
+    spread /= this.pointers.size;
+
+    return { centre, spread };
+  }
+
+  private onPointerDown = (event: PointerEvent) => {
+    // Keep receiving events for this pointer, even if it leaves the canvas
+    this.canvas.setPointerCapture?.(event.pointerId);
+    this.pointers.set(
+      event.pointerId,
+      vec2.fromValues(event.clientX, event.clientY)
+    );
+    this.lastPointerMoveTime = event.timeStamp;
+
+    // Grabbing the camera stops it gliding
+    vec2.zero(this.velocity);
+  };
+
+  private onPointerMove = (event: PointerEvent) => {
+    const position = this.pointers.get(event.pointerId);
+    if (!position) {
+      return;
+    }
+
+    // Measure where the pointers were, move this one, then measure again. The
+    // movement of the centre pans the camera, and the change in how spread out
+    // the pointers are zooms it.
+    const before = this.getPointerCentre();
+    vec2.set(position, event.clientX, event.clientY);
+    const after = this.getPointerCentre();
+
+    // Zooming around where the centre was keeps the world point under it in
+    // place, ready to be moved to where the centre is now
+    if (this.pointers.size > 1 && before.spread > 0 && after.spread > 0) {
+      this.zoomAt(
+        after.spread / before.spread,
+        before.centre[0],
+        before.centre[1]
+      );
+    }
+
+    // Move the camera so that the world point that was under the pointers
+    // stays under them
+    const worldBefore = this.camera.screenToWorld(
+      before.centre[0],
+      before.centre[1]
+    );
+    const worldAfter = this.camera.screenToWorld(
+      after.centre[0],
+      after.centre[1]
+    );
+    const movement = vec2.subtract(vec2.create(), worldBefore, worldAfter);
+    vec2.add(this.camera.position, this.camera.position, movement);
+
+    // Remember how fast the camera was moving, so that it can keep going when
+    // the user lets go
+    const deltaTime = (event.timeStamp - this.lastPointerMoveTime) / 1000;
+    if (deltaTime > 0) {
+      vec2.scale(this.velocity, movement, 1 / deltaTime);
+    }
+    this.lastPointerMoveTime = event.timeStamp;
+  };
+
+  private onPointerUp = (event: PointerEvent) => {
+    this.pointers.delete(event.pointerId);
+
+    // If the pointer hadn't moved for a while before being released, the user
+    // had stopped dragging, so the camera shouldn't glide
+    if (event.timeStamp - this.lastPointerMoveTime > RELEASE_GLIDE_TIMEOUT) {
+      vec2.zero(this.velocity);
+    }
+  };
+
+  private onWheel = (event: WheelEvent) => {
+    // Stop the page from scrolling
+    event.preventDefault();
+
+    let deltaY = event.deltaY;
+    if (event.deltaMode === WheelEvent.DOM_DELTA_LINE) {
+      deltaY *= WHEEL_LINE_HEIGHT;
+    } else if (event.deltaMode === WheelEvent.DOM_DELTA_PAGE) {
+      deltaY *= WHEEL_PAGE_HEIGHT;
+    }
+
+    // Scrolling down (positive deltaY) zooms out. Using an exponential makes
+    // each scroll step zoom by the same *proportion*, which feels consistent
+    // at every zoom level.
+    this.zoomAt(
+      Math.exp(-deltaY * this.wheelZoomSpeed),
+      event.clientX,
+      event.clientY
+    );
+  };
+
+  private onKeyDown = (event: Event) => {
+    const code = (event as KeyboardEvent).code;
+    if (code in KEY_DIRECTIONS) {
+      this.keysDown.add(code);
+    }
+  };
+
+  private onKeyUp = (event: Event) => {
+    this.keysDown.delete((event as KeyboardEvent).code);
+  };
+
+  private onBlur = () => {
+    this.keysDown.clear();
+  };
+}
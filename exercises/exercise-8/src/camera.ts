@@ -1,9 +1,35 @@
-import { vec2, mat4, vec3 } from 'gl-matrix';
+import { vec2, mat4, vec3, vec4, ReadonlyVec2 } from 'gl-matrix';
+
+/**
+ * An axis-aligned rectangle in world space.
+ */
+export interface WorldBounds {
+  /** The bottom-left corner of the rectangle. */
+  min: vec2;
+  /** The top-right corner of the rectangle. */
+  max: vec2;
+}
+
+/**
+ * Anything a scene can be viewed through: the 2D {@link Camera}, a
+ * {@link PerspectiveCamera} or an {@link OrbitCamera}.
+ *
+ * Objects only ever need the camera's view-projection matrix to draw
+ * themselves, so anything that only asks for a `RenderCamera` works with
+ * every kind of camera.
+ */
+export interface RenderCamera {
+  /**
+   * Gets the matrix that transforms world coordinates into clip space
+   * coordinates. See {@link Camera.getViewProjectionMatrix}.
+   */
+  getViewProjectionMatrix(): mat4;
+}
 
 /**
  * Represents a 2D camera for WebGL rendering.
  */
-export class Camera {
+export class Camera implements RenderCamera {
   /**
    * The position of the camera in 2D world space.
    */
@@ -165,4 +191,89 @@ export class Camera {
     // 2. Scale to fit the clip space
     return viewProjectionMatrix;
   }
+
+  /**
+   * Converts a position on the screen into a position in the world. This is
+   * what you need to work out what the user clicked on.
+   *
+   * Mouse and touch events give positions in CSS pixels relative to the top
+   * left of the browser window, in `clientX` and `clientY`. We find where that
+   * is within the canvas, convert it to clip space, and then undo the
+   * view-projection matrix to get back to world space.
+   *
+   * @remarks The canvas is usually drawn with more pixels than its size in CSS
+   * pixels (`devicePixelRatio` times more), so that it looks sharp on high DPI
+   * displays. We work in CSS pixels throughout, since that's what events use,
+   * so the device pixel ratio cancels out and doesn't affect the result.
+   *
+   * @param clientX The x coordinate, in CSS pixels, e.g. `event.clientX`.
+   * @param clientY The y coordinate, in CSS pixels, e.g. `event.clientY`.
+   * @returns The position in world space.
+   */
+  screenToWorld(clientX: number, clientY: number): vec2 {
+    const rect = this.canvas.getBoundingClientRect();
+
+    // Convert to clip space, where the canvas goes from -1 to 1 in each
+    // direction. On screen, y goes down, but in clip space y goes up, so we
+    // flip it.
+    const clipX = ((clientX - rect.left) / rect.width) * 2 - 1;
+    const clipY = 1 - ((clientY - rect.top) / rect.height) * 2;
+
+    // The view-projection matrix takes us from world space to clip space, so
+    // its inverse takes us back the other way
+    const inverseViewProjection = mat4.invert(
+      mat4.create(),
+      this.getViewProjectionMatrix()
+    );
+    const world = vec3.transformMat4(
+      vec3.create(),
+      vec3.fromValues(clipX, clipY, 0),
+      inverseViewProjection
+    );
+
+    return vec2.fromValues(world[0], world[1]);
+  }
+
+  /**
+   * Converts a position in the world into a position on the screen. This is
+   * the opposite of {@link screenToWorld}, and is useful for placing HTML
+   * elements (like labels) on top of things in the scene.
+   *
+   * @param position The position in world space.
+   * @returns The position in CSS pixels relative to the top left of the
+   * browser window, the same as `clientX` and `clientY` in events.
+   */
+  worldToScreen(position: ReadonlyVec2): vec2 {
+    const clip = vec4.transformMat4(
+      vec4.create(),
+      vec4.fromValues(position[0], position[1], 0, 1),
+      this.getViewProjectionMatrix()
+    );
+
+    // Go from clip space (-1 to 1, y up) to CSS pixels (0 to the size of the
+    // canvas, y down), and then offset by where the canvas is on the page
+    const rect = this.canvas.getBoundingClientRect();
+    return vec2.fromValues(
+      rect.left + ((clip[0] + 1) / 2) * rect.width,
+      rect.top + ((1 - clip[1]) / 2) * rect.height
+    );
+  }
+
+  /**
+   * Gets the rectangle of the world that's currently visible on screen. This
+   * is useful for skipping objects that are off screen, or for drawing things
+   * (like a background grid) that should fill the screen.
+   *
+   * @returns The visible area, in world space.
+   */
+  getVisibleWorldBounds(): WorldBounds {
+    const rect = this.canvas.getBoundingClientRect();
+
+    // The corners of the canvas. The bottom left of the canvas is the
+    // bottom left (minimum) corner of the world, as world y goes up.
+    const bottomLeft = this.screenToWorld(rect.left, rect.bottom);
+    const topRight = this.screenToWorld(rect.right, rect.top);
+
+    return { min: bottomLeft, max: topRight };
+  }
 }
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+
+import { CanvasResizer, CanvasResizerOptions } from './canvas-resizer';
+import { ManualScheduler } from './frame-scheduler';
+
+/**
+ * Creates a stand-in for a canvas displayed at a given CSS size, which counts
+ * how many times its drawing buffer is reallocated (i.e. how many times its
+ * width or height are set).
+ */
+function createCanvas(clientWidth: number, clientHeight: number) {
+  let width = 300;
+  let height = 150;
+  const canvas = {
+    clientWidth,
+    clientHeight,
+    sizeChanges: 0,
+    get width() {
+      return width;
+    },
+    set width(value: number) {
+      width = value;
+      canvas.sizeChanges++;
+    },
+    get height() {
+      return height;
+    },
+    set height(value: number) {
+      height = value;
+      canvas.sizeChanges++;
+    },
+  };
+  return canvas;
+}
+
+/**
+ * Creates a resizer for a canvas displayed at 400x300 CSS pixels. There's no
+ * `ResizeObserver` in Node, so size changes are picked up with
+ * {@link CanvasResizer.measure}.
+ */
+function createResizer(
+  devicePixelRatio = 1,
+  options: CanvasResizerOptions = {}
+) {
+  const scheduler = new ManualScheduler();
+  scheduler.devicePixelRatio = devicePixelRatio;
+  const canvas = createCanvas(400, 300);
+  const resizer = new CanvasResizer(canvas as unknown as HTMLCanvasElement, {
+    ...options,
+    scheduler,
+  });
+
+  const resizes: [number, number][] = [];
+  resizer.onResize((width, height) => resizes.push([width, height]));
+
+  return { scheduler, canvas, resizer, resizes };
+}
+
+describe('CanvasResizer', () => {
+  it('sizes the drawing buffer to the displayed size in physical pixels', () => {
+    const { canvas, resizer, resizes } = createResizer(1.5);
+
+    expect(resizer.update()).toBe(true);
+    expect([canvas.width, canvas.height]).toEqual([600, 450]);
+    expect(resizes).toEqual([[600, 450]]);
+  });
+
+  it('does nothing when the size is unchanged', () => {
+    const { canvas, resizer, resizes } = createResizer();
+    resizer.update();
+    const sizeChanges = canvas.sizeChanges;
+
+    expect(resizer.update()).toBe(false);
+    resizer.measure();
+    expect(resizer.update()).toBe(false);
+
+    // Setting the size reallocates the drawing buffer, even to the same size
+    expect(canvas.sizeChanges).toBe(sizeChanges);
+    expect(resizes).toHaveLength(1);
+  });
+
+  it('caps the device pixel ratio at maxDevicePixelRatio', () => {
+    const { canvas, resizer } = createResizer(3, { maxDevicePixelRatio: 2 });
+    resizer.update();
+
+    expect([canvas.width, canvas.height]).toEqual([800, 600]);
+  });
+
+  it('scales the size by resolutionScale', () => {
+    const { canvas, resizer, resizes } = createResizer(2, {
+      resolutionScale: 0.5,
+    });
+    resizer.update();
+    expect([canvas.width, canvas.height]).toEqual([400, 300]);
+
+    resizer.resolutionScale = 0.25;
+    resizer.update();
+    expect([canvas.width, canvas.height]).toEqual([200, 150]);
+    expect(resizes).toEqual([
+      [400, 300],
+      [200, 150],
+    ]);
+  });
+
+  it('rejects a resolution scale that is not positive', () => {
+    const { resizer } = createResizer();
+
+    expect(() => (resizer.resolutionScale = 0)).toThrow(
+      'Invalid resolution scale: 0'
+    );
+  });
+
+  it('calls onResize only when the displayed size or ratio changes', () => {
+    const { scheduler, canvas, resizer, resizes } = createResizer();
+    resizer.update();
+
+    canvas.clientWidth = 500;
+    resizer.measure();
+    resizer.update();
+    resizer.update();
+
+    // E.g. the window being dragged to a display with a higher density
+    scheduler.devicePixelRatio = 2;
+    resizer.measure();
+    resizer.update();
+
+    expect(resizes).toEqual([
+      [400, 300],
+      [500, 300],
+      [1000, 600],
+    ]);
+  });
+
+  it('never makes the drawing buffer 0 pixels in size', () => {
+    const { canvas, resizer } = createResizer();
+    canvas.clientWidth = 0;
+    canvas.clientHeight = 0;
+    resizer.measure();
+    resizer.update();
+
+    expect([canvas.width, canvas.height]).toEqual([1, 1]);
+  });
+
+  it('stops calling resize callbacks once they are removed', () => {
+    const { canvas, resizer } = createResizer();
+    let calls = 0;
+    const remove = resizer.onResize(() => calls++);
+    remove();
+
+    canvas.clientWidth = 500;
+    resizer.measure();
+    resizer.update();
+
+    expect(calls).toBe(0);
+  });
+});
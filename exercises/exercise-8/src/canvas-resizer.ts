@@ -0,0 +1,237 @@
+import { FrameScheduler, browserScheduler } from './frame-scheduler';
+
+/**
+ * Options for a {@link CanvasResizer}.
+ */
+export interface CanvasResizerOptions {
+  /**
+   * The highest device pixel ratio to render at. Some phones have a device
+   * pixel ratio of 3 or more, which means rendering 9 times as many pixels as
+   * at a ratio of 1, and it's rarely possible to tell the difference past 2.
+   * Default is 2.
+   */
+  maxDevicePixelRatio?: number;
+  /**
+   * A multiplier for the final size. For example, 0.5 renders at half the
+   * resolution (a quarter of the pixels), which the browser then stretches to
+   * fill the canvas. This is a simple way to trade sharpness for speed.
+   * Default is 1.
+   */
+  resolutionScale?: number;
+  /**
+   * Where the device pixel ratio comes from. Default is
+   * {@link browserScheduler}.
+   */
+  scheduler?: FrameScheduler;
+}
+
+/**
+ * Called when the size of the canvas's drawing buffer changes.
+ *
+ * @param width The new width, in pixels.
+ * @param height The new height, in pixels.
+ */
+export type ResizeCallback = (width: number, height: number) => void;
+
+/**
+ * Keeps the size of a canvas's drawing buffer matched to the size it's
+ * displayed at.
+ *
+ * A canvas has two sizes: the size it's displayed at on the page (set with
+ * CSS), and the size of its drawing buffer, i.e. how many pixels we actually
+ * render (set with `canvas.width` and `canvas.height`). If the drawing buffer
+ * is smaller than the displayed size, the browser stretches it and everything
+ * looks blurry, so we want them to match.
+ *
+ * We use a `ResizeObserver` to find out when the displayed size changes. This
+ * catches every change, whether it's the window being resized, the layout
+ * around the canvas changing, or the page being zoomed. Where it's supported,
+ * we ask for the size in *device pixels* (`devicePixelContentBoxSize`), which
+ * gives us the exact number of physical pixels the canvas covers, rather than
+ * multiplying the CSS size by the device pixel ratio and rounding, which can be
+ * off by one and make the image slightly blurry.
+ *
+ * Setting `canvas.width` or `canvas.height` throws away the drawing buffer and
+ * allocates a new one (even if the size is the same!), so we only do it when
+ * the size has actually changed. We also don't do it as soon as the observer
+ * tells us about a change, but wait for {@link update} to be called just
+ * before the next frame is rendered. Otherwise, the canvas would be cleared
+ * after the last frame was rendered but before it was shown, which causes a
+ * flicker.
+ */
+export class CanvasResizer {
+  /**
+   * The highest device pixel ratio to render at. See
+   * {@link CanvasResizerOptions.maxDevicePixelRatio}.
+   */
+  public maxDevicePixelRatio: number;
+
+  private resizeCallbacks: ResizeCallback[] = [];
+  private observer: ResizeObserver | null = null;
+  private _resolutionScale: number;
+  private scheduler: FrameScheduler;
+
+  /**
+   * The size the canvas is displayed at, in physical pixels, as last observed.
+   */
+  private devicePixelWidth = 0;
+  private devicePixelHeight = 0;
+
+  /**
+   * The device pixel ratio at the time the size above was observed.
+   */
+  private observedDevicePixelRatio = 1;
+
+  /**
+   * Starts watching the size of a canvas. Call {@link update} before rendering
+   * each frame to apply any changes.
+   *
+   * @param canvas The canvas to keep the size of up to date.
+   * @param options Optional configuration.
+   */
+  constructor(
+    private canvas: HTMLCanvasElement,
+    options: CanvasResizerOptions = {}
+  ) {
+    this.maxDevicePixelRatio = options.maxDevicePixelRatio ?? 2;
+    this._resolutionScale = options.resolutionScale ?? 1;
+    this.scheduler = options.scheduler ?? browserScheduler;
+
+    // The observer only tells us the size some time later, so measure it now
+    // so that the first frame is the right size
+    this.measure();
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this.observer = new ResizeObserver(this.onObserve);
+      try {
+        this.observer.observe(canvas, { box: 'device-pixel-content-box' });
+      } catch {
+        // Some browsers (Safari) don't support observing the size in device
+        // pixels, so we have to work it out from the size in CSS pixels
+        this.observer.observe(canvas, { box: 'content-box' });
+      }
+    }
+  }
+
+  /**
+   * The width of the drawing buffer, in pixels.
+   */
+  get width(): number {
+    return this.canvas.width;
+  }
+
+  /**
+   * The height of the drawing buffer, in pixels.
+   */
+  get height(): number {
+    return this.canvas.height;
+  }
+
+  /**
+   * A multiplier for the final size. See
+   * {@link CanvasResizerOptions.resolutionScale}.
+   */
+  get resolutionScale(): number {
+    return this._resolutionScale;
+  }
+
+  set resolutionScale(resolutionScale: number) {
+    if (resolutionScale <= 0) {
+      throw new Error(`Invalid resolution scale: ${resolutionScale}`);
+    }
+    this._resolutionScale = resolutionScale;
+  }
+
+  /**
+   * Adds a callback to be called whenever the drawing buffer changes size.
+   * This is useful for anything that depends on the size of the canvas, like
+   * a texture we render into that needs to be the same size.
+   *
+   * @returns A function that removes the callback again.
+   */
+  onResize(callback: ResizeCallback): () => void {
+    this.resizeCallbacks.push(callback);
+    return () => {
+      const index = this.resizeCallbacks.indexOf(callback);
+      if (index !== -1) {
+        this.resizeCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Measures the size the canvas is displayed at from its CSS size. This
+   * happens automatically when the resizer is created, but can be called again
+   * if there's no `ResizeObserver` to tell us about changes.
+   */
+  measure(): void {
+    const devicePixelRatio = this.scheduler.getDevicePixelRatio();
+    this.devicePixelWidth = Math.round(
+      this.canvas.clientWidth * devicePixelRatio
+    );
+    this.devicePixelHeight = Math.round(
+      this.canvas.clientHeight * devicePixelRatio
+    );
+    this.observedDevicePixelRatio = devicePixelRatio;
+  }
+
+  /**
+   * Resizes the drawing buffer if the size it should be has changed, and calls
+   * the resize callbacks if so. Call this once per frame, before rendering.
+   *
+   * @returns Whether the drawing buffer was resized.
+   */
+  update(): boolean {
+    // If the device pixel ratio is over the limit, scale the size down to what
+    // it would be at the limit
+    const scale =
+      (Math.min(this.observedDevicePixelRatio, this.maxDevicePixelRatio) /
+        this.observedDevicePixelRatio) *
+      this._resolutionScale;
+
+    // A drawing buffer can't be 0 pixels in size, which can happen when the
+    // canvas is hidden
+    const width = Math.max(1, Math.round(this.devicePixelWidth * scale));
+    const height = Math.max(1, Math.round(this.devicePixelHeight * scale));
+
+    if (width === this.canvas.width && height === this.canvas.height) {
+      return false;
+    }
+
+    this.canvas.width = width;
+    this.canvas.height = height;
+    for (const callback of this.resizeCallbacks) {
+      callback(width, height);
+    }
+    return true;
+  }
+
+  /**
+   * Stops watching the size of the canvas, and removes all resize callbacks.
+   */
+  disconnect(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.resizeCallbacks = [];
+  }
+
+  /**
+   * Called by the `ResizeObserver` when the canvas's displayed size changes.
+   */
+  private onObserve = (entries: ResizeObserverEntry[]) => {
+    // We only observe the one canvas, so the last entry is the latest size
+    const entry = entries[entries.length - 1];
+    const devicePixelRatio = this.scheduler.getDevicePixelRatio();
+    const devicePixelSize = entry.devicePixelContentBoxSize?.[0];
+
+    if (devicePixelSize) {
+      this.devicePixelWidth = devicePixelSize.inlineSize;
+      this.devicePixelHeight = devicePixelSize.blockSize;
+    } else {
+      const size = entry.contentBoxSize[0];
+      this.devicePixelWidth = Math.round(size.inlineSize * devicePixelRatio);
+      this.devicePixelHeight = Math.round(size.blockSize * devicePixelRatio);
+    }
+    this.observedDevicePixelRatio = devicePixelRatio;
+  };
+}
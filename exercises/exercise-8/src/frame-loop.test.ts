@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+
+import { Clock, FrameLoop } from './frame-loop';
+import { ManualScheduler } from './frame-scheduler';
+
+/**
+ * Creates a loop driven by a {@link ManualScheduler}, which records each
+ * update and render in `calls`.
+ *
+ * 8 updates per second and 125ms frames keep every number exact in floating
+ * point, so each frame fits exactly one update.
+ */
+function createLoop(maxUpdatesPerFrame?: number) {
+  const scheduler = new ManualScheduler(125);
+  const loop = new FrameLoop({
+    updatesPerSecond: 8,
+    maxUpdatesPerFrame,
+    scheduler,
+  });
+
+  const calls: string[] = [];
+  // The loop's clock, as the last render saw it
+  let clock: Clock | null = null;
+  loop.onUpdate(() => calls.push('update'));
+  loop.onRender((_alpha, renderClock) => {
+    calls.push('render');
+    clock = { ...renderClock };
+  });
+
+  return { scheduler, loop, calls, getClock: () => clock };
+}
+
+describe('FrameLoop', () => {
+  it('does nothing until the scheduler runs a frame', () => {
+    const { scheduler, loop, calls } = createLoop();
+    loop.start();
+
+    expect(loop.isRunning).toBe(true);
+    expect(scheduler.pendingFrameCount).toBe(1);
+    expect(calls).toEqual([]);
+  });
+
+  it('runs fixed updates before rendering each frame', () => {
+    const { scheduler, loop, calls, getClock } = createLoop();
+    loop.start();
+    scheduler.advanceFrames(3);
+
+    expect(calls).toEqual([
+      'update',
+      'render',
+      'update',
+      'render',
+      'update',
+      'render',
+    ]);
+    expect(getClock()).toMatchObject({
+      time: 0.375,
+      deltaTime: 0.125,
+      updateCount: 3,
+    });
+  });
+
+  it('catches up with several updates after a long frame', () => {
+    const { scheduler, loop, calls } = createLoop();
+    loop.start();
+    scheduler.advance(250);
+
+    expect(calls).toEqual(['update', 'update', 'render']);
+  });
+
+  it('gives up on updates past maxUpdatesPerFrame', () => {
+    const { scheduler, loop, calls } = createLoop(1);
+    loop.start();
+    scheduler.advance(250);
+
+    expect(calls).toEqual(['update', 'render']);
+
+    // The time that was given up on isn't made up for later
+    scheduler.advance();
+    expect(calls).toEqual(['update', 'render', 'update', 'render']);
+  });
+
+  it('keeps rendering without updating while paused', () => {
+    const { scheduler, loop, calls, getClock } = createLoop();
+    loop.start();
+    loop.pause();
+    scheduler.advanceFrames(2);
+
+    expect(calls).toEqual(['render', 'render']);
+    expect(getClock()?.time).toBe(0);
+
+    // The time spent paused doesn't count once resumed
+    loop.resume();
+    scheduler.advance();
+    expect(getClock()?.updateCount).toBe(1);
+  });
+
+  it("doesn't lose time when resumed without being paused", () => {
+    const { scheduler, loop, getClock } = createLoop();
+    loop.start();
+    scheduler.advance();
+
+    // Resuming halfway between frames mustn't restart the time since the
+    // last one, so the next frame still catches up on both updates
+    scheduler.time += 100;
+    loop.resume();
+    scheduler.advance(150);
+    expect(getClock()?.updateCount).toBe(3);
+  });
+
+  it('runs updates faster with a higher timeScale', () => {
+    const { scheduler, loop, calls } = createLoop();
+    loop.timeScale = 2;
+    loop.start();
+    scheduler.advance();
+
+    expect(calls).toEqual(['update', 'update', 'render']);
+  });
+
+  it('runs a single update with step() while stopped', () => {
+    const { loop, calls, getClock } = createLoop();
+    loop.step();
+
+    expect(calls).toEqual(['update', 'render']);
+    expect(getClock()?.updateCount).toBe(1);
+  });
+
+  it('runs no more frames once stopped', () => {
+    const { scheduler, loop, calls } = createLoop();
+    loop.start();
+    loop.stop();
+    scheduler.advanceFrames(2);
+
+    expect(loop.isRunning).toBe(false);
+    expect(scheduler.pendingFrameCount).toBe(0);
+    expect(calls).toEqual([]);
+  });
+});
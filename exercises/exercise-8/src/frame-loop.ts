@@ -0,0 +1,312 @@
+import { FrameScheduler, browserScheduler } from './frame-scheduler';
+
+/**
+ * Keeps track of time as seen by the loop. This is passed to every update and
+ * render callback, so that anything animated can use it instead of reading the
+ * wall clock (e.g. `performance.now()`). That way, pausing, slowing down or
+ * stepping the loop affects everything consistently.
+ */
+export interface Clock {
+  /**
+   * How much time has been simulated so far, in seconds. This only moves
+   * forward when updates run, so it stands still while the loop is paused and
+   * moves slower or faster with {@link FrameLoop.timeScale}.
+   */
+  readonly time: number;
+  /**
+   * The time to use when rendering, in seconds. Updates happen in fixed steps,
+   * so the frame being rendered usually falls somewhere between two of them;
+   * this is {@link time} plus however far through the next step we are. Use
+   * this for anything that should animate smoothly, like a shader's time
+   * uniform.
+   */
+  readonly renderTime: number;
+  /**
+   * The length of each fixed update step, in seconds.
+   */
+  readonly deltaTime: number;
+  /**
+   * How many updates have run so far.
+   */
+  readonly updateCount: number;
+  /**
+   * How many frames have been rendered so far.
+   */
+  readonly frameCount: number;
+}
+
+/**
+ * Called for each fixed update step.
+ *
+ * @param deltaTime The length of the step, in seconds. This is always the
+ * same, which keeps things like physics stable and predictable.
+ * @param clock The loop's clock.
+ */
+export type UpdateCallback = (deltaTime: number, clock: Clock) => void;
+
+/**
+ * Called for each frame that's rendered.
+ *
+ * @param alpha How far we are between the last update and the next one, from
+ * 0 to 1. This can be used to smoothly blend between the previous and current
+ * state of anything that moves.
+ * @param clock The loop's clock.
+ */
+export type RenderCallback = (alpha: number, clock: Clock) => void;
+
+/**
+ * Options for a {@link FrameLoop}.
+ */
+export interface FrameLoopOptions {
+  /**
+   * How many fixed updates to run per second of (scaled) time. Default is 60.
+   */
+  updatesPerSecond?: number;
+  /**
+   * The most updates to run in a single frame. If the page is slow or hidden
+   * for a while, we'd otherwise try to catch up on every missed update at
+   * once, which would make the page even slower (the "spiral of death"), so
+   * past this limit we skip ahead instead. Default is 5.
+   */
+  maxUpdatesPerFrame?: number;
+  /**
+   * Where the loop gets its frames and the current time from. Default is
+   * {@link browserScheduler}, which uses `requestAnimationFrame` and
+   * `performance.now()`. Pass a {@link ManualScheduler} to step through frames
+   * by hand, e.g. in tests.
+   */
+  scheduler?: FrameScheduler;
+}
+
+/**
+ * The longest gap between frames we'll account for, in seconds. If the tab is
+ * in the background, `requestAnimationFrame` stops firing, and we don't want
+ * to try to simulate all of the time it was away for when it comes back.
+ */
+const MAX_FRAME_TIME = 0.25;
+
+/**
+ * Runs the game loop: updates the scene in fixed time steps, and renders it
+ * every frame.
+ *
+ * Why separate updating from rendering? The browser renders frames at
+ * whatever rate the display runs at, which might be 60 times a second, or 144,
+ * or it might stutter. If we moved things by a fixed amount per frame, they'd
+ * move at different speeds on different displays. If we moved them by the
+ * time since the last frame instead, physics and collisions would behave
+ * differently depending on the frame rate.
+ *
+ * Instead, we keep an *accumulator* of time that has passed. Each frame, we
+ * add the time since the last frame to it, and then run as many updates of a
+ * fixed length as fit into it. Whatever's left over is carried over to the
+ * next frame. See https://gafferongames.com/post/fix_your_timestep/ for a
+ * great explanation.
+ */
+export class FrameLoop {
+  /**
+   * How fast time passes in the loop. 1 is normal speed, 0.5 is half speed
+   * (slow motion), 2 is double speed, and so on.
+   */
+  public timeScale = 1;
+
+  /**
+   * Where the loop gets its frames and the current time from.
+   */
+  public readonly scheduler: FrameScheduler;
+
+  private updateCallbacks: UpdateCallback[] = [];
+  private renderCallbacks: RenderCallback[] = [];
+
+  /**
+   * The state of the clock, which is passed (read-only) to callbacks.
+   */
+  private clock = {
+    time: 0,
+    renderTime: 0,
+    deltaTime: 0,
+    updateCount: 0,
+    frameCount: 0,
+  };
+
+  /**
+   * How much time has passed that hasn't been used up by an update yet, in
+   * seconds.
+   */
+  private accumulator = 0;
+
+  private maxUpdatesPerFrame: number;
+
+  /**
+   * The ID of the next scheduled frame, or `null` if the loop isn't running.
+   */
+  private frameRequest: number | null = null;
+
+  /**
+   * The timestamp of the last frame (or of when the loop started or resumed),
+   * in milliseconds, on the scheduler's timeline.
+   */
+  private lastFrameTime = 0;
+
+  private paused = false;
+
+  /**
+   * Creates a new FrameLoop. It doesn't start running until {@link start} is
+   * called.
+   *
+   * @param options Optional configuration for the loop.
+   */
+  constructor(options: FrameLoopOptions = {}) {
+    this.clock.deltaTime = 1 / (options.updatesPerSecond ?? 60);
+    this.maxUpdatesPerFrame = options.maxUpdatesPerFrame ?? 5;
+    this.scheduler = options.scheduler ?? browserScheduler;
+  }
+
+  /**
+   * Whether the loop is currently running, i.e. it's been started and not
+   * stopped. A paused loop is still running, as it keeps rendering.
+   */
+  get isRunning(): boolean {
+    return this.frameRequest !== null;
+  }
+
+  /**
+   * Whether the loop is paused.
+   */
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Adds a callback to be called for each fixed update step. Use this to move
+   * things around, run physics, and so on.
+   */
+  onUpdate(callback: UpdateCallback): void {
+    this.updateCallbacks.push(callback);
+  }
+
+  /**
+   * Adds a callback to be called every frame. Use this to render your scene.
+   */
+  onRender(callback: RenderCallback): void {
+    this.renderCallbacks.push(callback);
+  }
+
+  /**
+   * Starts the loop. It does nothing if the loop is already running.
+   */
+  start(): void {
+    if (this.isRunning) {
+      return;
+    }
+    this.lastFrameTime = this.scheduler.now();
+    this.frameRequest = this.scheduler.requestFrame(this.frame);
+  }
+
+  /**
+   * Stops the loop entirely, so that nothing is updated or rendered until
+   * {@link start} is called again.
+   */
+  stop(): void {
+    if (this.frameRequest !== null) {
+      this.scheduler.cancelFrame(this.frameRequest);
+      this.frameRequest = null;
+    }
+    this.accumulator = 0;
+  }
+
+  /**
+   * Pauses the loop. No updates run and the clock stands still, but frames
+   * are still rendered, so anything that changes outside of updates (like
+   * dragging the camera around) still shows up.
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  /**
+   * Resumes the loop after it's been paused.
+   */
+  resume(): void {
+    // Otherwise the time since the last frame would be thrown away
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    // Don't count the time spent paused
+    this.lastFrameTime = this.scheduler.now();
+  }
+
+  /**
+   * Runs exactly one update step. This is useful for stepping through an
+   * animation frame by frame while the loop is paused.
+   */
+  step(): void {
+    this.update();
+
+    // If the loop isn't running, nothing else will render the result
+    if (!this.isRunning) {
+      this.render();
+    }
+  }
+
+  /**
+   * Called by the scheduler for each frame.
+   *
+   * @param now The time of the frame, in milliseconds.
+   */
+  private frame = (now: number) => {
+    // Schedule the next frame first, so that a callback can stop the loop
+    this.frameRequest = this.scheduler.requestFrame(this.frame);
+
+    // The browser gives each frame the time it started, which can be a little
+    // earlier than when the loop was started, so make sure we don't go
+    // backwards
+    const frameTime = Math.min(
+      Math.max(0, now - this.lastFrameTime) / 1000,
+      MAX_FRAME_TIME
+    );
+    this.lastFrameTime = now;
+
+    if (!this.paused) {
+      this.accumulator += frameTime * this.timeScale;
+
+      let updates = 0;
+      while (this.accumulator >= this.clock.deltaTime) {
+        if (updates === this.maxUpdatesPerFrame) {
+          // We've fallen too far behind to catch up, so give up on the rest
+          this.accumulator = 0;
+          break;
+        }
+        this.update();
+        this.accumulator -= this.clock.deltaTime;
+        updates++;
+      }
+    }
+
+    this.render();
+  };
+
+  /**
+   * Runs a single fixed update step.
+   */
+  private update(): void {
+    for (const callback of this.updateCallbacks) {
+      callback(this.clock.deltaTime, this.clock);
+    }
+    this.clock.time += this.clock.deltaTime;
+    this.clock.updateCount++;
+  }
+
+  /**
+   * Renders a single frame.
+   */
+  private render(): void {
+    const alpha = this.accumulator / this.clock.deltaTime;
+    this.clock.renderTime = this.clock.time + alpha * this.clock.deltaTime;
+
+    for (const callback of this.renderCallbacks) {
+      callback(alpha, this.clock);
+    }
+    this.clock.frameCount++;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * A function to be called when a frame is due.
+ *
+ * @param time The time of the frame, in milliseconds.
+ */
+export type FrameRequestCallback = (time: number) => void;
+
+/**
+ * Everything the render loop needs from the browser: a way to ask for the next
+ * frame, the current time, and the device pixel ratio.
+ *
+ * Normally these come straight from the browser (see {@link browserScheduler}),
+ * but keeping them behind an interface means the loop can be driven by
+ * something else instead. For example, a test running in Node (which has no
+ * `requestAnimationFrame` or `window`) can use a {@link ManualScheduler} to
+ * step through frames one at a time and check what happened after each one.
+ */
+export interface FrameScheduler {
+  /**
+   * Asks for `callback` to be called when the next frame is due, like
+   * `requestAnimationFrame`.
+   *
+   * @returns A handle that can be passed to {@link cancelFrame}.
+   */
+  requestFrame(callback: FrameRequestCallback): number;
+
+  /**
+   * Cancels a frame requested with {@link requestFrame}, like
+   * `cancelAnimationFrame`.
+   */
+  cancelFrame(handle: number): void;
+
+  /**
+   * Gets the current time, in milliseconds, like `performance.now()`. This has
+   * to be on the same timeline as the times passed to frame callbacks.
+   */
+  now(): number;
+
+  /**
+   * Gets how many physical pixels there are per CSS pixel, like
+   * `window.devicePixelRatio`.
+   */
+  getDevicePixelRatio(): number;
+}
+
+/**
+ * A {@link FrameScheduler} that uses the browser's own functions. This is the
+ * default everywhere a scheduler can be passed in.
+ */
+export const browserScheduler: FrameScheduler = {
+  requestFrame: (callback) => requestAnimationFrame(callback),
+  cancelFrame: (handle) => cancelAnimationFrame(handle),
+  now: () => performance.now(),
+  getDevicePixelRatio: () => window.devicePixelRatio || 1,
+};
+
+/**
+ * A {@link FrameScheduler} that only runs frames when told to, so that time is
+ * completely under your control. This makes the loop deterministic: the same
+ * calls always produce the same updates and renders, no matter how fast the
+ * machine is.
+ *
+ * @example
+ * const scheduler = new ManualScheduler();
+ * const loop = new FrameLoop({ scheduler });
+ * loop.onUpdate(() => updates++);
+ * loop.start();
+ *
+ * // Run one second's worth of frames at 60 frames per second
+ * scheduler.advanceFrames(60);
+ */
+export class ManualScheduler implements FrameScheduler {
+  /**
+   * The current time, in milliseconds. This starts at 0 and only moves
+   * forward when {@link advance} is called.
+   */
+  public time = 0;
+
+  /**
+   * The device pixel ratio to report. Change this to simulate moving the page
+   * to a display with a different pixel density.
+   */
+  public devicePixelRatio = 1;
+
+  /**
+   * The callbacks waiting for the next frame, by their handle.
+   */
+  private callbacks = new Map<number, FrameRequestCallback>();
+
+  private nextHandle = 1;
+
+  /**
+   * Creates a new ManualScheduler.
+   *
+   * @param frameTime How long each frame lasts by default, in milliseconds.
+   * Default is 1000 / 60, i.e. 60 frames per second.
+   */
+  constructor(public frameTime = 1000 / 60) {}
+
+  /**
+   * How many callbacks are waiting for the next frame.
+   */
+  get pendingFrameCount(): number {
+    return this.callbacks.size;
+  }
+
+  requestFrame(callback: FrameRequestCallback): number {
+    const handle = this.nextHandle++;
+    this.callbacks.set(handle, callback);
+    return handle;
+  }
+
+  cancelFrame(handle: number): void {
+    this.callbacks.delete(handle);
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  getDevicePixelRatio(): number {
+    return this.devicePixelRatio;
+  }
+
+  /**
+   * Moves time forward and runs a single frame.
+   *
+   * Just like in the browser, only the callbacks that were waiting before the
+   * frame started are called. Anything requested during the frame (such as
+   * the loop scheduling its next frame) waits for the next call.
+   *
+   * @param frameTime How far to move time forward, in milliseconds. Defaults
+   * to {@link frameTime}.
+   */
+  advance(frameTime = this.frameTime): void {
+    this.time += frameTime;
+
+    const callbacks = [...this.callbacks.values()];
+    this.callbacks.clear();
+    for (const callback of callbacks) {
+      callback(this.time);
+    }
+  }
+
+  /**
+   * Runs several frames in a row. See {@link advance}.
+   *
+   * @param count How many frames to run.
+   * @param frameTime How long each frame lasts, in milliseconds. Defaults to
+   * {@link frameTime}.
+   */
+  advanceFrames(count: number, frameTime = this.frameTime): void {
+    for (let i = 0; i < count; i++) {
+      this.advance(frameTime);
+    }
+  }
+}
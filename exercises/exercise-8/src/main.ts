@@ -1,9 +1,18 @@
 // Exercise 8: More textures
 
 import { Camera } from './camera';
+import { CameraController } from './camera-controller';
 import { RenderManager } from './render-manager';
+import { RenderQueue } from './render-queue';
 import { TriangleObject } from './triangle-object';
 
+/**
+ * How far the pointer can move between being pressed and released, in CSS
+ * pixels, for the click to still count as a click. Any further and it was a
+ * drag to move the camera, which shouldn't change what's highlighted.
+ */
+const CLICK_SLOP = 4;
+
 /**
  * Main function to set up WebGL and start the render loop.
  */
@@ -14,18 +23,50 @@ function main() {
   // Create a camera that we'll use to view the scene
   const camera = new Camera(canvas.canvas);
 
+  // Let the user move the camera around with the mouse, touch and keyboard
+  const cameraController = new CameraController(camera, canvas.canvas);
+
   // Create a simple triangle mesh that we want to render
   const triangle = new TriangleObject(canvas.gl, camera);
 
-  // Every frame, render the triangle using the program
-  canvas.onRender(() => {
-    // Move the camera in a circle
-    camera.zoom = 1;
-    camera.position[0] = Math.sin(performance.now() * 0.0002);
-    camera.position[1] = Math.cos(performance.now() * 0.0002);
+  // Highlight the triangle when it's clicked, and clear the highlight when
+  // anywhere else is clicked
+  const picker = canvas.createPicker<TriangleObject>();
+  picker.add(triangle);
+  let pressedAt: [number, number] | null = null;
+  canvas.canvas.addEventListener('pointerdown', (event) => {
+    pressedAt = [event.clientX, event.clientY];
+  });
+  canvas.canvas.addEventListener('click', (event) => {
+    // A drag ends with a click too, so ignore it if the pointer has moved
+    if (
+      pressedAt &&
+      Math.hypot(event.clientX - pressedAt[0], event.clientY - pressedAt[1]) >
+        CLICK_SLOP
+    ) {
+      return;
+    }
+    // Picking can fail (e.g. if the GPU runs out of memory), and there's
+    // nothing else waiting on it to report the error
+    picker
+      .pick(event.clientX, event.clientY)
+      .then((result) => triangle.setHighlighted(result !== null))
+      .catch((error) => console.error('Failed to pick', error));
+  });
+
+  // Every update step, apply any keyboard movement and inertia to the camera
+  canvas.onUpdate((deltaTime) => {
+    cameraController.update(deltaTime);
+  });
+
+  // Everything that's drawn goes through a render queue, which draws it all
+  // in the best order at the end of the frame
+  const queue = new RenderQueue(canvas.gl);
 
-    // Render the triangle
-    triangle.render();
+  // Every frame, add the triangle to the queue, then draw everything in it
+  canvas.onRender((_alpha, clock) => {
+    triangle.render(queue);
+    queue.execute({ camera, clock });
   });
 
   // Start rendering to the canvas every frame
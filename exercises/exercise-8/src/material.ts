@@ -0,0 +1,286 @@
+import { RenderCamera } from './camera';
+import { Clock } from './frame-loop';
+import { Program, ProgramOptions, UniformValue } from './program';
+import { Texture } from './texture';
+
+/**
+ * Everything about the frame being rendered that a {@link Material} might
+ * need for its uniforms.
+ */
+export interface FrameContext {
+  /** The camera the scene is being viewed through, of any kind. */
+  camera: RenderCamera;
+  /** The clock of the loop that's rendering the frame. */
+  clock: Clock;
+}
+
+/**
+ * What can go in one of a material's texture slots.
+ *
+ * A `Promise` is for a texture that's still loading, like the one returned by
+ * {@link Texture.fromURL}. Until it loads (or if it's `null`), the material
+ * uses a placeholder texture instead.
+ */
+export type MaterialTexture = Texture | Promise<Texture> | null;
+
+/**
+ * Optional configuration for a {@link Material}.
+ */
+export interface MaterialOptions extends ProgramOptions {
+  /**
+   * The starting values of the material's uniforms, keyed by name. See
+   * {@link Material.setUniform}.
+   */
+  uniforms?: Record<string, UniformValue>;
+  /**
+   * The starting textures of the material, keyed by the name of their
+   * `sampler2D` uniform. See {@link Material.setTexture}.
+   */
+  textures?: Record<string, MaterialTexture>;
+  /**
+   * The colour of the placeholder texture used while a texture is loading, as
+   * red, green, blue and alpha from 0 to 255. Default is opaque white, so that
+   * anything multiplied by the texture shows up as if it wasn't there.
+   */
+  placeholderColor?: [number, number, number, number];
+}
+
+/**
+ * A program, together with the uniform values and textures it's drawn with.
+ *
+ * Drawing something with a program usually means a lot of setup every frame:
+ * setting each uniform, choosing a texture unit for each texture, binding the
+ * textures to those units, and telling the shader which unit each one is on.
+ * A material remembers all of this, and does it in one go when
+ * {@link bind} is called:
+ *
+ * - Uniforms are kept by name, and set every time the material is bound. They
+ *   survive the WebGL context being lost, unlike values set on the program
+ *   directly.
+ * - Textures are kept in named slots, one for each `sampler2D` uniform. Each
+ *   slot gets its own texture unit, in the order the slots were added.
+ * - Textures which haven't loaded yet are replaced by a placeholder, so that
+ *   nothing needs to check whether they're ready.
+ * - The uniforms most shaders need for every frame, `uViewProjectionMatrix`
+ *   and `uTime`, are set from the {@link FrameContext} if the shader uses
+ *   them.
+ *
+ * Example usage:
+ * ```typescript
+ * const material = new Material(gl, vertexShaderSource, fragmentShaderSource, {
+ *   uniforms: { uColor: [1, 0, 0] },
+ *   textures: { uTexture: Texture.fromURL(gl, textureUrl) },
+ * });
+ *
+ * // Every frame:
+ * material.bind({ camera, clock });
+ * mesh.render(material.program);
+ * ```
+ */
+export class Material {
+  /**
+   * The program the material draws with. The material creates it, and deletes
+   * it when the material is disposed.
+   */
+  readonly program: Program;
+
+  /**
+   * The value of each uniform, keyed by name.
+   */
+  private uniforms = new Map<string, UniformValue>();
+
+  /**
+   * What's in each texture slot, keyed by the name of its `sampler2D`
+   * uniform. A `Map` remembers the order things were added in, which decides
+   * each slot's texture unit.
+   */
+  private textures = new Map<string, MaterialTexture>();
+
+  /**
+   * The texture used in place of any that aren't loaded, or `null` if it
+   * hasn't been needed yet.
+   */
+  private placeholder: Texture | null = null;
+
+  /** See {@link MaterialOptions.placeholderColor}. */
+  private placeholderColor: [number, number, number, number];
+
+  /**
+   * Creates a new material, compiling its program.
+   *
+   * @param gl The WebGL rendering context.
+   * @param vertexShaderSource The source code of the vertex shader.
+   * @param fragmentShaderSource The source code of the fragment shader.
+   * @param options Optional configuration for the material and its program.
+   */
+  constructor(
+    private gl: WebGL2RenderingContext,
+    vertexShaderSource: string,
+    fragmentShaderSource: string,
+    options: MaterialOptions = {}
+  ) {
+    this.program = new Program(
+      gl,
+      vertexShaderSource,
+      fragmentShaderSource,
+      options
+    );
+    this.placeholderColor = options.placeholderColor ?? [255, 255, 255, 255];
+
+    for (const [name, value] of Object.entries(options.uniforms ?? {})) {
+      this.setUniform(name, value);
+    }
+    for (const [name, texture] of Object.entries(options.textures ?? {})) {
+      this.setTexture(name, texture);
+    }
+  }
+
+  /**
+   * Sets the value of a uniform. It's passed to the program the next time the
+   * material is bound.
+   *
+   * @param name The name of the uniform in the shader.
+   * @param value The value, in any form {@link Program.setUniform} accepts.
+   */
+  setUniform(name: string, value: UniformValue): void {
+    // Check the name straight away, rather than when the material is next
+    // bound, so that the error points at the mistake
+    if (!this.program.uniforms.has(name)) {
+      throw new Error(
+        `Uniform '${name}' is not active in the material's program`
+      );
+    }
+    this.uniforms.set(name, value);
+  }
+
+  /**
+   * Puts a texture into a slot. If the slot is new, it gets the next texture
+   * unit.
+   *
+   * The material doesn't take ownership of the texture, so the same texture
+   * can be used by several materials. Whoever created it should dispose of it.
+   *
+   * @param name The name of the `sampler2D` uniform in the shader.
+   * @param texture The texture, a promise of one that's still loading, or
+   * `null` for the placeholder.
+   */
+  setTexture(name: string, texture: MaterialTexture): void {
+    if (!this.program.uniforms.has(name)) {
+      throw new Error(
+        `Sampler '${name}' is not active in the material's program`
+      );
+    }
+    this.textures.set(name, texture);
+
+    if (texture instanceof Promise) {
+      texture.then(
+        (loaded) => {
+          // Only use it if the slot hasn't been given something else while it
+          // was loading
+          if (this.textures.get(name) === texture) {
+            this.textures.set(name, loaded);
+          }
+        },
+        // If it fails to load, the placeholder is used for good. Whoever
+        // loaded it can handle the error.
+        () => {}
+      );
+    }
+  }
+
+  /**
+   * Gets the texture in a slot.
+   *
+   * @param name The name of the `sampler2D` uniform in the shader.
+   * @returns The texture, or `null` if the slot is empty or still loading.
+   */
+  getTexture(name: string): Texture | null {
+    const texture = this.textures.get(name);
+    return texture instanceof Texture ? texture : null;
+  }
+
+  /**
+   * Gets the textures that {@link bind} binds, in texture unit order. This is
+   * how the {@link RenderQueue} finds materials that share textures.
+   *
+   * @returns The texture in each slot, or `null` for slots which use the
+   * placeholder.
+   */
+  getBoundTextures(): (Texture | null)[] {
+    return [...this.textures.values()].map((texture) =>
+      texture instanceof Texture ? texture : null
+    );
+  }
+
+  /**
+   * Sets everything up for drawing with the material: sets every uniform, and
+   * binds every texture to its texture unit.
+   *
+   * After calling this, draw with {@link program}, for example with
+   * `mesh.render(material.program)`.
+   *
+   * @param frameContext The frame being rendered, for the
+   * `uViewProjectionMatrix` and `uTime` uniforms.
+   */
+  bind(frameContext: FrameContext): void {
+    const program = this.program;
+
+    // Uniforms that depend on the frame, rather than the material. Shaders
+    // which don't use them won't have them.
+    if (program.uniforms.has('uViewProjectionMatrix')) {
+      program.setUniform(
+        'uViewProjectionMatrix',
+        frameContext.camera.getViewProjectionMatrix()
+      );
+    }
+    if (program.uniforms.has('uTime')) {
+      // We use the loop's clock rather than the real time, so that animations
+      // pause and slow down along with the loop
+      program.setUniform('uTime', frameContext.clock.renderTime);
+    }
+
+    for (const [name, value] of this.uniforms) {
+      program.setUniform(name, value);
+    }
+
+    // Give each slot the next texture unit, and tell the shader which unit to
+    // find it on
+    let unit = 0;
+    for (const [name, texture] of this.textures) {
+      program.setUniform(name, unit);
+      if (texture instanceof Texture) {
+        texture.bind(unit);
+      } else {
+        this.getPlaceholder().bind(unit);
+      }
+      unit++;
+    }
+  }
+
+  /**
+   * Deletes the material's program and placeholder texture from WebGL memory.
+   * Its textures aren't deleted, since they might be used elsewhere.
+   */
+  dispose(): void {
+    this.program.dispose();
+    this.placeholder?.dispose();
+    this.placeholder = null;
+  }
+
+  /**
+   * Gets the placeholder texture, creating it the first time it's needed.
+   *
+   * @returns A texture with a single pixel of {@link placeholderColor}.
+   */
+  private getPlaceholder(): Texture {
+    if (!this.placeholder) {
+      const image = new ImageData(
+        new Uint8ClampedArray(this.placeholderColor),
+        1,
+        1
+      );
+      this.placeholder = new Texture(this.gl, image);
+    }
+    return this.placeholder;
+  }
+}
@@ -1,25 +1,33 @@
-import { vec2, vec3 } from 'gl-matrix';
-
 import { Program } from './program';
+import { RenderState, RenderStateCache } from './render-state';
+import { ResourceRegistry } from './resource-registry';
+import { ResourceTracker } from './resource-tracker';
+import { Vertex, VertexLayout } from './vertex-layout';
 
 /**
- * Represents a single vertex in a 3D mesh.
+ * The largest number of vertices that can be referred to using 16-bit indices.
+ * Indices start at 0, so this is one more than the largest 16-bit number.
  */
-interface Vertex {
-  /**
-   * The position of the vertex in 3D space.
-   */
-  position: vec3;
+const MAX_UINT16_VERTEX_COUNT = 0xffff + 1;
+
+/**
+ * Optional configuration for a {@link Mesh}.
+ */
+export interface MeshOptions {
   /**
-   * The texture coordinate of the vertex. This defines what point in the
-   * texture should be mapped to this vertex.
+   * A hint to WebGL about how often the vertex data will change, so that it can
+   * decide where best to store it. Default is STATIC_DRAW.
+   *
+   * - `STATIC_DRAW`: the data is set once and drawn many times, like a model
+   *   that never changes shape.
+   * - `DYNAMIC_DRAW`: the data is changed now and again and drawn many times in
+   *   between, like a shape that deforms when it's clicked.
+   * - `STREAM_DRAW`: the data is changed (almost) every time it's drawn, like a
+   *   particle trail.
    */
-  uv: vec2;
+  usage?: number;
 }
 
-// We need 3 components for position, plus 2 for UV
-const COMPONENTS_PER_VERTEX = 3 + 2;
-
 /**
  * Represents a 3D mesh in WebGL. A mesh is a collection of vertices that define
  * the shape of a 3D object.
@@ -35,25 +43,137 @@ export class Mesh {
    */
   public buffer: WebGLBuffer;
 
+  /**
+   * WebGL buffer object that stores the indices of the mesh, or `null` if the
+   * mesh isn't indexed.
+   *
+   * Without indices, every three vertices in the vertex buffer form a triangle,
+   * so any vertex shared between triangles has to be repeated. For example, a
+   * square made of two triangles needs 6 vertices even though it only has 4
+   * corners. With indices, we store each corner once and then list which
+   * vertices make up each triangle: `[0, 1, 2, 2, 3, 0]`.
+   */
+  public indexBuffer: WebGLBuffer | null = null;
+
+  /**
+   * The data type of the indices in {@link indexBuffer}, either
+   * `UNSIGNED_SHORT` (16-bit) or `UNSIGNED_INT` (32-bit).
+   */
+  private indexType: number = 0;
+
+  /**
+   * The number of indices in {@link indexBuffer}.
+   */
+  private indexCount: number = 0;
+
+  /**
+   * The number of vertices in the mesh.
+   */
+  private vertexCount: number;
+
+  /**
+   * The number of vertices there's room for in {@link buffer}. This can be
+   * more than {@link vertexCount}, so that a mesh which keeps growing (like a
+   * particle trail) doesn't need a new buffer every time a vertex is added.
+   */
+  private vertexCapacity: number;
+
+  /**
+   * How often we expect the vertex data to change, e.g. STATIC_DRAW.
+   */
+  private usage: number;
+
+  /**
+   * A copy of everything in {@link buffer}, kept on the CPU side.
+   *
+   * Once data is on the GPU, we can't easily read it back, and if the WebGL
+   * context is lost, it's gone for good. Keeping our own copy means we can
+   * always recreate the buffer (see {@link restore}).
+   */
+  private vertexData: Uint8Array;
+
+  /**
+   * A copy of everything in {@link indexBuffer}, or `null` if the mesh isn't
+   * indexed. Like {@link vertexData}, this is used to recreate the buffer.
+   */
+  private indexData: Uint16Array | Uint32Array | null = null;
+
+  /**
+   * Vertex array objects (VAOs) that we've set up for drawing this mesh, keyed
+   * by the attribute layout of the program they were set up for.
+   *
+   * A VAO remembers all of the attribute state we'd otherwise have to set up
+   * every frame: which attributes are enabled, which buffer they read from, and
+   * how to read it (the `vertexAttribPointer` calls). Once one is set up,
+   * drawing is just a matter of binding it and issuing the draw call.
+   *
+   * Each program can put its attributes at different locations, so we need a
+   * separate VAO for each layout. Programs that happen to use the same layout
+   * can share one.
+   */
+  private vertexArrays = new Map<string, WebGLVertexArrayObject>();
+
+  /**
+   * The render state cache for this context, which keeps track of what's
+   * bound so that nothing is bound twice.
+   */
+  private stateCache: RenderStateCache;
+
   /**
    * Creates a new Mesh instance.
    *
    * @param gl The WebGL rendering context.
-   * @param vertices An array of 3D vectors representing the vertices of the
-   * mesh.
+   * @param layout Describes the attributes each vertex has (position, UV,
+   * normal, colour and so on) and how they're stored in the buffer.
+   * @param vertices The vertices of the mesh. Each vertex should have a value
+   * for every attribute in the layout.
+   * @param indices Optionally, which vertices make up each triangle, with
+   * every three indices forming one triangle. If this isn't given, every three
+   * vertices form one triangle instead.
+   * @param options Optional configuration for the mesh.
    */
   constructor(
     private gl: WebGL2RenderingContext,
-    private vertices: Vertex[]
+    public readonly layout: VertexLayout,
+    vertices: Vertex[],
+    indices?: ArrayLike<number>,
+    options: MeshOptions = {}
   ) {
+    this.usage = options.usage ?? this.gl.STATIC_DRAW;
+    this.stateCache = RenderStateCache.forContext(gl);
+
+    // Pack the vertices into a single block of memory. WebGL expects our data
+    // in a flat format, meaning that instead of an array of vertex objects, we
+    // lay out the attributes of each vertex one after another. The layout
+    // knows where each attribute goes and what type to store it as.
+    this.vertexData = new Uint8Array(this.layout.pack(vertices));
+    this.vertexCount = vertices.length;
+    this.vertexCapacity = vertices.length;
+
+    // Send the vertices to the GPU
+    this.buffer = this.createVertexBuffer();
+
+    if (indices) {
+      this.setIndices(indices);
+      this.indexBuffer = this.createIndexBuffer();
+    }
+
+    // Make sure we're recreated if the context is lost
+    ResourceRegistry.forContext(gl).register(this);
+  }
+
+  /**
+   * Creates the vertex buffer and uploads {@link vertexData} to it.
+   *
+   * @returns The new buffer.
+   */
+  private createVertexBuffer(): WebGLBuffer {
     // Create a new buffer object
     const buffer = this.gl.createBuffer();
     if (!buffer) {
       throw new Error('Failed to create buffer');
     }
 
-    this.buffer = buffer;
-
     // Bind the buffer to the ARRAY_BUFFER target. WebGL is a state machine, and
     // most operations work on some currently bound object.
     //
@@ -61,34 +181,18 @@ export class Mesh {
     // "binding point". ARRAY_BUFFER is the binding point for vertex attribute
     // data. After this call, any operations on ARRAY_BUFFER will affect our
     // buffer.
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
-
-    // Convert the vertices array into a flat Float32Array. WebGL expects our
-    // data in a flat format, meaning that instead of an array of vector
-    // objects, we create a single array where the individual components of each
-    // vertex are laid out sequentially.
-    const vertexData = new Float32Array(vertices.length * COMPONENTS_PER_VERTEX);
-    for (let i = 0; i < vertices.length; i++) {
-      // Each vertex has 3 position components (x, y, z)
-      vertexData[i * COMPONENTS_PER_VERTEX] = vertices[i].position[0]; // x
-      vertexData[i * COMPONENTS_PER_VERTEX + 1] = vertices[i].position[1]; // y
-      vertexData[i * COMPONENTS_PER_VERTEX + 2] = vertices[i].position[2]; // z
-
-      // Plus 2 UV components (u, v)
-      vertexData[i * COMPONENTS_PER_VERTEX + 3] = vertices[i].uv[0]; // u
-      vertexData[i * COMPONENTS_PER_VERTEX + 4] = vertices[i].uv[1]; // v
-    }
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, buffer);
 
     // Store the vertex data in the buffer
     this.gl.bufferData(
-      // We bound `this.buffer` to the ARRAY_BUFFER target earlier, so this call
-      // will store the data in `this.buffer`.
+      // We bound `buffer` to the ARRAY_BUFFER target above, so this call will
+      // store the data in `buffer`.
       this.gl.ARRAY_BUFFER,
       // The data to send
-      vertexData,
-      // Hint to WebGL about how we plan to use the data. STATIC_DRAW means that
-      // we will not modify the data after sending it.
-      this.gl.STATIC_DRAW
+      this.vertexData,
+      // Hint to WebGL about how we plan to use the data. STATIC_DRAW (the
+      // default) means that we will not modify the data after sending it.
+      this.usage
     );
 
     // Unbind the buffer. This is good practice because:
@@ -99,91 +203,362 @@ export class Mesh {
     //    buffer.
     // 3. It leaves the WebGL state clean, which can make debugging easier.
     this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+
+    ResourceTracker.forContext(this.gl).track(
+      buffer,
+      'buffer',
+      'Mesh vertices',
+      this.vertexData.byteLength
+    );
+    return buffer;
   }
 
   /**
-   * Renders the mesh using the specified program and attribute name.
+   * Checks that every index refers to one of the mesh's vertices.
    *
-   * @param program The WebGL program to use for rendering.
-   * @param positionAttributeName The name of the position attribute in the
-   * vertex shader. This should match the name used in the shader code. For
-   * example, if your vertex shader declares `in vec3 aPosition;`, then you
-   * would pass `aPosition` here.
-   * @param uvAttributeName The name of the UV attribute in the vertex shader.
-   * This should match the name used in the shader code. For example, if your
-   * vertex shader declares `in vec2 aUv;`, then you would pass `aUv` here.
-   */
-  render(
-    program: Program,
-    positionAttributeName: string,
-    uvAttributeName: string
-  ): void {
-    // Use the specified program
-    program.use();
+   * @param indices The indices to check.
+   * @param vertexCount How many vertices the mesh has, or will have.
+   */
+  private checkIndices(indices: ArrayLike<number>, vertexCount: number): void {
+    for (let i = 0; i < indices.length; i++) {
+      if (indices[i] < 0 || indices[i] >= vertexCount) {
+        throw new Error(
+          `Index ${indices[i]} at position ${i} is out of range for a mesh ` +
+            `with ${vertexCount} vertices`
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks the indices and stores them in {@link indexData}.
+   *
+   * @param indices Which vertices make up each triangle.
+   */
+  private setIndices(indices: ArrayLike<number>): void {
+    this.checkIndices(indices, this.vertexCount);
 
-    // Get the location of the attributes in the program. This basically allows
-    // us to do things with the attributes without needing to refer to it by its
-    // name every time.
-    const positionAttributeLocation = program.getAttribLocation(
-      positionAttributeName
+    // 16-bit indices take half the memory of 32-bit ones, so we use them
+    // whenever there are few enough vertices for every index to fit
+    if (this.vertexCount <= MAX_UINT16_VERTEX_COUNT) {
+      this.indexData = Uint16Array.from(indices);
+      this.indexType = this.gl.UNSIGNED_SHORT;
+    } else {
+      this.indexData = Uint32Array.from(indices);
+      this.indexType = this.gl.UNSIGNED_INT;
+    }
+
+    this.indexCount = indices.length;
+  }
+
+  /**
+   * Creates the index buffer and uploads {@link indexData} to it.
+   *
+   * @returns The new index buffer.
+   */
+  private createIndexBuffer(): WebGLBuffer {
+    const indexBuffer = this.gl.createBuffer();
+    if (!indexBuffer) {
+      throw new Error('Failed to create index buffer');
+    }
+
+    // Indices have their own binding point, ELEMENT_ARRAY_BUFFER. Unlike
+    // ARRAY_BUFFER, it's stored in the bound VAO, so make sure there isn't one
+    // bound or we'd change which indices it draws with.
+    this.stateCache.bindVertexArray(null);
+    this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+    this.gl.bufferData(
+      this.gl.ELEMENT_ARRAY_BUFFER,
+      this.indexData,
+      this.gl.STATIC_DRAW
     );
-    const uvAttributeLocation = program.getAttribLocation(uvAttributeName);
+    this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, null);
 
-    // By calling `enableVertexAttribArray`, we're telling WebGL that we want to
-    // supply data to the attributes from a buffer. If we didn't call this, then
-    // each attribute would have no data to read.
-    this.gl.enableVertexAttribArray(positionAttributeLocation);
-    this.gl.enableVertexAttribArray(uvAttributeLocation);
+    ResourceTracker.forContext(this.gl).track(
+      indexBuffer,
+      'buffer',
+      'Mesh indices',
+      this.indexData?.byteLength
+    );
+    return indexBuffer;
+  }
+
+  /**
+   * Creates the mesh's buffers again, after the WebGL context was lost and
+   * restored.
+   */
+  restore(): void {
+    this.buffer = this.createVertexBuffer();
+    if (this.indexData) {
+      this.indexBuffer = this.createIndexBuffer();
+    }
+
+    // Our VAOs were lost along with everything else. We don't delete them, as
+    // they belonged to the old context, but just forget about them so they're
+    // set up again the next time we draw.
+    this.vertexArrays.clear();
+  }
+
+  /**
+   * Deletes the mesh's buffers and VAOs from the GPU, freeing up their memory.
+   * Call this when you're done with the mesh; it can't be drawn afterwards.
+   */
+  dispose(): void {
+    this.invalidateVertexArrays();
+
+    const tracker = ResourceTracker.forContext(this.gl);
+    this.gl.deleteBuffer(this.buffer);
+    tracker.untrack(this.buffer);
+    if (this.indexBuffer) {
+      this.gl.deleteBuffer(this.indexBuffer);
+      tracker.untrack(this.indexBuffer);
+      this.indexBuffer = null;
+    }
+
+    ResourceRegistry.forContext(this.gl).unregister(this);
+  }
+
+  /**
+   * Changes some of the mesh's vertices, or adds new ones to the end.
+   *
+   * Only the changed vertices are sent to the GPU (using `bufferSubData`), so
+   * this is much cheaper than creating a new mesh. If the new vertices don't
+   * fit in the buffer, it's replaced with a bigger one, which is slower, so
+   * the buffer grows by at least double each time to make that rare.
+   *
+   * For example, to move the first vertex of a triangle:
+   *
+   * ```typescript
+   * mesh.updateVertices(0, [{ aPosition: [0, 1, 0], aUv: [0.5, 1] }]);
+   * ```
+   *
+   * @param start The index of the first vertex to replace. This can be equal
+   * to the current number of vertices to add new vertices onto the end, but
+   * can't be past the end, as that would leave a gap of vertices that were
+   * never set.
+   * @param vertices The new vertices.
+   */
+  updateVertices(start: number, vertices: Vertex[]): void {
+    if (start < 0 || start > this.vertexCount) {
+      throw new Error(
+        `Cannot update vertices from ${start} in a mesh with ` +
+          `${this.vertexCount} vertices`
+      );
+    }
+
+    const end = start + vertices.length;
+    if (end > this.vertexCapacity) {
+      this.growBuffer(Math.max(end, this.vertexCapacity * 2));
+    }
+
+    // Update our own copy of the vertices, and then the GPU's
+    const data = new Uint8Array(this.layout.pack(vertices));
+    this.vertexData.set(data, start * this.layout.stride);
 
-    // Bind our buffer containing vertex data, so that we can read from it
     this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
+    this.gl.bufferSubData(
+      this.gl.ARRAY_BUFFER,
+      // The offset into the buffer, in bytes, to start writing at
+      start * this.layout.stride,
+      data
+    );
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+
+    this.vertexCount = Math.max(this.vertexCount, end);
+  }
+
+  /**
+   * Replaces all of the mesh's vertices. This is meant for meshes which are
+   * rewritten every frame, like a particle trail, and should be used with the
+   * `STREAM_DRAW` usage.
+   *
+   * If the GPU is still drawing with the old vertices when we try to change
+   * them, WebGL would normally have to wait for it to finish first. To avoid
+   * this, we *orphan* the buffer: we ask for brand new storage with
+   * `bufferData`, which lets the GPU carry on with the old storage while we
+   * fill in the new one. The old storage is thrown away once it's done with.
+   *
+   * @param vertices The new vertices. There can be more or fewer than before,
+   * but if the mesh is indexed, every index must still refer to a vertex.
+   */
+  setVertices(vertices: Vertex[]): void {
+    // Check before changing anything, so a mistake leaves the mesh as it was.
+    // Drawing with an index past the last vertex is an error in WebGL.
+    if (this.indexData) {
+      this.checkIndices(this.indexData, vertices.length);
+    }
+
+    if (vertices.length > this.vertexCapacity) {
+      this.vertexCapacity = vertices.length;
+      this.vertexData = new Uint8Array(
+        this.vertexCapacity * this.layout.stride
+      );
+    }
+    const data = new Uint8Array(this.layout.pack(vertices));
+    this.vertexData.set(data);
+
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
+    // Orphan the old storage, keeping the same size so the driver can reuse it
+    this.gl.bufferData(
+      this.gl.ARRAY_BUFFER,
+      this.vertexCapacity * this.layout.stride,
+      this.usage
+    );
+    this.gl.bufferSubData(this.gl.ARRAY_BUFFER, 0, data);
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+    ResourceTracker.forContext(this.gl).setBytes(
+      this.buffer,
+      this.vertexData.byteLength
+    );
+
+    this.vertexCount = vertices.length;
+  }
 
-    // Tell WebGL *how* to read the data from our buffer and supply it to each
-    // attribute in the vertex shader
-    this.gl.vertexAttribPointer(
-      // We're defining the position attribute
-      positionAttributeLocation,
-      // How many components there are per vertex attribute. We have 3 because
-      // each position is a vec3 (x, y, z)
-      3,
-      // The data type of each component. We use FLOAT as we created the buffer with
-      // a Float32Array.
-      this.gl.FLOAT,
-      // Whether integer values should be normalized when being cast to a float.
-      // This flag is not relevant for floating point numbers.
-      false,
-      // The stride: how many bytes to move forward to get from one vertex to
-      // the next. We calculate this as 5 (components) * 4 (bytes per float) =
-      // 20 bytes. This tells WebGL that each vertex's data is 20 bytes apart in
-      // the buffer.
-      COMPONENTS_PER_VERTEX * Float32Array.BYTES_PER_ELEMENT,
-      // The offset: how many bytes inside the buffer to start from. 0 means
-      // start at the beginning of the buffer.
-      0
+  /**
+   * Makes the vertex buffer bigger, keeping the vertices that are already in
+   * it.
+   *
+   * @param vertexCapacity How many vertices the buffer should have room for.
+   */
+  private growBuffer(vertexCapacity: number): void {
+    // Make room in our own copy first, keeping the existing vertices
+    const vertexData = new Uint8Array(vertexCapacity * this.layout.stride);
+    vertexData.set(
+      this.vertexData.subarray(0, this.vertexCount * this.layout.stride)
     );
-    this.gl.vertexAttribPointer(
-      // We're defining the UV attribute
-      uvAttributeLocation,
-      // Each texture coordinate is a vec2 (u, v)
-      2,
-      this.gl.FLOAT,
-      false,
-      // Stride
-      COMPONENTS_PER_VERTEX * Float32Array.BYTES_PER_ELEMENT,
-      // Offset. Unlike the position attribute, the UV attribute starts after
-      // the first 3 components (12 bytes).
-      3 * Float32Array.BYTES_PER_ELEMENT
+    this.vertexData = vertexData;
+    this.vertexCapacity = vertexCapacity;
+
+    // Calling `bufferData` on a buffer replaces its storage with new storage
+    // of the new size, so we can upload the bigger copy into the same buffer.
+    // As it's still the same buffer object, our VAOs don't need setting up
+    // again.
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
+    this.gl.bufferData(this.gl.ARRAY_BUFFER, this.vertexData, this.usage);
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+    ResourceTracker.forContext(this.gl).setBytes(
+      this.buffer,
+      this.vertexData.byteLength
     );
+  }
+
+  /**
+   * Renders the mesh using the specified program.
+   *
+   * Each attribute in the mesh's layout is supplied to the attribute of the
+   * same name in the vertex shader. For example, if the layout has an
+   * attribute called `aPosition`, it will be read by `in vec3 aPosition;` in
+   * the shader. Any attributes the shader doesn't use are skipped.
+   *
+   * @param program The WebGL program to use for rendering.
+   * @param state How the mesh should be drawn: depth testing, blending and so
+   * on. Anything that's left out uses its default (see
+   * {@link DEFAULT_RENDER_STATE}), which suits an ordinary opaque object.
+   */
+  render(program: Program, state: RenderState = {}): void {
+    // Set up depth testing, blending and so on. Only the settings which are
+    // different from the last draw are actually changed.
+    this.stateCache.apply(state);
+
+    // Use the specified program
+    program.use();
+
+    // Bind the VAO for this program, which sets up all of our attributes in
+    // one go. The first time we draw with a particular program, this creates
+    // the VAO; after that, it's reused.
+    this.stateCache.bindVertexArray(this.getVertexArray(program));
 
     // Draw the mesh. TRIANGLES tells WebGL to interpret every three vertices as
     // a triangle. This corresponds to how we've defined our mesh geometry.
-    this.gl.drawArrays(this.gl.TRIANGLES, 0, this.vertices.length);
+    if (this.indexBuffer) {
+      // For an indexed mesh, every three *indices* form a triangle instead. The
+      // VAO has remembered our index buffer, so we don't need to bind it here.
+      this.gl.drawElements(
+        this.gl.TRIANGLES,
+        this.indexCount,
+        this.indexType,
+        // The offset into the index buffer, in bytes
+        0
+      );
+    } else {
+      this.gl.drawArrays(this.gl.TRIANGLES, 0, this.vertexCount);
+    }
 
-    // Clean up any state that we set. This is good practice as it avoids us
-    // accidentally using the wrong state later.
-    this.gl.disableVertexAttribArray(positionAttributeLocation);
-    this.gl.disableVertexAttribArray(uvAttributeLocation);
+    // There's no need to unbind anything afterwards. The next draw will bind
+    // whatever it needs, and if that's the same program or VAO (like when
+    // drawing the same mesh again), it won't need binding again at all.
+  }
+
+  /**
+   * Deletes all of the VAOs that have been set up for this mesh, so that they
+   * are set up again the next time the mesh is drawn.
+   *
+   * A VAO stores how the data in our buffer is laid out, so this must be called
+   * if that layout ever changes, otherwise WebGL would keep reading the data
+   * the old way.
+   */
+  invalidateVertexArrays(): void {
+    const tracker = ResourceTracker.forContext(this.gl);
+    for (const vertexArray of this.vertexArrays.values()) {
+      this.gl.deleteVertexArray(vertexArray);
+      tracker.untrack(vertexArray);
+    }
+    this.vertexArrays.clear();
+  }
+
+  /**
+   * Gets the VAO for drawing this mesh with the given program, setting one up
+   * if we haven't already.
+   *
+   * @param program The program the mesh will be drawn with.
+   * @returns The VAO to bind before drawing.
+   */
+  private getVertexArray(program: Program): WebGLVertexArrayObject {
+    // The locations of the attributes in the program are all that matter for
+    // the VAO, so any programs which put the attributes in the same places can
+    // share the same VAO
+    const key = this.layout.getLocationKey(program);
+    const existingVertexArray = this.vertexArrays.get(key);
+    if (existingVertexArray) {
+      return existingVertexArray;
+    }
+
+    const vertexArray = this.gl.createVertexArray();
+    if (!vertexArray) {
+      throw new Error('Failed to create vertex array');
+    }
+
+    // While the VAO is bound, all of the attribute calls below are recorded
+    // into it rather than applying to the global state
+    this.stateCache.bindVertexArray(vertexArray);
+
+    // Bind our buffer containing vertex data, so that we can read from it
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
+
+    // Tell WebGL *how* to read each attribute from our buffer and supply it
+    // to the attributes in the vertex shader: how many components each one
+    // has, what type they're stored as, where the attribute starts within each
+    // vertex (the offset), and how far it is from one vertex to the next (the
+    // stride). The layout has already worked all of this out for us.
+    this.layout.bindAttributes(this.gl, program);
+
+    // Unlike the vertex buffer, the index buffer binding is stored in the VAO
+    // itself, so we bind it while the VAO is bound
+    if (this.indexBuffer) {
+      this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+    }
+
+    // We're done recording. The VAO stays bound, since we're about to draw
+    // with it. It has remembered which buffer each attribute reads from, so
+    // unbinding the buffer doesn't affect it.
     this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
-    this.gl.useProgram(null);
+
+    this.vertexArrays.set(key, vertexArray);
+    ResourceTracker.forContext(this.gl).track(
+      vertexArray,
+      'vertexArray',
+      'Mesh vertex array'
+    );
+    return vertexArray;
   }
 }
@@ -0,0 +1,183 @@
+import { mat4, vec2, vec3, ReadonlyVec3 } from 'gl-matrix';
+
+import { RenderCamera, WorldBounds } from './camera';
+import { PerspectiveCamera, Ray } from './perspective-camera';
+
+/**
+ * The furthest the pitch can ever go, just short of looking straight up or
+ * down. At exactly 90°, the camera's "up" direction points the same way it's
+ * looking, and there's no sensible way to work out which way is up on screen.
+ */
+const MAX_PITCH_LIMIT = Math.PI / 2 - 0.001;
+
+/**
+ * Moves a {@link PerspectiveCamera} around a target point, always looking at
+ * it, like a satellite orbiting a planet. This is the usual way of letting
+ * the user look at an object from every side.
+ *
+ * Where the camera is comes from three numbers, rather than a position:
+ * - {@link yaw}: how far around the target it is, like a compass heading.
+ * - {@link pitch}: how far above (or below) the target it is.
+ * - {@link distance}: how far away from the target it is.
+ *
+ * With a yaw and pitch of 0, the camera looks at the target from the positive
+ * z axis, the same way the 2D {@link Camera} looks at the world.
+ *
+ * The orbit camera is a {@link RenderCamera} itself, so it can be used
+ * anywhere the perspective camera could be. Every method that gets a matrix
+ * moves the perspective camera into place first, so there's no need to
+ * call {@link update} after changing the orbit.
+ *
+ * Example usage:
+ * ```typescript
+ * const orbit = new OrbitCamera(new PerspectiveCamera(canvas));
+ * orbit.rotate(Math.PI / 4, 0.3);
+ * orbit.zoom(0.5);
+ * queue.execute({ camera: orbit, clock });
+ * ```
+ */
+export class OrbitCamera implements RenderCamera {
+  /**
+   * The point the camera orbits around and looks at.
+   */
+  public target = vec3.create();
+
+  /**
+   * How far the camera has turned around the target's y axis, in radians.
+   */
+  public yaw = 0;
+
+  /**
+   * How far above the target the camera is, in radians. Negative values are
+   * below it. This is kept between {@link minPitch} and {@link maxPitch}.
+   */
+  public pitch = 0;
+
+  /**
+   * How far the camera is from the target, in world units. This is kept
+   * between {@link minDistance} and {@link maxDistance}.
+   */
+  public distance = 3;
+
+  /**
+   * The lowest the pitch can go. Default is just short of looking straight
+   * up from underneath.
+   */
+  public minPitch = -MAX_PITCH_LIMIT;
+
+  /**
+   * The highest the pitch can go. Default is just short of looking straight
+   * down from above.
+   */
+  public maxPitch = MAX_PITCH_LIMIT;
+
+  /** The closest the camera can get to the target. Default is 0.1. */
+  public minDistance = 0.1;
+
+  /** The furthest the camera can get from the target. Default is no limit. */
+  public maxDistance = Infinity;
+
+  /**
+   * Creates a new OrbitCamera.
+   *
+   * @param camera The camera to move around. Its position and target are
+   * overwritten whenever the orbit camera is used, but its lens (field of
+   * view, near and far) is left alone.
+   */
+  constructor(public readonly camera: PerspectiveCamera) {}
+
+  /**
+   * Moves the camera around the target.
+   *
+   * @param deltaYaw How far to turn around the target, in radians.
+   * @param deltaPitch How far to move up over the target, in radians.
+   */
+  rotate(deltaYaw: number, deltaPitch: number): void {
+    this.yaw += deltaYaw;
+    this.pitch += deltaPitch;
+    this.clamp();
+  }
+
+  /**
+   * Moves the camera towards or away from the target.
+   *
+   * @param factor How much to multiply the distance by. Values below 1 move
+   * closer, and values above 1 move away.
+   */
+  zoom(factor: number): void {
+    this.distance *= factor;
+    this.clamp();
+  }
+
+  /**
+   * Moves the perspective camera to where the orbit says it should be. This
+   * happens automatically whenever a matrix is read through the orbit camera,
+   * but should be called after changing the orbit if the perspective camera
+   * is used directly.
+   */
+  update(): void {
+    // The fields are public, so they might have been set out of range
+    this.clamp();
+
+    // Convert from spherical coordinates (angles and a distance) to a
+    // position. The pitch decides how much of the distance is upwards and how
+    // much is outwards, then the yaw decides which way is outwards.
+    const horizontalDistance = this.distance * Math.cos(this.pitch);
+    vec3.set(
+      this.camera.position,
+      this.target[0] + horizontalDistance * Math.sin(this.yaw),
+      this.target[1] + this.distance * Math.sin(this.pitch),
+      this.target[2] + horizontalDistance * Math.cos(this.yaw)
+    );
+    this.camera.lookAt(this.target);
+  }
+
+  /** See {@link PerspectiveCamera.getViewMatrix}. */
+  getViewMatrix(): mat4 {
+    this.update();
+    return this.camera.getViewMatrix();
+  }
+
+  /** See {@link PerspectiveCamera.getProjectionMatrix}. */
+  getProjectionMatrix(): mat4 {
+    return this.camera.getProjectionMatrix();
+  }
+
+  /** See {@link PerspectiveCamera.getViewProjectionMatrix}. */
+  getViewProjectionMatrix(): mat4 {
+    this.update();
+    return this.camera.getViewProjectionMatrix();
+  }
+
+  /** See {@link PerspectiveCamera.screenToWorld}. */
+  screenToWorld(clientX: number, clientY: number): Ray {
+    this.update();
+    return this.camera.screenToWorld(clientX, clientY);
+  }
+
+  /** See {@link PerspectiveCamera.worldToScreen}. */
+  worldToScreen(position: ReadonlyVec3): vec2 | null {
+    this.update();
+    return this.camera.worldToScreen(position);
+  }
+
+  /** See {@link PerspectiveCamera.getVisibleWorldBounds}. */
+  getVisibleWorldBounds(planeZ = 0): WorldBounds | null {
+    this.update();
+    return this.camera.getVisibleWorldBounds(planeZ);
+  }
+
+  /**
+   * Keeps the pitch and distance within their limits. The pitch limits can
+   * never go past {@link MAX_PITCH_LIMIT}, whatever they're set to.
+   */
+  private clamp(): void {
+    const minPitch = Math.max(this.minPitch, -MAX_PITCH_LIMIT);
+    const maxPitch = Math.min(this.maxPitch, MAX_PITCH_LIMIT);
+    this.pitch = Math.min(maxPitch, Math.max(minPitch, this.pitch));
+    this.distance = Math.min(
+      this.maxDistance,
+      Math.max(this.minDistance, this.distance)
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { vec3 } from 'gl-matrix';
+import { describe, expect, it } from 'vitest';
+
+import { Camera } from './camera';
+import { OrbitCamera } from './orbit-camera';
+import { PerspectiveCamera, intersectPlane } from './perspective-camera';
+
+/**
+ * Creates a stand-in for an 800x600 canvas at the top left of the page.
+ */
+function createCanvas() {
+  return {
+    width: 800,
+    height: 600,
+    getBoundingClientRect: () => ({
+      left: 0,
+      top: 0,
+      right: 800,
+      bottom: 600,
+      width: 800,
+      height: 600,
+    }),
+  } as unknown as HTMLCanvasElement;
+}
+
+describe('PerspectiveCamera', () => {
+  it('sees the point it looks at in the middle of the screen', () => {
+    const camera = new PerspectiveCamera(createCanvas());
+    vec3.set(camera.position, 2, 3, 4);
+    camera.lookAt([1, -1, 0]);
+
+    const screen = camera.worldToScreen([1, -1, 0]);
+    expect(screen?.[0]).toBeCloseTo(400);
+    expect(screen?.[1]).toBeCloseTo(300);
+  });
+
+  it("can't see points behind it", () => {
+    const camera = new PerspectiveCamera(createCanvas());
+
+    expect(camera.worldToScreen([0, 0, 5])).toBeNull();
+  });
+
+  it('turns a point on the screen into a ray through it', () => {
+    const camera = new PerspectiveCamera(createCanvas());
+    const point = camera.screenToWorld(600, 150);
+    const hit = intersectPlane(point, 0);
+
+    // Wherever the ray hits the z = 0 plane is back under the cursor
+    const screen = camera.worldToScreen([hit![0], hit![1], 0]);
+    expect(screen?.[0]).toBeCloseTo(600);
+    expect(screen?.[1]).toBeCloseTo(150);
+    expect(vec3.length(point.direction)).toBeCloseTo(1);
+  });
+
+  it('matches the 2D camera at z = 0 with the same screen height', () => {
+    const canvas = createCanvas();
+    // Looking from 1/tan(fov/2) away, 2 world units fill the screen height
+    const camera = new PerspectiveCamera(canvas, { fov: Math.PI / 2 });
+    const camera2d = new Camera(canvas);
+    vec3.set(camera.position, 0, 0, 1);
+
+    const bounds = camera.getVisibleWorldBounds();
+    const bounds2d = camera2d.getVisibleWorldBounds();
+    expect(bounds?.min[0]).toBeCloseTo(bounds2d.min[0]);
+    expect(bounds?.min[1]).toBeCloseTo(bounds2d.min[1]);
+    expect(bounds?.max[0]).toBeCloseTo(bounds2d.max[0]);
+    expect(bounds?.max[1]).toBeCloseTo(bounds2d.max[1]);
+  });
+
+  it('has no visible bounds when looking at the horizon', () => {
+    const camera = new PerspectiveCamera(createCanvas());
+    // Looking along the y axis, level with the plane
+    vec3.set(camera.position, 0, -3, 0.5);
+    vec3.set(camera.up, 0, 0, 1);
+    camera.lookAt([0, 0, 0.5]);
+
+    expect(camera.getVisibleWorldBounds()).toBeNull();
+  });
+});
+
+describe('OrbitCamera', () => {
+  it('places the camera on a sphere around the target', () => {
+    const orbit = new OrbitCamera(new PerspectiveCamera(createCanvas()));
+    vec3.set(orbit.target, 1, 0, 0);
+    orbit.rotate(Math.PI / 2, 0);
+    orbit.update();
+
+    const position = orbit.camera.position;
+    expect(position[0]).toBeCloseTo(4);
+    expect(position[1]).toBeCloseTo(0);
+    expect(position[2]).toBeCloseTo(0);
+    expect([...orbit.camera.target]).toEqual([1, 0, 0]);
+  });
+
+  it('keeps the pitch short of straight up and down', () => {
+    const orbit = new OrbitCamera(new PerspectiveCamera(createCanvas()));
+    orbit.maxPitch = Math.PI;
+    orbit.rotate(0, Math.PI);
+    expect(orbit.pitch).toBeLessThan(Math.PI / 2);
+
+    orbit.minPitch = -0.5;
+    orbit.rotate(0, -Math.PI);
+    expect(orbit.pitch).toBe(-0.5);
+  });
+
+  it('keeps the distance within its limits', () => {
+    const orbit = new OrbitCamera(new PerspectiveCamera(createCanvas()));
+    orbit.maxDistance = 10;
+    orbit.zoom(100);
+    expect(orbit.distance).toBe(10);
+
+    orbit.zoom(0);
+    expect(orbit.distance).toBe(orbit.minDistance);
+  });
+
+  it('applies changes to the orbit when a matrix is read', () => {
+    const orbit = new OrbitCamera(new PerspectiveCamera(createCanvas()));
+    orbit.distance = 5;
+    orbit.getViewProjectionMatrix();
+
+    expect(orbit.camera.position[2]).toBeCloseTo(5);
+  });
+});
@@ -0,0 +1,275 @@
+import { mat4, vec2, vec3, vec4, ReadonlyVec3 } from 'gl-matrix';
+
+import { RenderCamera, WorldBounds } from './camera';
+
+/**
+ * A half-infinite line in world space, starting at `origin` and going on
+ * forever in `direction`.
+ */
+export interface Ray {
+  /** Where the ray starts. */
+  origin: vec3;
+  /** Which way the ray goes. This is normalized (its length is 1). */
+  direction: vec3;
+}
+
+/**
+ * Optional configuration for a {@link PerspectiveCamera}.
+ */
+export interface PerspectiveCameraOptions {
+  /**
+   * The vertical field of view, i.e. the angle between the top and bottom of
+   * the screen, in radians. Default is π/4 (45°).
+   */
+  fov?: number;
+  /**
+   * The distance to the near plane. Anything closer to the camera than this
+   * isn't drawn. Default is 0.1.
+   */
+  near?: number;
+  /**
+   * The distance to the far plane. Anything further from the camera than
+   * this isn't drawn. Default is 100.
+   */
+  far?: number;
+}
+
+/**
+ * A 3D camera with perspective, so that things further away look smaller,
+ * just like in real life.
+ *
+ * Unlike the 2D {@link Camera}, which squashes a flat rectangle of the world
+ * onto the screen, this camera sits at a point in 3D space and looks towards
+ * another point. What it sees is a "frustum": a pyramid with its tip at the
+ * camera and its top chopped off at the near plane, stretching out to the far
+ * plane.
+ *
+ * Its matrix comes in two parts, which some shaders need separately (for
+ * example, to light things in camera space):
+ * - The *view* matrix moves the world so that the camera is at the origin,
+ *   looking down the negative z axis.
+ * - The *projection* matrix squashes the frustum into clip space, dividing by
+ *   distance so that far away things shrink.
+ *
+ * It has the same {@link getViewProjectionMatrix} as the 2D camera, so
+ * anything that takes a {@link RenderCamera} can be drawn with either.
+ *
+ * Example usage:
+ * ```typescript
+ * const camera = new PerspectiveCamera(canvas, { fov: Math.PI / 3 });
+ * vec3.set(camera.position, 0, 1, 3);
+ * camera.lookAt([0, 0, 0]);
+ * ```
+ */
+export class PerspectiveCamera implements RenderCamera {
+  /**
+   * Where the camera is in world space. Default is 3 units along the z axis,
+   * looking back at the origin.
+   */
+  public position = vec3.fromValues(0, 0, 3);
+
+  /**
+   * The point the camera is looking at. See {@link lookAt}.
+   */
+  public target = vec3.create();
+
+  /**
+   * Which way is up for the camera. The camera rolls so that this points
+   * towards the top of the screen. Default is the y axis.
+   */
+  public up = vec3.fromValues(0, 1, 0);
+
+  /** See {@link PerspectiveCameraOptions.fov}. */
+  public fov: number;
+
+  /** See {@link PerspectiveCameraOptions.near}. */
+  public near: number;
+
+  /** See {@link PerspectiveCameraOptions.far}. */
+  public far: number;
+
+  /**
+   * Creates a new PerspectiveCamera.
+   *
+   * @param canvas The canvas the camera renders to, for its aspect ratio.
+   * @param options Optional configuration for the camera's lens.
+   */
+  constructor(
+    private canvas: HTMLCanvasElement,
+    options: PerspectiveCameraOptions = {}
+  ) {
+    this.fov = options.fov ?? Math.PI / 4;
+    this.near = options.near ?? 0.1;
+    this.far = options.far ?? 100;
+  }
+
+  /**
+   * Points the camera at a position in the world.
+   *
+   * @param target The position to look at.
+   */
+  lookAt(target: ReadonlyVec3): void {
+    vec3.copy(this.target, target);
+  }
+
+  /**
+   * Gets the view matrix, which transforms world coordinates into camera
+   * space: the camera at the origin, looking down the negative z axis, with
+   * {@link up} pointing along the positive y axis.
+   *
+   * @returns The view matrix.
+   */
+  getViewMatrix(): mat4 {
+    return mat4.lookAt(mat4.create(), this.position, this.target, this.up);
+  }
+
+  /**
+   * Gets the projection matrix, which transforms camera space into clip
+   * space. The aspect ratio comes from the canvas every time, so it's always
+   * up to date after a resize.
+   *
+   * @returns The projection matrix.
+   */
+  getProjectionMatrix(): mat4 {
+    const aspectRatio = this.canvas.width / this.canvas.height;
+    return mat4.perspective(
+      mat4.create(),
+      this.fov,
+      aspectRatio,
+      this.near,
+      this.far
+    );
+  }
+
+  /**
+   * Gets the view matrix and projection matrix combined, which transforms
+   * world coordinates all the way to clip space.
+   *
+   * @returns The view-projection matrix.
+   */
+  getViewProjectionMatrix(): mat4 {
+    // Read right to left: first the view, then the projection
+    return mat4.multiply(
+      mat4.create(),
+      this.getProjectionMatrix(),
+      this.getViewMatrix()
+    );
+  }
+
+  /**
+   * Converts a position on the screen into a ray in the world. In 3D, a point
+   * on the screen isn't one point in the world, but every point along a line
+   * going out from the camera, which is what this returns. This is what you
+   * need to work out what the user clicked on.
+   *
+   * @param clientX The x coordinate, in CSS pixels, e.g. `event.clientX`.
+   * @param clientY The y coordinate, in CSS pixels, e.g. `event.clientY`.
+   * @returns A ray starting on the near plane, going away from the camera.
+   */
+  screenToWorld(clientX: number, clientY: number): Ray {
+    const rect = this.canvas.getBoundingClientRect();
+    const clipX = ((clientX - rect.left) / rect.width) * 2 - 1;
+    const clipY = 1 - ((clientY - rect.top) / rect.height) * 2;
+
+    // Undo the view-projection matrix for the same point on the near plane
+    // (z = -1 in clip space) and on the far plane (z = 1). `transformMat4`
+    // divides by w, which undoes the perspective divide.
+    const inverseViewProjection = mat4.invert(
+      mat4.create(),
+      this.getViewProjectionMatrix()
+    );
+    const near = vec3.transformMat4(
+      vec3.create(),
+      vec3.fromValues(clipX, clipY, -1),
+      inverseViewProjection
+    );
+    const far = vec3.transformMat4(
+      vec3.create(),
+      vec3.fromValues(clipX, clipY, 1),
+      inverseViewProjection
+    );
+
+    const direction = vec3.normalize(far, vec3.subtract(far, far, near));
+    return { origin: near, direction };
+  }
+
+  /**
+   * Converts a position in the world into a position on the screen. This is
+   * the opposite of {@link screenToWorld}.
+   *
+   * @param position The position in world space.
+   * @returns The position in CSS pixels relative to the top left of the
+   * browser window, or `null` if the position is behind the camera (where it
+   * can't be seen at all).
+   */
+  worldToScreen(position: ReadonlyVec3): vec2 | null {
+    const clip = vec4.transformMat4(
+      vec4.create(),
+      vec4.fromValues(position[0], position[1], position[2], 1),
+      this.getViewProjectionMatrix()
+    );
+    // w is the distance in front of the camera
+    if (clip[3] <= 0) {
+      return null;
+    }
+
+    const rect = this.canvas.getBoundingClientRect();
+    return vec2.fromValues(
+      rect.left + ((clip[0] / clip[3] + 1) / 2) * rect.width,
+      rect.top + ((1 - clip[1] / clip[3]) / 2) * rect.height
+    );
+  }
+
+  /**
+   * Gets the part of the plane z = `planeZ` that's visible, like
+   * {@link Camera.getVisibleWorldBounds}. Since the camera can be tilted, the
+   * visible area might not be a rectangle, so this is the smallest rectangle
+   * containing it.
+   *
+   * @param planeZ The z coordinate of the plane. Default is 0, where 2D
+   * objects are drawn.
+   * @returns The visible area, or `null` if part of the screen doesn't see
+   * the plane at all (e.g. the camera is looking towards the horizon).
+   */
+  getVisibleWorldBounds(planeZ = 0): WorldBounds | null {
+    const rect = this.canvas.getBoundingClientRect();
+    const corners = [
+      [rect.left, rect.top],
+      [rect.right, rect.top],
+      [rect.left, rect.bottom],
+      [rect.right, rect.bottom],
+    ];
+
+    const min = vec2.fromValues(Infinity, Infinity);
+    const max = vec2.fromValues(-Infinity, -Infinity);
+    for (const [x, y] of corners) {
+      const hit = intersectPlane(this.screenToWorld(x, y), planeZ);
+      if (!hit) {
+        return null;
+      }
+      vec2.min(min, min, hit);
+      vec2.max(max, max, hit);
+    }
+
+    return { min, max };
+  }
+}
+
+/**
+ * Finds where a ray hits the plane z = `planeZ`.
+ *
+ * @param ray The ray.
+ * @param planeZ The z coordinate of the plane.
+ * @returns The x and y coordinates of the hit, or `null` if the ray is
+ * parallel to the plane or points away from it.
+ */
+export function intersectPlane(ray: Ray, planeZ: number): vec2 | null {
+  const distance = (planeZ - ray.origin[2]) / ray.direction[2];
+  if (!(distance >= 0 && isFinite(distance))) {
+    return null;
+  }
+  return vec2.fromValues(
+    ray.origin[0] + ray.direction[0] * distance,
+    ray.origin[1] + ray.direction[1] * distance
+  );
+}
@@ -0,0 +1,497 @@
+import { vec2 } from 'gl-matrix';
+
+import { Camera, WorldBounds } from './camera';
+import { CanvasResizer } from './canvas-resizer';
+import { FrameScheduler, browserScheduler } from './frame-scheduler';
+import { OrbitCamera } from './orbit-camera';
+import { PerspectiveCamera, intersectPlane } from './perspective-camera';
+import { RenderStateCache } from './render-state';
+import { RenderTarget } from './render-target';
+import { ResourceTracker } from './resource-tracker';
+import { TextureOptions } from './texture';
+
+/**
+ * Something that can be clicked on, and found with a {@link Picker}.
+ */
+export interface Pickable {
+  /**
+   * Draws the object for picking. Instead of colours, this should write the
+   * object's ID, using a program with `picking-fragment-shader.glsl` as its
+   * fragment shader:
+   * - Set the `uObjectId` uniform to `objectId`.
+   * - Compile the vertex shader with `PICKING` defined, so that it passes
+   *   `vInstanceId` to the fragment shader.
+   *
+   * The object should be drawn in the same place as it was last rendered.
+   *
+   * @param objectId The ID the picker gave this object.
+   */
+  renderPicking(objectId: number): void;
+
+  /**
+   * Gets the area each instance of the object covers in world space. This is
+   * optional, and only needed for {@link Picker.pickBounds}.
+   *
+   * @returns One rectangle per instance, in instance order.
+   */
+  getInstanceBounds?(): WorldBounds[];
+}
+
+/**
+ * What was found under the cursor by a {@link Picker}.
+ */
+export interface PickResult<T extends Pickable = Pickable> {
+  /** The object. */
+  object: T;
+  /** Which instance of the object it was. This is 0 if it isn't instanced. */
+  instance: number;
+}
+
+/**
+ * Options for creating a {@link Picker}.
+ */
+export interface PickerOptions {
+  /**
+   * Whether to read the result back from the GPU without waiting for it. See
+   * {@link Picker.pick} for why this matters. Default is true.
+   */
+  async?: boolean;
+  /**
+   * Used to check once a frame whether the GPU has finished, when reading
+   * asynchronously. Default is the browser's `requestAnimationFrame`.
+   */
+  scheduler?: FrameScheduler;
+}
+
+/**
+ * Finds out which object (and which instance of it) is under the cursor, e.g.
+ * to tell what the user clicked on.
+ *
+ * For a simple 2D scene, we could work this out with some maths: convert the
+ * cursor position to world space, and check which object's bounds it's inside
+ * (see {@link pickBounds}). That gets hard quickly, though: objects aren't
+ * always rectangles, they can be in 3D, and they can be moved around by their
+ * vertex shaders (like instances are).
+ *
+ * Instead, {@link pick} asks the GPU. It draws every object again, into a
+ * render target with two integer textures. Rather than a colour, each object
+ * writes its own ID into the first texture, and its instance index into the
+ * second. Then we read back the pixel under the cursor, and look up the
+ * object with that ID. Whatever was drawn last (or nearest, with depth
+ * testing) is on top, exactly like when rendering normally.
+ *
+ * Only the one pixel under the cursor is needed, so we use the "scissor test"
+ * to tell the GPU not to bother drawing any of the others.
+ *
+ * Example usage:
+ * ```typescript
+ * const picker = renderManager.createPicker();
+ * picker.add(triangle);
+ *
+ * canvas.addEventListener('click', async (event) => {
+ *   const result = await picker.pick(event.clientX, event.clientY);
+ *   console.log(result?.object, result?.instance);
+ * });
+ * ```
+ */
+export class Picker<T extends Pickable = Pickable> {
+  /**
+   * The render target the IDs are drawn into. It's the same size as the
+   * canvas, so that each pixel matches up.
+   */
+  private target: RenderTarget;
+
+  /** The objects that can be picked, keyed by their ID. */
+  private objects = new Map<number, T>();
+
+  /** The ID of each object that can be picked. */
+  private ids = new Map<T, number>();
+
+  /** The ID to give the next object that's added. */
+  private nextId = 1;
+
+  /** See {@link PickerOptions.async}. */
+  private async: boolean;
+
+  /** See {@link PickerOptions.scheduler}. */
+  private scheduler: FrameScheduler;
+
+  /**
+   * Creates a new picker.
+   *
+   * @param gl The WebGL rendering context.
+   * @param canvas The canvas the objects are rendered to.
+   * @param resizer The canvas's resizer, which the picker follows so that it's
+   * always the same size as the canvas.
+   * @param options Optional configuration for the picker.
+   */
+  constructor(
+    private gl: WebGL2RenderingContext,
+    private canvas: HTMLCanvasElement,
+    resizer: CanvasResizer,
+    options: PickerOptions = {}
+  ) {
+    this.async = options.async ?? true;
+    this.scheduler = options.scheduler ?? browserScheduler;
+
+    // One texture for object IDs, and one for instance indices. The depth
+    // buffer means that depth testing works the same as when rendering.
+    this.target = new RenderTarget(gl, resizer.width, resizer.height, {
+      colorAttachments: [getIdAttachment(gl), getIdAttachment(gl)],
+    });
+    this.target.autoResize(resizer);
+  }
+
+  /**
+   * Makes an object pickable. Objects are drawn in the order they're added,
+   * so later ones are on top.
+   *
+   * @param object The object to add.
+   */
+  add(object: T): void {
+    if (this.ids.has(object)) {
+      return;
+    }
+    const id = this.nextId++;
+    this.objects.set(id, object);
+    this.ids.set(object, id);
+  }
+
+  /**
+   * Stops an object being pickable.
+   *
+   * @param object The object to remove.
+   */
+  remove(object: T): void {
+    const id = this.ids.get(object);
+    if (id !== undefined) {
+      this.ids.delete(object);
+      this.objects.delete(id);
+    }
+  }
+
+  /**
+   * Finds the object under a point on the screen, using the GPU.
+   *
+   * The GPU works through its commands in its own time, a little behind the
+   * CPU. Reading pixels back straight away would mean the CPU has to sit and
+   * wait for the GPU to catch up, which can take a few milliseconds. So by
+   * default, we ask the GPU to copy the pixel into a buffer of its own (a
+   * "pixel buffer object"), and add a "fence" after it: a marker that tells us
+   * when the GPU has got that far. We check the fence once a frame, and only
+   * read the buffer once it's been reached, by which point the data is ready
+   * and reading it is instant.
+   *
+   * @param clientX The x coordinate in CSS pixels, e.g. `event.clientX`.
+   * @param clientY The y coordinate in CSS pixels, e.g. `event.clientY`.
+   * @returns A promise of what was found, or `null` if there was nothing there
+   * (or the WebGL context was lost before we found out).
+   */
+  async pick(clientX: number, clientY: number): Promise<PickResult<T> | null> {
+    const pixel = this.getPixel(clientX, clientY);
+    if (!pixel || this.gl.isContextLost()) {
+      return null;
+    }
+
+    this.renderIds(pixel);
+
+    const ids = this.async
+      ? await this.readIdsAsync(pixel)
+      : this.readIds(pixel);
+    return ids ? this.getResult(ids[0], ids[1]) : null;
+  }
+
+  /**
+   * Finds the object under a point on the screen, without using the GPU, by
+   * checking which object's bounds the point is inside.
+   *
+   * This only works for flat scenes, where everything is drawn at z = 0, and
+   * only for objects that implement {@link Pickable.getInstanceBounds}. The
+   * bounds are rectangles, so the corners of a triangle's bounds count as
+   * part of it. In exchange, the result is available straight away.
+   *
+   * @param clientX The x coordinate in CSS pixels, e.g. `event.clientX`.
+   * @param clientY The y coordinate in CSS pixels, e.g. `event.clientY`.
+   * @param camera The camera the scene is viewed through. With a 3D camera,
+   * the point is wherever the ray under the cursor hits the z = 0 plane.
+   * @returns What was found, or `null` if there was nothing there.
+   */
+  pickBounds(
+    clientX: number,
+    clientY: number,
+    camera: Camera | PerspectiveCamera | OrbitCamera
+  ): PickResult<T> | null {
+    const point =
+      camera instanceof Camera
+        ? camera.screenToWorld(clientX, clientY)
+        : intersectPlane(camera.screenToWorld(clientX, clientY), 0);
+    if (!point) {
+      return null;
+    }
+
+    // Check the objects drawn last (which are on top) first
+    const objects = [...this.objects.values()].reverse();
+    for (const object of objects) {
+      const bounds = object.getInstanceBounds?.() ?? [];
+      for (let instance = bounds.length - 1; instance >= 0; instance--) {
+        if (containsPoint(bounds[instance], point)) {
+          return { object, instance };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Deletes the picker's render target from WebGL memory. After calling this,
+   * the picker cannot be used again.
+   */
+  dispose(): void {
+    this.target.dispose();
+    this.objects.clear();
+    this.ids.clear();
+  }
+
+  /**
+   * Works out which pixel of the render target is under a point on the
+   * screen.
+   *
+   * @param clientX The x coordinate in CSS pixels.
+   * @param clientY The y coordinate in CSS pixels.
+   * @returns The pixel's coordinates, or `null` if the point isn't over the
+   * canvas. In WebGL, pixel y coordinates go up from the bottom, unlike on the
+   * page.
+   */
+  private getPixel(clientX: number, clientY: number): [number, number] | null {
+    const rect = this.canvas.getBoundingClientRect();
+    const x = Math.floor(
+      ((clientX - rect.left) / rect.width) * this.target.width
+    );
+    const y = Math.floor(
+      ((rect.bottom - clientY) / rect.height) * this.target.height
+    );
+    if (x < 0 || y < 0 || x >= this.target.width || y >= this.target.height) {
+      return null;
+    }
+    return [x, y];
+  }
+
+  /**
+   * Draws every object's IDs into the render target, at just one pixel.
+   *
+   * @param pixel The pixel to draw.
+   */
+  private renderIds([x, y]: [number, number]): void {
+    const gl = this.gl;
+
+    // Remember the scissor settings, to put them back afterwards
+    const scissorTest = gl.isEnabled(gl.SCISSOR_TEST);
+    const scissorBox: Int32Array = gl.getParameter(gl.SCISSOR_BOX);
+
+    this.target.bind();
+
+    // Only draw the one pixel
+    gl.enable(gl.SCISSOR_TEST);
+    gl.scissor(x, y, 1, 1);
+
+    // Clearing only changes what can be written to, so put the colour and
+    // depth masks back to their defaults. Each object sets its own render
+    // state when it's drawn.
+    RenderStateCache.forContext(gl).apply();
+
+    // gl.clear() only works for colours and depth, so integer textures have
+    // to be cleared with clearBuffer instead. 0 means there's nothing there.
+    gl.clearBufferuiv(gl.COLOR, 0, [0, 0, 0, 0]);
+    gl.clearBufferuiv(gl.COLOR, 1, [0, 0, 0, 0]);
+    gl.clearBufferfv(gl.DEPTH, 0, [1]);
+
+    for (const [id, object] of this.objects) {
+      object.renderPicking(id);
+    }
+
+    // Put everything back how it was
+    gl.scissor(scissorBox[0], scissorBox[1], scissorBox[2], scissorBox[3]);
+    if (!scissorTest) {
+      gl.disable(gl.SCISSOR_TEST);
+    }
+    this.target.unbind();
+  }
+
+  /**
+   * Reads the IDs back straight away, waiting for the GPU to finish drawing
+   * them.
+   *
+   * @param pixel The pixel to read.
+   * @returns The object ID and instance index.
+   */
+  private readIds([x, y]: [number, number]): [number, number] {
+    const gl = this.gl;
+    const ids: [number, number] = [0, 0];
+
+    // We only need the red channel, but reading all four as RGBA_INTEGER is
+    // the only way that's guaranteed to work for integer textures
+    const pixel = new Uint32Array(4);
+
+    const readFramebuffer = gl.getParameter(gl.READ_FRAMEBUFFER_BINDING);
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, this.target.framebuffer);
+    for (let i = 0; i < 2; i++) {
+      // Choose which texture to read from
+      gl.readBuffer(gl.COLOR_ATTACHMENT0 + i);
+      gl.readPixels(x, y, 1, 1, gl.RGBA_INTEGER, gl.UNSIGNED_INT, pixel);
+      ids[i] = pixel[0];
+    }
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, readFramebuffer);
+
+    return ids;
+  }
+
+  /**
+   * Reads the IDs back without making the CPU wait for the GPU. See
+   * {@link pick} for how this works.
+   *
+   * @param pixel The pixel to read.
+   * @returns A promise of the object ID and instance index, or `null` if the
+   * context was lost while waiting.
+   */
+  private async readIdsAsync([x, y]: [number, number]): Promise<
+    [number, number] | null
+  > {
+    const gl = this.gl;
+    const tracker = ResourceTracker.forContext(gl);
+
+    // Make a buffer big enough for one RGBA_INTEGER pixel from each texture
+    const buffer = gl.createBuffer();
+    if (!buffer) {
+      throw new Error('Failed to create buffer');
+    }
+    const pixelBytes = 4 * Uint32Array.BYTES_PER_ELEMENT;
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, buffer);
+    gl.bufferData(gl.PIXEL_PACK_BUFFER, pixelBytes * 2, gl.STREAM_READ);
+    tracker.track(buffer, 'buffer', 'Picking readback', pixelBytes * 2);
+
+    // While a PIXEL_PACK_BUFFER is bound, readPixels copies into it on the
+    // GPU instead of returning the pixels, and its last argument is where in
+    // the buffer to put them
+    const readFramebuffer = gl.getParameter(gl.READ_FRAMEBUFFER_BINDING);
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, this.target.framebuffer);
+    for (let i = 0; i < 2; i++) {
+      gl.readBuffer(gl.COLOR_ATTACHMENT0 + i);
+      gl.readPixels(
+        x,
+        y,
+        1,
+        1,
+        gl.RGBA_INTEGER,
+        gl.UNSIGNED_INT,
+        pixelBytes * i
+      );
+    }
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, readFramebuffer);
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+
+    // Add a fence after the copy, and make sure it's sent to the GPU now
+    // rather than whenever the browser gets round to it
+    const sync = gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0);
+    gl.flush();
+
+    try {
+      // If we couldn't make a fence, reading the buffer below just waits for
+      // the GPU, like readPixels would
+      if (sync && !(await this.waitForSync(sync))) {
+        return null;
+      }
+
+      const pixels = new Uint32Array(8);
+      gl.bindBuffer(gl.PIXEL_PACK_BUFFER, buffer);
+      gl.getBufferSubData(gl.PIXEL_PACK_BUFFER, 0, pixels);
+      gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+
+      // The red channel of each pixel
+      return [pixels[0], pixels[4]];
+    } finally {
+      if (sync) {
+        gl.deleteSync(sync);
+      }
+      gl.deleteBuffer(buffer);
+      tracker.untrack(buffer);
+    }
+  }
+
+  /**
+   * Waits until the GPU has reached a fence, checking once a frame.
+   *
+   * @param sync The fence.
+   * @returns A promise of whether the fence was reached. This is false if the
+   * context was lost while waiting.
+   */
+  private waitForSync(sync: WebGLSync): Promise<boolean> {
+    return new Promise((resolve) => {
+      const poll = () => {
+        if (this.gl.isContextLost()) {
+          resolve(false);
+          return;
+        }
+
+        // A timeout of 0 means just check, rather than waiting
+        const status = this.gl.clientWaitSync(sync, 0, 0);
+        if (status === this.gl.WAIT_FAILED) {
+          resolve(false);
+        } else if (status === this.gl.TIMEOUT_EXPIRED) {
+          // Not there yet, so try again next frame
+          this.scheduler.requestFrame(poll);
+        } else {
+          resolve(true);
+        }
+      };
+      poll();
+    });
+  }
+
+  /**
+   * Looks up the object with an ID.
+   *
+   * @param objectId The object ID that was read back.
+   * @param instance The instance index that was read back.
+   * @returns The result, or `null` if there's no object with that ID.
+   */
+  private getResult(objectId: number, instance: number): PickResult<T> | null {
+    const object = this.objects.get(objectId);
+    return object ? { object, instance } : null;
+  }
+}
+
+/**
+ * Checks whether a point is inside a rectangle.
+ *
+ * @param bounds The rectangle.
+ * @param point The point.
+ * @returns Whether the point is inside the rectangle, or on its edge.
+ */
+function containsPoint(bounds: WorldBounds, point: vec2): boolean {
+  return (
+    point[0] >= bounds.min[0] &&
+    point[0] <= bounds.max[0] &&
+    point[1] >= bounds.min[1] &&
+    point[1] <= bounds.max[1]
+  );
+}
+
+/**
+ * Gets the texture options for one of the picker's integer textures.
+ *
+ * R32UI means a single 32-bit unsigned integer per pixel, which is plenty for
+ * IDs. Integer textures can't be blended between pixels, so they have to use
+ * NEAREST filtering.
+ *
+ * @param gl The WebGL rendering context.
+ * @returns The texture options.
+ */
+function getIdAttachment(gl: WebGL2RenderingContext): TextureOptions {
+  return {
+    internalFormat: gl.R32UI,
+    format: gl.RED_INTEGER,
+    type: gl.UNSIGNED_INT,
+    minFilter: gl.NEAREST,
+    magFilter: gl.NEAREST,
+  };
+}
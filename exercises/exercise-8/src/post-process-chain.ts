@@ -0,0 +1,403 @@
+import { CanvasResizer } from './canvas-resizer';
+import { Program, ProgramOptions } from './program';
+import { RenderState, RenderStateCache } from './render-state';
+import { RenderTarget, RenderTargetOptions } from './render-target';
+import { ResourceRegistry } from './resource-registry';
+import { Texture, TextureOptions } from './texture';
+
+import fullScreenVertexShaderSource from './shaders/post-processing/full-screen-vertex-shader.glsl?raw';
+import copyFragmentShaderSource from './shaders/post-processing/copy-fragment-shader.glsl?raw';
+
+/**
+ * One effect in a {@link PostProcessChain}, like a blur or a vignette.
+ *
+ * The built-in passes are in `post-process-passes.ts`. To write your own, the
+ * easiest way is with a {@link FullScreenPass} and a fragment shader that
+ * reads the input texture at `vUv`.
+ */
+export interface PostProcessPass {
+  /**
+   * Whether the pass should be applied. Disabled passes are skipped, so
+   * effects can be turned on and off at any time.
+   */
+  enabled: boolean;
+
+  /**
+   * Draws the input image, with the effect applied, into the output.
+   *
+   * @param input The image so far: either the scene, or what the previous
+   * pass drew.
+   * @param output Where to draw to, or `null` to draw onto the canvas. The
+   * viewport is already set up for the canvas.
+   */
+  render(input: Texture, output: RenderTarget | null): void;
+
+  /**
+   * Deletes everything the pass created from WebGL memory.
+   */
+  dispose(): void;
+}
+
+/**
+ * Options for creating a {@link PostProcessChain}.
+ */
+export interface PostProcessChainOptions {
+  /**
+   * Whether to draw the scene in "high dynamic range" (HDR). Normally every
+   * colour is stored as a number from 0 to 1, so anything brighter than white
+   * is clipped to white. In HDR, colours are stored as floating point numbers
+   * which can go above 1, so that effects like bloom can tell a light bulb
+   * apart from a white wall. A {@link ToneMappingPass} then brings the colours
+   * back into the 0 to 1 range for the screen.
+   *
+   * This needs the `EXT_color_buffer_float` extension, which almost every
+   * browser has. If it's missing, the chain quietly falls back to normal
+   * colours. Default is true.
+   */
+  hdr?: boolean;
+}
+
+/**
+ * The render state for full-screen passes. Blending is off by default, so only
+ * depth needs turning off.
+ */
+const FULL_SCREEN_RENDER_STATE: RenderState = {
+  depthTest: false,
+  depthWrite: false,
+};
+
+/**
+ * Draws a single triangle that covers the whole viewport, using a fragment
+ * shader of your choosing. This is how every post-processing effect is drawn:
+ * the fragment shader runs once for every pixel on the screen, reading from
+ * the image so far and writing the new colour.
+ *
+ * Why a triangle, and not a rectangle made of two triangles? A triangle that's
+ * twice as wide and twice as tall as the screen covers all of it, and the GPU
+ * clips off the parts that hang over the edges. It's one fewer triangle, and
+ * it avoids the pixels along the diagonal between two triangles being drawn
+ * twice. The vertex shader works out the corners by itself, so we don't even
+ * need a vertex buffer.
+ *
+ * The vertex shader passes the texture coordinate of each pixel to the
+ * fragment shader as `in vec2 vUv`.
+ */
+export class FullScreenPass {
+  /**
+   * The program used to draw. Set any uniforms on it before calling
+   * {@link draw}.
+   */
+  public readonly program: Program;
+
+  /**
+   * The render state cache for this context, which keeps track of what's
+   * bound so that nothing is bound twice.
+   */
+  private stateCache: RenderStateCache;
+
+  /**
+   * Creates a new full-screen pass.
+   *
+   * @param gl The WebGL rendering context.
+   * @param fragmentShaderSource The source code of the fragment shader.
+   * @param options Optional configuration for the program, e.g. `#define`s.
+   */
+  constructor(
+    private gl: WebGL2RenderingContext,
+    fragmentShaderSource: string,
+    options: ProgramOptions = {}
+  ) {
+    this.stateCache = RenderStateCache.forContext(gl);
+    this.program = new Program(
+      gl,
+      fullScreenVertexShaderSource,
+      fragmentShaderSource,
+      options
+    );
+  }
+
+  /**
+   * Draws the triangle.
+   *
+   * Example usage:
+   * ```typescript
+   * pass.program.setUniform('uIntensity', 0.5);
+   * pass.draw(output, { uTexture: input });
+   * ```
+   *
+   * @param output The render target to draw into, or `null` to draw into
+   * whatever is currently bound (usually the canvas).
+   * @param textures The textures the shader samples, keyed by the name of
+   * their `sampler2D` uniform. Each one is bound to its own texture unit.
+   */
+  draw(
+    output: RenderTarget | null,
+    textures: Record<string, Texture> = {}
+  ): void {
+    output?.bind();
+
+    // Bind each texture to the next texture unit, and tell the shader which
+    // unit to find it on
+    let unit = 0;
+    for (const [name, texture] of Object.entries(textures)) {
+      this.program.setUniform(name, unit);
+      texture.bind(unit);
+      unit++;
+    }
+
+    // Every pixel is drawn exactly once, over the top of whatever was there
+    // before, so depth testing and blending would only get in the way
+    this.stateCache.apply(FULL_SCREEN_RENDER_STATE);
+
+    // Draw the triangle. There are no vertex attributes, so there's no need
+    // for a vertex array object either.
+    this.program.use();
+    this.stateCache.bindVertexArray(null);
+    this.gl.drawArrays(this.gl.TRIANGLES, 0, 3);
+
+    output?.unbind();
+  }
+
+  /**
+   * Deletes the program from WebGL memory. After calling this, the pass
+   * cannot be used again.
+   */
+  dispose(): void {
+    this.program.dispose();
+  }
+}
+
+/**
+ * Applies a series of post-processing effects to each frame.
+ *
+ * Post-processing means changing the image after the scene has been drawn,
+ * rather than while each object is drawn. Effects that look at the picture as
+ * a whole, like blurring it or darkening its corners, can only be done this
+ * way. Even effects that could be done in each object's shader (like
+ * darkening the image with noise) are often better here, so that they're
+ * written once and apply to everything.
+ *
+ * It works like this:
+ * 1. The scene is drawn into a render target, instead of onto the canvas.
+ * 2. Each enabled {@link PostProcessPass} draws the image so far into another
+ *    render target, with its effect applied. We only need two of these, which
+ *    we take turns drawing into (called "ping-ponging"), since each pass only
+ *    needs the image from the pass before.
+ * 3. The last pass draws onto the canvas instead.
+ *
+ * The {@link RenderManager} does steps 1 and 3 for you: see
+ * {@link RenderManager.createPostProcessChain}.
+ */
+export class PostProcessChain {
+  /**
+   * Whether to apply the effects at all. If this is false, the scene is drawn
+   * straight onto the canvas, skipping the chain entirely.
+   */
+  public enabled = true;
+
+  /**
+   * The texture format used for the scene and every render target made with
+   * {@link createTarget}.
+   */
+  public readonly colorAttachment: TextureOptions;
+
+  /** The passes, in the order they're applied. */
+  private passes: PostProcessPass[] = [];
+
+  /** Every render target made with {@link createTarget}. */
+  private targets: RenderTarget[] = [];
+
+  /** The render target the scene is drawn into. */
+  private sceneTarget: RenderTarget;
+
+  /** The two render targets that the passes take turns drawing into. */
+  private pingPongTargets: [RenderTarget, RenderTarget];
+
+  /**
+   * Copies the scene onto the canvas, when there aren't any passes enabled to
+   * do it.
+   */
+  private copyPass: FullScreenPass;
+
+  /** Whether the chain's render targets use floating point colours. */
+  private hdr: boolean;
+
+  /**
+   * Creates a new post-processing chain, with no passes yet.
+   *
+   * @param gl The WebGL rendering context.
+   * @param resizer The canvas's resizer, which the chain's render targets
+   * follow so that they're always the same size as the canvas.
+   * @param options Optional configuration for the chain.
+   */
+  constructor(
+    public readonly gl: WebGL2RenderingContext,
+    private resizer: CanvasResizer,
+    options: PostProcessChainOptions = {}
+  ) {
+    this.hdr = (options.hdr ?? true) && this.enableFloatRendering();
+
+    // Half floats (16 bits per channel) are plenty for colours, and use half
+    // the memory of full floats
+    this.colorAttachment = this.hdr
+      ? { internalFormat: gl.RGBA16F, format: gl.RGBA, type: gl.HALF_FLOAT }
+      : {};
+
+    // If the context is lost, the extension needs enabling again before the
+    // render targets are recreated. Registering before we create them means
+    // we're restored first.
+    ResourceRegistry.forContext(gl).register(this);
+
+    // The scene needs a depth buffer, like the canvas has. The passes don't.
+    this.sceneTarget = this.createTarget({ depth: true });
+    this.pingPongTargets = [this.createTarget(), this.createTarget()];
+    this.copyPass = new FullScreenPass(gl, copyFragmentShaderSource);
+  }
+
+  /**
+   * Whether the chain is drawing in high dynamic range. This can be false even
+   * if {@link PostProcessChainOptions.hdr} was true, if the browser doesn't
+   * support it.
+   */
+  get isHDR(): boolean {
+    return this.hdr;
+  }
+
+  /**
+   * Gets the passes, in the order they're applied.
+   */
+  getPasses(): readonly PostProcessPass[] {
+    return this.passes;
+  }
+
+  /**
+   * Adds a pass to the end of the chain.
+   *
+   * @param pass The pass to add.
+   * @returns The same pass, for convenience.
+   */
+  add<T extends PostProcessPass>(pass: T): T {
+    this.passes.push(pass);
+    return pass;
+  }
+
+  /**
+   * Removes a pass from the chain. The pass isn't disposed of, so it can be
+   * added again later. To turn a pass off for a while, it's simpler to set
+   * its `enabled` property to false.
+   *
+   * @param pass The pass to remove.
+   */
+  remove(pass: PostProcessPass): void {
+    const index = this.passes.indexOf(pass);
+    if (index !== -1) {
+      this.passes.splice(index, 1);
+    }
+  }
+
+  /**
+   * Creates a render target for a pass to use as scratch space. It uses the
+   * chain's colour format, follows the size of the canvas (multiplied by
+   * `options.scale`), and is disposed of along with the chain.
+   *
+   * @param options Optional configuration for the render target. Unlike a
+   * normal render target, there's no depth buffer unless `depth` is true.
+   * @returns The new render target.
+   */
+  createTarget(options: RenderTargetOptions = {}): RenderTarget {
+    const target = new RenderTarget(
+      this.gl,
+      this.resizer.width,
+      this.resizer.height,
+      {
+        colorAttachments: [this.colorAttachment],
+        depth: false,
+        ...options,
+      }
+    );
+    target.autoResize(this.resizer);
+    this.targets.push(target);
+    return target;
+  }
+
+  /**
+   * Starts drawing the scene. Everything drawn until {@link end} is called
+   * goes into the chain's scene render target.
+   */
+  begin(): void {
+    this.sceneTarget.bind();
+  }
+
+  /**
+   * Finishes drawing the scene, and applies each enabled pass in turn.
+   *
+   * @param output Where the final image should go, or `null` for the canvas.
+   */
+  end(output: RenderTarget | null = null): void {
+    this.sceneTarget.unbind();
+
+    const passes = this.passes.filter((pass) => pass.enabled);
+
+    // With nothing to do, just copy the scene across
+    if (passes.length === 0) {
+      this.copyPass.draw(output, { uTexture: this.sceneTarget.getTexture() });
+      return;
+    }
+
+    let input = this.sceneTarget.getTexture();
+    passes.forEach((pass, i) => {
+      // The last pass draws the final image
+      if (i === passes.length - 1) {
+        pass.render(input, output);
+        return;
+      }
+
+      // The others take turns drawing into the two ping-pong targets. Each
+      // one reads from the target the previous pass drew into, and draws into
+      // the other one, since a texture can't be read and drawn into at once.
+      const target = this.pingPongTargets[i % 2];
+      pass.render(input, target);
+      input = target.getTexture();
+    });
+  }
+
+  /**
+   * Enables floating point rendering again after the WebGL context was lost
+   * and restored. The render targets restore themselves.
+   */
+  restore(): void {
+    if (this.hdr) {
+      this.enableFloatRendering();
+    }
+  }
+
+  /**
+   * Deletes the chain's render targets and every pass in it from WebGL memory.
+   * After calling this, the chain and its passes cannot be used again.
+   */
+  dispose(): void {
+    for (const pass of this.passes) {
+      pass.dispose();
+    }
+    this.passes = [];
+
+    for (const target of this.targets) {
+      target.dispose();
+    }
+    this.targets = [];
+
+    this.copyPass.dispose();
+    ResourceRegistry.forContext(this.gl).unregister(this);
+  }
+
+  /**
+   * Enables the `EXT_color_buffer_float` extension, which lets us draw into
+   * floating point textures. WebGL 2 can always read from them, but drawing
+   * into them is optional.
+   *
+   * @returns Whether the extension is supported.
+   */
+  private enableFloatRendering(): boolean {
+    return this.gl.getExtension('EXT_color_buffer_float') !== null;
+  }
+}
@@ -0,0 +1,560 @@
+/**
+ * The built-in post-processing passes. Add them to a {@link PostProcessChain}
+ * in the order they should be applied. A good order when using several of
+ * them is:
+ * 1. {@link BloomPass}, which needs colours brighter than white to work with
+ * 2. {@link ToneMappingPass}, which brings colours back into the 0 to 1 range
+ * 3. {@link ColorGradingPass}
+ * 4. {@link VignettePass}
+ * 5. {@link FXAAPass}, which works best on the final image
+ *
+ * Every option can also be changed at any time through the pass's properties,
+ * and every pass can be turned off by setting `enabled` to false.
+ */
+
+import {
+  FullScreenPass,
+  PostProcessChain,
+  PostProcessPass,
+} from './post-process-chain';
+import { RenderTarget } from './render-target';
+import { Texture } from './texture';
+
+import blurFragmentShaderSource from './shaders/post-processing/blur-fragment-shader.glsl?raw';
+import bloomThresholdFragmentShaderSource from './shaders/post-processing/bloom-threshold-fragment-shader.glsl?raw';
+import bloomCompositeFragmentShaderSource from './shaders/post-processing/bloom-composite-fragment-shader.glsl?raw';
+import vignetteFragmentShaderSource from './shaders/post-processing/vignette-fragment-shader.glsl?raw';
+import colorGradingFragmentShaderSource from './shaders/post-processing/color-grading-fragment-shader.glsl?raw';
+import fxaaFragmentShaderSource from './shaders/post-processing/fxaa-fragment-shader.glsl?raw';
+import toneMappingFragmentShaderSource from './shaders/post-processing/tone-mapping-fragment-shader.glsl?raw';
+
+/**
+ * Options for a {@link GaussianBlurPass}.
+ */
+export interface GaussianBlurOptions {
+  /**
+   * How far apart the samples are, in pixels. Bigger values blur more, but
+   * too big and the blur starts to look like several copies of the image
+   * ("banding"). Default is 1.
+   */
+  radius?: number;
+  /**
+   * How many times to blur. Blurring an already blurred image widens the blur
+   * without banding. Default is 2.
+   */
+  iterations?: number;
+  /**
+   * The resolution to blur at, compared to the canvas. A lower resolution is
+   * faster, and blurrier too. Default is 1.
+   */
+  scale?: number;
+}
+
+/**
+ * Blurs the image, using a gaussian blur (the kind where each pixel is mixed
+ * with its neighbours, with closer neighbours counting for more).
+ *
+ * Blurring in two dimensions at once would need a lot of samples for each
+ * pixel. Blurring horizontally and then vertically gives exactly the same
+ * result with far fewer, so that's what this does, using two render targets
+ * of its own.
+ */
+export class GaussianBlurPass implements PostProcessPass {
+  public enabled = true;
+
+  /** See {@link GaussianBlurOptions.radius}. */
+  public radius: number;
+
+  /** See {@link GaussianBlurOptions.iterations}. */
+  public iterations: number;
+
+  /** Draws a blur in one direction. */
+  private pass: FullScreenPass;
+
+  /** Where the horizontal and vertical blurs are drawn. */
+  private targets: [RenderTarget, RenderTarget];
+
+  /**
+   * Creates a new blur pass.
+   *
+   * @param chain The chain the pass will be added to.
+   * @param options Optional configuration for the blur.
+   */
+  constructor(chain: PostProcessChain, options: GaussianBlurOptions = {}) {
+    this.radius = options.radius ?? 1;
+    this.iterations = options.iterations ?? 2;
+
+    this.pass = new FullScreenPass(chain.gl, blurFragmentShaderSource);
+
+    const scale = options.scale ?? 1;
+    this.targets = [
+      chain.createTarget({ scale }),
+      chain.createTarget({ scale }),
+    ];
+  }
+
+  /**
+   * Blurs the input into the output. The input is only read at the very
+   * start, so it's fine for the output to be the input's own render target.
+   */
+  render(input: Texture, output: RenderTarget | null): void {
+    const [horizontal, vertical] = this.targets;
+    const iterations = Math.max(1, Math.round(this.iterations));
+
+    let source = input;
+    for (let i = 0; i < iterations; i++) {
+      this.blur(source, horizontal, [1, 0]);
+
+      // The last vertical blur draws the final result
+      const last = i === iterations - 1;
+      this.blur(horizontal.getTexture(), last ? output : vertical, [0, 1]);
+      source = vertical.getTexture();
+    }
+  }
+
+  dispose(): void {
+    // The render targets belong to the chain, which disposes of them
+    this.pass.dispose();
+  }
+
+  /**
+   * Blurs in one direction.
+   *
+   * @param input The image to blur.
+   * @param output Where to draw the blurred image.
+   * @param direction `[1, 0]` to blur horizontally, or `[0, 1]` vertically.
+   */
+  private blur(
+    input: Texture,
+    output: RenderTarget | null,
+    [x, y]: [number, number]
+  ): void {
+    // Texture coordinates go from 0 to 1, so one pixel is 1 / width of them
+    this.pass.program.setUniform('uDirection', [
+      (x * this.radius) / input.width,
+      (y * this.radius) / input.height,
+    ]);
+    this.pass.draw(output, { uTexture: input });
+  }
+}
+
+/**
+ * Options for a {@link BloomPass}. The blur options control the blur used for
+ * the glow.
+ */
+export interface BloomOptions extends GaussianBlurOptions {
+  /**
+   * How bright a pixel has to be before it glows. Default is 0.8.
+   */
+  threshold?: number;
+  /**
+   * How strongly the glow is added to the image. Default is 0.8.
+   */
+  intensity?: number;
+}
+
+/**
+ * Makes bright parts of the image glow, like a camera lens does with bright
+ * lights.
+ *
+ * This works in three steps:
+ * 1. Keep only the parts of the image brighter than the threshold.
+ * 2. Blur them, at half resolution by default since they're going to be
+ *    blurry anyway.
+ * 3. Add the blurred result on top of the original image.
+ *
+ * This looks best with an HDR chain (see {@link PostProcessChainOptions.hdr}),
+ * where bright lights can be much brighter than white walls.
+ */
+export class BloomPass implements PostProcessPass {
+  public enabled = true;
+
+  /** See {@link BloomOptions.threshold}. */
+  public threshold: number;
+
+  /** See {@link BloomOptions.intensity}. */
+  public intensity: number;
+
+  /**
+   * The blur used for the glow. Its `radius` and `iterations` can be changed
+   * at any time.
+   */
+  public readonly blur: GaussianBlurPass;
+
+  /** Keeps only the bright parts of the image. */
+  private thresholdPass: FullScreenPass;
+
+  /** Adds the glow on top of the image. */
+  private compositePass: FullScreenPass;
+
+  /** Where the bright parts are drawn, and then blurred. */
+  private brightTarget: RenderTarget;
+
+  /**
+   * Creates a new bloom pass.
+   *
+   * @param chain The chain the pass will be added to.
+   * @param options Optional configuration for the bloom.
+   */
+  constructor(chain: PostProcessChain, options: BloomOptions = {}) {
+    this.threshold = options.threshold ?? 0.8;
+    this.intensity = options.intensity ?? 0.8;
+
+    const scale = options.scale ?? 0.5;
+    this.thresholdPass = new FullScreenPass(
+      chain.gl,
+      bloomThresholdFragmentShaderSource
+    );
+    this.compositePass = new FullScreenPass(
+      chain.gl,
+      bloomCompositeFragmentShaderSource
+    );
+    this.brightTarget = chain.createTarget({ scale });
+    this.blur = new GaussianBlurPass(chain, {
+      radius: options.radius,
+      iterations: options.iterations ?? 3,
+      scale,
+    });
+  }
+
+  render(input: Texture, output: RenderTarget | null): void {
+    // 1. Keep only the bright parts
+    this.thresholdPass.program.setUniform('uThreshold', this.threshold);
+    this.thresholdPass.draw(this.brightTarget, { uTexture: input });
+
+    // 2. Blur them
+    this.blur.render(this.brightTarget.getTexture(), this.brightTarget);
+
+    // 3. Add them on top of the original image
+    this.compositePass.program.setUniform('uIntensity', this.intensity);
+    this.compositePass.draw(output, {
+      uTexture: input,
+      uBloomTexture: this.brightTarget.getTexture(),
+    });
+  }
+
+  dispose(): void {
+    this.thresholdPass.dispose();
+    this.compositePass.dispose();
+    this.blur.dispose();
+  }
+}
+
+/**
+ * Options for a {@link VignettePass}.
+ */
+export interface VignetteOptions {
+  /**
+   * How dark the corners get, from 0 (not at all) to 1 (black). Default is
+   * 0.5.
+   */
+  intensity?: number;
+  /**
+   * How far from the centre the darkening is at its strongest, where 0 is the
+   * centre and 1 is the corners. Default is 1.
+   */
+  radius?: number;
+  /**
+   * How far inside the radius the darkening starts to fade in. Default is
+   * 0.6.
+   */
+  softness?: number;
+}
+
+/**
+ * Darkens the edges of the image, drawing the eye towards the centre.
+ */
+export class VignettePass implements PostProcessPass {
+  public enabled = true;
+
+  /** See {@link VignetteOptions.intensity}. */
+  public intensity: number;
+
+  /** See {@link VignetteOptions.radius}. */
+  public radius: number;
+
+  /** See {@link VignetteOptions.softness}. */
+  public softness: number;
+
+  /** Draws the vignette. */
+  private pass: FullScreenPass;
+
+  /**
+   * Creates a new vignette pass.
+   *
+   * @param chain The chain the pass will be added to.
+   * @param options Optional configuration for the vignette.
+   */
+  constructor(chain: PostProcessChain, options: VignetteOptions = {}) {
+    this.intensity = options.intensity ?? 0.5;
+    this.radius = options.radius ?? 1;
+    this.softness = options.softness ?? 0.6;
+
+    this.pass = new FullScreenPass(chain.gl, vignetteFragmentShaderSource);
+  }
+
+  render(input: Texture, output: RenderTarget | null): void {
+    this.pass.program.setUniform('uIntensity', this.intensity);
+    this.pass.program.setUniform('uRadius', this.radius);
+    this.pass.program.setUniform('uSoftness', this.softness);
+    this.pass.draw(output, { uTexture: input });
+  }
+
+  dispose(): void {
+    this.pass.dispose();
+  }
+}
+
+/**
+ * Options for a {@link ColorGradingPass}.
+ */
+export interface ColorGradingOptions {
+  /**
+   * The colour lookup table (LUT) to use. See {@link ColorGradingPass} for
+   * the layout it needs. Load it with `minFilter` and `magFilter` set to
+   * LINEAR, since it doesn't have mipmaps that make sense.
+   *
+   * If this isn't given, a LUT that leaves colours unchanged is used.
+   */
+  lut?: Texture;
+  /**
+   * How many slices the LUT has, which is also how wide and tall each slice
+   * is. Default is 16.
+   */
+  lutSize?: number;
+  /**
+   * How much of the graded colour to use, from 0 (none) to 1 (all of it).
+   * Default is 1.
+   */
+  intensity?: number;
+}
+
+/**
+ * Changes the colours of the image using a colour lookup table (LUT), which
+ * says what each colour should become. This is how films get their
+ * distinctive look, like teal shadows and orange highlights.
+ *
+ * A LUT is a 3D table: red, green and blue each pick a position along one
+ * side, and the table holds the new colour at that position. WebGL can't load
+ * 3D textures from images, so the table is flattened into a strip of square
+ * slices side by side. Within each slice, red increases to the right and green
+ * increases downwards, and each slice has more blue than the one before. This
+ * is the layout most photo editing tools export.
+ *
+ * To make your own, start with {@link ColorGradingPass.createIdentityLut}
+ * (drawn onto a canvas and saved as an image), adjust its colours in a photo
+ * editor, and load the result with `Texture.fromURL`.
+ */
+export class ColorGradingPass implements PostProcessPass {
+  public enabled = true;
+
+  /** See {@link ColorGradingOptions.intensity}. */
+  public intensity: number;
+
+  /** Draws the graded colours. */
+  private pass: FullScreenPass;
+
+  /** The colour lookup table. */
+  private lut: Texture;
+
+  /** See {@link ColorGradingOptions.lutSize}. */
+  private lutSize: number;
+
+  /**
+   * Whether we created the LUT ourselves, in which case it's up to us to
+   * dispose of it.
+   */
+  private ownsLut: boolean;
+
+  /**
+   * Creates a new colour grading pass.
+   *
+   * @param chain The chain the pass will be added to.
+   * @param options Optional configuration for the colour grading.
+   */
+  constructor(chain: PostProcessChain, options: ColorGradingOptions = {}) {
+    this.intensity = options.intensity ?? 1;
+    this.pass = new FullScreenPass(chain.gl, colorGradingFragmentShaderSource);
+
+    this.lutSize = options.lutSize ?? 16;
+    this.ownsLut = !options.lut;
+    this.lut =
+      options.lut ?? ColorGradingPass.createIdentityLut(chain.gl, this.lutSize);
+  }
+
+  /**
+   * Creates a LUT that leaves every colour as it is.
+   *
+   * @param gl The WebGL rendering context.
+   * @param size How many slices the LUT should have. Default is 16.
+   * @returns The LUT texture.
+   */
+  static createIdentityLut(gl: WebGL2RenderingContext, size = 16): Texture {
+    const image = new ImageData(size * size, size);
+    for (let green = 0; green < size; green++) {
+      for (let blue = 0; blue < size; blue++) {
+        for (let red = 0; red < size; red++) {
+          // Each row is `size` slices of `size` pixels, and each pixel is 4
+          // bytes (red, green, blue and alpha)
+          const i = (green * size * size + blue * size + red) * 4;
+          image.data[i] = Math.round((red / (size - 1)) * 255);
+          image.data[i + 1] = Math.round((green / (size - 1)) * 255);
+          image.data[i + 2] = Math.round((blue / (size - 1)) * 255);
+          image.data[i + 3] = 255;
+        }
+      }
+    }
+
+    return new Texture(gl, image, {
+      minFilter: gl.LINEAR,
+      magFilter: gl.LINEAR,
+    });
+  }
+
+  /**
+   * Switches to a different LUT. If the previous LUT was created by the pass,
+   * it's disposed of.
+   *
+   * @param lut The new LUT.
+   * @param lutSize How many slices the new LUT has.
+   */
+  setLut(lut: Texture, lutSize: number): void {
+    if (this.ownsLut) {
+      this.lut.dispose();
+    }
+    this.lut = lut;
+    this.lutSize = lutSize;
+    this.ownsLut = false;
+  }
+
+  render(input: Texture, output: RenderTarget | null): void {
+    this.pass.program.setUniform('uLutSize', this.lutSize);
+    this.pass.program.setUniform('uIntensity', this.intensity);
+    this.pass.draw(output, { uTexture: input, uLut: this.lut });
+  }
+
+  dispose(): void {
+    this.pass.dispose();
+    if (this.ownsLut) {
+      this.lut.dispose();
+    }
+  }
+}
+
+/**
+ * Smooths out jagged edges, using fast approximate anti-aliasing (FXAA).
+ *
+ * The canvas normally smooths edges for us (multisampling), but that doesn't
+ * happen when drawing into a render target. FXAA instead looks for edges in
+ * the finished image, by comparing the brightness of neighbouring pixels, and
+ * blurs along them. It expects colours in the 0 to 1 range, so it should come
+ * after tone mapping.
+ */
+export class FXAAPass implements PostProcessPass {
+  public enabled = true;
+
+  /** Draws the anti-aliased image. */
+  private pass: FullScreenPass;
+
+  /**
+   * Creates a new FXAA pass.
+   *
+   * @param chain The chain the pass will be added to.
+   */
+  constructor(chain: PostProcessChain) {
+    this.pass = new FullScreenPass(chain.gl, fxaaFragmentShaderSource);
+  }
+
+  render(input: Texture, output: RenderTarget | null): void {
+    this.pass.program.setUniform('uTexelSize', [
+      1 / input.width,
+      1 / input.height,
+    ]);
+    this.pass.draw(output, { uTexture: input });
+  }
+
+  dispose(): void {
+    this.pass.dispose();
+  }
+}
+
+/**
+ * The numbers the tone mapping shader uses for each operator. These must
+ * match the `TONE_MAPPING_` defines in the shader.
+ */
+const TONE_MAPPING_OPERATORS = {
+  none: 0,
+  reinhard: 1,
+  aces: 2,
+};
+
+/**
+ * The curves a {@link ToneMappingPass} can use:
+ * - `'none'` leaves colours as they are, so anything above 1 is clipped.
+ * - `'reinhard'` is simple and gentle, but can look washed out.
+ * - `'aces'` is the curve used by the film industry, with more contrast.
+ */
+export type ToneMappingOperator = keyof typeof TONE_MAPPING_OPERATORS;
+
+/**
+ * Options for a {@link ToneMappingPass}.
+ */
+export interface ToneMappingOptions {
+  /**
+   * Multiplies every colour before tone mapping, like a camera's exposure.
+   * Default is 1.
+   */
+  exposure?: number;
+  /**
+   * The curve to use. Default is `'aces'`.
+   */
+  operator?: ToneMappingOperator;
+}
+
+/**
+ * Brings colours brighter than white back into the 0 to 1 range that the
+ * screen can show, without simply clipping them.
+ *
+ * In an HDR chain (see {@link PostProcessChainOptions.hdr}), colours can go
+ * above 1. Clipping them would turn every bright area flat white, so instead
+ * tone mapping squeezes the brightest colours together while leaving darker
+ * ones mostly alone, like our eyes and cameras do.
+ */
+export class ToneMappingPass implements PostProcessPass {
+  public enabled = true;
+
+  /** See {@link ToneMappingOptions.exposure}. */
+  public exposure: number;
+
+  /** See {@link ToneMappingOptions.operator}. */
+  public operator: ToneMappingOperator;
+
+  /** Draws the tone mapped image. */
+  private pass: FullScreenPass;
+
+  /**
+   * Creates a new tone mapping pass.
+   *
+   * @param chain The chain the pass will be added to.
+   * @param options Optional configuration for the tone mapping.
+   */
+  constructor(chain: PostProcessChain, options: ToneMappingOptions = {}) {
+    this.exposure = options.exposure ?? 1;
+    this.operator = options.operator ?? 'aces';
+
+    this.pass = new FullScreenPass(chain.gl, toneMappingFragmentShaderSource);
+  }
+
+  render(input: Texture, output: RenderTarget | null): void {
+    this.pass.program.setUniform('uExposure', this.exposure);
+    this.pass.program.setUniform(
+      'uOperator',
+      TONE_MAPPING_OPERATORS[this.operator]
+    );
+    this.pass.draw(output, { uTexture: input });
+  }
+
+  dispose(): void {
+    this.pass.dispose();
+  }
+}
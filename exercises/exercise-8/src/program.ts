@@ -1,4 +1,105 @@
-import { mat4, vec3 } from 'gl-matrix';
+import { ShaderCompileError } from './shader-compile-error';
+import { preprocessShader, ShaderDefines } from './shader-preprocessor';
+import { RenderStateCache } from './render-state';
+import { ResourceRegistry } from './resource-registry';
+import { ResourceTracker } from './resource-tracker';
+
+/**
+ * The values that can be passed to {@link Program.setUniform}.
+ *
+ * Scalars (`float`, `int`, `bool`, samplers) can be given as a plain number (or
+ * boolean). Vectors, matrices and arrays are given as a flat list of numbers,
+ * which includes the vector and matrix types from `gl-matrix`.
+ */
+export type UniformValue =
+  | number
+  | boolean
+  | Float32List
+  | Int32List
+  | Uint32List;
+
+/**
+ * Optional configuration for a {@link Program}.
+ */
+export interface ProgramOptions {
+  /**
+   * Values to inject into both shaders as `#define`s, e.g.
+   * `{ USE_NOISE: 1 }`. These let one shader file be compiled in several
+   * variations, by checking them with `#ifdef` in the GLSL code.
+   */
+  defines?: ShaderDefines;
+  /**
+   * The files that can be pulled in with `#include`, keyed by path. Defaults to
+   * every `.glsl` file in the `shaders` directory.
+   */
+  includes?: Record<string, string>;
+}
+
+/**
+ * Information about an active uniform variable, read from the program after it
+ * has been linked.
+ */
+export interface ActiveUniform {
+  /**
+   * The name of the uniform as it appears in the shader code. For arrays, this
+   * is the name without the `[0]` suffix that WebGL reports.
+   */
+  name: string;
+  /**
+   * The GL type of the uniform, e.g. `gl.FLOAT_VEC3` or `gl.SAMPLER_2D`.
+   */
+  type: number;
+  /**
+   * The number of elements in the uniform. This is 1 unless the uniform is an
+   * array.
+   */
+  size: number;
+  /**
+   * The location of the uniform, used to refer to it in other WebGL functions.
+   */
+  location: WebGLUniformLocation;
+}
+
+/**
+ * Information about an active attribute variable, read from the program after
+ * it has been linked.
+ */
+export interface ActiveAttribute {
+  /**
+   * The name of the attribute as it appears in the shader code.
+   */
+  name: string;
+  /**
+   * The GL type of the attribute, e.g. `gl.FLOAT_VEC2`.
+   */
+  type: number;
+  /**
+   * The number of elements in the attribute. This is 1 unless the attribute is
+   * an array.
+   */
+  size: number;
+  /**
+   * The location of the attribute, used to refer to it in other WebGL
+   * functions.
+   */
+  location: number;
+}
+
+/**
+ * Describes how a GLSL uniform type maps onto the WebGL `uniform*` functions.
+ */
+interface UniformTypeInfo {
+  /** The name of the type in GLSL, used in error messages. */
+  glslName: string;
+  /**
+   * Which family of `uniform*` functions is used to set the value. Booleans are
+   * set with the integer functions, but are kept separate so that only they
+   * can be given `true` and `false`.
+   */
+  kind: 'float' | 'int' | 'uint' | 'bool' | 'matrix';
+  /** How many numbers make up a single value of this type. */
+  components: number;
+}
 
 /**
  * Represents a WebGL program, which combines compiled vertex and fragment
@@ -33,45 +134,154 @@ export class Program {
    */
   public program: WebGLProgram;
 
+  /**
+   * All of the active uniforms in the program, keyed by name. See
+   * {@link uniforms}.
+   */
+  private _uniforms: Map<string, ActiveUniform>;
+
+  /**
+   * All of the active attributes in the program, keyed by name. See
+   * {@link attributes}.
+   */
+  private _attributes: Map<string, ActiveAttribute>;
+
+  /**
+   * Uniforms for single elements of arrays, like `uWeights[2]`, keyed by name.
+   * These aren't listed by WebGL, so they're looked up the first time they're
+   * used (see {@link findUniform}) and kept here.
+   */
+  private elementUniforms = new Map<string, ActiveUniform>();
+
+  /**
+   * The render state cache for this context, which keeps track of what's
+   * bound so that nothing is bound twice.
+   */
+  private stateCache: RenderStateCache;
+
   /**
    * Creates a new Program instance.
    *
+   * The shader source code is kept, so that the program can be compiled again
+   * if the WebGL context is lost (see {@link ResourceRegistry}).
+   *
    * @param gl The WebGL rendering context.
    * @param vertexShaderSource The source code of the vertex shader as a string.
    * @param fragmentShaderSource The source code of the fragment shader as a
    * string.
+   * @param options Optional defines and includes for the shaders.
    */
   constructor(
     private gl: WebGL2RenderingContext,
-    vertexShaderSource: string,
-    fragmentShaderSource: string
+    private vertexShaderSource: string,
+    private fragmentShaderSource: string,
+    private options: ProgramOptions = {}
   ) {
-    // Compile the vertex and fragment shaders
+    this.stateCache = RenderStateCache.forContext(gl);
+
+    // Compile the shaders and link them into a program
+    this.program = this.build();
+
+    // Now that the program is linked, ask WebGL which uniforms and attributes
+    // it ended up with. Doing this once up front means we don't need to look
+    // them up by name every frame.
+    this._uniforms = this.reflectUniforms();
+    this._attributes = this.reflectAttributes();
+
+    // Make sure we're rebuilt if the context is lost
+    ResourceRegistry.forContext(gl).register(this);
+  }
+
+  /**
+   * All of the active uniforms in the program, keyed by name.
+   *
+   * "Active" means that the uniform is actually used by the shader code. If you
+   * declare a uniform but never use it, the shader compiler removes it and it
+   * won't appear here.
+   */
+  get uniforms(): ReadonlyMap<string, ActiveUniform> {
+    return this._uniforms;
+  }
+
+  /**
+   * All of the active attributes in the program, keyed by name.
+   */
+  get attributes(): ReadonlyMap<string, ActiveAttribute> {
+    return this._attributes;
+  }
+
+  /**
+   * Deletes the program from the GPU, freeing up its memory. Call this when
+   * you're done with the program; it can't be used afterwards.
+   */
+  dispose(): void {
+    this.gl.deleteProgram(this.program);
+    ResourceTracker.forContext(this.gl).untrack(this.program);
+    ResourceRegistry.forContext(this.gl).unregister(this);
+  }
+
+  /**
+   * Compiles and links the program again, after the WebGL context was lost and
+   * restored.
+   *
+   * Uniform values belong to the program, so they're lost along with it and
+   * need to be set again before drawing. (Most uniforms are set every frame
+   * anyway, so this usually happens by itself.)
+   */
+  restore(): void {
+    this.program = this.build();
+
+    // The new program has new uniform locations, which we need to look up
+    // again. The old ones only worked with the old program.
+    this._uniforms = this.reflectUniforms();
+    this._attributes = this.reflectAttributes();
+    this.elementUniforms.clear();
+  }
+
+  /**
+   * Compiles the vertex and fragment shaders and links them into a program.
+   *
+   * @returns The linked WebGLProgram object.
+   */
+  private build(): WebGLProgram {
     const vertexShader = this.compileShader(
-      gl.VERTEX_SHADER,
-      vertexShaderSource
-    );
-    const fragmentShader = this.compileShader(
-      gl.FRAGMENT_SHADER,
-      fragmentShaderSource
+      this.gl.VERTEX_SHADER,
+      this.vertexShaderSource
     );
+    // If the fragment shader fails to compile, the vertex shader would never
+    // reach createProgram to be deleted, so delete it here instead
+    let fragmentShader: WebGLShader;
+    try {
+      fragmentShader = this.compileShader(
+        this.gl.FRAGMENT_SHADER,
+        this.fragmentShaderSource
+      );
+    } catch (error) {
+      this.gl.deleteShader(vertexShader);
+      throw error;
+    }
 
-    // Create and link the WebGL program
-    this.program = this.createProgram(vertexShader, fragmentShader);
+    return this.createProgram(vertexShader, fragmentShader);
   }
 
   /**
    * Compiles a shader of the specified type with the given source code.
    *
    * Shaders are written in a special language (GLSL) and need to be compiled
-   * before they can be used in a WebGL program.
+   * before they can be used in a WebGL program. Before compiling, we run the
+   * source through our preprocessor to handle any `#include`s and defines.
    *
    * @param type The type of shader to compile (VERTEX_SHADER or
    * FRAGMENT_SHADER).
    * @param source The source code of the shader.
    * @returns The compiled WebGLShader object.
+   * @throws {ShaderCompileError} If the shader source has errors.
    */
   private compileShader(type: number, source: string): WebGLShader {
+    // Paste in any included files and defines. This also gives us a map of
+    // where each line came from, so errors can point at the original file.
+    const preprocessed = preprocessShader(source, this.options);
+
     // Create a new shader object
     const shader = this.gl.createShader(type);
     if (!shader) {
@@ -79,15 +289,23 @@ export class Program {
     }
 
     // Set the source code of the shader
-    this.gl.shaderSource(shader, source);
+    this.gl.shaderSource(shader, preprocessed.source);
 
     // Compile the shader
     this.gl.compileShader(shader);
 
-    // Check if the compilation was successful
+    // Check if the compilation was successful. If not, the compiler's info log
+    // tells us what went wrong. We wrap it in a ShaderCompileError, which
+    // points at the offending lines of the source for us.
     if (!this.gl.getShaderParameter(shader, this.gl.COMPILE_STATUS)) {
-      const info = this.gl.getShaderInfoLog(shader);
-      throw new Error(`Failed to compile shader: ${info}`);
+      const info = this.gl.getShaderInfoLog(shader) ?? '';
+      this.gl.deleteShader(shader);
+      throw new ShaderCompileError(
+        type === this.gl.VERTEX_SHADER ? 'vertex' : 'fragment',
+        preprocessed.source,
+        info,
+        preprocessed.lineMap
+      );
     }
 
     return shader;
@@ -121,24 +339,105 @@ export class Program {
     // Link the program
     this.gl.linkProgram(program);
 
+    // Once the program is linked, it has everything it needs from the
+    // shaders, so we can detach and delete them. Otherwise they'd stay in
+    // memory for as long as the program does.
+    this.gl.detachShader(program, vertexShader);
+    this.gl.detachShader(program, fragmentShader);
+    this.gl.deleteShader(vertexShader);
+    this.gl.deleteShader(fragmentShader);
+
     // Check if the linking was successful
     if (!this.gl.getProgramParameter(program, this.gl.LINK_STATUS)) {
       const info = this.gl.getProgramInfoLog(program);
+      this.gl.deleteProgram(program);
       throw new Error(`Failed to link program: ${info}`);
     }
 
+    ResourceTracker.forContext(this.gl).track(program, 'program', 'Program');
     return program;
   }
 
+  /**
+   * Reads the list of active uniforms from the linked program.
+   *
+   * @returns A map of uniform names to information about each uniform.
+   */
+  private reflectUniforms(): Map<string, ActiveUniform> {
+    const uniforms = new Map<string, ActiveUniform>();
+
+    const count: number = this.gl.getProgramParameter(
+      this.program,
+      this.gl.ACTIVE_UNIFORMS
+    );
+    for (let i = 0; i < count; i++) {
+      const info = this.gl.getActiveUniform(this.program, i);
+      if (!info) {
+        continue;
+      }
+
+      // Uniforms inside uniform blocks don't have a location, as they're set
+      // through a buffer instead, so we skip them.
+      const location = this.gl.getUniformLocation(this.program, info.name);
+      if (!location) {
+        continue;
+      }
+
+      // WebGL reports arrays as `uName[0]`, but it's more natural to refer to
+      // the whole array by its plain name.
+      const name = info.name.endsWith('[0]')
+        ? info.name.slice(0, -'[0]'.length)
+        : info.name;
+
+      uniforms.set(name, { name, type: info.type, size: info.size, location });
+    }
+
+    return uniforms;
+  }
+
+  /**
+   * Reads the list of active attributes from the linked program.
+   *
+   * @returns A map of attribute names to information about each attribute.
+   */
+  private reflectAttributes(): Map<string, ActiveAttribute> {
+    const attributes = new Map<string, ActiveAttribute>();
+
+    const count: number = this.gl.getProgramParameter(
+      this.program,
+      this.gl.ACTIVE_ATTRIBUTES
+    );
+    for (let i = 0; i < count; i++) {
+      const info = this.gl.getActiveAttrib(this.program, i);
+
+      // Built-in variables like `gl_VertexID` can show up here on some
+      // drivers, but they don't have a location we can supply data to.
+      if (!info || info.name.startsWith('gl_')) {
+        continue;
+      }
+
+      const location = this.gl.getAttribLocation(this.program, info.name);
+      attributes.set(info.name, {
+        name: info.name,
+        type: info.type,
+        size: info.size,
+        location,
+      });
+    }
+
+    return attributes;
+  }
+
   /**
    * Uses this program for rendering.
    *
    * This method should be called before drawing anything that should use this
    * program. It tells WebGL to use this specific combination of vertex and
-   * fragment shaders for the next things we're going to draw.
+   * fragment shaders for the next things we're going to draw. The program
+   * stays in use until another one is used.
    */
   use(): void {
-    this.gl.useProgram(this.program);
+    this.stateCache.useProgram(this.program);
   }
 
   /**
@@ -148,11 +447,12 @@ export class Program {
    * specify input data that changes for each vertex, like the vertex position.
    *
    * @param name The name of the attribute as it appears in the shader code.
-   * @returns The location of the attribute. This is a number that can be used
-   * to refer to the attribute in other WebGL functions.
+   * @returns The location of the attribute, or -1 if the program has no active
+   * attribute with this name. This is a number that can be used to refer to the
+   * attribute in other WebGL functions.
    */
   getAttribLocation(name: string): number {
-    return this.gl.getAttribLocation(this.program, name);
+    return this.attributes.get(name)?.location ?? -1;
   }
 
   /**
@@ -162,93 +462,321 @@ export class Program {
    * a single draw call (like a constant). They can be used in both vertex and
    * fragment shaders.
    *
-   * @param name The name of the uniform as it appears in the shader code.
-   * @returns The location of the uniform. This is a number that can be used to
-   * refer to the uniform in other WebGL functions.
+   * @param name The name of the uniform as it appears in the shader code. This
+   * can also be a single element of an array, like `uWeights[2]`.
+   * @returns The location of the uniform, or `null` if the program has no
+   * active uniform with this name.
    */
   getUniformLocation(name: string): WebGLUniformLocation | null {
-    return this.gl.getUniformLocation(this.program, name);
+    // Most lookups are for whole uniforms, which we already know about. Array
+    // elements aren't listed by WebGL, so for those we have to ask it.
+    return (
+      this.uniforms.get(name)?.location ??
+      this.gl.getUniformLocation(this.program, name)
+    );
   }
 
   /**
-   * Sets a `float` uniform variable in the program.
+   * Sets the value of a uniform variable in the program.
    *
-   * @param location The location of the uniform variable in the program, as
-   * returned by {@link getUniformLocation}.
-   * @param value The value to set the uniform to.
+   * The right WebGL function to call is picked automatically from the type the
+   * uniform was declared with in the shader, so the same method works for
+   * floats, vectors, matrices, integers, samplers and arrays of any of these.
+   *
+   * Example usage:
+   * ```typescript
+   * program.setUniform('uTime', performance.now() / 1000); // float
+   * program.setUniform('uColour', vec3.fromValues(1, 0, 0)); // vec3
+   * program.setUniform('uViewProjectionMatrix', camera.getViewProjectionMatrix()); // mat4
+   * program.setUniform('uTexture', 0); // sampler2D, using texture unit 0
+   * program.setUniform('uWeights[2]', 0.5); // just the third element of a float[]
+   * ```
+   *
+   * The value is checked against the uniform's type, so mistakes which WebGL
+   * would quietly get wrong are caught instead. For example, `0.5` can't be
+   * given to an `int` or a sampler (WebGL would round it down to 0), and `true`
+   * can only be given to a `bool`.
+   *
+   * @param name The name of the uniform as it appears in the shader code. This
+   * can also be a single element of an array, like `uWeights[2]`, in which case
+   * that element and the ones after it are set.
+   * @param value The value to set the uniform to. For arrays, pass the values
+   * of all the elements one after another in a single flat list.
    */
-  setUniform1f(location: WebGLUniformLocation | null, value: number): void {
-    if (location == null) {
-      throw new Error('Uniform location is null');
+  setUniform(name: string, value: UniformValue): void {
+    const uniform = this.findUniform(name);
+    if (!uniform) {
+      const available = [...this.uniforms.keys()].join(', ') || 'none';
+      throw new Error(
+        `Uniform '${name}' is not an active uniform in this program. ` +
+          `It may be misspelled, or it may have been removed by the shader ` +
+          `compiler because it is never used. Active uniforms: ${available}`
+      );
     }
 
-    this.use();
+    const typeInfo = this.getUniformTypeInfo(uniform.type);
 
-    this.gl.uniform1f(location, value);
+    if (typeof value === 'boolean' && typeInfo.kind !== 'bool') {
+      throw new Error(
+        `Uniform '${name}' is a ${typeInfo.glslName}, which can't be set to a ` +
+          `boolean (${value})`
+      );
+    }
 
-    // Unbind the program to avoid accidental changes
-    this.gl.useProgram(null);
-  }
+    // Scalars can be given as plain numbers for convenience, but everything is
+    // sent to WebGL as a list
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      if (typeInfo.components !== 1) {
+        throw new Error(
+          `Uniform '${name}' is a ${typeInfo.glslName}, which needs ` +
+            `${typeInfo.components} values, but a single ${typeof value} was given`
+        );
+      }
+      value = [Number(value)];
+    }
 
-  /**
-   * Sets a `int` uniform variable in the program.
-   *
-   * @param location The location of the uniform variable in the program, as
-   * returned by {@link getUniformLocation}.
-   * @param value The value to set the uniform to.
-   */
-  setUniform1i(location: WebGLUniformLocation | null, value: number): void {
-    if (location == null) {
-      throw new Error('Uniform location is null');
+    // The number of values must fill a whole number of elements, and there
+    // can't be more elements than the uniform has room for
+    if (
+      value.length === 0 ||
+      value.length % typeInfo.components !== 0 ||
+      value.length > typeInfo.components * uniform.size
+    ) {
+      const expected =
+        uniform.size === 1
+          ? `${typeInfo.components}`
+          : `a multiple of ${typeInfo.components}, up to ${typeInfo.components * uniform.size}`;
+      throw new Error(
+        `Uniform '${name}' is a ${typeInfo.glslName}` +
+          (uniform.size > 1 ? `[${uniform.size}]` : '') +
+          `, which needs ${expected} values, but ${value.length} were given`
+      );
     }
 
-    this.use();
+    // Integer uniforms (including booleans and samplers) are set with the
+    // integer functions, which would silently round down any fractions, and
+    // unsigned ones would wrap negative numbers around to huge ones
+    if (typeInfo.kind !== 'float' && typeInfo.kind !== 'matrix') {
+      for (const component of value) {
+        if (
+          !Number.isInteger(component) ||
+          (typeInfo.kind === 'uint' && component < 0)
+        ) {
+          throw new Error(
+            `Uniform '${name}' is a ${typeInfo.glslName}, which needs ` +
+              `${typeInfo.kind === 'uint' ? 'non-negative ' : ''}whole ` +
+              `numbers, but ${component} was given`
+          );
+        }
+      }
+    }
 
-    this.gl.uniform1i(location, value);
+    this.use();
 
-    // Unbind the program to avoid accidental changes
-    this.gl.useProgram(null);
+    const location = uniform.location;
+    const gl = this.gl;
+    switch (typeInfo.kind) {
+      case 'float': {
+        const data = value instanceof Float32Array ? value : Array.from(value);
+        [gl.uniform1fv, gl.uniform2fv, gl.uniform3fv, gl.uniform4fv][
+          typeInfo.components - 1
+        ].call(gl, location, data);
+        break;
+      }
+      case 'int':
+      case 'bool': {
+        const data = value instanceof Int32Array ? value : Array.from(value);
+        [gl.uniform1iv, gl.uniform2iv, gl.uniform3iv, gl.uniform4iv][
+          typeInfo.components - 1
+        ].call(gl, location, data);
+        break;
+      }
+      case 'uint': {
+        const data = value instanceof Uint32Array ? value : Array.from(value);
+        [gl.uniform1uiv, gl.uniform2uiv, gl.uniform3uiv, gl.uniform4uiv][
+          typeInfo.components - 1
+        ].call(gl, location, data);
+        break;
+      }
+      case 'matrix': {
+        const data = value instanceof Float32Array ? value : Array.from(value);
+        // The second argument is unused and must always be false (it makes no
+        // sense why it's part of the API)
+        this.getMatrixSetter(uniform.type).call(gl, location, false, data);
+        break;
+      }
+    }
   }
 
   /**
-   * Sets a `vec3` uniform variable in the program.
+   * Finds an active uniform by name, including single elements of arrays.
    *
-   * @param location The location of the uniform variable in the program, as
-   * returned by {@link getUniformLocation}.
-   * @param value The value to set the uniform to.
+   * WebGL only lists each array once (as `uName[0]`, which we store as
+   * `uName`), so an element like `uName[2]` isn't in {@link uniforms}. For
+   * those, we find the array and ask WebGL for the element's own location.
+   * Elements of arrays of structs, like `uLights[2].colour`, are listed by
+   * WebGL separately, so they're already in {@link uniforms}.
+   *
+   * @param name The name of the uniform or array element.
+   * @returns Information about the uniform, or `undefined` if there isn't an
+   * active uniform or array element with this name. For an element, the size
+   * is how many elements there are from it to the end of the array.
    */
-  setUniform3f(location: WebGLUniformLocation | null, value: vec3): void {
-    if (location == null) {
-      throw new Error('Uniform location is null');
+  private findUniform(name: string): ActiveUniform | undefined {
+    const uniform = this.uniforms.get(name) ?? this.elementUniforms.get(name);
+    if (uniform) {
+      return uniform;
     }
 
-    this.use();
-
-    this.gl.uniform3fv(location, value);
+    const match = /^(.+)\[(\d+)\]$/.exec(name);
+    if (!match) {
+      return undefined;
+    }
+    const array = this.uniforms.get(match[1]);
+    const index = Number(match[2]);
+    if (!array || index >= array.size) {
+      return undefined;
+    }
+    const location = this.gl.getUniformLocation(this.program, name);
+    if (!location) {
+      return undefined;
+    }
 
-    // Unbind the program to avoid accidental changes
-    this.gl.useProgram(null);
+    const element = {
+      name,
+      type: array.type,
+      size: array.size - index,
+      location,
+    };
+    this.elementUniforms.set(name, element);
+    return element;
   }
 
   /**
-   * Sets a `mat4` uniform variable in the program.
+   * Looks up how a GL uniform type should be set.
    *
-   * @param location The location of the uniform variable in the program, as
-   * returned by {@link getUniformLocation}.
-   * @param value The value to set the uniform to.
+   * @param type The GL type of the uniform, as reported by `getActiveUniform`.
+   * @returns Information about how to set a uniform of this type.
    */
-  setUniformMatrix4f(location: WebGLUniformLocation | null, value: mat4): void {
-    if (location == null) {
-      throw new Error('Uniform location is null');
+  private getUniformTypeInfo(type: number): UniformTypeInfo {
+    const gl = this.gl;
+    switch (type) {
+      case gl.FLOAT:
+        return { glslName: 'float', kind: 'float', components: 1 };
+      case gl.FLOAT_VEC2:
+        return { glslName: 'vec2', kind: 'float', components: 2 };
+      case gl.FLOAT_VEC3:
+        return { glslName: 'vec3', kind: 'float', components: 3 };
+      case gl.FLOAT_VEC4:
+        return { glslName: 'vec4', kind: 'float', components: 4 };
+      case gl.INT:
+        return { glslName: 'int', kind: 'int', components: 1 };
+      case gl.INT_VEC2:
+        return { glslName: 'ivec2', kind: 'int', components: 2 };
+      case gl.INT_VEC3:
+        return { glslName: 'ivec3', kind: 'int', components: 3 };
+      case gl.INT_VEC4:
+        return { glslName: 'ivec4', kind: 'int', components: 4 };
+      // Booleans are set using the integer functions, where 0 is false and
+      // anything else is true
+      case gl.BOOL:
+        return { glslName: 'bool', kind: 'bool', components: 1 };
+      case gl.BOOL_VEC2:
+        return { glslName: 'bvec2', kind: 'bool', components: 2 };
+      case gl.BOOL_VEC3:
+        return { glslName: 'bvec3', kind: 'bool', components: 3 };
+      case gl.BOOL_VEC4:
+        return { glslName: 'bvec4', kind: 'bool', components: 4 };
+      case gl.UNSIGNED_INT:
+        return { glslName: 'uint', kind: 'uint', components: 1 };
+      case gl.UNSIGNED_INT_VEC2:
+        return { glslName: 'uvec2', kind: 'uint', components: 2 };
+      case gl.UNSIGNED_INT_VEC3:
+        return { glslName: 'uvec3', kind: 'uint', components: 3 };
+      case gl.UNSIGNED_INT_VEC4:
+        return { glslName: 'uvec4', kind: 'uint', components: 4 };
+      case gl.FLOAT_MAT2:
+        return { glslName: 'mat2', kind: 'matrix', components: 4 };
+      case gl.FLOAT_MAT3:
+        return { glslName: 'mat3', kind: 'matrix', components: 9 };
+      case gl.FLOAT_MAT4:
+        return { glslName: 'mat4', kind: 'matrix', components: 16 };
+      case gl.FLOAT_MAT2x3:
+        return { glslName: 'mat2x3', kind: 'matrix', components: 6 };
+      case gl.FLOAT_MAT2x4:
+        return { glslName: 'mat2x4', kind: 'matrix', components: 8 };
+      case gl.FLOAT_MAT3x2:
+        return { glslName: 'mat3x2', kind: 'matrix', components: 6 };
+      case gl.FLOAT_MAT3x4:
+        return { glslName: 'mat3x4', kind: 'matrix', components: 12 };
+      case gl.FLOAT_MAT4x2:
+        return { glslName: 'mat4x2', kind: 'matrix', components: 8 };
+      case gl.FLOAT_MAT4x3:
+        return { glslName: 'mat4x3', kind: 'matrix', components: 12 };
+      // Samplers are set to the number of the texture unit they should read
+      // from, so they behave just like an `int`
+      case gl.SAMPLER_2D:
+        return { glslName: 'sampler2D', kind: 'int', components: 1 };
+      case gl.SAMPLER_3D:
+        return { glslName: 'sampler3D', kind: 'int', components: 1 };
+      case gl.SAMPLER_CUBE:
+        return { glslName: 'samplerCube', kind: 'int', components: 1 };
+      case gl.SAMPLER_2D_SHADOW:
+        return { glslName: 'sampler2DShadow', kind: 'int', components: 1 };
+      case gl.SAMPLER_2D_ARRAY:
+        return { glslName: 'sampler2DArray', kind: 'int', components: 1 };
+      case gl.SAMPLER_2D_ARRAY_SHADOW:
+        return { glslName: 'sampler2DArrayShadow', kind: 'int', components: 1 };
+      case gl.SAMPLER_CUBE_SHADOW:
+        return { glslName: 'samplerCubeShadow', kind: 'int', components: 1 };
+      case gl.INT_SAMPLER_2D:
+        return { glslName: 'isampler2D', kind: 'int', components: 1 };
+      case gl.INT_SAMPLER_3D:
+        return { glslName: 'isampler3D', kind: 'int', components: 1 };
+      case gl.INT_SAMPLER_CUBE:
+        return { glslName: 'isamplerCube', kind: 'int', components: 1 };
+      case gl.INT_SAMPLER_2D_ARRAY:
+        return { glslName: 'isampler2DArray', kind: 'int', components: 1 };
+      case gl.UNSIGNED_INT_SAMPLER_2D:
+        return { glslName: 'usampler2D', kind: 'int', components: 1 };
+      case gl.UNSIGNED_INT_SAMPLER_3D:
+        return { glslName: 'usampler3D', kind: 'int', components: 1 };
+      case gl.UNSIGNED_INT_SAMPLER_CUBE:
+        return { glslName: 'usamplerCube', kind: 'int', components: 1 };
+      case gl.UNSIGNED_INT_SAMPLER_2D_ARRAY:
+        return { glslName: 'usampler2DArray', kind: 'int', components: 1 };
+      default:
+        throw new Error(`Unsupported uniform type: 0x${type.toString(16)}`);
     }
+  }
 
-    this.use();
-
-    // The second argument is unused and must always be false (it makes no sense
-    // why it's part of the API)
-    this.gl.uniformMatrix4fv(location, false, value);
-
-    // Unbind the program to avoid accidental changes
-    this.gl.useProgram(null);
+  /**
+   * Looks up the `uniformMatrix*` function for a matrix uniform type.
+   *
+   * @param type The GL type of the matrix uniform, e.g. `gl.FLOAT_MAT4`.
+   * @returns The WebGL function that sets a matrix uniform of this type.
+   */
+  private getMatrixSetter(type: number) {
+    const gl = this.gl;
+    switch (type) {
+      case gl.FLOAT_MAT2:
+        return gl.uniformMatrix2fv;
+      case gl.FLOAT_MAT3:
+        return gl.uniformMatrix3fv;
+      case gl.FLOAT_MAT2x3:
+        return gl.uniformMatrix2x3fv;
+      case gl.FLOAT_MAT2x4:
+        return gl.uniformMatrix2x4fv;
+      case gl.FLOAT_MAT3x2:
+        return gl.uniformMatrix3x2fv;
+      case gl.FLOAT_MAT3x4:
+        return gl.uniformMatrix3x4fv;
+      case gl.FLOAT_MAT4x2:
+        return gl.uniformMatrix4x2fv;
+      case gl.FLOAT_MAT4x3:
+        return gl.uniformMatrix4x3fv;
+      default:
+        return gl.uniformMatrix4fv;
+    }
   }
 }
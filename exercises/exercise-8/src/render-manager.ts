@@ -1,3 +1,36 @@
+import {
+  Clock,
+  FrameLoop,
+  FrameLoopOptions,
+  RenderCallback,
+  UpdateCallback,
+} from './frame-loop';
+import {
+  CanvasResizer,
+  CanvasResizerOptions,
+  ResizeCallback,
+} from './canvas-resizer';
+import { RenderStateCache } from './render-state';
+import { ResourceRegistry } from './resource-registry';
+import { ResourceStats, ResourceTracker } from './resource-tracker';
+import { RenderTarget, RenderTargetOptions } from './render-target';
+import {
+  PostProcessChain,
+  PostProcessChainOptions,
+} from './post-process-chain';
+import { Pickable, Picker, PickerOptions } from './picker';
+
+/**
+ * Options for a {@link RenderManager}: anything that can be passed to a
+ * {@link FrameLoop} or a {@link CanvasResizer}.
+ */
+export type RenderManagerOptions = FrameLoopOptions & CanvasResizerOptions;
+
+/**
+ * Called when the WebGL context is lost or restored.
+ */
+export type ContextCallback = () => void;
+
 /**
  * A class responsible for managing the rendering of the canvas. It sets up the WebGL
  * context, and orchestrates rendering to the canvas every frame.
@@ -6,7 +39,35 @@ export class RenderManager {
   public canvas: HTMLCanvasElement;
   public gl: WebGL2RenderingContext;
 
-  private onRenderCallbacks: (() => void)[] = [];
+  /**
+   * The loop that drives updating and rendering. See {@link FrameLoop} for
+   * how it works.
+   */
+  public readonly loop: FrameLoop;
+
+  /**
+   * Keeps the canvas's drawing buffer the same size as the canvas is displayed
+   * at. See {@link CanvasResizer} for how it works.
+   */
+  public readonly resizer: CanvasResizer;
+
+  /**
+   * The post-processing effects to apply to each frame, or `null` for none.
+   * While this is set (and enabled), the scene is drawn into the chain's own
+   * render target rather than straight onto the canvas, and the chain then
+   * draws the final image onto the canvas. See {@link createPostProcessChain}.
+   */
+  public postProcessChain: PostProcessChain | null = null;
+
+  private onRenderCallbacks: RenderCallback[] = [];
+  private contextLostCallbacks: ContextCallback[] = [];
+  private contextRestoredCallbacks: ContextCallback[] = [];
+
+  /**
+   * Whether the loop was running when the context was lost, so that we know
+   * whether to start it again once the context is restored.
+   */
+  private runningWhenLost = false;
 
   /**
    * Sets up the WebGL context, which we need to execute any WebGL commands and
@@ -14,8 +75,9 @@ export class RenderManager {
    *
    * @param canvas The canvas element that we want to render to. The canvas is a
    * drawing surface in HTML where we can render graphics.
+   * @param options Optional configuration for the update loop and resizing.
    */
-  constructor(canvas: HTMLElement | null) {
+  constructor(canvas: HTMLElement | null, options: RenderManagerOptions = {}) {
     if (!canvas || !(canvas instanceof HTMLCanvasElement)) {
       throw new Error('Canvas element not found');
     }
@@ -27,21 +89,228 @@ export class RenderManager {
 
     this.canvas = canvas;
     this.gl = gl;
+
+    this.loop = new FrameLoop(options);
+    this.loop.onRender(this.render);
+    this.resizer = new CanvasResizer(canvas, options);
+
+    // Find out if the GPU is taken away from us, and when we get it back. See
+    // ResourceRegistry for why this can happen.
+    canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
+  }
+
+  /**
+   * Whether the WebGL context is currently lost. Nothing can be drawn until
+   * it's restored.
+   */
+  get isContextLost(): boolean {
+    return this.gl.isContextLost();
+  }
+
+  /**
+   * Gets how many GPU objects are currently alive, and roughly how much memory
+   * they use. This is useful to show in a debug overlay, to spot leaks. See
+   * {@link ResourceTracker}.
+   */
+  public getResourceStats(): ResourceStats {
+    return ResourceTracker.forContext(this.gl).getStats();
+  }
+
+  /**
+   * Creates a {@link RenderTarget} the same size as the canvas (multiplied by
+   * `options.scale`), which is resized automatically whenever the canvas is.
+   *
+   * @param options Optional configuration for the render target.
+   * @returns The new render target. Call `dispose()` on it when you're done.
+   */
+  public createRenderTarget(options: RenderTargetOptions = {}): RenderTarget {
+    const target = new RenderTarget(
+      this.gl,
+      this.canvas.width,
+      this.canvas.height,
+      options
+    );
+    target.autoResize(this.resizer);
+    return target;
+  }
+
+  /**
+   * Creates a {@link PostProcessChain} and starts drawing every frame through
+   * it. Any chain that was already set is disposed of.
+   *
+   * Example usage:
+   * ```typescript
+   * const chain = renderManager.createPostProcessChain();
+   * chain.add(new BloomPass(chain));
+   * chain.add(new ToneMappingPass(chain));
+   * ```
+   *
+   * @param options Optional configuration for the chain.
+   * @returns The new chain, with no passes yet.
+   */
+  public createPostProcessChain(
+    options: PostProcessChainOptions = {}
+  ): PostProcessChain {
+    this.postProcessChain?.dispose();
+    this.postProcessChain = new PostProcessChain(
+      this.gl,
+      this.resizer,
+      options
+    );
+    return this.postProcessChain;
+  }
+
+  /**
+   * Creates a {@link Picker}, for finding out which object is under the
+   * cursor. It follows the size of the canvas, and checks for results using
+   * the loop's scheduler.
+   *
+   * @param options Optional configuration for the picker.
+   * @returns The new picker. Call `dispose()` on it when you're done.
+   */
+  public createPicker<T extends Pickable = Pickable>(
+    options: PickerOptions = {}
+  ): Picker<T> {
+    return new Picker<T>(this.gl, this.canvas, this.resizer, {
+      scheduler: this.loop.scheduler,
+      ...options,
+    });
+  }
+
+  /**
+   * Adds a callback to be called for each fixed update step. You can use this
+   * to animate your scene. See {@link FrameLoop.onUpdate}.
+   */
+  public onUpdate(callback: UpdateCallback) {
+    this.loop.onUpdate(callback);
   }
 
   /**
    * Adds a callback to be called every frame when rendering. You can use this
-   * to render your scene.
+   * to render your scene. See {@link FrameLoop.onRender}.
    */
-  public onRender(callback: () => void) {
+  public onRender(callback: RenderCallback) {
     this.onRenderCallbacks.push(callback);
   }
 
+  /**
+   * Adds a callback to be called whenever the canvas's drawing buffer changes
+   * size. See {@link CanvasResizer.onResize}.
+   *
+   * @returns A function that removes the callback again.
+   */
+  public onResize(callback: ResizeCallback): () => void {
+    return this.resizer.onResize(callback);
+  }
+
+  /**
+   * Adds a callback to be called when the WebGL context is lost. Rendering
+   * stops until it's restored, so this is a good place to show a message
+   * explaining why the canvas has gone blank.
+   */
+  public onContextLost(callback: ContextCallback) {
+    this.contextLostCallbacks.push(callback);
+  }
+
+  /**
+   * Adds a callback to be called when the WebGL context is restored.
+   *
+   * By the time this is called, every {@link Program}, {@link Mesh} and
+   * {@link Texture} has been recreated, and rendering starts again straight
+   * afterwards. Use this to hide any message shown by
+   * {@link onContextLost}, or to set up anything else that was lost along with
+   * the context.
+   */
+  public onContextRestored(callback: ContextCallback) {
+    this.contextRestoredCallbacks.push(callback);
+  }
+
+  /**
+   * Makes the browser lose the WebGL context, as if the GPU had been reset.
+   * This is useful for testing that everything recovers properly. Call
+   * {@link simulateContextRestore} afterwards to get the context back.
+   */
+  public simulateContextLoss() {
+    this.getLoseContextExtension().loseContext();
+  }
+
+  /**
+   * Restores the WebGL context after {@link simulateContextLoss}.
+   */
+  public simulateContextRestore() {
+    this.getLoseContextExtension().restoreContext();
+  }
+
   /**
    * Starts the render loop, which will render to the canvas every frame.
    */
   public startRendering() {
-    requestAnimationFrame(this.render);
+    this.loop.start();
+  }
+
+  /**
+   * Stops the render loop. Nothing is updated or rendered until
+   * {@link startRendering} is called again.
+   */
+  public stop() {
+    this.loop.stop();
+  }
+
+  /**
+   * Stops the render loop and stops watching the canvas's size. Call this when
+   * you're done with the RenderManager.
+   *
+   * Everything created with the context (programs, meshes, textures and so on)
+   * should be disposed of first. Anything that's still alive is reported in the
+   * console as a leak.
+   */
+  public destroy() {
+    this.loop.stop();
+    this.resizer.disconnect();
+    this.postProcessChain?.dispose();
+    this.postProcessChain = null;
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.removeEventListener(
+      'webglcontextrestored',
+      this.handleContextRestored
+    );
+
+    ResourceTracker.forContext(this.gl).reportLeaks();
+  }
+
+  /**
+   * Pauses updates, so that everything animated freezes in place. Frames are
+   * still rendered.
+   */
+  public pause() {
+    this.loop.pause();
+  }
+
+  /**
+   * Resumes updates after {@link pause}.
+   */
+  public resume() {
+    this.loop.resume();
+  }
+
+  /**
+   * Runs exactly one update step, e.g. to step through an animation while
+   * paused.
+   */
+  public step() {
+    this.loop.step();
+  }
+
+  /**
+   * How fast time passes: 1 is normal speed, 0.5 is half speed, and so on.
+   */
+  get timeScale(): number {
+    return this.loop.timeScale;
+  }
+
+  set timeScale(timeScale: number) {
+    this.loop.timeScale = timeScale;
   }
 
   /**
@@ -50,17 +319,34 @@ export class RenderManager {
    * In WebGL, any time we want to change what is displayed on the screen, we
    * have to render everything again. This function is where we put the code to
    * render the current frame.
+   *
+   * @param alpha How far we are between the last update and the next one.
+   * @param clock The loop's clock.
    */
-  private render = () => {
-    // Update canvas size, taking into account the device pixel ratio for sharp
-    // rendering on high DPI displays
-    const dpr = window.devicePixelRatio || 1;
-    this.canvas.width = this.canvas.clientWidth * dpr;
-    this.canvas.height = this.canvas.clientHeight * dpr;
+  private render = (alpha: number, clock: Clock) => {
+    // While the context is lost, every WebGL call does nothing, and nothing we
+    // created before is there to draw with
+    if (this.gl.isContextLost()) {
+      return;
+    }
+
+    // Update canvas size, if it's changed since the last frame
+    this.resizer.update();
 
     // Update WebGL viewport to match canvas size
     this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
 
+    // If there are post-processing effects, draw the scene into the chain's
+    // render target instead of onto the canvas
+    const postProcessChain = this.postProcessChain?.enabled
+      ? this.postProcessChain
+      : null;
+    postProcessChain?.begin();
+
+    // Clearing only changes the channels and buffers that can be written to,
+    // so put the colour, depth and stencil masks back to their defaults
+    RenderStateCache.forContext(this.gl).apply();
+
     // Set the clear color to black
     this.gl.clearColor(0, 0, 0, 1);
 
@@ -69,10 +355,63 @@ export class RenderManager {
 
     // Call all the render callbacks
     for (const callback of this.onRenderCallbacks) {
+      callback(alpha, clock);
+    }
+
+    // Apply the effects, and draw the result onto the canvas
+    postProcessChain?.end();
+  };
+
+  /**
+   * Gets the `WEBGL_lose_context` extension, which lets us lose and restore
+   * the context on purpose.
+   */
+  private getLoseContextExtension(): WEBGL_lose_context {
+    const extension = this.gl.getExtension('WEBGL_lose_context');
+    if (!extension) {
+      throw new Error('WEBGL_lose_context not supported');
+    }
+    return extension;
+  }
+
+  /**
+   * Called by the browser when the WebGL context is lost.
+   */
+  private handleContextLost = (event: Event) => {
+    // By default, the browser never gives us a new context. Preventing the
+    // default tells it that we know how to recover, so it will.
+    event.preventDefault();
+
+    // Stop the loop, as there's no point rendering until we're restored
+    this.runningWhenLost = this.loop.isRunning;
+    this.loop.stop();
+
+    // Every GPU object was destroyed along with the context. Restoring them
+    // creates new ones, which are tracked as they're created.
+    ResourceTracker.forContext(this.gl).clear();
+
+    // The new context will start with all of WebGL's default settings, so
+    // whatever the render state cache thinks is set no longer is
+    RenderStateCache.forContext(this.gl).reset();
+
+    for (const callback of this.contextLostCallbacks) {
       callback();
     }
+  };
 
-    // Render another frame, effectively creating a loop
-    requestAnimationFrame(this.render);
+  /**
+   * Called by the browser when the WebGL context is restored.
+   */
+  private handleContextRestored = () => {
+    // The new context is empty, so recreate everything we had before
+    ResourceRegistry.forContext(this.gl).restoreAll();
+
+    for (const callback of this.contextRestoredCallbacks) {
+      callback();
+    }
+
+    if (this.runningWhenLost) {
+      this.loop.start();
+    }
   };
 }
@@ -0,0 +1,321 @@
+import { mat4, vec3 } from 'gl-matrix';
+
+import { FrameContext, Material } from './material';
+import { Mesh } from './mesh';
+import { RenderState, RenderStateCache } from './render-state';
+
+/**
+ * One thing to draw: a mesh, drawn with a material.
+ */
+export interface DrawItem {
+  /** The mesh to draw. */
+  mesh: Mesh;
+  /** The material to draw it with. */
+  material: Material;
+  /**
+   * Where the mesh is in the world. It's passed to the shader as the
+   * `uModelMatrix` uniform, if the shader has one, and its position is used to
+   * sort transparent items. Default is the origin, with no rotation or scale.
+   */
+  transform?: mat4;
+  /**
+   * How the mesh is drawn. Items which use blending are transparent, and are
+   * drawn after everything else. Default is an ordinary opaque object (see
+   * {@link DEFAULT_RENDER_STATE}).
+   */
+  renderState?: RenderState;
+}
+
+/**
+ * How much work drawing the queue took, for one frame.
+ */
+export interface RenderQueueStats {
+  /** How many items were drawn. Each one is a separate draw call. */
+  drawCalls: number;
+  /**
+   * How many times a material had to be bound. Items with the same material
+   * are drawn one after another, so this can be much less than
+   * {@link drawCalls}.
+   */
+  materialBinds: number;
+  /**
+   * How many times a setting had to be changed or something had to be bound,
+   * like a program, texture or blend mode. See
+   * {@link RenderStateCache.changeCount}.
+   */
+  stateChanges: number;
+}
+
+/**
+ * A {@link DrawItem}, with what's needed to sort it.
+ */
+interface QueuedItem {
+  item: DrawItem;
+  /**
+   * How far away the item is, from -1 (nearest) to 1 (furthest). This is only
+   * worked out for transparent items.
+   */
+  depth: number;
+  /**
+   * Which textures the item's material binds, as a string made from their sort
+   * numbers (see {@link getTextureKey}). This is only worked out for opaque
+   * items.
+   */
+  textureKey: string;
+}
+
+/**
+ * The transform of items which don't have one: no movement, rotation or scale.
+ */
+const IDENTITY_TRANSFORM = mat4.create();
+
+/**
+ * A number for each program, texture and material, which is used to sort items
+ * so that those with the same one end up next to each other. The numbers themselves
+ * don't mean anything. A `WeakMap` means this doesn't stop anything from being
+ * garbage collected.
+ */
+const sortIds = new WeakMap<object, number>();
+
+/** The number to give the next thing that needs one, in {@link sortIds}. */
+let nextSortId = 0;
+
+/**
+ * Collects everything that should be drawn in a frame, and then draws it all in
+ * the best order.
+ *
+ * If every object draws itself as soon as it's asked to, things are drawn in
+ * whatever order the objects happen to be in. That causes two problems:
+ *
+ * 1. **It's slow.** Switching between programs and textures is one of the
+ *    most expensive things we can ask the GPU to do. If objects using two
+ *    different materials are mixed together, we'd switch back and forth
+ *    between them for every object.
+ * 2. **Transparency looks wrong.** A transparent object blends with whatever
+ *    has already been drawn behind it. If something further away is drawn
+ *    afterwards, it either won't show through (because of the depth test) or
+ *    will be drawn on top.
+ *
+ * Instead, objects {@link submit} what they want to draw, and the queue draws
+ * it all at the end of the frame with {@link execute}:
+ *
+ * - Opaque items first, grouped by program and then by the textures their
+ *   materials use. Different materials often share textures (say, the same
+ *   texture in different colours), and the {@link RenderStateCache} skips
+ *   binding anything that's the same as the item before, so those materials
+ *   are kept together. Within that, items are grouped by material, so each
+ *   material is only bound once for its whole group.
+ * - Then transparent items, from the furthest away to the nearest, so that
+ *   each one blends with everything behind it.
+ *
+ * Example usage:
+ * ```typescript
+ * const queue = new RenderQueue(gl);
+ *
+ * // Every frame:
+ * queue.submit({ mesh, material, transform });
+ * queue.submit({ mesh: glass, material: glassMaterial, renderState: { blend: 'alpha' } });
+ * queue.execute({ camera, clock });
+ * console.log(queue.stats.drawCalls);
+ * ```
+ */
+export class RenderQueue {
+  /** The items submitted since the queue was last executed. */
+  private items: DrawItem[] = [];
+
+  /** See {@link stats}. */
+  private _stats: RenderQueueStats = {
+    drawCalls: 0,
+    materialBinds: 0,
+    stateChanges: 0,
+  };
+
+  /**
+   * Creates a new, empty render queue.
+   *
+   * @param gl The WebGL rendering context.
+   */
+  constructor(private gl: WebGL2RenderingContext) {}
+
+  /**
+   * How much work the last call to {@link execute} took.
+   */
+  get stats(): Readonly<RenderQueueStats> {
+    return this._stats;
+  }
+
+  /**
+   * How many items are waiting to be drawn.
+   */
+  get length(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Adds something to be drawn the next time the queue is executed. Nothing is
+   * drawn straight away.
+   *
+   * @param item What to draw.
+   */
+  submit(item: DrawItem): void {
+    this.items.push(item);
+  }
+
+  /**
+   * Throws away everything that's been submitted, without drawing it.
+   */
+  clear(): void {
+    this.items = [];
+  }
+
+  /**
+   * Draws everything that's been submitted, in the best order (see
+   * {@link RenderQueue}), and then empties the queue ready for the next frame.
+   *
+   * @param frameContext The frame being rendered. Its camera is used to sort
+   * transparent items, and it's passed to each material when it's bound.
+   */
+  execute(frameContext: FrameContext): void {
+    const stateCache = RenderStateCache.forContext(this.gl);
+    const changeCountBefore = stateCache.changeCount;
+    const stats: RenderQueueStats = {
+      drawCalls: 0,
+      materialBinds: 0,
+      stateChanges: 0,
+    };
+
+    // Split the items into opaque and transparent, working out how far away
+    // each transparent one is as we go
+    const viewProjectionMatrix = frameContext.camera.getViewProjectionMatrix();
+    const opaque: QueuedItem[] = [];
+    const transparent: QueuedItem[] = [];
+    for (const item of this.items) {
+      if (isTransparent(item)) {
+        const depth = getDepth(item, viewProjectionMatrix);
+        transparent.push({ item, depth, textureKey: '' });
+      } else {
+        opaque.push({ item, depth: 0, textureKey: getTextureKey(item) });
+      }
+    }
+
+    // Group opaque items by program, then by textures, and then by material
+    // within those. Transparent items go from furthest to nearest.
+    opaque.sort(
+      (a, b) =>
+        getSortId(a.item.material.program) -
+          getSortId(b.item.material.program) ||
+        compareKeys(a.textureKey, b.textureKey) ||
+        getSortId(a.item.material) - getSortId(b.item.material)
+    );
+    transparent.sort((a, b) => b.depth - a.depth);
+
+    let boundMaterial: Material | null = null;
+    for (const { item } of [...opaque, ...transparent]) {
+      const { material, mesh, transform, renderState } = item;
+
+      // Only bind the material when it changes. Its uniforms and textures stay
+      // set for the items after it.
+      if (material !== boundMaterial) {
+        material.bind(frameContext);
+        boundMaterial = material;
+        stats.materialBinds++;
+      }
+
+      // The transform is different for every item, so it's set every time.
+      // Items without one still set it, so they don't inherit the transform of
+      // the item before.
+      if (material.program.uniforms.has('uModelMatrix')) {
+        material.program.setUniform(
+          'uModelMatrix',
+          transform ?? IDENTITY_TRANSFORM
+        );
+      }
+
+      mesh.render(material.program, renderState);
+      stats.drawCalls++;
+    }
+
+    stats.stateChanges = stateCache.changeCount - changeCountBefore;
+    this._stats = stats;
+    this.items = [];
+  }
+}
+
+/**
+ * Checks whether an item is transparent, meaning that it blends with what's
+ * behind it.
+ *
+ * @param item The item.
+ * @returns Whether it uses blending.
+ */
+function isTransparent(item: DrawItem): boolean {
+  return (item.renderState?.blend ?? 'none') !== 'none';
+}
+
+/**
+ * Works out how far away an item is from the camera, using the position of
+ * its transform.
+ *
+ * This uses the depth the item would have on screen, so it works the same for
+ * any camera: after the view-projection matrix, -1 is the nearest anything can
+ * be and 1 is the furthest.
+ *
+ * @param item The item.
+ * @param viewProjectionMatrix The camera's view-projection matrix.
+ * @returns The item's depth, from -1 (nearest) to 1 (furthest).
+ */
+function getDepth(item: DrawItem, viewProjectionMatrix: mat4): number {
+  // The position is the last column of the transform
+  const position = item.transform
+    ? vec3.fromValues(
+        item.transform[12],
+        item.transform[13],
+        item.transform[14]
+      )
+    : vec3.create();
+  vec3.transformMat4(position, position, viewProjectionMatrix);
+  return position[2];
+}
+
+/**
+ * Works out a key for the textures an item's material binds, so that items
+ * whose materials bind the same textures can be sorted next to each other.
+ *
+ * @param item The item.
+ * @returns The sort numbers of the textures, in texture unit order, joined
+ * into a string. Slots which use the placeholder are -1.
+ */
+function getTextureKey(item: DrawItem): string {
+  return item.material
+    .getBoundTextures()
+    .map((texture) => (texture ? getSortId(texture) : -1))
+    .join();
+}
+
+/**
+ * Compares two strings, for sorting.
+ *
+ * @param a The first string.
+ * @param b The second string.
+ * @returns A negative number if `a` comes first, a positive number if `b`
+ * does, or 0 if they're the same.
+ */
+function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Gets the number used to sort by a program, texture or material, giving it
+ * one if it doesn't have one yet.
+ *
+ * @param object The program, texture or material.
+ * @returns Its sort number.
+ */
+function getSortId(object: object): number {
+  let id = sortIds.get(object);
+  if (id === undefined) {
+    id = nextSortId++;
+    sortIds.set(object, id);
+  }
+  return id;
+}
@@ -0,0 +1,547 @@
+/**
+ * How two values are compared, for the depth and stencil tests. The test
+ * passes when the new value is (for example) `less` than the stored one.
+ */
+export type CompareFunc =
+  | 'never'
+  | 'less'
+  | 'equal'
+  | 'lequal'
+  | 'greater'
+  | 'notequal'
+  | 'gequal'
+  | 'always';
+
+/**
+ * How a pixel being drawn is combined with the pixel that's already there.
+ *
+ * - `none`: the new pixel replaces the old one. This is the fastest, and right
+ *   for anything opaque.
+ * - `alpha`: ordinary transparency. The new colour is mixed over the old one
+ *   by its alpha, so 0.5 alpha shows half of each.
+ * - `additive`: the new colour is added on top, so things only get brighter.
+ *   Good for light, like glows, fire and particles.
+ * - `premultiplied`: transparency for colours that have already been
+ *   multiplied by their alpha, like the output of many image tools and of our
+ *   own render targets. Using `alpha` for these would darken their edges.
+ * - `multiply`: the old colour is multiplied by the new one, so things only
+ *   get darker. Good for shadows and tinting. Alpha is ignored.
+ */
+export type BlendMode =
+  | 'none'
+  | 'alpha'
+  | 'additive'
+  | 'premultiplied'
+  | 'multiply';
+
+/**
+ * Which side of each triangle to skip drawing ("cull").
+ *
+ * Every triangle has a front and a back. The front is the side from which its
+ * vertices go round anticlockwise. For a closed shape like a cube, the back
+ * faces are always hidden behind the front ones, so culling them halves the
+ * work for free.
+ */
+export type CullFace = 'none' | 'back' | 'front';
+
+/**
+ * What happens to the value in the stencil buffer after the stencil test.
+ */
+export type StencilOp =
+  | 'keep'
+  | 'zero'
+  | 'replace'
+  | 'increment'
+  | 'increment-wrap'
+  | 'decrement'
+  | 'decrement-wrap'
+  | 'invert';
+
+/**
+ * Whether the red, green, blue and alpha channels can be drawn to.
+ */
+export type ColorMask = [boolean, boolean, boolean, boolean];
+
+/**
+ * Settings for the stencil test.
+ *
+ * The stencil buffer stores a small number (usually 8 bits) for every pixel,
+ * which we can draw into and test against without it ever showing up on
+ * screen. For example, to only draw inside a circle, we could first draw the
+ * circle setting the stencil value to 1 (`pass: 'replace'`, `ref: 1`), then
+ * draw everything else with `func: 'equal'` and `ref: 1`.
+ */
+export interface StencilState {
+  /**
+   * How `ref` is compared with the stored value. Default is `always`.
+   */
+  func?: CompareFunc;
+  /**
+   * The value to compare against, and to write with `replace`. Default is 0.
+   */
+  ref?: number;
+  /**
+   * Which bits are compared. Default is 0xff, which is all of them.
+   */
+  readMask?: number;
+  /**
+   * Which bits can be changed, by the ops below and by clearing. Default is
+   * 0xff, which is all of them.
+   */
+  writeMask?: number;
+  /**
+   * What to do when the stencil test fails. Default is `keep`.
+   */
+  fail?: StencilOp;
+  /**
+   * What to do when the stencil test passes but the depth test fails. Default
+   * is `keep`.
+   */
+  depthFail?: StencilOp;
+  /**
+   * What to do when both tests pass. Default is `keep`.
+   */
+  pass?: StencilOp;
+}
+
+/**
+ * Everything that affects how something is drawn, other than its program and
+ * the data it's drawn with.
+ *
+ * WebGL keeps all of these as global settings on the context, and any of them
+ * left over from the last draw applies to the next one too. So rather than
+ * each draw changing what it needs and then trying to put it all back,
+ * each draw says what it needs with one of these, and the
+ * {@link RenderStateCache} makes it so.
+ *
+ * Anything that's left out uses its value from {@link DEFAULT_RENDER_STATE},
+ * so a draw only needs to say how it's different from an ordinary opaque
+ * object.
+ */
+export interface RenderState {
+  /**
+   * Whether to skip pixels which are behind something that's already been
+   * drawn. Default is true.
+   *
+   * Each pixel's depth (how far away it is) is kept in the depth buffer.
+   * Without this test, whatever is drawn last is on top, even if it should be
+   * behind.
+   */
+  depthTest?: boolean;
+  /**
+   * Whether to store the depth of the pixels that are drawn. Default is true.
+   * Transparent objects often turn this off, so that they don't hide things
+   * which are drawn behind them afterwards.
+   */
+  depthWrite?: boolean;
+  /**
+   * How a pixel's depth is compared with the stored depth. Default is `less`,
+   * meaning it's drawn if it's nearer.
+   */
+  depthFunc?: CompareFunc;
+  /**
+   * How to combine the pixels with what's already there. Default is `none`.
+   */
+  blend?: BlendMode;
+  /**
+   * Which faces to skip. Default is `none`.
+   */
+  cullFace?: CullFace;
+  /**
+   * Which colour channels to draw to. Default is all of them.
+   */
+  colorMask?: ColorMask;
+  /**
+   * The stencil test, or `null` to turn it off. Default is `null`.
+   *
+   * This needs a stencil buffer, which canvases don't have unless the context
+   * was created with `stencil: true`, and render targets don't have unless
+   * they were created with `stencil: true`.
+   */
+  stencil?: StencilState | null;
+}
+
+/**
+ * The settings used for anything that a {@link RenderState} leaves out.
+ */
+export const DEFAULT_RENDER_STATE: Readonly<Required<RenderState>> = {
+  depthTest: true,
+  depthWrite: true,
+  depthFunc: 'less',
+  blend: 'none',
+  cullFace: 'none',
+  colorMask: [true, true, true, true],
+  stencil: null,
+};
+
+/**
+ * The settings used for anything that a {@link StencilState} leaves out.
+ */
+const DEFAULT_STENCIL_STATE: Readonly<Required<StencilState>> = {
+  func: 'always',
+  ref: 0,
+  readMask: 0xff,
+  writeMask: 0xff,
+  fail: 'keep',
+  depthFail: 'keep',
+  pass: 'keep',
+};
+
+/**
+ * What the cache knows is currently set on the context. Anything that's
+ * `undefined` isn't known, so it will be set the next time it's asked for
+ * whatever the value.
+ *
+ * Settings which are always changed together (like the three stencil ops) are
+ * stored as one string, so they can be compared in one go.
+ */
+interface CachedState {
+  depthTest?: boolean;
+  depthWrite?: boolean;
+  depthFunc?: CompareFunc;
+  blend?: boolean;
+  blendMode?: BlendMode;
+  cullFace?: boolean;
+  cullFaceMode?: CullFace;
+  colorMask?: string;
+  stencilTest?: boolean;
+  stencilFunc?: string;
+  stencilWriteMask?: number;
+  stencilOp?: string;
+  program?: WebGLProgram | null;
+  vertexArray?: WebGLVertexArrayObject | null;
+  activeTexture?: number;
+}
+
+/**
+ * The settings in {@link CachedState} which are turned on and off with
+ * `gl.enable()` and `gl.disable()`.
+ */
+type Capability = 'depthTest' | 'blend' | 'cullFace' | 'stencilTest';
+
+/**
+ * The cache for each WebGL context. A `WeakMap` means that once a context is
+ * no longer used, its cache can be garbage collected along with it.
+ */
+const caches = new WeakMap<WebGL2RenderingContext, RenderStateCache>();
+
+/**
+ * Remembers which settings are currently set on a WebGL context, so that we
+ * only call WebGL to change the ones that are actually different.
+ *
+ * Every WebGL call has a cost, even if it doesn't change anything, and a scene
+ * made of many objects that mostly share the same settings would otherwise
+ * set them all again for every single object. With the cache, drawing two
+ * things in a row with the same {@link RenderState} only sets it once.
+ *
+ * As well as the render state, the cache keeps track of which program, vertex
+ * array and textures are bound. This means there's no need to unbind anything
+ * after drawing: whatever is drawn next binds what it needs, and anything that
+ * was already bound is left alone.
+ *
+ * This only works if the cache knows about every change, so anything which
+ * changes these settings must go through the cache. If something has to
+ * change them directly, call {@link reset} afterwards.
+ *
+ * There's one cache per context, which is found with
+ * {@link RenderStateCache.forContext}.
+ */
+export class RenderStateCache {
+  /**
+   * What's currently set on the context.
+   */
+  private state: CachedState = {};
+
+  /**
+   * The texture bound to each texture unit, indexed by unit.
+   */
+  private textures: (WebGLTexture | null | undefined)[] = [];
+
+  /** See {@link changeCount}. */
+  private changes = 0;
+
+  /**
+   * Use {@link RenderStateCache.forContext} to get the cache for a context.
+   */
+  private constructor(private gl: WebGL2RenderingContext) {}
+
+  /**
+   * Gets the cache for a WebGL context, creating it the first time.
+   *
+   * @param gl The WebGL rendering context.
+   * @returns The cache shared by everything that draws with `gl`.
+   */
+  static forContext(gl: WebGL2RenderingContext): RenderStateCache {
+    let cache = caches.get(gl);
+    if (!cache) {
+      cache = new RenderStateCache(gl);
+      caches.set(gl, cache);
+    }
+    return cache;
+  }
+
+  /**
+   * How many times the cache has had to change a setting (or bind something)
+   * since it was created. Comparing this before and after drawing shows how
+   * many state changes the drawing needed, which is a good measure of how
+   * efficiently things were ordered.
+   */
+  get changeCount(): number {
+    return this.changes;
+  }
+
+  /**
+   * Forgets everything the cache knows, so that every setting is set again the
+   * next time it's asked for.
+   *
+   * This must be called when the context is lost, since a restored context
+   * starts with all of WebGL's defaults again.
+   */
+  reset(): void {
+    this.state = {};
+    this.textures = [];
+  }
+
+  /**
+   * Sets up the context for drawing with a render state.
+   *
+   * @param state The settings to use. Anything that's left out is set to its
+   * default, so calling this with no state sets everything to the defaults.
+   */
+  apply(state: RenderState = {}): void {
+    const gl = this.gl;
+    const {
+      depthTest,
+      depthWrite,
+      depthFunc,
+      blend,
+      cullFace,
+      colorMask,
+      stencil,
+    } = { ...DEFAULT_RENDER_STATE, ...state };
+
+    // The depth function only matters while the depth test is on, so there's
+    // no need to set it otherwise. The same goes for the blend function and
+    // which face is culled below.
+    this.setEnabled('depthTest', gl.DEPTH_TEST, depthTest);
+    if (depthTest && this.update('depthFunc', depthFunc)) {
+      gl.depthFunc(getCompareFunc(gl, depthFunc));
+    }
+    if (this.update('depthWrite', depthWrite)) {
+      gl.depthMask(depthWrite);
+    }
+
+    this.setEnabled('blend', gl.BLEND, blend !== 'none');
+    if (blend !== 'none' && this.update('blendMode', blend)) {
+      setBlendFunc(gl, blend);
+    }
+
+    this.setEnabled('cullFace', gl.CULL_FACE, cullFace !== 'none');
+    if (cullFace !== 'none' && this.update('cullFaceMode', cullFace)) {
+      gl.cullFace(cullFace === 'back' ? gl.BACK : gl.FRONT);
+    }
+
+    if (this.update('colorMask', colorMask.join())) {
+      gl.colorMask(...colorMask);
+    }
+
+    this.applyStencil(stencil);
+  }
+
+  /**
+   * Uses a program for rendering, if it isn't already being used.
+   *
+   * @param program The WebGL program.
+   */
+  useProgram(program: WebGLProgram | null): void {
+    if (this.update('program', program)) {
+      this.gl.useProgram(program);
+    }
+  }
+
+  /**
+   * Binds a vertex array object, if it isn't already bound.
+   *
+   * Be careful about binding an index buffer (`ELEMENT_ARRAY_BUFFER`) while a
+   * VAO is bound, since the VAO will remember it. Bind `null` here first.
+   *
+   * @param vertexArray The VAO, or `null` to unbind it.
+   */
+  bindVertexArray(vertexArray: WebGLVertexArrayObject | null): void {
+    if (this.update('vertexArray', vertexArray)) {
+      this.gl.bindVertexArray(vertexArray);
+    }
+  }
+
+  /**
+   * Binds a 2D texture to a texture unit, if it isn't already bound there.
+   *
+   * @param unit The texture unit, starting from 0.
+   * @param texture The WebGL texture, or `null` to unbind it.
+   */
+  bindTexture(unit: number, texture: WebGLTexture | null): void {
+    if (this.textures[unit] === texture) {
+      return;
+    }
+    this.textures[unit] = texture;
+    this.changes++;
+
+    // The active texture unit is which unit `bindTexture` affects
+    if (this.update('activeTexture', unit)) {
+      this.gl.activeTexture(this.gl.TEXTURE0 + unit);
+    }
+    this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+  }
+
+  /**
+   * Sets up the stencil test.
+   *
+   * @param stencil The stencil settings, or `null` to turn the test off.
+   */
+  private applyStencil(stencil: StencilState | null): void {
+    const gl = this.gl;
+    const { func, ref, readMask, writeMask, fail, depthFail, pass } = {
+      ...DEFAULT_STENCIL_STATE,
+      ...stencil,
+    };
+
+    this.setEnabled('stencilTest', gl.STENCIL_TEST, stencil !== null);
+    if (stencil && this.update('stencilFunc', [func, ref, readMask].join())) {
+      gl.stencilFunc(getCompareFunc(gl, func), ref, readMask);
+    }
+    if (stencil && this.update('stencilOp', [fail, depthFail, pass].join())) {
+      gl.stencilOp(
+        getStencilOp(gl, fail),
+        getStencilOp(gl, depthFail),
+        getStencilOp(gl, pass)
+      );
+    }
+
+    // The write mask also limits what clearing the stencil buffer changes, so
+    // it's set even when the test is off
+    if (this.update('stencilWriteMask', writeMask)) {
+      gl.stencilMask(writeMask);
+    }
+  }
+
+  /**
+   * Turns a capability on or off, if it isn't already.
+   *
+   * @param key Where the capability is stored in the cache.
+   * @param capability The WebGL capability, like `DEPTH_TEST`.
+   * @param enabled Whether it should be on.
+   */
+  private setEnabled(
+    key: Capability,
+    capability: number,
+    enabled: boolean
+  ): void {
+    if (!this.update(key, enabled)) {
+      return;
+    }
+    if (enabled) {
+      this.gl.enable(capability);
+    } else {
+      this.gl.disable(capability);
+    }
+  }
+
+  /**
+   * Stores a new value for a setting.
+   *
+   * @param key The setting.
+   * @param value Its new value.
+   * @returns Whether the value changed, meaning WebGL needs to be called.
+   */
+  private update<K extends keyof CachedState>(
+    key: K,
+    value: CachedState[K]
+  ): boolean {
+    if (this.state[key] === value) {
+      return false;
+    }
+    this.state[key] = value;
+    this.changes++;
+    return true;
+  }
+}
+
+/**
+ * Sets the blend function for a blend mode.
+ *
+ * The blend function says what the new colour (the "source") and the existing
+ * colour (the "destination") are each multiplied by before they're added
+ * together.
+ *
+ * @param gl The WebGL rendering context.
+ * @param mode The blend mode.
+ */
+function setBlendFunc(
+  gl: WebGL2RenderingContext,
+  mode: Exclude<BlendMode, 'none'>
+): void {
+  switch (mode) {
+    case 'alpha':
+      // The colour is mixed by the source alpha. The alpha itself is blended
+      // as if it were premultiplied, so that drawing over a transparent render
+      // target leaves the right alpha behind.
+      gl.blendFuncSeparate(
+        gl.SRC_ALPHA,
+        gl.ONE_MINUS_SRC_ALPHA,
+        gl.ONE,
+        gl.ONE_MINUS_SRC_ALPHA
+      );
+      break;
+    case 'additive':
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE);
+      break;
+    case 'premultiplied':
+      // The source has already been multiplied by its alpha
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+      break;
+    case 'multiply':
+      // source * destination + destination * 0, keeping the existing alpha
+      gl.blendFuncSeparate(gl.DST_COLOR, gl.ZERO, gl.ZERO, gl.ONE);
+      break;
+  }
+}
+
+/**
+ * Converts a {@link CompareFunc} into the WebGL constant for it.
+ *
+ * @param gl The WebGL rendering context.
+ * @param func The compare function.
+ * @returns The WebGL constant, like `LESS`.
+ */
+function getCompareFunc(gl: WebGL2RenderingContext, func: CompareFunc): number {
+  return {
+    never: gl.NEVER,
+    less: gl.LESS,
+    equal: gl.EQUAL,
+    lequal: gl.LEQUAL,
+    greater: gl.GREATER,
+    notequal: gl.NOTEQUAL,
+    gequal: gl.GEQUAL,
+    always: gl.ALWAYS,
+  }[func];
+}
+
+/**
+ * Converts a {@link StencilOp} into the WebGL constant for it.
+ *
+ * @param gl The WebGL rendering context.
+ * @param op The stencil operation.
+ * @returns The WebGL constant, like `KEEP`.
+ */
+function getStencilOp(gl: WebGL2RenderingContext, op: StencilOp): number {
+  return {
+    keep: gl.KEEP,
+    zero: gl.ZERO,
+    replace: gl.REPLACE,
+    increment: gl.INCR,
+    'increment-wrap': gl.INCR_WRAP,
+    decrement: gl.DECR,
+    'decrement-wrap': gl.DECR_WRAP,
+    invert: gl.INVERT,
+  }[op];
+}
@@ -0,0 +1,421 @@
+import { CanvasResizer } from './canvas-resizer';
+import { ResourceRegistry } from './resource-registry';
+import { ResourceTracker } from './resource-tracker';
+import { Texture, TextureOptions } from './texture';
+
+/**
+ * Options for creating a {@link RenderTarget}.
+ */
+export interface RenderTargetOptions {
+  /**
+   * The colour textures to draw into, one per entry. They're attached in
+   * order to COLOR_ATTACHMENT0, COLOR_ATTACHMENT1 and so on, so a fragment
+   * shader declaring `layout(location = 1) out vec4 normal;` writes to the
+   * second one. Default is a single RGBA8 texture.
+   */
+  colorAttachments?: TextureOptions[];
+  /**
+   * Whether to have a depth buffer, so that nearer things hide further ones
+   * just like when drawing to the canvas. Default is true.
+   */
+  depth?: boolean;
+  /**
+   * Whether the depth buffer should have a stencil buffer too. Default is
+   * false.
+   */
+  stencil?: boolean;
+  /**
+   * The size of the target compared to the canvas, when it's resized along
+   * with it (see {@link RenderTarget.autoResize}). For example, 0.5 makes it
+   * half as wide and half as tall, which is plenty for something that's going
+   * to be blurred anyway. Default is 1.
+   */
+  scale?: number;
+}
+
+/**
+ * Somewhere to draw to other than the canvas.
+ *
+ * Normally everything we draw ends up on the canvas (in WebGL terms, the
+ * "default framebuffer"). A lot of effects need to draw the scene somewhere
+ * else first, and then use the result as a texture: blurring it, mixing it
+ * with something else, showing it on a TV screen inside the scene, and so on.
+ *
+ * WebGL lets us do this with a framebuffer object, which is a collection of
+ * "attachments" to draw into:
+ * - One or more colour attachments, which are textures here so that we can
+ *   sample them afterwards with {@link getTexture}.
+ * - An optional depth (and stencil) attachment. We never need to sample it, so
+ *   it's a renderbuffer, which is like a texture that can only be drawn to.
+ *
+ * Example usage:
+ * ```typescript
+ * const target = renderManager.createRenderTarget();
+ *
+ * target.bind();
+ * // Clear and draw the scene, which ends up in the target's texture
+ * target.unbind();
+ *
+ * // Draw something on the canvas using what was drawn
+ * target.getTexture().bind(0);
+ * ```
+ */
+export class RenderTarget {
+  /**
+   * The WebGL framebuffer object that this class wraps. It changes if the
+   * context is lost and restored.
+   */
+  public framebuffer: WebGLFramebuffer;
+
+  /**
+   * The colour textures, in the same order as
+   * {@link RenderTargetOptions.colorAttachments}.
+   */
+  public readonly textures: Texture[];
+
+  /**
+   * The size of the target compared to the canvas. See
+   * {@link RenderTargetOptions.scale}.
+   */
+  public readonly scale: number;
+
+  /** The depth (and stencil) buffer, or `null` if there isn't one. */
+  private renderbuffer: WebGLRenderbuffer | null = null;
+
+  /** Whether there should be a depth buffer. */
+  private depth: boolean;
+
+  /** Whether the depth buffer should have a stencil buffer too. */
+  private stencil: boolean;
+
+  /** The width of the target, in pixels. */
+  private _width: number;
+
+  /** The height of the target, in pixels. */
+  private _height: number;
+
+  /**
+   * The framebuffer that was being drawn to before {@link bind} was called,
+   * which {@link unbind} goes back to. `null` is the canvas.
+   */
+  private previousFramebuffer: WebGLFramebuffer | null = null;
+
+  /**
+   * The viewport before {@link bind} was called, which {@link unbind} puts
+   * back.
+   */
+  private previousViewport: Int32Array | null = null;
+
+  /**
+   * Stops resizing the target along with the canvas, if
+   * {@link autoResize} was called.
+   */
+  private stopAutoResize: (() => void) | null = null;
+
+  /**
+   * Creates a new render target.
+   *
+   * @param gl The WebGL rendering context.
+   * @param width The width of the target, in pixels.
+   * @param height The height of the target, in pixels.
+   * @param options Optional configuration for the target.
+   */
+  constructor(
+    private gl: WebGL2RenderingContext,
+    width: number,
+    height: number,
+    options: RenderTargetOptions = {}
+  ) {
+    validateSize(width, height);
+    this._width = width;
+    this._height = height;
+    this.depth = options.depth ?? true;
+    this.stencil = options.stencil ?? false;
+    this.scale = options.scale ?? 1;
+
+    const colorAttachments = options.colorAttachments ?? [{}];
+    if (colorAttachments.length === 0) {
+      throw new Error('A render target needs at least one colour attachment');
+    }
+
+    // Every GPU supports at least 4 colour attachments, and most support 8
+    const maxDrawBuffers = gl.getParameter(gl.MAX_DRAW_BUFFERS);
+    if (colorAttachments.length > maxDrawBuffers) {
+      throw new Error(
+        `Too many colour attachments: ${colorAttachments.length} (max ${maxDrawBuffers})`
+      );
+    }
+
+    // The textures register themselves for context loss before we do, so
+    // they'll be recreated first, ready for the new framebuffer to use.
+    this.textures = colorAttachments.map((textureOptions) =>
+      Texture.createEmpty(gl, width, height, textureOptions)
+    );
+
+    this.framebuffer = this.create();
+
+    // Make sure we're recreated if the context is lost
+    ResourceRegistry.forContext(gl).register(this);
+  }
+
+  /**
+   * The width of the target, in pixels.
+   */
+  get width(): number {
+    return this._width;
+  }
+
+  /**
+   * The height of the target, in pixels.
+   */
+  get height(): number {
+    return this._height;
+  }
+
+  /**
+   * Gets one of the colour textures, to use what was drawn in a later pass.
+   *
+   * Don't sample a texture while drawing into the same target: WebGL can't
+   * read and write the same texture at once, and will refuse to draw.
+   *
+   * @param index Which colour attachment to get. Default is the first.
+   * @returns The texture.
+   */
+  getTexture(index = 0): Texture {
+    const texture = this.textures[index];
+    if (!texture) {
+      throw new Error(`Render target has no colour attachment ${index}`);
+    }
+    return texture;
+  }
+
+  /**
+   * Starts drawing into this target instead of wherever we were drawing
+   * before, and sets the viewport to cover the whole target.
+   *
+   * Targets can be nested: binding another target and then unbinding it comes
+   * back to this one.
+   */
+  bind(): void {
+    // Remember where we were drawing, so that unbind() can go back there
+    this.previousFramebuffer = this.gl.getParameter(
+      this.gl.FRAMEBUFFER_BINDING
+    );
+    this.previousViewport = this.gl.getParameter(this.gl.VIEWPORT);
+
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffer);
+    this.gl.viewport(0, 0, this._width, this._height);
+  }
+
+  /**
+   * Goes back to drawing wherever we were before {@link bind} was called, with
+   * the viewport as it was.
+   */
+  unbind(): void {
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.previousFramebuffer);
+    if (this.previousViewport) {
+      const [x, y, width, height] = this.previousViewport;
+      this.gl.viewport(x, y, width, height);
+    }
+
+    this.previousFramebuffer = null;
+    this.previousViewport = null;
+  }
+
+  /**
+   * Changes the size of the target. Whatever was drawn into it is thrown away.
+   * Nothing happens if the size is the same as before.
+   *
+   * @param width The new width, in pixels.
+   * @param height The new height, in pixels.
+   */
+  resize(width: number, height: number): void {
+    validateSize(width, height);
+    if (width === this._width && height === this._height) {
+      return;
+    }
+
+    this._width = width;
+    this._height = height;
+
+    // The textures and renderbuffer are resized in place, keeping the same
+    // WebGL objects, so the framebuffer doesn't need to be told about it.
+    for (const texture of this.textures) {
+      texture.resize(width, height);
+    }
+    if (this.renderbuffer) {
+      this.gl.bindRenderbuffer(this.gl.RENDERBUFFER, this.renderbuffer);
+      this.allocateRenderbuffer(this.renderbuffer);
+      this.gl.bindRenderbuffer(this.gl.RENDERBUFFER, null);
+    }
+  }
+
+  /**
+   * Keeps the target the same size as the canvas (multiplied by
+   * {@link scale}), from now until it's disposed of.
+   *
+   * The canvas is only resized at the start of a frame (see
+   * {@link CanvasResizer.update}), so the target is always the right size by
+   * the time anything is drawn into it.
+   *
+   * @param resizer The canvas's resizer.
+   */
+  autoResize(resizer: CanvasResizer): void {
+    this.stopAutoResize?.();
+
+    const resize = (width: number, height: number) => {
+      this.resize(
+        Math.max(1, Math.round(width * this.scale)),
+        Math.max(1, Math.round(height * this.scale))
+      );
+    };
+    resize(resizer.width, resizer.height);
+    this.stopAutoResize = resizer.onResize(resize);
+  }
+
+  /**
+   * Creates the framebuffer again, after the WebGL context was lost and
+   * restored. The textures restore themselves.
+   */
+  restore(): void {
+    this.framebuffer = this.create();
+  }
+
+  /**
+   * Deletes the framebuffer, the depth buffer and the colour textures from
+   * WebGL memory. After calling this, the target and its textures cannot be
+   * used again.
+   */
+  dispose(): void {
+    this.stopAutoResize?.();
+    this.stopAutoResize = null;
+
+    const tracker = ResourceTracker.forContext(this.gl);
+    this.gl.deleteFramebuffer(this.framebuffer);
+    tracker.untrack(this.framebuffer);
+    if (this.renderbuffer) {
+      this.gl.deleteRenderbuffer(this.renderbuffer);
+      tracker.untrack(this.renderbuffer);
+      this.renderbuffer = null;
+    }
+    for (const texture of this.textures) {
+      texture.dispose();
+    }
+
+    ResourceRegistry.forContext(this.gl).unregister(this);
+  }
+
+  /**
+   * Creates the framebuffer and the depth buffer, and attaches everything to
+   * the framebuffer.
+   *
+   * @returns The new framebuffer.
+   */
+  private create(): WebGLFramebuffer {
+    const framebuffer = this.gl.createFramebuffer();
+    if (!framebuffer) {
+      throw new Error('Failed to create framebuffer');
+    }
+
+    // We need to bind the framebuffer to set it up, but we might be in the
+    // middle of drawing somewhere else, so we'll put that back afterwards.
+    const previousFramebuffer = this.gl.getParameter(
+      this.gl.FRAMEBUFFER_BINDING
+    );
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, framebuffer);
+
+    // Attach each texture to its own colour attachment
+    const drawBuffers = this.textures.map((texture, i) => {
+      this.gl.framebufferTexture2D(
+        this.gl.FRAMEBUFFER,
+        this.gl.COLOR_ATTACHMENT0 + i, // attachment: Which slot to attach to
+        this.gl.TEXTURE_2D, // textarget: The type of texture
+        texture.texture, // texture: The texture to draw into
+        0 // level: Mipmap level, which must be 0
+      );
+      return this.gl.COLOR_ATTACHMENT0 + i;
+    });
+
+    // Tell WebGL which attachments fragment shader outputs go to. Without
+    // this, only the first output is drawn. This is stored as part of the
+    // framebuffer, so we only need to do it once.
+    this.gl.drawBuffers(drawBuffers);
+
+    if (this.depth) {
+      const renderbuffer = this.gl.createRenderbuffer();
+      if (!renderbuffer) {
+        throw new Error('Failed to create renderbuffer');
+      }
+      this.renderbuffer = renderbuffer;
+
+      this.gl.bindRenderbuffer(this.gl.RENDERBUFFER, renderbuffer);
+      this.allocateRenderbuffer(renderbuffer);
+      this.gl.bindRenderbuffer(this.gl.RENDERBUFFER, null);
+
+      this.gl.framebufferRenderbuffer(
+        this.gl.FRAMEBUFFER,
+        this.stencil
+          ? this.gl.DEPTH_STENCIL_ATTACHMENT
+          : this.gl.DEPTH_ATTACHMENT,
+        this.gl.RENDERBUFFER,
+        renderbuffer
+      );
+    }
+
+    // Some combinations of attachments aren't allowed, e.g. colour formats
+    // that can't be drawn into without an extension (like RGBA32F). WebGL
+    // tells us if that's the case.
+    const status = this.gl.checkFramebufferStatus(this.gl.FRAMEBUFFER);
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, previousFramebuffer);
+    if (status !== this.gl.FRAMEBUFFER_COMPLETE) {
+      this.gl.deleteFramebuffer(framebuffer);
+      throw new Error(`Framebuffer incomplete: 0x${status.toString(16)}`);
+    }
+
+    // A framebuffer doesn't hold any pixels itself, just the attachments
+    ResourceTracker.forContext(this.gl).track(
+      framebuffer,
+      'framebuffer',
+      'RenderTarget'
+    );
+
+    return framebuffer;
+  }
+
+  /**
+   * Makes space on the GPU for the depth buffer at the target's current size.
+   * The renderbuffer must already be bound.
+   *
+   * @param renderbuffer The depth buffer.
+   */
+  private allocateRenderbuffer(renderbuffer: WebGLRenderbuffer): void {
+    this.gl.renderbufferStorage(
+      this.gl.RENDERBUFFER,
+      this.stencil ? this.gl.DEPTH24_STENCIL8 : this.gl.DEPTH_COMPONENT24,
+      this._width,
+      this._height
+    );
+
+    // Both formats take 4 bytes per pixel. If we were already tracking the
+    // renderbuffer, this just updates its size.
+    ResourceTracker.forContext(this.gl).track(
+      renderbuffer,
+      'renderbuffer',
+      'RenderTarget depth',
+      this._width * this._height * 4
+    );
+  }
+}
+
+/**
+ * Checks that a render target size makes sense. A framebuffer can't be 0
+ * pixels wide or tall.
+ *
+ * @param width The width, in pixels.
+ * @param height The height, in pixels.
+ */
+function validateSize(width: number, height: number): void {
+  if (!(width >= 1 && height >= 1)) {
+    throw new Error(`Invalid render target size: ${width}x${height}`);
+  }
+}
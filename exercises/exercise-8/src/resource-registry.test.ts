@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+
+import { ResourceRegistry, RestorableResource } from './resource-registry';
+
+/**
+ * Creates a stand-in for a WebGL context, which is all the registry needs one
+ * for: as a key, and to ask whether it's been lost.
+ */
+function createContext() {
+  const state = { lost: false };
+  const gl = {
+    isContextLost: () => state.lost,
+  } as unknown as WebGL2RenderingContext;
+  return { gl, state };
+}
+
+/**
+ * Creates a resource which adds its name to `restored` when it's restored.
+ */
+function createResource(
+  name: string,
+  restored: string[],
+  onRestore?: () => void
+): RestorableResource {
+  return {
+    restore: () => {
+      restored.push(name);
+      onRestore?.();
+    },
+  };
+}
+
+describe('ResourceRegistry', () => {
+  it('is shared by everything using the same context', () => {
+    const { gl } = createContext();
+    const { gl: otherGl } = createContext();
+
+    expect(ResourceRegistry.forContext(gl)).toBe(
+      ResourceRegistry.forContext(gl)
+    );
+    expect(ResourceRegistry.forContext(gl)).not.toBe(
+      ResourceRegistry.forContext(otherGl)
+    );
+  });
+
+  it('restores resources in the order they were registered', () => {
+    const { gl } = createContext();
+    const registry = ResourceRegistry.forContext(gl);
+    const restored: string[] = [];
+    registry.register(createResource('program', restored));
+    registry.register(createResource('mesh', restored));
+    registry.register(createResource('texture', restored));
+
+    registry.restoreAll();
+
+    expect(restored).toEqual(['program', 'mesh', 'texture']);
+  });
+
+  it('does not restore unregistered resources', () => {
+    const { gl } = createContext();
+    const registry = ResourceRegistry.forContext(gl);
+    const restored: string[] = [];
+    const disposed = createResource('disposed', restored);
+    registry.register(createResource('kept', restored));
+    registry.register(disposed);
+
+    registry.unregister(disposed);
+    registry.restoreAll();
+
+    expect(registry.size).toBe(1);
+    expect(restored).toEqual(['kept']);
+  });
+
+  it('stops restoring if the context is lost again part way through', () => {
+    const { gl, state } = createContext();
+    const registry = ResourceRegistry.forContext(gl);
+    const restored: string[] = [];
+    // Loses the context the first time it's restored, and only then
+    let loseContext = true;
+    registry.register(
+      createResource('first', restored, () => {
+        state.lost = loseContext;
+        loseContext = false;
+      })
+    );
+    registry.register(createResource('second', restored));
+
+    registry.restoreAll();
+    expect(restored).toEqual(['first']);
+
+    // When the context comes back again, everything is restored from the
+    // start
+    state.lost = false;
+    restored.length = 0;
+    registry.restoreAll();
+    expect(restored).toEqual(['first', 'second']);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Something that owns GPU objects (buffers, textures, programs and so on) and
+ * knows how to create them again from data it keeps on the CPU side.
+ */
+export interface RestorableResource {
+  /**
+   * Creates all of the resource's GPU objects again, after the WebGL context
+   * was lost and then restored.
+   *
+   * The old GPU objects were destroyed along with the old context, so they
+   * shouldn't (and can't) be deleted first.
+   */
+  restore(): void;
+}
+
+/**
+ * The registry for each WebGL context. A `WeakMap` means that once a context
+ * is no longer used, its registry can be garbage collected along with it.
+ */
+const registries = new WeakMap<WebGL2RenderingContext, ResourceRegistry>();
+
+/**
+ * Keeps track of every GPU resource that belongs to a WebGL context, so that
+ * they can all be recreated if the context is lost.
+ *
+ * Why would the context be lost? Everything we create in WebGL lives on the
+ * GPU, and the browser can take the GPU away from us at any time: for example,
+ * if the graphics driver crashes or is updated, if the computer wakes up from
+ * sleep, or if too many other pages are using WebGL at the same time. When
+ * that happens, every buffer, texture and program we made is gone, and the
+ * canvas stays blank.
+ *
+ * The browser can give us a fresh context afterwards, but it's empty, so we
+ * need to create everything again. That's only possible if each resource kept
+ * a copy of whatever it was created from (the shader source code, the vertex
+ * data, the image), which is what {@link RestorableResource.restore} uses.
+ *
+ * Resources don't need to be handed a registry: there's one per context, which
+ * they look up with {@link ResourceRegistry.forContext} when they're created.
+ */
+export class ResourceRegistry {
+  /**
+   * The registered resources. A `Set` remembers the order things were added
+   * in, so they're restored in the same order they were created.
+   */
+  private resources = new Set<RestorableResource>();
+
+  /**
+   * Use {@link ResourceRegistry.forContext} to get the registry for a context.
+   */
+  private constructor(private gl: WebGL2RenderingContext) {}
+
+  /**
+   * Gets the registry for a WebGL context, creating it the first time.
+   *
+   * @param gl The WebGL rendering context.
+   * @returns The registry shared by every resource belonging to `gl`.
+   */
+  static forContext(gl: WebGL2RenderingContext): ResourceRegistry {
+    let registry = registries.get(gl);
+    if (!registry) {
+      registry = new ResourceRegistry(gl);
+      registries.set(gl, registry);
+    }
+    return registry;
+  }
+
+  /**
+   * How many resources are registered.
+   */
+  get size(): number {
+    return this.resources.size;
+  }
+
+  /**
+   * Registers a resource, so that it's restored along with everything else
+   * when the context is restored.
+   */
+  register(resource: RestorableResource): void {
+    this.resources.add(resource);
+  }
+
+  /**
+   * Unregisters a resource, e.g. because it's been deleted.
+   */
+  unregister(resource: RestorableResource): void {
+    this.resources.delete(resource);
+  }
+
+  /**
+   * Restores every registered resource, in the order they were registered.
+   * Call this when the context has been restored.
+   */
+  restoreAll(): void {
+    for (const resource of this.resources) {
+      // If the context is lost again while we're restoring, there's no point
+      // carrying on. We'll start again from the beginning when it's restored.
+      if (this.gl.isContextLost()) {
+        return;
+      }
+      resource.restore();
+    }
+  }
+}
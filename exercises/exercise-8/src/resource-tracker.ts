@@ -0,0 +1,214 @@
+/**
+ * The kinds of GPU object we keep track of.
+ */
+export type TrackedResourceKind =
+  | 'program'
+  | 'buffer'
+  | 'texture'
+  | 'vertexArray'
+  | 'framebuffer'
+  | 'renderbuffer';
+
+/**
+ * Information about a GPU object that's currently alive.
+ */
+export interface TrackedResource {
+  /** What kind of object it is. */
+  kind: TrackedResourceKind;
+  /**
+   * A short description of what the object is for, e.g. `'Mesh vertices'`,
+   * which is shown when reporting leaks.
+   */
+  label: string;
+  /**
+   * Roughly how much GPU memory the object uses, in bytes. The driver doesn't
+   * tell us the real number, so this is worked out from the size of the data
+   * we gave it.
+   */
+  bytes: number;
+}
+
+/**
+ * A summary of the GPU objects that are currently alive.
+ */
+export interface ResourceStats {
+  programs: number;
+  buffers: number;
+  textures: number;
+  vertexArrays: number;
+  framebuffers: number;
+  renderbuffers: number;
+  /** The estimated GPU memory used by all of them together, in bytes. */
+  bytes: number;
+}
+
+/**
+ * Any of the WebGL objects we can track.
+ */
+type GPUObject =
+  | WebGLProgram
+  | WebGLBuffer
+  | WebGLTexture
+  | WebGLVertexArrayObject
+  | WebGLFramebuffer
+  | WebGLRenderbuffer;
+
+/**
+ * The tracker for each WebGL context.
+ */
+const trackers = new WeakMap<WebGL2RenderingContext, ResourceTracker>();
+
+/**
+ * Keeps count of the GPU objects that are alive in a WebGL context, and
+ * roughly how much memory they're using.
+ *
+ * JavaScript's garbage collector only knows about JavaScript objects. If we
+ * create a buffer and then forget about it, the small `WebGLBuffer` object
+ * might eventually be collected, but there's no telling when, and until then
+ * the (possibly very large) memory on the GPU stays in use. That's why every
+ * class that creates GPU objects has a `dispose()` method to delete them
+ * straight away.
+ *
+ * It's easy to forget to call `dispose()`, though, so each of those classes
+ * also tells the tracker whenever it creates or deletes something. At any
+ * point, {@link getStats} says how much is alive, which is handy to show in a
+ * debug overlay: if the numbers keep going up, something is leaking. When
+ * we're shutting down, everything should have been disposed of, and
+ * {@link reportLeaks} warns about anything that wasn't.
+ */
+export class ResourceTracker {
+  /**
+   * Every GPU object that's currently alive.
+   */
+  private resources = new Map<GPUObject, TrackedResource>();
+
+  /**
+   * Use {@link ResourceTracker.forContext} to get the tracker for a context.
+   */
+  private constructor() {}
+
+  /**
+   * Gets the tracker for a WebGL context, creating it the first time.
+   *
+   * @param gl The WebGL rendering context.
+   * @returns The tracker shared by everything that uses `gl`.
+   */
+  static forContext(gl: WebGL2RenderingContext): ResourceTracker {
+    let tracker = trackers.get(gl);
+    if (!tracker) {
+      tracker = new ResourceTracker();
+      trackers.set(gl, tracker);
+    }
+    return tracker;
+  }
+
+  /**
+   * Starts tracking a GPU object that has just been created.
+   *
+   * @param object The WebGL object.
+   * @param kind What kind of object it is.
+   * @param label A short description of what it's for.
+   * @param bytes Roughly how much GPU memory it uses.
+   */
+  track(
+    object: GPUObject,
+    kind: TrackedResourceKind,
+    label: string,
+    bytes = 0
+  ): void {
+    this.resources.set(object, { kind, label, bytes });
+  }
+
+  /**
+   * Updates how much memory a tracked object uses, e.g. after a buffer has
+   * been given new storage with `bufferData`.
+   */
+  setBytes(object: GPUObject, bytes: number): void {
+    const resource = this.resources.get(object);
+    if (resource) {
+      resource.bytes = bytes;
+    }
+  }
+
+  /**
+   * Stops tracking a GPU object, because it's been deleted.
+   */
+  untrack(object: GPUObject): void {
+    this.resources.delete(object);
+  }
+
+  /**
+   * Stops tracking everything. This is for when the context is lost, which
+   * deletes every object at once.
+   */
+  clear(): void {
+    this.resources.clear();
+  }
+
+  /**
+   * Counts the GPU objects that are currently alive, and adds up how much
+   * memory they use.
+   */
+  getStats(): ResourceStats {
+    const stats: ResourceStats = {
+      programs: 0,
+      buffers: 0,
+      textures: 0,
+      vertexArrays: 0,
+      framebuffers: 0,
+      renderbuffers: 0,
+      bytes: 0,
+    };
+    for (const resource of this.resources.values()) {
+      switch (resource.kind) {
+        case 'program':
+          stats.programs++;
+          break;
+        case 'buffer':
+          stats.buffers++;
+          break;
+        case 'texture':
+          stats.textures++;
+          break;
+        case 'vertexArray':
+          stats.vertexArrays++;
+          break;
+        case 'framebuffer':
+          stats.framebuffers++;
+          break;
+        case 'renderbuffer':
+          stats.renderbuffers++;
+          break;
+      }
+      stats.bytes += resource.bytes;
+    }
+    return stats;
+  }
+
+  /**
+   * Gets information about every GPU object that's currently alive.
+   */
+  getLiveResources(): TrackedResource[] {
+    return [...this.resources.values()];
+  }
+
+  /**
+   * Warns in the console about every GPU object that's still alive. Call this
+   * when shutting down, after everything should have been disposed of.
+   *
+   * @returns The objects that were never disposed of.
+   */
+  reportLeaks(): TrackedResource[] {
+    const leaks = this.getLiveResources();
+    if (leaks.length > 0) {
+      const lines = leaks.map(
+        (leak) => `  ${leak.kind} '${leak.label}' (${leak.bytes} bytes)`
+      );
+      console.warn(
+        `${leaks.length} GPU resource(s) were never disposed:\n` +
+          lines.join('\n')
+      );
+    }
+    return leaks;
+  }
+}
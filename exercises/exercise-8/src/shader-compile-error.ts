@@ -0,0 +1,264 @@
+import { SourceLocation } from './shader-preprocessor';
+
+/**
+ * The stage of the GPU pipeline a shader belongs to.
+ */
+export type ShaderStage = 'vertex' | 'fragment';
+
+/**
+ * A single line of shader source code, shown alongside a diagnostic so you can
+ * see where the problem is without counting lines in the `.glsl` file.
+ */
+export interface SourceExcerptLine {
+  /** The 1-based line number in the original file. */
+  line: number;
+  /** The text of the line. */
+  text: string;
+  /** Whether this is the line the diagnostic refers to. */
+  highlighted: boolean;
+}
+
+/**
+ * A single error or warning reported by the shader compiler.
+ */
+export interface ShaderDiagnostic {
+  /** The stage of the shader that the diagnostic came from. */
+  stage: ShaderStage;
+  /** Whether this is an error (compilation failed) or just a warning. */
+  severity: 'error' | 'warning';
+  /**
+   * The file the diagnostic refers to, for errors inside an `#include`d file.
+   * This is `null` if the error is in the shader source itself, or if the
+   * compiler didn't say which line the error is on.
+   */
+  file: string | null;
+  /**
+   * The 1-based line number the diagnostic refers to, or `null` if the
+   * compiler didn't say (e.g. for errors about the shader as a whole). This is
+   * the line in the original file, before any includes were pasted in.
+   */
+  line: number | null;
+  /**
+   * The 1-based column the diagnostic refers to, or `null` if the compiler
+   * didn't say. Most browsers only report the line.
+   */
+  column: number | null;
+  /** The message from the compiler, e.g. `'foo' : undeclared identifier`. */
+  message: string;
+  /**
+   * The offending source line along with a few lines either side of it from
+   * the same file. This is empty if the diagnostic doesn't refer to a line.
+   */
+  excerpt: SourceExcerptLine[];
+}
+
+/**
+ * How many lines of source to show either side of the offending line.
+ */
+const EXCERPT_CONTEXT_LINES = 2;
+
+/**
+ * Matches the info log format used by most browsers (ANGLE), e.g.
+ * `ERROR: 0:12: 'foo' : undeclared identifier`. The first number is the index
+ * of the source string, which is always 0 for us as we only pass one string.
+ */
+const ANGLE_LOG_PATTERN = /^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/;
+
+/**
+ * Matches the info log format used by Mesa drivers, which also includes a
+ * column, e.g. `0:12(5): error: syntax error, unexpected IDENTIFIER`.
+ */
+const MESA_LOG_PATTERN = /^\d+:(\d+)\((\d+)\):\s*(error|warning):\s*(.*)$/;
+
+/**
+ * Parses a shader info log into structured diagnostics.
+ *
+ * The info log is just a blob of text, and every GPU driver formats it a bit
+ * differently. We understand the most common formats, and fall back to keeping
+ * any line we don't understand as a diagnostic without a line number, so
+ * nothing the compiler said is lost.
+ *
+ * @param stage The stage of the shader that was compiled.
+ * @param source The source code that was compiled, used to build excerpts.
+ * @param log The info log, as returned by `gl.getShaderInfoLog`.
+ * @param lineMap Where each line of the source originally came from, if it was
+ * preprocessed. Without this, line numbers refer to the source as given.
+ * @returns The diagnostics found in the log.
+ */
+export function parseShaderInfoLog(
+  stage: ShaderStage,
+  source: string,
+  log: string,
+  lineMap?: SourceLocation[]
+): ShaderDiagnostic[] {
+  const sourceLines = source.split('\n');
+  const locate = (line: number): SourceLocation =>
+    lineMap?.[line - 1] ?? { file: null, line };
+  const diagnostics: ShaderDiagnostic[] = [];
+
+  for (const rawLine of log.split('\n')) {
+    // Drivers often pad the log with trailing null characters
+    const logLine = rawLine.replace(/\0/g, '').trim();
+    if (!logLine) {
+      continue;
+    }
+
+    let severity: ShaderDiagnostic['severity'] = 'error';
+    let line: number | null = null;
+    let column: number | null = null;
+    let message = logLine;
+
+    const angleMatch = ANGLE_LOG_PATTERN.exec(logLine);
+    const mesaMatch = MESA_LOG_PATTERN.exec(logLine);
+    if (angleMatch) {
+      severity = angleMatch[1] === 'WARNING' ? 'warning' : 'error';
+      line = Number(angleMatch[2]);
+      message = angleMatch[3];
+    } else if (mesaMatch) {
+      line = Number(mesaMatch[1]);
+      column = Number(mesaMatch[2]);
+      severity = mesaMatch[3] === 'warning' ? 'warning' : 'error';
+      message = mesaMatch[4];
+    }
+
+    // A line number of 0 means the diagnostic isn't about a particular line
+    if (line === 0 || line === null) {
+      diagnostics.push({
+        stage,
+        severity,
+        file: null,
+        line: null,
+        column,
+        message,
+        excerpt: [],
+      });
+      continue;
+    }
+
+    const location = locate(line);
+    diagnostics.push({
+      stage,
+      severity,
+      file: location.file,
+      line: location.line,
+      column,
+      message,
+      excerpt: getExcerpt(sourceLines, line, locate),
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Gets the lines of source around a given line.
+ *
+ * Only lines from the same original file are included, so that the excerpt
+ * doesn't run into the middle of an `#include`d file (or back out of one).
+ *
+ * @param sourceLines The compiled shader source, split into lines.
+ * @param line The 1-based line number to centre the excerpt on.
+ * @param locate Maps a compiled line number to its original location.
+ * @returns The excerpt, with the given line highlighted.
+ */
+function getExcerpt(
+  sourceLines: string[],
+  line: number,
+  locate: (line: number) => SourceLocation
+): SourceExcerptLine[] {
+  const first = Math.max(1, line - EXCERPT_CONTEXT_LINES);
+  const last = Math.min(sourceLines.length, line + EXCERPT_CONTEXT_LINES);
+  const file = locate(line).file;
+
+  const excerpt: SourceExcerptLine[] = [];
+  for (let i = first; i <= last; i++) {
+    const location = locate(i);
+    if (location.file !== file) {
+      continue;
+    }
+
+    excerpt.push({
+      line: location.line,
+      text: sourceLines[i - 1],
+      highlighted: i === line,
+    });
+  }
+  return excerpt;
+}
+
+/**
+ * Formats a diagnostic as human-readable text, including its source excerpt.
+ *
+ * Example output:
+ * ```
+ * ERROR (fragment shader, line 12): 'foo' : undeclared identifier
+ *     10 |   vec3 colour = texture(uTexture, vUv.xy).rgb;
+ *     11 |
+ *   > 12 |   fragColour = vec4(foo, 1.0);
+ *     13 | }
+ * ```
+ *
+ * @param diagnostic The diagnostic to format.
+ * @returns The formatted diagnostic.
+ */
+export function formatShaderDiagnostic(diagnostic: ShaderDiagnostic): string {
+  const file = diagnostic.file === null ? '' : ` ${diagnostic.file}`;
+  const position =
+    diagnostic.line === null
+      ? ''
+      : diagnostic.column === null
+        ? `,${file} line ${diagnostic.line}`
+        : `,${file} line ${diagnostic.line}:${diagnostic.column}`;
+  const header = `${diagnostic.severity.toUpperCase()} (${diagnostic.stage} shader${position}): ${diagnostic.message}`;
+
+  // Pad the line numbers so the source lines up nicely
+  const width = Math.max(
+    0,
+    ...diagnostic.excerpt.map((line) => String(line.line).length)
+  );
+  const excerpt = diagnostic.excerpt.map(
+    (line) =>
+      `${line.highlighted ? '  > ' : '    '}${String(line.line).padStart(width)} | ${line.text}`
+  );
+
+  return [header, ...excerpt].join('\n');
+}
+
+/**
+ * The error thrown when a shader fails to compile.
+ *
+ * As well as a readable message, it carries the parsed diagnostics and the
+ * original source, so that tools (such as an in-page error overlay) can display
+ * the problem however they like.
+ */
+export class ShaderCompileError extends Error {
+  /**
+   * The errors and warnings reported by the compiler.
+   */
+  public readonly diagnostics: ShaderDiagnostic[];
+
+  /**
+   * Creates a new ShaderCompileError.
+   *
+   * @param stage The stage of the shader that failed to compile.
+   * @param source The source code that was compiled.
+   * @param log The raw info log from the compiler.
+   * @param lineMap Where each line of the source originally came from, if it
+   * was preprocessed.
+   */
+  constructor(
+    public readonly stage: ShaderStage,
+    public readonly source: string,
+    public readonly log: string,
+    lineMap?: SourceLocation[]
+  ) {
+    const diagnostics = parseShaderInfoLog(stage, source, log, lineMap);
+    super(
+      `Failed to compile ${stage} shader:\n` +
+        diagnostics.map(formatShaderDiagnostic).join('\n\n')
+    );
+
+    this.name = 'ShaderCompileError';
+    this.diagnostics = diagnostics;
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+
+import { preprocessShader } from './shader-preprocessor';
+
+describe('preprocessShader', () => {
+  it('pastes included files in place of the directive', () => {
+    const { source, lineMap } = preprocessShader(
+      '#version 300 es\n#include "common/math.glsl"\nvoid main() {}',
+      { includes: { 'common/math.glsl': 'float PI = 3.14;' } }
+    );
+
+    expect(source).toBe('#version 300 es\nfloat PI = 3.14;\nvoid main() {}');
+    expect(lineMap).toEqual([
+      { file: null, line: 1 },
+      { file: 'common/math.glsl', line: 1 },
+      { file: null, line: 3 },
+    ]);
+  });
+
+  it('resolves includes relative to the including file first', () => {
+    const { source } = preprocessShader('#include "lighting/light.glsl"', {
+      includes: {
+        'lighting/light.glsl': '#include "./util.glsl"',
+        'lighting/util.glsl': '// lighting util',
+        'util.glsl': '// top-level util',
+      },
+    });
+
+    expect(source).toBe('// lighting util');
+  });
+
+  it('pastes a file included from two places only once', () => {
+    // A diamond: both a.glsl and b.glsl need the same shared code
+    const { source, lineMap } = preprocessShader(
+      '#include "a.glsl"\n#include "b.glsl"',
+      {
+        includes: {
+          'a.glsl': '#include "shared.glsl"\nfloat a() { return one(); }',
+          'b.glsl': '#include "shared.glsl"\nfloat b() { return one(); }',
+          'shared.glsl': 'float one() { return 1.0; }',
+        },
+      }
+    );
+
+    expect(source).toBe(
+      [
+        'float one() { return 1.0; }',
+        'float a() { return one(); }',
+        'float b() { return one(); }',
+      ].join('\n')
+    );
+    expect(lineMap).toEqual([
+      { file: 'shared.glsl', line: 1 },
+      { file: 'a.glsl', line: 2 },
+      { file: 'b.glsl', line: 2 },
+    ]);
+  });
+
+  it('throws on an include cycle, naming the files involved', () => {
+    expect(() =>
+      preprocessShader('#include "a.glsl"', {
+        includes: {
+          'a.glsl': '#include "b.glsl"',
+          'b.glsl': '#include "a.glsl"',
+        },
+      })
+    ).toThrow(
+      'Shader include cycle detected: <shader> -> a.glsl -> b.glsl -> a.glsl'
+    );
+  });
+
+  it('throws on a file that includes itself', () => {
+    expect(() =>
+      preprocessShader('#include "a.glsl"', {
+        includes: { 'a.glsl': '#include "a.glsl"' },
+      })
+    ).toThrow('Shader include cycle detected: <shader> -> a.glsl -> a.glsl');
+  });
+
+  it('throws on a missing include, with where it was included from', () => {
+    expect(() =>
+      preprocessShader('void main() {}\n#include "missing.glsl"', {
+        includes: {},
+      })
+    ).toThrow('Cannot find shader include "missing.glsl"');
+  });
+
+  it('injects defines after the #version directive', () => {
+    const { source, lineMap } = preprocessShader(
+      '#version 300 es\nvoid main() {}',
+      { includes: {}, defines: { SCALE: 0.5, SHADOWS: true, FOG: false } }
+    );
+
+    expect(source).toBe(
+      '#version 300 es\n#define SCALE 0.5\n#define SHADOWS 1\nvoid main() {}'
+    );
+    expect(lineMap[1]).toEqual({ file: '<defines>', line: 1 });
+    expect(lineMap[3]).toEqual({ file: null, line: 2 });
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Values that can be injected into a shader as `#define`s.
+ *
+ * Numbers and strings are written out as-is, so `{ SCALE: 0.5 }` becomes
+ * `#define SCALE 0.5`. `true` becomes `1`, and `false` leaves the name
+ * undefined, so that `#ifdef` checks behave as you'd expect.
+ */
+export type ShaderDefines = Record<string, number | boolean | string>;
+
+/**
+ * Where a line of preprocessed shader code originally came from.
+ */
+export interface SourceLocation {
+  /**
+   * The path of the file the line came from, relative to the `shaders`
+   * directory (e.g. `common/noise.glsl`), or `null` if it came from the shader
+   * source that was passed in directly.
+   */
+  file: string | null;
+  /** The 1-based line number within that file. */
+  line: number;
+}
+
+/**
+ * The result of preprocessing a shader.
+ */
+export interface PreprocessedShader {
+  /** The final shader source, ready to be compiled. */
+  source: string;
+  /**
+   * Where each line of {@link source} came from. Entry `i` describes line
+   * `i + 1` of the output (as line numbers start at 1, but arrays start at 0).
+   */
+  lineMap: SourceLocation[];
+}
+
+/**
+ * Options for {@link preprocessShader}.
+ */
+export interface PreprocessOptions {
+  /**
+   * The files that can be included, keyed by their path relative to the
+   * `shaders` directory. Defaults to every `.glsl` file in `src/shaders`.
+   */
+  includes?: Record<string, string>;
+  /**
+   * Values to inject as `#define`s at the top of the shader.
+   */
+  defines?: ShaderDefines;
+}
+
+/**
+ * The name given to the lines we inject for `#define`s in the line map.
+ */
+const DEFINES_FILE = '<defines>';
+
+/**
+ * Matches an include directive, e.g. `#include "common/noise.glsl"`.
+ */
+const INCLUDE_PATTERN = /^\s*#include\s+"([^"]+)"\s*$/;
+
+/**
+ * Matches a valid GLSL identifier, which is what a `#define` name must be.
+ */
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Every `.glsl` file in the `shaders` directory, loaded as raw text by Vite.
+ * The keys are turned into paths relative to the `shaders` directory, which is
+ * how shaders refer to them in `#include` directives.
+ */
+const SHADER_FILES: Record<string, string> = Object.fromEntries(
+  Object.entries(
+    import.meta.glob<string>('./shaders/**/*.glsl', {
+      query: '?raw',
+      import: 'default',
+      eager: true,
+    })
+  ).map(([path, source]) => [path.replace(/^\.\/shaders\//, ''), source])
+);
+
+/**
+ * Runs the preprocessor over a shader's source code.
+ *
+ * GLSL has its own built-in preprocessor which understands `#define` and
+ * `#ifdef`, but it has no way to pull in code from another file. This fills
+ * that gap, so that shared snippets only need to be written once:
+ *
+ * ```glsl
+ * #include "common/noise.glsl"
+ * ```
+ *
+ * The included file's contents are pasted in place of the directive (and any
+ * includes inside it are handled the same way). Include paths are relative to
+ * the file doing the including, or otherwise to the `shaders` directory. Each
+ * file is only pasted in once, however many times it's included, so shared
+ * snippets can safely be included from several places.
+ *
+ * It also lets us inject `#define`s from TypeScript, so that one shader file
+ * can be compiled in several variations.
+ *
+ * Because all this changes which line is which, we also keep track of where
+ * each output line came from, so that compile errors can point back to the
+ * original file and line.
+ *
+ * @param source The shader source code.
+ * @param options Optional includes and defines.
+ * @returns The preprocessed source and its line map.
+ */
+export function preprocessShader(
+  source: string,
+  options: PreprocessOptions = {}
+): PreprocessedShader {
+  const includes = options.includes ?? SHADER_FILES;
+
+  const output: string[] = [];
+  const lineMap: SourceLocation[] = [];
+
+  // The chain of files currently being included, used to detect cycles (where
+  // a file ends up including itself, which would otherwise go on forever)
+  const includeStack: (string | null)[] = [];
+
+  // Every file that has been pasted in so far. Each file is only included
+  // once, like a header with `#pragma once` in C: if two files both include
+  // the same shared snippet, pasting it twice would define its functions
+  // twice, which GLSL doesn't allow.
+  const includedFiles = new Set<string>();
+
+  const processFile = (file: string | null, fileSource: string) => {
+    includeStack.push(file);
+
+    const lines = fileSource.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const match = INCLUDE_PATTERN.exec(lines[i]);
+      if (!match) {
+        output.push(lines[i]);
+        lineMap.push({ file, line: i + 1 });
+        continue;
+      }
+
+      const includedFile = resolveIncludePath(file, match[1], includes);
+      if (includedFile === null) {
+        throw new Error(
+          `Cannot find shader include "${match[1]}" ` +
+            `(included from ${describeLocation({ file, line: i + 1 })})`
+        );
+      }
+
+      if (includeStack.includes(includedFile)) {
+        const chain = [...includeStack, includedFile]
+          .map((f) => f ?? '<shader>')
+          .join(' -> ');
+        throw new Error(`Shader include cycle detected: ${chain}`);
+      }
+
+      // Already pasted in earlier, e.g. by another file that includes it too
+      if (includedFiles.has(includedFile)) {
+        continue;
+      }
+      includedFiles.add(includedFile);
+
+      processFile(includedFile, includes[includedFile]);
+    }
+
+    includeStack.pop();
+  };
+
+  processFile(null, source);
+
+  // The `#version` directive has to be the very first line of a shader, so
+  // any defines go directly after it
+  const defineLines = getDefineLines(options.defines ?? {});
+  const insertAt = /^\s*#version\b/.test(output[0] ?? '') ? 1 : 0;
+  output.splice(insertAt, 0, ...defineLines);
+  lineMap.splice(
+    insertAt,
+    0,
+    ...defineLines.map((_, i) => ({ file: DEFINES_FILE, line: i + 1 }))
+  );
+
+  return { source: output.join('\n'), lineMap };
+}
+
+/**
+ * Describes a source location in a human-readable way, for error messages.
+ *
+ * @param location The location to describe.
+ * @returns A description like `common/noise.glsl:12`.
+ */
+export function describeLocation(location: SourceLocation): string {
+  return `${location.file ?? '<shader>'}:${location.line}`;
+}
+
+/**
+ * Works out which file an include directive refers to.
+ *
+ * @param fromFile The file containing the include directive, or `null` for the
+ * top-level shader source.
+ * @param path The path given in the include directive.
+ * @param includes The files that can be included.
+ * @returns The resolved path, or `null` if no such file exists.
+ */
+function resolveIncludePath(
+  fromFile: string | null,
+  path: string,
+  includes: Record<string, string>
+): string | null {
+  const candidates: string[] = [];
+
+  // First, try relative to the file doing the including
+  if (fromFile !== null) {
+    const directory = fromFile.split('/').slice(0, -1).join('/');
+    candidates.push(normalizePath(`${directory}/${path}`));
+  }
+
+  // Then, try relative to the `shaders` directory
+  candidates.push(normalizePath(path));
+
+  return candidates.find((candidate) => candidate in includes) ?? null;
+}
+
+/**
+ * Resolves `.` and `..` segments in a path, e.g. `a/./b/../c` becomes `a/c`.
+ *
+ * @param path The path to normalize.
+ * @returns The normalized path.
+ */
+function normalizePath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+/**
+ * Turns a set of defines into `#define` lines of GLSL.
+ *
+ * @param defines The defines to convert.
+ * @returns One line of GLSL per define.
+ */
+function getDefineLines(defines: ShaderDefines): string[] {
+  const lines: string[] = [];
+  for (const [name, value] of Object.entries(defines)) {
+    if (!IDENTIFIER_PATTERN.test(name)) {
+      throw new Error(`Invalid shader define name: '${name}'`);
+    }
+
+    // `false` means "not defined", so `#ifdef NAME` is skipped
+    if (value === false) {
+      continue;
+    }
+
+    lines.push(`#define ${name} ${value === true ? 1 : value}`);
+  }
+  return lines;
+}
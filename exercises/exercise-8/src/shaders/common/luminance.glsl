@@ -0,0 +1,5 @@
+// The perceived brightness of a colour. Green looks much brighter to us than
+// red, and red brighter than blue, so they're weighted accordingly.
+float luminance(vec3 colour) {
+  return dot(colour, vec3(0.2126, 0.7152, 0.0722));
+}
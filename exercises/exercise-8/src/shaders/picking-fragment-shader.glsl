@@ -0,0 +1,26 @@
+#version 300 es
+
+precision highp float;
+
+// Integers need a precision too. highp gives us the full 32 bits.
+precision highp int;
+
+// The ID of the object being drawn. Instead of a colour, this is what ends up
+// in the picking render target. 0 means nothing was drawn there, so object IDs
+// start at 1.
+uniform uint uObjectId;
+
+// Which instance of the object is being drawn, passed from the vertex shader
+// when it's compiled with PICKING defined. Integers can't be blended between
+// vertices, so it has to be `flat`: every fragment gets the value from one
+// vertex of the triangle, which is fine since they all have the same one.
+flat in uint vInstanceId;
+
+// The picking render target has two integer textures, one for each of these
+layout(location = 0) out uint objectId;
+layout(location = 1) out uint instanceId;
+
+void main() {
+  objectId = uObjectId;
+  instanceId = vInstanceId;
+}
@@ -0,0 +1,21 @@
+#version 300 es
+
+precision highp float;
+
+uniform sampler2D uTexture;
+
+// The blurred bright parts of the image
+uniform sampler2D uBloomTexture;
+
+uniform float uIntensity;
+
+in vec2 vUv;
+
+out vec4 fragColour;
+
+void main() {
+  vec3 colour = texture(uTexture, vUv).rgb;
+  vec3 bloom = texture(uBloomTexture, vUv).rgb;
+
+  fragColour = vec4(colour + bloom * uIntensity, 1.0);
+}
@@ -0,0 +1,25 @@
+#version 300 es
+
+precision highp float;
+
+#include "common/luminance.glsl"
+
+uniform sampler2D uTexture;
+
+// How bright a pixel has to be before it starts to glow
+uniform float uThreshold;
+
+in vec2 vUv;
+
+out vec4 fragColour;
+
+void main() {
+  vec3 colour = texture(uTexture, vUv).rgb;
+
+  // Keep only the part of the brightness above the threshold, so the glow
+  // fades in smoothly rather than switching on
+  float brightness = luminance(colour);
+  float contribution = max(brightness - uThreshold, 0.0) / max(brightness, 0.0001);
+
+  fragColour = vec4(colour * contribution, 1.0);
+}
@@ -0,0 +1,31 @@
+#version 300 es
+
+precision highp float;
+
+uniform sampler2D uTexture;
+
+// The distance between samples in texture coordinates, along the direction
+// being blurred. The blur is done horizontally and then vertically, which
+// gives the same result as blurring in both directions at once with far fewer
+// samples.
+uniform vec2 uDirection;
+
+in vec2 vUv;
+
+out vec4 fragColour;
+
+void main() {
+  // A 9 tap gaussian blur in 5 samples. Linear filtering blends neighbouring
+  // pixels for free, so sampling between two of them at the right offset
+  // gives both their weighted contributions at once.
+  vec2 offset1 = uDirection * 1.3846153846;
+  vec2 offset2 = uDirection * 3.2307692308;
+
+  vec3 colour = texture(uTexture, vUv).rgb * 0.2270270270;
+  colour += texture(uTexture, vUv + offset1).rgb * 0.3162162162;
+  colour += texture(uTexture, vUv - offset1).rgb * 0.3162162162;
+  colour += texture(uTexture, vUv + offset2).rgb * 0.0702702703;
+  colour += texture(uTexture, vUv - offset2).rgb * 0.0702702703;
+
+  fragColour = vec4(colour, 1.0);
+}
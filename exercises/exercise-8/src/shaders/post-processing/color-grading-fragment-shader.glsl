@@ -0,0 +1,47 @@
+#version 300 es
+
+precision highp float;
+
+uniform sampler2D uTexture;
+
+// A 3D colour lookup table, laid out as a strip of square slices side by side.
+// Within a slice, red increases to the right and green increases downwards;
+// each slice along the strip has more blue than the one before.
+uniform sampler2D uLut;
+
+// How many slices there are, which is also how wide and tall each one is
+uniform float uLutSize;
+
+// How much of the graded colour to use, from 0 (none) to 1 (all of it)
+uniform float uIntensity;
+
+in vec2 vUv;
+
+out vec4 fragColour;
+
+vec3 lookUp(vec3 colour) {
+  colour = clamp(colour, 0.0, 1.0);
+
+  // Blue picks the slices, which we blend between ourselves because linear
+  // filtering would bleed into the neighbouring slice
+  float slice = colour.b * (uLutSize - 1.0);
+  float slice0 = floor(slice);
+  float slice1 = min(slice0 + 1.0, uLutSize - 1.0);
+
+  // Sample pixel centres, so the edges of a slice aren't blended with the
+  // next one
+  float x = (colour.r * (uLutSize - 1.0) + 0.5) / (uLutSize * uLutSize);
+  float y = (colour.g * (uLutSize - 1.0) + 0.5) / uLutSize;
+
+  // Textures are flipped when they're uploaded, so the top row is at y = 1
+  vec3 colour0 = texture(uLut, vec2(x + slice0 / uLutSize, 1.0 - y)).rgb;
+  vec3 colour1 = texture(uLut, vec2(x + slice1 / uLutSize, 1.0 - y)).rgb;
+
+  return mix(colour0, colour1, slice - slice0);
+}
+
+void main() {
+  vec3 colour = texture(uTexture, vUv).rgb;
+
+  fragColour = vec4(mix(colour, lookUp(colour), uIntensity), 1.0);
+}
@@ -0,0 +1,13 @@
+#version 300 es
+
+precision highp float;
+
+uniform sampler2D uTexture;
+
+in vec2 vUv;
+
+out vec4 fragColour;
+
+void main() {
+  fragColour = vec4(texture(uTexture, vUv).rgb, 1.0);
+}
@@ -0,0 +1,15 @@
+#version 300 es
+
+// The texture coordinate of the fragment, from (0, 0) at the bottom left of
+// the screen to (1, 1) at the top right
+out vec2 vUv;
+
+void main() {
+  // One triangle that's twice as wide and tall as the screen covers all of it,
+  // without needing a vertex buffer. Vertices 0, 1 and 2 get the texture
+  // coordinates (0, 0), (2, 0) and (0, 2); anything outside the screen is
+  // clipped.
+  vUv = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+
+  gl_Position = vec4(vUv * 2.0 - 1.0, 0.0, 1.0);
+}
@@ -0,0 +1,72 @@
+#version 300 es
+
+precision highp float;
+
+#include "common/luminance.glsl"
+
+// Fast approximate anti-aliasing (FXAA). This finds edges by comparing the
+// brightness of neighbouring pixels, and blurs along them to smooth out
+// jagged lines. It works best on the final image, after tone mapping.
+
+#define FXAA_REDUCE_MIN (1.0 / 128.0)
+#define FXAA_REDUCE_MUL (1.0 / 8.0)
+#define FXAA_SPAN_MAX 8.0
+
+uniform sampler2D uTexture;
+
+// The size of one pixel in texture coordinates
+uniform vec2 uTexelSize;
+
+in vec2 vUv;
+
+out vec4 fragColour;
+
+void main() {
+  vec3 colourNW = texture(uTexture, vUv + vec2(-1.0, -1.0) * uTexelSize).rgb;
+  vec3 colourNE = texture(uTexture, vUv + vec2(1.0, -1.0) * uTexelSize).rgb;
+  vec3 colourSW = texture(uTexture, vUv + vec2(-1.0, 1.0) * uTexelSize).rgb;
+  vec3 colourSE = texture(uTexture, vUv + vec2(1.0, 1.0) * uTexelSize).rgb;
+  vec3 colourM = texture(uTexture, vUv).rgb;
+
+  float lumaNW = luminance(colourNW);
+  float lumaNE = luminance(colourNE);
+  float lumaSW = luminance(colourSW);
+  float lumaSE = luminance(colourSE);
+  float lumaM = luminance(colourM);
+
+  float lumaMin = min(lumaM, min(min(lumaNW, lumaNE), min(lumaSW, lumaSE)));
+  float lumaMax = max(lumaM, max(max(lumaNW, lumaNE), max(lumaSW, lumaSE)));
+
+  // The direction along the edge, perpendicular to the change in brightness
+  vec2 direction = vec2(
+    -((lumaNW + lumaNE) - (lumaSW + lumaSE)),
+    (lumaNW + lumaSW) - (lumaNE + lumaSE)
+  );
+
+  float directionReduce = max(
+    (lumaNW + lumaNE + lumaSW + lumaSE) * (0.25 * FXAA_REDUCE_MUL),
+    FXAA_REDUCE_MIN
+  );
+  float inverseDirectionMin =
+    1.0 / (min(abs(direction.x), abs(direction.y)) + directionReduce);
+  direction = clamp(
+    direction * inverseDirectionMin,
+    vec2(-FXAA_SPAN_MAX),
+    vec2(FXAA_SPAN_MAX)
+  ) * uTexelSize;
+
+  // Blend samples along the edge, near and then further out
+  vec3 colourA = 0.5 * (
+    texture(uTexture, vUv + direction * (1.0 / 3.0 - 0.5)).rgb +
+    texture(uTexture, vUv + direction * (2.0 / 3.0 - 0.5)).rgb
+  );
+  vec3 colourB = colourA * 0.5 + 0.25 * (
+    texture(uTexture, vUv + direction * -0.5).rgb +
+    texture(uTexture, vUv + direction * 0.5).rgb
+  );
+
+  // If the wider blend went outside the range of the neighbourhood, it
+  // crossed another edge, so use the narrower one
+  float lumaB = luminance(colourB);
+  fragColour = vec4(lumaB < lumaMin || lumaB > lumaMax ? colourA : colourB, 1.0);
+}
@@ -0,0 +1,43 @@
+#version 300 es
+
+precision highp float;
+
+#define TONE_MAPPING_NONE 0
+#define TONE_MAPPING_REINHARD 1
+#define TONE_MAPPING_ACES 2
+
+uniform sampler2D uTexture;
+
+// Multiplies the colour before tone mapping, like a camera's exposure
+uniform float uExposure;
+
+// Which curve to use, one of the TONE_MAPPING_ values above
+uniform int uOperator;
+
+in vec2 vUv;
+
+out vec4 fragColour;
+
+// Krzysztof Narkowicz's fit of the ACES filmic curve
+vec3 aces(vec3 colour) {
+  const float a = 2.51;
+  const float b = 0.03;
+  const float c = 2.43;
+  const float d = 0.59;
+  const float e = 0.14;
+  return clamp((colour * (a * colour + b)) / (colour * (c * colour + d) + e), 0.0, 1.0);
+}
+
+void main() {
+  // Tone mapping squeezes colours brighter than 1, which the screen can't
+  // show, back into range without clipping them
+  vec3 colour = texture(uTexture, vUv).rgb * uExposure;
+
+  if (uOperator == TONE_MAPPING_REINHARD) {
+    colour = colour / (colour + 1.0);
+  } else if (uOperator == TONE_MAPPING_ACES) {
+    colour = aces(colour);
+  }
+
+  fragColour = vec4(colour, 1.0);
+}
@@ -0,0 +1,18 @@
+#version 300 es
+
+precision highp float;
+
+// The texture the sprites in the current batch are cut out of
+uniform sampler2D uTexture;
+
+// The texture coordinates and tint of the fragment, from the vertex shader
+in vec2 vUv;
+in vec4 vColor;
+
+// The output colour of the fragment shader that will be rendered to the screen
+out vec4 fragColour;
+
+void main() {
+  // Multiplying by the tint means white leaves the texture as it is
+  fragColour = texture(uTexture, vUv) * vColor;
+}
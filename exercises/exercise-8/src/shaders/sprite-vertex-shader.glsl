@@ -0,0 +1,28 @@
+#version 300 es
+
+// The view-projection matrix, which maps world coordinates to clip-space
+// coordinates
+uniform mat4 uViewProjectionMatrix;
+
+// The position of the sprite's corner, in world coordinates. The sprite batch
+// has already moved, rotated and scaled it, so there's no model matrix.
+in vec2 aPosition;
+
+// The texture coordinates of the corner
+in vec2 aUv;
+
+// The sprite's tint. It's stored as bytes, but WebGL converts them to the 0 to
+// 1 range for us.
+in vec4 aColor;
+
+// Passed on to the fragment shader
+out vec2 vUv;
+out vec4 vColor;
+
+void main() {
+  vUv = aUv;
+  vColor = aColor;
+
+  // Sprites are flat, so they all sit at z = 0
+  gl_Position = uViewProjectionMatrix * vec4(aPosition, 0.0, 1.0);
+}
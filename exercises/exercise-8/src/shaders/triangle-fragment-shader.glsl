@@ -2,6 +2,8 @@
 
 precision highp float;
 
+#include "common/noise.glsl"
+
 // Input variables that defines which texture samplers to use
 uniform sampler2D uTexture;
 uniform sampler2D uNoiseTexture;
@@ -9,6 +11,10 @@ uniform sampler2D uNoiseTexture;
 // The current time, used for animating the noise texture
 uniform float uTime;
 
+// A colour to multiply the triangle by. White leaves it as it is; the triangle
+// is tinted when it's been clicked on.
+uniform vec3 uTint;
+
 // The texture coordinate of the fragment being processed, passed from the vertex shader.
 // The GPU will interpolate this value across the surface of the triangle
 // automatically for us.
@@ -21,16 +27,15 @@ void main() {
   // Sample the colour texture
   vec3 colour = texture(uTexture, vUv.xy).rgb;
 
+#ifdef USE_NOISE
   // Sample the noise texture, animating its position over time
-  vec2 noiseTexCoordOffset = vec2(uTime * 0.025);
-  float noiseTextCoordScale = 0.5;
-  float noise = texture(
-    uNoiseTexture,
-    vUv.xy * noiseTextCoordScale + noiseTexCoordOffset
-  ).r;
+  float noise = sampleScrollingNoise(uNoiseTexture, vUv.xy, uTime, 0.5, 0.025);
 
   // Make the noise more intense by adding to it and raising it to a power
   noise = pow(noise + 0.46, 8.0);
 
-  fragColour = vec4(colour * noise, 1.0);
+  colour *= noise;
+#endif
+
+  fragColour = vec4(colour * uTint, 1.0);
 }
@@ -13,10 +13,22 @@ in vec2 aUv;
 // The texture coordinates of the vertex, output to the fragment shader
 out vec2 vUv;
 
+#ifdef PICKING
+// Which instance is being drawn, output to the picking fragment shader. This
+// triangle isn't instanced, so it's always 0, but the same shader code works
+// for instanced meshes too.
+flat out uint vInstanceId;
+#endif
+
 void main() {
   // Pass the texture coordinates to the fragment shader
   vUv = aUv;
 
+#ifdef PICKING
+  // gl_InstanceID is built in, and counts up from 0 for each instance drawn
+  vInstanceId = uint(gl_InstanceID);
+#endif
+
   // Output the vertex position multiplied by uViewProjectionMatrix
   // gl_Position is a built-in variable that holds the final output position
   gl_Position = uViewProjectionMatrix * vec4(aPosition, 1.0);
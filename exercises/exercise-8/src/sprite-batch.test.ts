@@ -0,0 +1,160 @@
+import { mat4 } from 'gl-matrix';
+import { describe, expect, it } from 'vitest';
+
+import { RenderCamera } from './camera';
+import { SpriteBatch } from './sprite-batch';
+import { Texture } from './texture';
+
+/**
+ * The values of the WebGL constants the batch and its program look at.
+ */
+const CONSTANTS = {
+  TRIANGLES: 0x0004,
+  UNSIGNED_SHORT: 0x1403,
+  FLOAT: 0x1406,
+  FLOAT_MAT4: 0x8b5c,
+  SAMPLER_2D: 0x8b5e,
+  COMPILE_STATUS: 0x8b81,
+  LINK_STATUS: 0x8b82,
+  ACTIVE_UNIFORMS: 0x8b86,
+  ACTIVE_ATTRIBUTES: 0x8b89,
+};
+
+/**
+ * The uniforms the sprite shaders use, as the program reads them back.
+ */
+const UNIFORMS = [
+  { name: 'uViewProjectionMatrix', type: CONSTANTS.FLOAT_MAT4, size: 1 },
+  { name: 'uTexture', type: CONSTANTS.SAMPLER_2D, size: 1 },
+];
+
+/**
+ * Creates a stand-in for a WebGL context which records the number of indices
+ * in each draw call in `draws`.
+ *
+ * Only the methods whose results matter are written out. Any other method
+ * does nothing and returns an empty object, which is enough for `create*`
+ * calls and for `getShaderParameter` to report that compiling worked.
+ */
+function createContext() {
+  const draws: number[] = [];
+  const methods = {
+    ...CONSTANTS,
+    isContextLost: () => false,
+    getProgramParameter: (_program: WebGLProgram, parameter: number) => {
+      switch (parameter) {
+        case CONSTANTS.LINK_STATUS:
+          return true;
+        case CONSTANTS.ACTIVE_UNIFORMS:
+          return UNIFORMS.length;
+        default:
+          return 0;
+      }
+    },
+    getActiveUniform: (_program: WebGLProgram, index: number) =>
+      UNIFORMS[index],
+    drawElements: (_mode: number, count: number) => {
+      draws.push(count);
+    },
+  };
+  const gl = new Proxy(methods, {
+    get: (target, name) =>
+      name in target
+        ? target[name as keyof typeof target]
+        : // Constants nothing here checks are left undefined
+          typeof name === 'string' && /^[A-Z0-9_]+$/.test(name)
+          ? undefined
+          : () => ({}),
+  }) as unknown as WebGL2RenderingContext;
+
+  return { gl, draws };
+}
+
+/**
+ * Creates a texture that can be bound but has nothing in it.
+ */
+function createTexture() {
+  return { bind: () => {} } as unknown as Texture;
+}
+
+const camera: RenderCamera = { getViewProjectionMatrix: () => mat4.create() };
+
+const sprite = { position: [0, 0], size: [1, 1] } as const;
+
+describe('SpriteBatch', () => {
+  it('draws sprites with the same texture in one call', () => {
+    const { gl, draws } = createContext();
+    const batch = new SpriteBatch(gl);
+    const texture = createTexture();
+
+    batch.begin(camera);
+    batch.draw(texture, sprite);
+    batch.draw(texture, sprite);
+    batch.draw(texture, sprite);
+    batch.end();
+
+    // Two triangles, so six indices, for each sprite
+    expect(draws).toEqual([18]);
+    expect(batch.stats).toEqual({ sprites: 3, drawCalls: 1 });
+  });
+
+  it('starts a new draw call when the texture changes', () => {
+    const { gl, draws } = createContext();
+    const batch = new SpriteBatch(gl);
+    const first = createTexture();
+    const second = createTexture();
+
+    batch.begin(camera);
+    batch.draw(first, sprite);
+    batch.draw(first, sprite);
+    batch.draw(second, sprite);
+    batch.end();
+
+    expect(draws).toEqual([12, 6]);
+    expect(batch.stats).toEqual({ sprites: 3, drawCalls: 2 });
+  });
+
+  it('starts a new draw call when the batch is full', () => {
+    const { gl, draws } = createContext();
+    const batch = new SpriteBatch(gl, { capacity: 4 });
+    const texture = createTexture();
+
+    batch.begin(camera);
+    for (let i = 0; i < batch.capacity + 1; i++) {
+      batch.draw(texture, sprite);
+    }
+    batch.end();
+
+    expect(draws).toEqual([24, 6]);
+    expect(batch.stats).toEqual({ sprites: 5, drawCalls: 2 });
+  });
+
+  it("doesn't draw anything for an empty batch", () => {
+    const { gl, draws } = createContext();
+    const batch = new SpriteBatch(gl);
+
+    batch.begin(camera);
+    batch.end();
+
+    expect(draws).toEqual([]);
+  });
+
+  it('must be begun before drawing, and only once', () => {
+    const { gl } = createContext();
+    const batch = new SpriteBatch(gl);
+
+    expect(() => batch.draw(createTexture(), sprite)).toThrow(
+      'called without begin()'
+    );
+    batch.begin(camera);
+    expect(() => batch.begin(camera)).toThrow('called twice without end()');
+  });
+
+  it('rejects a capacity too big for 16-bit indices', () => {
+    const { gl } = createContext();
+
+    expect(() => new SpriteBatch(gl, { capacity: 16385 })).toThrow(
+      'must be a whole number from 1 to 16384'
+    );
+  });
+});
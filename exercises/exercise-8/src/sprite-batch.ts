@@ -0,0 +1,501 @@
+import { ReadonlyVec2, ReadonlyVec4 } from 'gl-matrix';
+
+import { RenderCamera } from './camera';
+import { Program } from './program';
+import { RenderState, RenderStateCache } from './render-state';
+import { ResourceRegistry } from './resource-registry';
+import { ResourceTracker } from './resource-tracker';
+import { Texture } from './texture';
+import { VertexLayout } from './vertex-layout';
+
+import vertexShaderSource from './shaders/sprite-vertex-shader.glsl?raw';
+import fragmentShaderSource from './shaders/sprite-fragment-shader.glsl?raw';
+
+/**
+ * A textured rectangle to draw with a {@link SpriteBatch}.
+ */
+export interface Sprite {
+  /** Where the sprite's origin is, in world coordinates. */
+  position: ReadonlyVec2;
+  /** The width and height of the sprite, in world units. */
+  size: ReadonlyVec2;
+  /**
+   * How far the sprite is rotated around its origin, in radians, anticlockwise.
+   * Default is 0.
+   */
+  rotation?: number;
+  /**
+   * Which part of the texture to draw, as `[x, y, width, height]` in texture
+   * coordinates (0 to 1), from the bottom-left corner of the image. This lets
+   * lots of sprites share one texture (a *sprite sheet* or *atlas*), so they
+   * can all be drawn together. Default is the whole texture, `[0, 0, 1, 1]`.
+   */
+  uvRect?: ReadonlyVec4;
+  /**
+   * A colour to multiply the texture by, as `[r, g, b, a]` from 0 to 1. Default
+   * is white, which leaves the texture as it is. The alpha can be used to fade
+   * the sprite out.
+   */
+  tint?: ReadonlyVec4;
+  /**
+   * The point the sprite is positioned and rotated around, as a fraction of its
+   * size: `[0, 0]` is the bottom-left corner and `[1, 1]` is the top-right.
+   * Default is the centre, `[0.5, 0.5]`.
+   */
+  origin?: ReadonlyVec2;
+}
+
+/**
+ * Optional configuration for a {@link SpriteBatch}.
+ */
+export interface SpriteBatchOptions {
+  /**
+   * How many sprites can be drawn in one draw call. If more sprites than this
+   * use the same texture, they're split into several draw calls. Default is
+   * {@link DEFAULT_CAPACITY}; the most is {@link MAX_CAPACITY}.
+   */
+  capacity?: number;
+  /**
+   * How the sprites are drawn. Anything that's left out uses its value from
+   * {@link DEFAULT_RENDER_STATE}. Default is {@link DEFAULT_SPRITE_RENDER_STATE}.
+   */
+  renderState?: RenderState;
+}
+
+/**
+ * How much work drawing the sprites took, between one {@link SpriteBatch.begin}
+ * and {@link SpriteBatch.end}.
+ */
+export interface SpriteBatchStats {
+  /** How many sprites were drawn. */
+  sprites: number;
+  /**
+   * How many draw calls the sprites took. This goes up by one each time the
+   * texture changes, so drawing sprites grouped by texture keeps it low.
+   */
+  drawCalls: number;
+}
+
+/**
+ * The default number of sprites in one draw call.
+ */
+const DEFAULT_CAPACITY = 2000;
+
+/**
+ * The most sprites that can be drawn in one draw call. Each sprite has 4
+ * vertices, and we use 16-bit indices, which can refer to at most 65536
+ * vertices.
+ */
+const MAX_CAPACITY = (0xffff + 1) / 4;
+
+/**
+ * How sprites are drawn by default. Sprites usually have transparent edges, so
+ * they're blended with what's behind them, and they're drawn in the order
+ * they're given rather than being sorted by depth.
+ */
+export const DEFAULT_SPRITE_RENDER_STATE: Readonly<RenderState> = {
+  depthTest: false,
+  depthWrite: false,
+  blend: 'alpha',
+};
+
+/**
+ * The attributes of each sprite vertex. The colour is stored as 4 bytes rather
+ * than 4 floats, which makes each vertex 20 bytes instead of 32.
+ */
+const SPRITE_LAYOUT = new VertexLayout([
+  { name: 'aPosition', components: 2 },
+  { name: 'aUv', components: 2 },
+  { name: 'aColor', components: 4, type: 'unsigned-byte', normalized: true },
+]);
+
+/**
+ * How many floats there are in each vertex, counting the colour bytes as one.
+ */
+const FLOATS_PER_VERTEX = SPRITE_LAYOUT.stride / 4;
+
+/**
+ * Where the colour starts in each vertex, in bytes.
+ */
+const COLOR_OFFSET = SPRITE_LAYOUT.attributes[2].offset;
+
+/**
+ * The texture coordinates used when a sprite doesn't have a `uvRect`.
+ */
+const FULL_UV_RECT: ReadonlyVec4 = [0, 0, 1, 1];
+
+/**
+ * The tint used when a sprite doesn't have one.
+ */
+const WHITE: ReadonlyVec4 = [1, 1, 1, 1];
+
+/**
+ * The origin used when a sprite doesn't have one.
+ */
+const CENTRE: ReadonlyVec2 = [0.5, 0.5];
+
+/**
+ * Draws lots of 2D sprites (textured rectangles) using as few draw calls as
+ * possible.
+ *
+ * Drawing each sprite as its own {@link Mesh} would mean one draw call per
+ * sprite, and each draw call has a cost on the CPU, however small the mesh.
+ * A few hundred are fine, but a few thousand sprites would slow everything
+ * down. Instead, the batch works out the corners of each sprite on the CPU and
+ * collects them all into one big vertex buffer, which is drawn in one go.
+ *
+ * The catch is that a draw call can only use one texture, so the batch has to
+ * *flush* (draw what it has so far and start again) whenever the texture
+ * changes. It also flushes when the buffer is full. To keep the number of draw
+ * calls down, draw sprites that share a texture one after another, or better
+ * still, put them all in one texture and pick them out with
+ * {@link Sprite.uvRect}.
+ *
+ * Example usage:
+ * ```typescript
+ * const batch = new SpriteBatch(gl);
+ *
+ * // Every frame:
+ * batch.begin(camera);
+ * for (const enemy of enemies) {
+ *   batch.draw(enemyTexture, { position: enemy.position, size: [1, 1] });
+ * }
+ * batch.draw(playerTexture, { position, size: [1, 2], rotation: Math.PI / 4 });
+ * batch.end();
+ * ```
+ */
+export class SpriteBatch {
+  /** How many sprites can be drawn in one draw call. */
+  readonly capacity: number;
+
+  /** How the sprites are drawn. This can be changed between batches. */
+  renderState: RenderState;
+
+  /** The program the sprites are drawn with. */
+  private program: Program;
+
+  /**
+   * The vertices of the sprites in the current batch, kept on the CPU side
+   * until the batch is flushed. Each sprite has 4 vertices, one for each
+   * corner.
+   */
+  private vertexData: ArrayBuffer;
+
+  /**
+   * {@link vertexData} as floats, for writing positions and texture
+   * coordinates.
+   */
+  private floats: Float32Array;
+
+  /**
+   * {@link vertexData} as bytes, for writing colours. Assigning to a clamped
+   * array rounds the value and keeps it between 0 and 255, so a tint can be
+   * written as `tint * 255`.
+   */
+  private bytes: Uint8ClampedArray;
+
+  /** The vertex buffer, which is filled from {@link vertexData} each flush. */
+  private vertexBuffer: WebGLBuffer;
+
+  /**
+   * The index buffer. The corners of each sprite are always in the same order,
+   * so the indices never change: they're created once for the whole capacity.
+   */
+  private indexBuffer: WebGLBuffer;
+
+  /**
+   * The VAO for drawing the sprites. There's only ever one program and one
+   * vertex buffer, so only one VAO is needed.
+   */
+  private vertexArray: WebGLVertexArrayObject;
+
+  /** How many sprites are waiting in {@link vertexData}. */
+  private count = 0;
+
+  /** The texture of the sprites in {@link vertexData}. */
+  private texture: Texture | null = null;
+
+  /**
+   * The camera the sprites are being drawn with, which is only set between
+   * {@link begin} and {@link end}.
+   */
+  private camera: RenderCamera | null = null;
+
+  /** See {@link stats}. */
+  private _stats: SpriteBatchStats = { sprites: 0, drawCalls: 0 };
+
+  /**
+   * The render state cache for this context, which keeps track of what's
+   * bound so that nothing is bound twice.
+   */
+  private stateCache: RenderStateCache;
+
+  /**
+   * Creates a new sprite batch, with its own program and buffers.
+   *
+   * @param gl The WebGL rendering context.
+   * @param options Optional configuration for the batch.
+   */
+  constructor(
+    private gl: WebGL2RenderingContext,
+    options: SpriteBatchOptions = {}
+  ) {
+    this.capacity = options.capacity ?? DEFAULT_CAPACITY;
+    if (
+      !Number.isInteger(this.capacity) ||
+      this.capacity < 1 ||
+      this.capacity > MAX_CAPACITY
+    ) {
+      throw new Error(
+        `Sprite batch capacity must be a whole number from 1 to ` +
+          `${MAX_CAPACITY}, but was ${this.capacity}`
+      );
+    }
+    this.renderState = options.renderState ?? DEFAULT_SPRITE_RENDER_STATE;
+    this.stateCache = RenderStateCache.forContext(gl);
+
+    this.program = new Program(gl, vertexShaderSource, fragmentShaderSource);
+
+    this.vertexData = new ArrayBuffer(this.capacity * 4 * SPRITE_LAYOUT.stride);
+    this.floats = new Float32Array(this.vertexData);
+    this.bytes = new Uint8ClampedArray(this.vertexData);
+
+    [this.vertexBuffer, this.indexBuffer, this.vertexArray] =
+      this.createBuffers();
+
+    // Make sure we're recreated if the context is lost. The program registered
+    // itself first, so it's rebuilt before we set up the VAO for it again.
+    ResourceRegistry.forContext(gl).register(this);
+  }
+
+  /**
+   * How much work the sprites took between the last {@link begin} and
+   * {@link end}. While a batch is in progress, this counts the sprites so far.
+   */
+  get stats(): Readonly<SpriteBatchStats> {
+    return this._stats;
+  }
+
+  /**
+   * Starts drawing sprites. Call this once a frame, before {@link draw}.
+   *
+   * @param camera The camera to draw the sprites with.
+   */
+  begin(camera: RenderCamera): void {
+    if (this.camera) {
+      throw new Error('SpriteBatch.begin() called twice without end()');
+    }
+    this.camera = camera;
+    this._stats = { sprites: 0, drawCalls: 0 };
+  }
+
+  /**
+   * Adds a sprite to the batch. It isn't drawn straight away, but when the
+   * batch is next flushed: when the texture changes, when the batch is full or
+   * when {@link end} is called.
+   *
+   * @param texture The texture to draw the sprite with.
+   * @param sprite Where and how to draw the sprite.
+   */
+  draw(texture: Texture, sprite: Sprite): void {
+    if (!this.camera) {
+      throw new Error('SpriteBatch.draw() called without begin()');
+    }
+
+    // A draw call can only use one texture, so draw everything so far before
+    // switching to a different one
+    if (texture !== this.texture || this.count === this.capacity) {
+      this.flush();
+      this.texture = texture;
+    }
+
+    const [x, y] = sprite.position;
+    const [width, height] = sprite.size;
+    const [originX, originY] = sprite.origin ?? CENTRE;
+    const [u, v, uvWidth, uvHeight] = sprite.uvRect ?? FULL_UV_RECT;
+    const tint = sprite.tint ?? WHITE;
+    const rotation = sprite.rotation ?? 0;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+
+    // The edges of the sprite, relative to its origin
+    const left = -originX * width;
+    const right = left + width;
+    const bottom = -originY * height;
+    const top = bottom + height;
+
+    // The corners go anticlockwise from the bottom-left, which is the order
+    // the indices expect
+    const corners = [
+      [left, bottom, u, v],
+      [right, bottom, u + uvWidth, v],
+      [right, top, u + uvWidth, v + uvHeight],
+      [left, top, u, v + uvHeight],
+    ];
+
+    let vertex = this.count * 4;
+    for (const [cornerX, cornerY, cornerU, cornerV] of corners) {
+      // Rotate the corner around the origin, then move it into place
+      const offset = vertex * FLOATS_PER_VERTEX;
+      this.floats[offset] = x + cornerX * cos - cornerY * sin;
+      this.floats[offset + 1] = y + cornerX * sin + cornerY * cos;
+      this.floats[offset + 2] = cornerU;
+      this.floats[offset + 3] = cornerV;
+
+      const colorOffset = vertex * SPRITE_LAYOUT.stride + COLOR_OFFSET;
+      for (let i = 0; i < 4; i++) {
+        this.bytes[colorOffset + i] = tint[i] * 255;
+      }
+      vertex++;
+    }
+
+    this.count++;
+    this._stats.sprites++;
+  }
+
+  /**
+   * Draws any sprites that are still waiting, and finishes the batch. Call this
+   * once all of the frame's sprites have been drawn.
+   */
+  end(): void {
+    if (!this.camera) {
+      throw new Error('SpriteBatch.end() called without begin()');
+    }
+    this.flush();
+    this.camera = null;
+    this.texture = null;
+  }
+
+  /**
+   * Creates the batch's buffers and VAO again, after the WebGL context was lost
+   * and restored. There's nothing to upload, as the vertices are sent afresh
+   * every flush.
+   */
+  restore(): void {
+    [this.vertexBuffer, this.indexBuffer, this.vertexArray] =
+      this.createBuffers();
+  }
+
+  /**
+   * Deletes the batch's program, buffers and VAO from the GPU. Call this when
+   * you're done with the batch; it can't be used afterwards. The textures
+   * belong to whoever created them, so they aren't deleted.
+   */
+  dispose(): void {
+    const tracker = ResourceTracker.forContext(this.gl);
+    this.gl.deleteVertexArray(this.vertexArray);
+    tracker.untrack(this.vertexArray);
+    this.gl.deleteBuffer(this.vertexBuffer);
+    tracker.untrack(this.vertexBuffer);
+    this.gl.deleteBuffer(this.indexBuffer);
+    tracker.untrack(this.indexBuffer);
+
+    this.program.dispose();
+    ResourceRegistry.forContext(this.gl).unregister(this);
+  }
+
+  /**
+   * Draws the sprites that are waiting, in one draw call, and empties the
+   * batch.
+   */
+  private flush(): void {
+    if (this.count === 0 || !this.texture || !this.camera) {
+      return;
+    }
+
+    // Upload the sprites. The GPU might still be drawing the last batch from
+    // this buffer, so we orphan it first (see Mesh.setVertices) rather than
+    // making WebGL wait for it to finish.
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.vertexBuffer);
+    this.gl.bufferData(
+      this.gl.ARRAY_BUFFER,
+      this.vertexData.byteLength,
+      this.gl.STREAM_DRAW
+    );
+    this.gl.bufferSubData(
+      this.gl.ARRAY_BUFFER,
+      0,
+      this.bytes,
+      0,
+      this.count * 4 * SPRITE_LAYOUT.stride
+    );
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+
+    this.stateCache.apply(this.renderState);
+    this.program.setUniform(
+      'uViewProjectionMatrix',
+      this.camera.getViewProjectionMatrix()
+    );
+    this.texture.bind(0);
+    this.program.setUniform('uTexture', 0);
+    this.program.use();
+    this.stateCache.bindVertexArray(this.vertexArray);
+
+    // Each sprite is two triangles, so six indices
+    this.gl.drawElements(
+      this.gl.TRIANGLES,
+      this.count * 6,
+      this.gl.UNSIGNED_SHORT,
+      0
+    );
+
+    this._stats.drawCalls++;
+    this.count = 0;
+  }
+
+  /**
+   * Creates the vertex buffer, the index buffer and the VAO that reads from
+   * them.
+   *
+   * @returns The vertex buffer, index buffer and VAO.
+   */
+  private createBuffers(): [WebGLBuffer, WebGLBuffer, WebGLVertexArrayObject] {
+    const tracker = ResourceTracker.forContext(this.gl);
+
+    const vertexBuffer = this.gl.createBuffer();
+    const indexBuffer = this.gl.createBuffer();
+    const vertexArray = this.gl.createVertexArray();
+    if (!vertexBuffer || !indexBuffer || !vertexArray) {
+      throw new Error('Failed to create sprite batch buffers');
+    }
+
+    // The vertex buffer starts out empty, at its full size
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, vertexBuffer);
+    this.gl.bufferData(
+      this.gl.ARRAY_BUFFER,
+      this.vertexData.byteLength,
+      this.gl.STREAM_DRAW
+    );
+    tracker.track(
+      vertexBuffer,
+      'buffer',
+      'Sprite vertices',
+      this.vertexData.byteLength
+    );
+
+    // Record the attributes and the index buffer into the VAO
+    this.stateCache.bindVertexArray(vertexArray);
+    SPRITE_LAYOUT.bindAttributes(this.gl, this.program);
+    this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+    tracker.track(vertexArray, 'vertexArray', 'Sprite vertex array');
+
+    // Every sprite is the same two triangles, made from its four corners
+    const indices = new Uint16Array(this.capacity * 6);
+    for (let i = 0; i < this.capacity; i++) {
+      const corner = i * 4;
+      indices.set(
+        [corner, corner + 1, corner + 2, corner + 2, corner + 3, corner],
+        i * 6
+      );
+    }
+    this.gl.bufferData(
+      this.gl.ELEMENT_ARRAY_BUFFER,
+      indices,
+      this.gl.STATIC_DRAW
+    );
+    tracker.track(indexBuffer, 'buffer', 'Sprite indices', indices.byteLength);
+
+    return [vertexBuffer, indexBuffer, vertexArray];
+  }
+}
@@ -1,6 +1,11 @@
-interface TextureOptions {
+import { RenderStateCache } from './render-state';
+import { ResourceRegistry } from './resource-registry';
+import { ResourceTracker } from './resource-tracker';
+
+export interface TextureOptions {
   /**
-   * Filtering method when texture is minified (shrunk). Default is LINEAR_MIPMAP_LINEAR.
+   * Filtering method when texture is minified (shrunk). Default is
+   * LINEAR_MIPMAP_LINEAR, or LINEAR for empty textures.
    */
   minFilter?: number;
   /**
@@ -15,6 +20,33 @@ interface TextureOptions {
    * Wrapping method for the V coordinate. Default is CLAMP_TO_EDGE.
    */
   wrapV?: number;
+  /**
+   * How the GPU stores each pixel, e.g. `gl.RGBA16F` for floating point
+   * colours that can go above 1. Default is RGBA8 (one byte each for red,
+   * green, blue and alpha).
+   */
+  internalFormat?: number;
+  /**
+   * The format of the pixel data we provide. This has to go with
+   * `internalFormat`; see the table in the WebGL 2 specification for which
+   * combinations are allowed. Default is RGBA.
+   */
+  format?: number;
+  /**
+   * The data type of the pixel data we provide. Like `format`, this has to go
+   * with `internalFormat`. Default is UNSIGNED_BYTE.
+   */
+  type?: number;
+  /**
+   * The width of a texture that doesn't have an image, in pixels. Ignored if
+   * there is an image, since the texture is then the same size as it.
+   */
+  width?: number;
+  /**
+   * The height of a texture that doesn't have an image, in pixels. Ignored if
+   * there is an image.
+   */
+  height?: number;
 }
 
 /**
@@ -34,53 +66,182 @@ interface TextureOptions {
  * with methods to load images and bind textures for rendering.
  */
 export class Texture {
-  /** The WebGL texture object that this class wraps. */
-  private texture: WebGLTexture;
+  /**
+   * The WebGL texture object that this class wraps. This is needed to attach
+   * the texture to a framebuffer (see {@link RenderTarget}). It changes if the
+   * context is lost and restored.
+   */
+  public texture: WebGLTexture;
+
+  /** The width of the texture, in pixels. */
+  private _width: number;
+
+  /** The height of the texture, in pixels. */
+  private _height: number;
+
+  /**
+   * The render state cache for this context, which keeps track of what's
+   * bound so that nothing is bound twice.
+   */
+  private stateCache: RenderStateCache;
 
   /**
    * Creates a new Texture instance.
    *
+   * The image and options are kept, so that the texture can be created again
+   * if the WebGL context is lost (see {@link ResourceRegistry}).
+   *
    * @param gl The WebGL rendering context.
    * @param image The image to use as the texture. This can be an
-   * HTMLImageElement, HTMLCanvasElement, or similar source.
+   * HTMLImageElement, HTMLCanvasElement, or similar source. If it's `null`,
+   * the texture is left empty (see {@link Texture.createEmpty}), and
+   * `options.width` and `options.height` say how big it is.
    * @param options Optional configuration for the texture.
    */
   constructor(
     private gl: WebGL2RenderingContext,
-    image: TexImageSource,
-    options: TextureOptions = {}
+    private image: TexImageSource | null,
+    private options: TextureOptions = {}
   ) {
+    this.stateCache = RenderStateCache.forContext(gl);
+
+    if (image) {
+      [this._width, this._height] = getImageSize(image);
+    } else {
+      if (options.width === undefined || options.height === undefined) {
+        throw new Error('A texture without an image needs a width and height');
+      }
+      this._width = options.width;
+      this._height = options.height;
+    }
+
+    this.texture = this.create();
+
+    // Make sure we're recreated if the context is lost
+    ResourceRegistry.forContext(gl).register(this);
+  }
+
+  /**
+   * Creates an empty texture, with nothing in it yet. This is mostly useful
+   * for drawing into with a {@link RenderTarget}, and then using what was
+   * drawn as a texture in a later pass.
+   *
+   * Unlike textures made from images, empty textures don't have mipmaps (we'd
+   * need to regenerate them every time something was drawn), so their default
+   * `minFilter` is LINEAR.
+   *
+   * @param gl The WebGL rendering context.
+   * @param width The width of the texture, in pixels.
+   * @param height The height of the texture, in pixels.
+   * @param options Optional configuration for the texture.
+   * @returns The new texture.
+   */
+  static createEmpty(
+    gl: WebGL2RenderingContext,
+    width: number,
+    height: number,
+    options: TextureOptions = {}
+  ): Texture {
+    return new Texture(gl, null, { ...options, width, height });
+  }
+
+  /**
+   * The width of the texture, in pixels.
+   */
+  get width(): number {
+    return this._width;
+  }
+
+  /**
+   * The height of the texture, in pixels.
+   */
+  get height(): number {
+    return this._height;
+  }
+
+  /**
+   * Changes the size of an empty texture. Whatever was in it is thrown away.
+   *
+   * The WebGL texture object stays the same, so any framebuffer it's attached
+   * to will carry on using it without needing to be told.
+   *
+   * @param width The new width, in pixels.
+   * @param height The new height, in pixels.
+   */
+  resize(width: number, height: number): void {
+    if (this.image) {
+      throw new Error('Only textures without an image can be resized');
+    }
+    if (width === this._width && height === this._height) {
+      return;
+    }
+
+    this._width = width;
+    this._height = height;
+
+    this.bind(0);
+    this.allocate();
+
+    ResourceTracker.forContext(this.gl).setBytes(
+      this.texture,
+      this.getByteSize()
+    );
+  }
+
+  /**
+   * Creates the texture again, after the WebGL context was lost and restored.
+   */
+  restore(): void {
+    this.texture = this.create();
+  }
+
+  /**
+   * Creates the WebGL texture object and uploads the image to it.
+   *
+   * @returns The new texture object.
+   */
+  private create(): WebGLTexture {
+    const options = this.options;
+
     // Create a new texture object
     const texture = this.gl.createTexture();
     if (!texture) {
       throw new Error('Failed to create texture');
     }
-    this.texture = texture;
 
-    // Bind the texture to work with it
-    this.gl.bindTexture(this.gl.TEXTURE_2D, this.texture);
+    // Bind the texture to work with it. Any texture unit would do; we always
+    // use unit 0.
+    this.stateCache.bindTexture(0, texture);
 
-    // WebGL has a lot of quirks. One of them is that it expects image data to
-    // be provided from the bottom row of pixels first, while images are usually
-    // provided from the top row first. This line tells the browser to flip the
-    // image vertically when copying it to the GPU, so it displays correctly.
-    this.gl.pixelStorei(this.gl.UNPACK_FLIP_Y_WEBGL, true);
+    if (this.image) {
+      // WebGL has a lot of quirks. One of them is that it expects image data
+      // to be provided from the bottom row of pixels first, while images are
+      // usually provided from the top row first. This line tells the browser
+      // to flip the image vertically when copying it to the GPU, so it
+      // displays correctly.
+      this.gl.pixelStorei(this.gl.UNPACK_FLIP_Y_WEBGL, true);
 
-    // Copy the image data into the GPU
-    this.gl.texImage2D(
-      this.gl.TEXTURE_2D, // target: The type of texture we're working with
-      0, // level: Mipmap level (0 is base level)
-      this.gl.RGBA, // internalFormat: How WebGL should store the data
-      this.gl.RGBA, // format: Format of the data we're providing
-      this.gl.UNSIGNED_BYTE, // type: Data type of the pixel data
-      image // source: The image data
-    );
+      // Copy the image data into the GPU
+      this.gl.texImage2D(
+        this.gl.TEXTURE_2D, // target: The type of texture we're working with
+        0, // level: Mipmap level (0 is base level)
+        options.internalFormat ?? this.gl.RGBA8, // internalFormat: How WebGL should store the data
+        options.format ?? this.gl.RGBA, // format: Format of the data we're providing
+        options.type ?? this.gl.UNSIGNED_BYTE, // type: Data type of the pixel data
+        this.image // source: The image data
+      );
+    } else {
+      // Just make space for the pixels, without filling them in
+      this.allocate();
+    }
 
-    // Set texture parameters with defaults
+    // Set texture parameters with defaults. Empty textures have no mipmaps,
+    // so they can't use a mipmap filter.
     this.gl.texParameteri(
       this.gl.TEXTURE_2D,
       this.gl.TEXTURE_MIN_FILTER,
-      options.minFilter ?? this.gl.LINEAR_MIPMAP_LINEAR
+      options.minFilter ??
+        (this.image ? this.gl.LINEAR_MIPMAP_LINEAR : this.gl.LINEAR)
     );
     this.gl.texParameteri(
       this.gl.TEXTURE_2D,
@@ -98,12 +259,53 @@ export class Texture {
       options.wrapV ?? this.gl.CLAMP_TO_EDGE
     );
 
-    // Generate mipmaps (smaller versions of the texture for when it's viewed
-    // from far away)
-    this.gl.generateMipmap(this.gl.TEXTURE_2D);
+    if (this.image) {
+      // Generate mipmaps (smaller versions of the texture for when it's viewed
+      // from far away)
+      this.gl.generateMipmap(this.gl.TEXTURE_2D);
+    }
 
-    // Unbind the texture to avoid accidental modifications later
-    this.gl.bindTexture(this.gl.TEXTURE_2D, null);
+    ResourceTracker.forContext(this.gl).track(
+      texture,
+      'texture',
+      'Texture',
+      this.getByteSize()
+    );
+
+    return texture;
+  }
+
+  /**
+   * Makes space on the GPU for an empty texture at its current size. The
+   * texture must already be bound.
+   */
+  private allocate(): void {
+    this.gl.texImage2D(
+      this.gl.TEXTURE_2D,
+      0,
+      this.options.internalFormat ?? this.gl.RGBA8,
+      this._width,
+      this._height,
+      0, // border: Must always be 0
+      this.options.format ?? this.gl.RGBA,
+      this.options.type ?? this.gl.UNSIGNED_BYTE,
+      null // No pixel data, so the texture starts out empty
+    );
+  }
+
+  /**
+   * Works out roughly how much GPU memory the texture uses, for the
+   * {@link ResourceTracker}.
+   */
+  private getByteSize(): number {
+    const bytes =
+      this._width *
+      this._height *
+      getBytesPerPixel(this.gl, this.options.internalFormat ?? this.gl.RGBA8);
+
+    // The mipmaps are each a quarter of the size of the one before, which
+    // adds up to another third on top.
+    return Math.round(this.image ? (bytes * 4) / 3 : bytes);
   }
 
   /**
@@ -142,23 +344,6 @@ export class Texture {
     return new Texture(gl, image, options);
   }
 
-  /**
-   * Unbinds all textures from all texture units. This should be called when you are
-   * done rendering to avoid accidentally modifying textures.
-   *
-   * @param gl The WebGL rendering context.
-   * @param maxTextureUnit The highest texture unit that was used in rendering. All
-   * texture units up to this one (inclusive) will be unbound.
-   */
-  static unbindAll(gl: WebGL2RenderingContext, maxTextureUnit: number): void {
-    // It's important to start from the max texture unit and work our way down,
-    // so that we finish with texture unit 0 as the active texture unit.
-    for (let i = maxTextureUnit; i >= 0; i--) {
-      gl.activeTexture(gl.TEXTURE0 + i);
-      gl.bindTexture(gl.TEXTURE_2D, null);
-    }
-  }
-
   /**
    * Binds this texture to a specific texture unit for use in a shader.
    *
@@ -169,21 +354,20 @@ export class Texture {
    * Example usage:
    * ```typescript
    * // In your render code:
-   * program.setUniform1i(uTextureLocation, 0);  // Set the uniform to use texture unit 0
+   * program.setUniform('uTexture', 0);  // Set the uniform to use texture unit 0
    * texture.bind(0);  // Bind to texture unit 0
    *
    * // In your shader:
    * uniform sampler2D uTexture;
    * ```
    *
+   * The texture stays bound until something else is bound to the same unit,
+   * so there's no need to unbind it afterwards.
+   *
    * @param unit The texture unit to bind to (0-31, depending on GPU support).
    */
   bind(unit: number): void {
-    // Activate the desired texture unit
-    this.gl.activeTexture(this.gl.TEXTURE0 + unit);
-
-    // Bind this texture to the active texture unit
-    this.gl.bindTexture(this.gl.TEXTURE_2D, this.texture);
+    this.stateCache.bindTexture(unit, this.texture);
   }
 
   /**
@@ -192,7 +376,56 @@ export class Texture {
    * Call this method when you're done with the texture to free up GPU memory.
    * After calling this, the texture cannot be used again.
    */
-  delete(): void {
+  dispose(): void {
     this.gl.deleteTexture(this.texture);
+    ResourceTracker.forContext(this.gl).untrack(this.texture);
+    ResourceRegistry.forContext(this.gl).unregister(this);
+  }
+}
+
+/**
+ * Gets the size of an image, in pixels. Most kinds of image have `width` and
+ * `height`, but videos and video frames report their size differently.
+ *
+ * @param image The image to get the size of.
+ * @returns The width and height of the image.
+ */
+function getImageSize(image: TexImageSource): [number, number] {
+  if ('videoWidth' in image) {
+    return [image.videoWidth, image.videoHeight];
+  }
+  if ('displayWidth' in image) {
+    return [image.displayWidth, image.displayHeight];
+  }
+  return [image.width, image.height];
+}
+
+/**
+ * Estimates how many bytes each pixel of a texture takes up on the GPU. The
+ * driver is free to pad or compress textures, so this is only a guide.
+ *
+ * @param gl The WebGL rendering context.
+ * @param internalFormat The texture's internal format, e.g. `gl.RGBA8`.
+ * @returns The number of bytes per pixel.
+ */
+function getBytesPerPixel(
+  gl: WebGL2RenderingContext,
+  internalFormat: number
+): number {
+  switch (internalFormat) {
+    case gl.R8:
+      return 1;
+    case gl.RG8:
+    case gl.R16F:
+      return 2;
+    case gl.RGBA16F:
+    case gl.RG32F:
+      return 8;
+    case gl.RGBA32F:
+    case gl.RGBA32UI:
+      return 16;
+    default:
+      // RGBA8, R32F, R32UI, RG16F and most others
+      return 4;
   }
 }
@@ -1,57 +1,80 @@
 import { vec2, vec3 } from 'gl-matrix';
 
-import { Camera } from './camera';
+import { RenderCamera, WorldBounds } from './camera';
+import { Material } from './material';
 import { Mesh } from './mesh';
+import { Pickable } from './picker';
 import { Program } from './program';
+import { RenderQueue } from './render-queue';
+import { RenderState } from './render-state';
 import { Texture } from './texture';
+import { VertexLayout } from './vertex-layout';
 
 import vertexShaderSource from './shaders/triangle-vertex-shader.glsl?raw';
 import fragmentShaderSource from './shaders/triangle-fragment-shader.glsl?raw';
+import pickingFragmentShaderSource from './shaders/picking-fragment-shader.glsl?raw';
 import textureUrl from './assets/test-texture.png?url';
 import noiseTextureUrl from './assets/noise-texture.png?url';
 
+/**
+ * The tint of the triangle when it isn't highlighted. Multiplying by white
+ * leaves the colour as it is.
+ */
+const NO_TINT = vec3.fromValues(1, 1, 1);
+
+/**
+ * The tint of the triangle when it's highlighted (see
+ * {@link TriangleObject.setHighlighted}).
+ */
+const HIGHLIGHT_TINT = vec3.fromValues(1, 1, 0.25);
+
 /**
  * Represents our triangle object, containing all the logic needed to render it.
  */
-export class TriangleObject {
+export class TriangleObject implements Pickable {
+  /**
+   * How the triangle is drawn: depth testing, blending and so on. The default
+   * draws it as an ordinary opaque object.
+   */
+  public renderState: RenderState = {};
+
   /**
    * The mesh that defines the triangle's geometry.
    */
   private mesh: Mesh;
 
   /**
-   * The program that will be used to render the triangle.
+   * The material that will be used to render the triangle: its program, and
+   * the textures it's drawn with.
    */
-  private program: Program;
+  private material: Material;
 
   /**
-   * The texture that will be applied to the triangle, or `null` if it hasn't
-   * loaded yet.
+   * The program used to draw the triangle for picking (see {@link Picker}).
+   * It shares the vertex shader, so the triangle is in exactly the same place,
+   * but writes IDs instead of colours.
    */
-  private texture: Texture | null = null;
+  private pickingProgram: Program;
 
   /**
-   * The additional 'noise' texture that will be applied to the triangle, or
-   * `null` if it hasn't loaded yet.
+   * The textures the triangle loaded. They load in the background, so they're
+   * kept as promises, which lets us dispose of them even if they haven't
+   * finished loading yet.
    */
-  private noiseTexture: Texture | null = null;
-
-  // Uniform variables that we'll use
-  private viewProjectionMatrixUniform: WebGLUniformLocation | null;
-  private timeUniform: WebGLUniformLocation | null;
-  private textureUniform: WebGLUniformLocation | null;
-  private noiseTextureUniform: WebGLUniformLocation | null;
+  private textures: Promise<Texture>[];
 
   /**
    * Creates a new instance of our Triangle, which will render a simple triangle to the
    * screen.
    *
    * @param gl The WebGL rendering context.
-   * @param camera The camera that will be used to view the scene.
+   * @param camera The camera that will be used to view the scene. This can be
+   * any kind of camera: the 2D {@link Camera}, a {@link PerspectiveCamera} or
+   * an {@link OrbitCamera}.
    */
   constructor(
     private gl: WebGL2RenderingContext,
-    private camera: Camera
+    private camera: RenderCamera
   ) {
     // Create a simple triangle mesh that we want to render.
     //
@@ -68,32 +91,33 @@ export class TriangleObject {
     //
     // Each vertex is represented by three numbers: (x, y, z)
     // In this 2D example, z is always 0.
-    this.mesh = new Mesh(this.gl, [
+    //
+    // As well as its position, each vertex has a UV coordinate, which says
+    // which point of the texture should appear at that vertex. The layout
+    // describes these attributes, and their names match the `in` variables of
+    // our vertex shader.
+    const layout = new VertexLayout([
+      { name: 'aPosition', components: 3 },
+      { name: 'aUv', components: 2 },
+    ]);
+
+    this.mesh = new Mesh(this.gl, layout, [
       // Top of the triangle
-      { position: vec3.fromValues(0, 0.5, 0), uv: vec2.fromValues(0.5, 1.0) },
+      { aPosition: vec3.fromValues(0, 0.5, 0), aUv: vec2.fromValues(0.5, 1.0) },
       // Bottom left of the triangle
       {
-        position: vec3.fromValues(-0.5, -0.5, 0),
-        uv: vec2.fromValues(0.0, 0.0),
+        aPosition: vec3.fromValues(-0.5, -0.5, 0),
+        aUv: vec2.fromValues(0.0, 0.0),
       },
       // Bottom right of the triangle
       {
-        position: vec3.fromValues(0.5, -0.5, 0),
-        uv: vec2.fromValues(1.0, 0.0),
+        aPosition: vec3.fromValues(0.5, -0.5, 0),
+        aUv: vec2.fromValues(1.0, 0.0),
       },
     ]);
 
-    // Create a program that we'll use to render the triangle
-    this.program = new Program(gl, vertexShaderSource, fragmentShaderSource);
-    this.viewProjectionMatrixUniform = this.program.getUniformLocation(
-      'uViewProjectionMatrix'
-    );
-    this.timeUniform = this.program.getUniformLocation('uTime');
-    this.textureUniform = this.program.getUniformLocation('uTexture');
-    this.noiseTextureUniform = this.program.getUniformLocation('uNoiseTexture');
-
     // Load the texture for the triangle
-    Texture.fromURL(
+    const texture = Texture.fromURL(
       gl,
       textureUrl,
       // Options to control how the texture is sampled
@@ -102,12 +126,10 @@ export class TriangleObject {
         // creates a 'pixelated' effect.
         magFilter: gl.NEAREST,
       }
-    ).then((texture) => {
-      this.texture = texture;
-    });
+    );
 
     // Load the noise texture for the triangle
-    Texture.fromURL(
+    const noiseTexture = Texture.fromURL(
       gl,
       noiseTextureUrl,
       // Options to control how the texture is sampled
@@ -119,47 +141,104 @@ export class TriangleObject {
         // direction, wrap the texture around (repeat it)
         wrapV: gl.REPEAT,
       }
-    ).then((texture) => {
-      this.noiseTexture = texture;
+    );
+    this.textures = [texture, noiseTexture];
+
+    // Create the material that we'll use to render the triangle. The fragment
+    // shader only applies the animated noise effect when `USE_NOISE` is
+    // defined, so we turn it on here. The textures are still loading, but the
+    // material takes care of that: it uses a plain white texture until
+    // they're ready.
+    this.material = new Material(gl, vertexShaderSource, fragmentShaderSource, {
+      defines: { USE_NOISE: 1 },
+      uniforms: { uTint: NO_TINT },
+      textures: {
+        uTexture: texture,
+        uNoiseTexture: noiseTexture,
+      },
+    });
+
+    // Create the program for picking. Defining `PICKING` makes the vertex
+    // shader pass the instance index on to the picking fragment shader.
+    this.pickingProgram = new Program(
+      gl,
+      vertexShaderSource,
+      pickingFragmentShaderSource,
+      { defines: { PICKING: true } }
+    );
+  }
+
+  /**
+   * Adds the triangle to a render queue, to be drawn when the queue is
+   * executed. This method should be called every frame.
+   *
+   * @param queue The render queue for the frame.
+   */
+  public render(queue: RenderQueue) {
+    // The queue binds the material (setting the view-projection matrix, the
+    // time and the textures all in one go) and then draws the mesh. Each
+    // attribute in the mesh's layout is supplied to the shader attribute of
+    // the same name.
+    queue.submit({
+      mesh: this.mesh,
+      material: this.material,
+      renderState: this.renderState,
     });
   }
 
   /**
-   * Renders the triangle to the screen. This method should be called every frame.
+   * Tints the triangle, e.g. to show that it's been clicked on.
+   *
+   * @param highlighted Whether the triangle should be tinted.
+   */
+  public setHighlighted(highlighted: boolean) {
+    this.material.setUniform('uTint', highlighted ? HIGHLIGHT_TINT : NO_TINT);
+  }
+
+  /**
+   * Draws the triangle's ID for the {@link Picker}.
+   *
+   * @param objectId The ID the picker gave the triangle.
    */
-  public render() {
-    // Set the view-projection matrix
-    this.program.setUniformMatrix4f(
-      this.viewProjectionMatrixUniform,
+  public renderPicking(objectId: number) {
+    this.pickingProgram.setUniform(
+      'uViewProjectionMatrix',
       this.camera.getViewProjectionMatrix()
     );
+    this.pickingProgram.setUniform('uObjectId', objectId);
 
-    // Set the time uniform
-    this.program.setUniform1f(
-      this.timeUniform,
-      performance.now() / 1000 // Convert to seconds
-    );
+    this.mesh.render(this.pickingProgram, this.renderState);
+  }
 
-    // Bind the colour texture to texture unit 0
-    let textureUnit = 0;
-    this.program.setUniform1i(this.textureUniform, textureUnit);
-    if (this.texture) {
-      this.texture.bind(textureUnit);
-    }
+  /**
+   * Gets the area the triangle covers, for {@link Picker.pickBounds}. The
+   * triangle isn't instanced, so there's only one rectangle.
+   */
+  public getInstanceBounds(): WorldBounds[] {
+    return [
+      {
+        min: vec2.fromValues(-0.5, -0.5),
+        max: vec2.fromValues(0.5, 0.5),
+      },
+    ];
+  }
 
-    // Bind the noise texture to texture unit 1
-    textureUnit++;
-    this.program.setUniform1i(this.noiseTextureUniform, textureUnit);
-    if (this.noiseTexture) {
-      this.noiseTexture.bind(textureUnit);
+  /**
+   * Deletes everything the triangle created on the GPU. Call this when you're
+   * done with the triangle; it can't be rendered afterwards.
+   */
+  public dispose() {
+    this.mesh.dispose();
+    this.material.dispose();
+    this.pickingProgram.dispose();
+
+    // The material doesn't own its textures, so we dispose of them ourselves.
+    // Any that are still loading are disposed as soon as they've loaded.
+    for (const texture of this.textures) {
+      texture.then(
+        (loaded) => loaded.dispose(),
+        () => {}
+      );
     }
-
-    // Render the triangle, using 'aPosition' as the attribute that will receive
-    // the vertex positions and 'aUv' as the attribute that will receive the UV
-    // coordinates.
-    this.mesh.render(this.program, 'aPosition', 'aUv');
-
-    // Unbind textures after rendering
-    Texture.unbindAll(this.gl, textureUnit);
   }
 }
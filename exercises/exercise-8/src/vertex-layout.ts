@@ -0,0 +1,443 @@
+import { Program } from './program';
+
+/**
+ * The data types that a vertex attribute can be stored as in a buffer.
+ *
+ * Smaller types save memory (and memory bandwidth, which is often what limits
+ * how fast the GPU can draw), at the cost of precision:
+ * - `float`: 32-bit floating point. The default, and what you'd normally use
+ *   for positions.
+ * - `half-float`: 16-bit floating point. About 3 decimal digits of precision,
+ *   which is usually plenty for things like normals and UVs.
+ * - `byte`/`unsigned-byte`: 8-bit integers. Combined with `normalized`, these
+ *   are perfect for colours.
+ * - `short`/`unsigned-short`: 16-bit integers.
+ */
+export type VertexAttributeType =
+  | 'float'
+  | 'half-float'
+  | 'byte'
+  | 'unsigned-byte'
+  | 'short'
+  | 'unsigned-short';
+
+/**
+ * Describes a single attribute of a vertex, e.g. its position or colour.
+ */
+export interface VertexAttributeDescription {
+  /**
+   * The name of the attribute in the vertex shader, e.g. `aPosition`. The data
+   * for the attribute is read from the property of each vertex with the same
+   * name.
+   */
+  name: string;
+  /**
+   * How many numbers make up this attribute, e.g. 3 for a `vec3`.
+   */
+  components: 1 | 2 | 3 | 4;
+  /**
+   * How each number is stored in the buffer. Defaults to `float`.
+   */
+  type?: VertexAttributeType;
+  /**
+   * For integer types, whether the values should be mapped to the 0 to 1 range
+   * (or -1 to 1 for signed types) when the shader reads them.
+   *
+   * For example, a colour stored as `unsigned-byte` with `normalized: true`
+   * takes a quarter of the space of a float colour, and the shader still sees
+   * a `vec4` of values between 0 and 1. When normalized, the vertex data should
+   * also be given in that range, and it's converted for you.
+   */
+  normalized?: boolean;
+}
+
+/**
+ * A vertex attribute along with where it lives within each vertex.
+ */
+export interface VertexAttribute extends Required<VertexAttributeDescription> {
+  /**
+   * How many bytes from the start of each vertex this attribute begins.
+   */
+  offset: number;
+}
+
+/**
+ * The data for a single vertex, with a property for each attribute in the
+ * layout. For example, `{ aPosition: vec3.fromValues(0, 1, 0), aUv: [0, 1] }`.
+ */
+export type Vertex = Record<string, number | ArrayLike<number>>;
+
+/**
+ * The number of bytes each type takes up.
+ */
+const BYTES_PER_COMPONENT: Record<VertexAttributeType, number> = {
+  float: 4,
+  'half-float': 2,
+  byte: 1,
+  'unsigned-byte': 1,
+  short: 2,
+  'unsigned-short': 2,
+};
+
+/**
+ * WebGL requires each attribute to start at a multiple of its type's size, and
+ * it's fastest if everything is aligned to 4 bytes, so we pad every attribute
+ * to a multiple of this.
+ */
+const ATTRIBUTE_ALIGNMENT = 4;
+
+/**
+ * Describes how the data for each vertex is laid out in a buffer.
+ *
+ * Rather than storing each attribute (position, UV, colour and so on) in its own
+ * buffer, we store them *interleaved*: all of the attributes of the first
+ * vertex, then all of the attributes of the second vertex, and so on:
+ *
+ * ```
+ * x1, y1, z1, u1, v1 | x2, y2, z2, u2, v2 | x3, y3, z3, u3, v3
+ * ```
+ *
+ * This keeps the data for each vertex close together in memory, which makes
+ * it faster for the GPU to read.
+ *
+ * A layout is described by listing the attributes in order, and works out the
+ * offset of each attribute and the size of each vertex (the stride) for us:
+ *
+ * ```typescript
+ * const layout = new VertexLayout([
+ *   { name: 'aPosition', components: 3 },
+ *   { name: 'aNormal', components: 3, type: 'half-float' },
+ *   { name: 'aColour', components: 4, type: 'unsigned-byte', normalized: true },
+ * ]);
+ * ```
+ */
+export class VertexLayout {
+  /**
+   * The attributes in this layout, in the order they're stored.
+   */
+  public readonly attributes: readonly VertexAttribute[];
+
+  /**
+   * The total size of each vertex, in bytes. This is how far WebGL needs to
+   * move forward in the buffer to get from one vertex to the next.
+   */
+  public readonly stride: number;
+
+  /**
+   * Creates a new VertexLayout.
+   *
+   * @param descriptions The attributes of each vertex, in the order they
+   * should be stored.
+   */
+  constructor(descriptions: VertexAttributeDescription[]) {
+    const attributes: VertexAttribute[] = [];
+    let offset = 0;
+    for (const description of descriptions) {
+      if (attributes.some((a) => a.name === description.name)) {
+        throw new Error(`Duplicate vertex attribute: '${description.name}'`);
+      }
+
+      const attribute: VertexAttribute = {
+        type: 'float',
+        normalized: false,
+        ...description,
+        offset,
+      };
+      attributes.push(attribute);
+
+      offset += align(
+        attribute.components * BYTES_PER_COMPONENT[attribute.type],
+        ATTRIBUTE_ALIGNMENT
+      );
+    }
+
+    this.attributes = attributes;
+    this.stride = offset;
+  }
+
+  /**
+   * Packs a list of vertices into a single block of memory, laid out as
+   * described by this layout, ready to be uploaded to a buffer.
+   *
+   * @param vertices The vertices to pack.
+   * @returns The packed vertex data.
+   */
+  pack(vertices: Vertex[]): ArrayBuffer {
+    const data = new ArrayBuffer(vertices.length * this.stride);
+
+    // A DataView lets us write numbers of different types into the same block
+    // of memory, which we need because the attributes can all be different
+    // types
+    const view = new DataView(data);
+
+    for (let i = 0; i < vertices.length; i++) {
+      for (const attribute of this.attributes) {
+        const value = vertices[i][attribute.name];
+        if (value === undefined) {
+          throw new Error(
+            `Vertex ${i} is missing a value for '${attribute.name}'`
+          );
+        }
+
+        const values = typeof value === 'number' ? [value] : value;
+        if (values.length !== attribute.components) {
+          throw new Error(
+            `Vertex ${i} has ${values.length} values for '${attribute.name}', ` +
+              `but the layout expects ${attribute.components}`
+          );
+        }
+
+        const bytesPerComponent = BYTES_PER_COMPONENT[attribute.type];
+        for (let c = 0; c < attribute.components; c++) {
+          writeComponent(
+            view,
+            i * this.stride + attribute.offset + c * bytesPerComponent,
+            attribute,
+            values[c]
+          );
+        }
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * Tells WebGL how to read each attribute from the currently bound
+   * ARRAY_BUFFER, for the given program. This is typically called while a
+   * vertex array object is bound, so that the VAO remembers it all.
+   *
+   * Attributes that the program doesn't use are skipped.
+   *
+   * @param gl The WebGL rendering context.
+   * @param program The program the attributes are being set up for.
+   * @param divisor How many instances to draw before moving on to the next
+   * vertex. 0 (the default) means the attributes are read once per vertex as
+   * normal.
+   */
+  bindAttributes(
+    gl: WebGL2RenderingContext,
+    program: Program,
+    divisor: number = 0
+  ): void {
+    for (const attribute of this.attributes) {
+      const programAttribute = program.attributes.get(attribute.name);
+      if (!programAttribute) {
+        continue;
+      }
+
+      const location = programAttribute.location;
+      gl.enableVertexAttribArray(location);
+
+      // Attributes declared as integers in the shader (e.g. `in ivec4`) must
+      // be set up with `vertexAttribIPointer`, otherwise the values are
+      // converted to floats along the way
+      if (
+        !attribute.normalized &&
+        isIntegerAttribute(gl, programAttribute.type)
+      ) {
+        gl.vertexAttribIPointer(
+          location,
+          attribute.components,
+          getGLType(gl, attribute.type),
+          this.stride,
+          attribute.offset
+        );
+      } else {
+        gl.vertexAttribPointer(
+          location,
+          attribute.components,
+          getGLType(gl, attribute.type),
+          attribute.normalized,
+          this.stride,
+          attribute.offset
+        );
+      }
+
+      gl.vertexAttribDivisor(location, divisor);
+    }
+  }
+
+  /**
+   * Gets a key that identifies where a program expects each of this layout's
+   * attributes. Two programs with the same key can share a vertex array object.
+   *
+   * @param program The program to get the key for.
+   * @returns The key.
+   */
+  getLocationKey(program: Program): string {
+    return this.attributes
+      .map((attribute) => program.getAttribLocation(attribute.name))
+      .join(',');
+  }
+}
+
+/**
+ * Rounds a number up to the next multiple of `alignment`.
+ *
+ * @param value The number to round.
+ * @param alignment The multiple to round to.
+ * @returns The rounded number.
+ */
+function align(value: number, alignment: number): number {
+  return Math.ceil(value / alignment) * alignment;
+}
+
+/**
+ * Writes a single component of an attribute into a DataView.
+ *
+ * @param view The view to write to.
+ * @param byteOffset Where to write the value, in bytes.
+ * @param attribute The attribute the value belongs to.
+ * @param value The value to write.
+ */
+function writeComponent(
+  view: DataView,
+  byteOffset: number,
+  attribute: VertexAttribute,
+  value: number
+): void {
+  // WebGL expects data in the same byte order as the computer it's running on,
+  // which is little-endian on practically every device
+  const littleEndian = true;
+
+  switch (attribute.type) {
+    case 'float':
+      view.setFloat32(byteOffset, value, littleEndian);
+      break;
+    case 'half-float':
+      view.setUint16(byteOffset, toHalfFloat(value), littleEndian);
+      break;
+    case 'byte':
+      view.setInt8(
+        byteOffset,
+        attribute.normalized ? Math.round(clamp(value, -1, 1) * 0x7f) : value
+      );
+      break;
+    case 'unsigned-byte':
+      view.setUint8(
+        byteOffset,
+        attribute.normalized ? Math.round(clamp(value, 0, 1) * 0xff) : value
+      );
+      break;
+    case 'short':
+      view.setInt16(
+        byteOffset,
+        attribute.normalized ? Math.round(clamp(value, -1, 1) * 0x7fff) : value,
+        littleEndian
+      );
+      break;
+    case 'unsigned-short':
+      view.setUint16(
+        byteOffset,
+        attribute.normalized ? Math.round(clamp(value, 0, 1) * 0xffff) : value,
+        littleEndian
+      );
+      break;
+  }
+}
+
+/**
+ * Restricts a number to a range.
+ *
+ * @param value The number to restrict.
+ * @param min The smallest allowed value.
+ * @param max The largest allowed value.
+ * @returns The restricted number.
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Used by {@link toHalfFloat} to read the bits of a 32-bit float. These are
+ * created once up front, rather than every time a number is converted.
+ */
+const floatView = new Float32Array(1);
+const floatBitsView = new Uint32Array(floatView.buffer);
+
+/**
+ * Converts a number to the bits of a 16-bit (half precision) float.
+ *
+ * JavaScript has no built-in half float type, so we have to do this by hand:
+ * we take the bits of a 32-bit float and squeeze its exponent and mantissa into
+ * the smaller number of bits a half float has.
+ *
+ * @param value The number to convert.
+ * @returns The 16 bits of the half float, as an integer.
+ */
+function toHalfFloat(value: number): number {
+  floatView[0] = value;
+  const bits = floatBitsView[0];
+
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = ((bits >>> 23) & 0xff) - 127 + 15;
+  const mantissa = bits & 0x7fffff;
+
+  // NaN stays NaN
+  if (((bits >>> 23) & 0xff) === 0xff && mantissa !== 0) {
+    return sign | 0x7e00;
+  }
+  // Too large to represent, so becomes infinity
+  if (exponent >= 0x1f) {
+    return sign | 0x7c00;
+  }
+  // Too small for a normal half float, so becomes a subnormal number (or 0)
+  if (exponent <= 0) {
+    if (exponent < -10) {
+      return sign;
+    }
+    const subnormal = (mantissa | 0x800000) >>> (1 - exponent);
+    return sign | ((subnormal + 0x1000) >>> 13);
+  }
+  // Round to the nearest representable value
+  return sign | ((exponent << 10) + ((mantissa + 0x1000) >>> 13));
+}
+
+/**
+ * Gets the WebGL constant for a vertex attribute type.
+ *
+ * @param gl The WebGL rendering context.
+ * @param type The attribute type.
+ * @returns The matching WebGL constant, e.g. `gl.FLOAT`.
+ */
+function getGLType(
+  gl: WebGL2RenderingContext,
+  type: VertexAttributeType
+): number {
+  switch (type) {
+    case 'float':
+      return gl.FLOAT;
+    case 'half-float':
+      return gl.HALF_FLOAT;
+    case 'byte':
+      return gl.BYTE;
+    case 'unsigned-byte':
+      return gl.UNSIGNED_BYTE;
+    case 'short':
+      return gl.SHORT;
+    case 'unsigned-short':
+      return gl.UNSIGNED_SHORT;
+  }
+}
+
+/**
+ * Checks whether a shader attribute is declared with an integer type.
+ *
+ * @param gl The WebGL rendering context.
+ * @param type The GL type of the attribute, as reported by the program.
+ * @returns Whether the attribute is an integer type.
+ */
+function isIntegerAttribute(gl: WebGL2RenderingContext, type: number): boolean {
+  const integerTypes: number[] = [
+    gl.INT,
+    gl.INT_VEC2,
+    gl.INT_VEC3,
+    gl.INT_VEC4,
+    gl.UNSIGNED_INT,
+    gl.UNSIGNED_INT_VEC2,
+    gl.UNSIGNED_INT_VEC3,
+    gl.UNSIGNED_INT_VEC4,
+  ];
+  return integerTypes.includes(type);
+}
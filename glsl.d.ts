@@ -0,0 +1,15 @@
+// Shader files are imported as their source code, see `vite-plugin-glsl.ts`
+declare module '*.glsl' {
+  const source: string;
+  export default source;
+}
+
+declare module '*.vert' {
+  const source: string;
+  export default source;
+}
+
+declare module '*.frag' {
+  const source: string;
+  export default source;
+}
@@ -1,9 +1,15 @@
 import { Renderer } from './renderer/renderer';
 import { World } from './world/world';
+import { SceneNode } from './world/scene-node';
+import { FrameLoop } from './frame-loop';
+import { FrameScheduler, browserScheduler } from './frame-scheduler';
 import { UI } from './ui/ui';
 
 type AppConfig = {
   canvas: HTMLCanvasElement;
+  // Defaults to the browser's requestAnimationFrame; pass a ManualScheduler
+  // to step frames by hand, e.g. in tests
+  scheduler?: FrameScheduler;
 };
 
 export class App {
@@ -11,29 +17,46 @@ export class App {
   private world = new World();
   private ui = new UI();
   private time = 0;
+  private triangle = new SceneNode('triangle');
+  private loop?: FrameLoop;
 
   init(config: AppConfig) {
+    const scheduler = config.scheduler ?? browserScheduler;
     this.renderer.init({
       canvas: config.canvas,
+      scheduler,
     });
+    this.loop = new FrameLoop({ scheduler });
+    this.triangle.mesh = this.renderer.createTriangleMesh();
+    this.world.root.add(this.triangle);
     this.startTick();
   }
 
   startTick() {
-    const startTime = Date.now();
-    const loop = () => {
-      let time = Date.now() - startTime;
-      this.tick(time);
-      requestAnimationFrame(loop);
-    };
-    loop();
+    const loop = this.getLoop();
+    loop.onUpdate((deltaTime) => this.update(deltaTime));
+    loop.onRender((_alpha, clock) => this.tick(clock.renderTime * 1000));
+    loop.start();
+  }
+
+  getLoop() {
+    if (!this.loop) {
+      throw new Error('You must call app.init() first');
+    }
+    return this.loop;
+  }
+
+  update(deltaTime: number) {
+    // Radians per second
+    this.triangle.rotateZ(0.6 * deltaTime);
   }
 
   tick(time: number) {
-    this.renderer.tick(time);
+    this.renderer.tick(time, this.world);
   }
 
   destroy() {
+    this.loop?.stop();
     this.renderer.destroy();
   }
 }
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+
+import { Clock, FrameLoop } from './frame-loop';
+import { ManualScheduler } from './frame-scheduler';
+
+// 8 updates per second with 125ms frames keeps every number exact, so each
+// frame is exactly one update
+function createLoop(maxUpdatesPerFrame?: number) {
+  const scheduler = new ManualScheduler(125);
+  const loop = new FrameLoop({
+    updatesPerSecond: 8,
+    maxUpdatesPerFrame,
+    scheduler,
+  });
+
+  const calls: string[] = [];
+  let clock: Clock | null = null;
+  loop.onUpdate(() => calls.push('update'));
+  loop.onRender((_alpha, renderClock) => {
+    calls.push('render');
+    clock = { ...renderClock };
+  });
+
+  return { scheduler, loop, calls, getClock: () => clock };
+}
+
+describe('FrameLoop', () => {
+  it('waits for the scheduler to run a frame', () => {
+    const { scheduler, loop, calls } = createLoop();
+    loop.start();
+
+    expect(loop.isRunning).toBe(true);
+    expect(scheduler.pendingFrameCount).toBe(1);
+    expect(calls).toEqual([]);
+  });
+
+  it('runs fixed updates before rendering each frame', () => {
+    const { scheduler, loop, calls, getClock } = createLoop();
+    loop.start();
+    scheduler.advanceFrames(2);
+
+    expect(calls).toEqual(['update', 'render', 'update', 'render']);
+    expect(getClock()).toMatchObject({
+      time: 0.25,
+      updateCount: 2,
+      frameCount: 1,
+    });
+  });
+
+  it('renders with the leftover fraction of a step as alpha', () => {
+    const { scheduler, loop } = createLoop();
+    const alphas: number[] = [];
+    loop.onRender((alpha) => alphas.push(alpha));
+    loop.start();
+    scheduler.advance(187.5);
+
+    expect(alphas).toEqual([0.5]);
+  });
+
+  it('skips ahead past maxUpdatesPerFrame', () => {
+    const { scheduler, loop, calls } = createLoop(1);
+    loop.start();
+    scheduler.advance(250);
+    scheduler.advance();
+
+    expect(calls).toEqual(['update', 'render', 'update', 'render']);
+  });
+
+  it('renders without updating while paused', () => {
+    const { scheduler, loop, calls } = createLoop();
+    loop.start();
+    loop.pause();
+    scheduler.advanceFrames(2);
+    loop.resume();
+    scheduler.advance();
+
+    expect(calls).toEqual(['render', 'render', 'update', 'render']);
+  });
+
+  it('ignores resume while not paused', () => {
+    const { scheduler, loop, getClock } = createLoop();
+    loop.start();
+    scheduler.advance();
+    scheduler.time += 100;
+    loop.resume();
+    scheduler.advance(150);
+
+    expect(getClock()?.updateCount).toBe(3);
+  });
+
+  it('stops requesting frames once stopped', () => {
+    const { scheduler, loop, calls } = createLoop();
+    loop.start();
+    scheduler.advance();
+    loop.stop();
+    scheduler.advance();
+
+    expect(loop.isRunning).toBe(false);
+    expect(scheduler.pendingFrameCount).toBe(0);
+    expect(calls).toEqual(['update', 'render']);
+  });
+});
+
+describe('ManualScheduler', () => {
+  it('only runs callbacks requested before the frame started', () => {
+    const scheduler = new ManualScheduler(10);
+    const times: number[] = [];
+    const callback = (time: number) => {
+      times.push(time);
+      scheduler.requestFrame(callback);
+    };
+    scheduler.requestFrame(callback);
+    scheduler.advanceFrames(3);
+
+    expect(times).toEqual([10, 20, 30]);
+    expect(scheduler.now()).toBe(30);
+  });
+
+  it('drops cancelled callbacks', () => {
+    const scheduler = new ManualScheduler();
+    let calls = 0;
+    scheduler.cancelFrame(scheduler.requestFrame(() => calls++));
+    scheduler.advance();
+
+    expect(calls).toBe(0);
+  });
+});
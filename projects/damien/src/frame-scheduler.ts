@@ -0,0 +1,71 @@
+export type FrameRequestCallback = (time: number) => void;
+
+// Everything the render loop needs from the browser, so it can be driven by
+// something else (e.g. a test stepping frames by hand in Node)
+export interface FrameScheduler {
+  // Returns a handle for cancelFrame
+  requestFrame(callback: FrameRequestCallback): number;
+  cancelFrame(handle: number): void;
+  // Milliseconds, on the same timeline as the time passed to frame callbacks
+  now(): number;
+  getDevicePixelRatio(): number;
+}
+
+export const browserScheduler: FrameScheduler = {
+  requestFrame: (callback) => requestAnimationFrame(callback),
+  cancelFrame: (handle) => cancelAnimationFrame(handle),
+  now: () => performance.now(),
+  getDevicePixelRatio: () => window.devicePixelRatio || 1,
+};
+
+// Only runs frames when told to. Time starts at 0 and only moves in advance().
+export class ManualScheduler implements FrameScheduler {
+  public time = 0;
+  public devicePixelRatio = 1;
+
+  private callbacks = new Map<number, FrameRequestCallback>();
+  private nextHandle = 1;
+
+  constructor(public frameTime = 1000 / 60) {}
+
+  get pendingFrameCount(): number {
+    return this.callbacks.size;
+  }
+
+  public requestFrame(callback: FrameRequestCallback): number {
+    const handle = this.nextHandle++;
+    this.callbacks.set(handle, callback);
+    return handle;
+  }
+
+  public cancelFrame(handle: number) {
+    this.callbacks.delete(handle);
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public getDevicePixelRatio(): number {
+    return this.devicePixelRatio;
+  }
+
+  // Move time forward by frameTime ms and run the callbacks that were pending,
+  // like the browser does. Anything requested during the frame waits for the
+  // next one.
+  public advance(frameTime = this.frameTime) {
+    this.time += frameTime;
+
+    const callbacks = [...this.callbacks.values()];
+    this.callbacks.clear();
+    for (const callback of callbacks) {
+      callback(this.time);
+    }
+  }
+
+  public advanceFrames(count: number, frameTime = this.frameTime) {
+    for (let i = 0; i < count; i++) {
+      this.advance(frameTime);
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { ShaderCompileError } from './shader-compile-error';
+
 export function createBuffer(gl: WebGL2RenderingContext) {
   const buffer = gl.createBuffer();
   if (!buffer) {
@@ -41,9 +43,13 @@ export function compileShader(
   gl.compileShader(shader);
 
   if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-    const log = gl.getShaderInfoLog(shader);
+    const log = gl.getShaderInfoLog(shader) ?? '';
     gl.deleteShader(shader);
-    throw new Error(`Shader compilation error: ${log}`);
+    throw new ShaderCompileError(
+      type === gl.VERTEX_SHADER ? 'vertex' : 'fragment',
+      source,
+      log
+    );
   }
 
   return shader;
@@ -70,6 +76,12 @@ export function createProgram(
   gl.attachShader(program, fragmentShader);
   gl.linkProgram(program);
 
+  // The linked program no longer needs the shaders, so free them
+  gl.detachShader(program, vertexShader);
+  gl.detachShader(program, fragmentShader);
+  gl.deleteShader(vertexShader);
+  gl.deleteShader(fragmentShader);
+
   if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
     const log = gl.getProgramInfoLog(program);
     gl.deleteProgram(program);
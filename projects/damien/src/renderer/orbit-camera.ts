@@ -0,0 +1,89 @@
+import { mat4, vec2, vec3, ReadonlyVec3 } from 'gl-matrix';
+import { PerspectiveCamera, Ray, WorldBounds } from './perspective-camera';
+
+// Keep pitch just short of straight up/down, where lookAt has no sensible "up"
+const maxPitchLimit = Math.PI / 2 - 0.001;
+
+// Moves a perspective camera around a target on a sphere. Yaw 0, pitch 0
+// looks at the target from +z.
+export class OrbitCamera {
+  public target = vec3.create();
+  // Rotation around the target's y axis, in radians
+  public yaw = 0;
+  // Angle above (positive) or below (negative) the target, in radians
+  public pitch = 0;
+  public distance = 3;
+
+  public minPitch = -maxPitchLimit;
+  public maxPitch = maxPitchLimit;
+  public minDistance = 0.1;
+  public maxDistance = Infinity;
+
+  constructor(public readonly camera: PerspectiveCamera) {}
+
+  public rotate(deltaYaw: number, deltaPitch: number) {
+    this.yaw += deltaYaw;
+    this.pitch += deltaPitch;
+    this.clamp();
+  }
+
+  // Factors above 1 move away from the target, below 1 move closer
+  public zoom(factor: number) {
+    this.distance *= factor;
+    this.clamp();
+  }
+
+  // Position the underlying camera from the current orbit. Called
+  // automatically when getting matrices through the OrbitCamera.
+  public update() {
+    this.clamp();
+
+    const horizontalDistance = this.distance * Math.cos(this.pitch);
+    vec3.set(
+      this.camera.position,
+      this.target[0] + horizontalDistance * Math.sin(this.yaw),
+      this.target[1] + this.distance * Math.sin(this.pitch),
+      this.target[2] + horizontalDistance * Math.cos(this.yaw)
+    );
+    this.camera.lookAt(this.target);
+  }
+
+  public getViewMatrix(): mat4 {
+    this.update();
+    return this.camera.getViewMatrix();
+  }
+
+  public getProjectionMatrix(): mat4 {
+    return this.camera.getProjectionMatrix();
+  }
+
+  public getViewProjectionMatrix(): mat4 {
+    this.update();
+    return this.camera.getViewProjectionMatrix();
+  }
+
+  public screenToWorld(clientX: number, clientY: number): Ray {
+    this.update();
+    return this.camera.screenToWorld(clientX, clientY);
+  }
+
+  public worldToScreen(position: ReadonlyVec3): vec2 | null {
+    this.update();
+    return this.camera.worldToScreen(position);
+  }
+
+  public getVisibleWorldBounds(planeZ: number = 0): WorldBounds | null {
+    this.update();
+    return this.camera.getVisibleWorldBounds(planeZ);
+  }
+
+  private clamp() {
+    const minPitch = Math.max(this.minPitch, -maxPitchLimit);
+    const maxPitch = Math.min(this.maxPitch, maxPitchLimit);
+    this.pitch = Math.min(maxPitch, Math.max(minPitch, this.pitch));
+    this.distance = Math.min(
+      this.maxDistance,
+      Math.max(this.minDistance, this.distance)
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { mat4, vec2, vec3, vec4, ReadonlyVec3 } from 'gl-matrix';
+
+export interface Ray {
+  origin: vec3;
+  direction: vec3;
+}
+
+export interface WorldBounds {
+  // Bottom-left and top-right corners
+  min: vec2;
+  max: vec2;
+}
+
+export interface PerspectiveCameraOptions {
+  // Vertical field of view, in radians
+  fov?: number;
+  near?: number;
+  far?: number;
+}
+
+export class PerspectiveCamera {
+  public position = vec3.fromValues(0, 0, 3);
+  public target = vec3.create();
+  public up = vec3.fromValues(0, 1, 0);
+  public fov: number;
+  public near: number;
+  public far: number;
+
+  constructor(
+    private canvas: HTMLCanvasElement,
+    options: PerspectiveCameraOptions = {}
+  ) {
+    this.fov = options.fov ?? Math.PI / 4;
+    this.near = options.near ?? 0.1;
+    this.far = options.far ?? 100;
+  }
+
+  public lookAt(target: ReadonlyVec3) {
+    vec3.copy(this.target, target);
+  }
+
+  // World space -> camera space
+  public getViewMatrix(): mat4 {
+    return mat4.lookAt(mat4.create(), this.position, this.target, this.up);
+  }
+
+  // Camera space -> clip space, using the canvas's current aspect ratio
+  public getProjectionMatrix(): mat4 {
+    const aspectRatio = this.canvas.width / this.canvas.height;
+    return mat4.perspective(
+      mat4.create(),
+      this.fov,
+      aspectRatio,
+      this.near,
+      this.far
+    );
+  }
+
+  public getViewProjectionMatrix(): mat4 {
+    return mat4.multiply(
+      mat4.create(),
+      this.getProjectionMatrix(),
+      this.getViewMatrix()
+    );
+  }
+
+  // A ray from the camera's near plane through the given client (CSS pixel)
+  // position, e.g. for picking. The direction is normalised.
+  public screenToWorld(clientX: number, clientY: number): Ray {
+    const rect = this.canvas.getBoundingClientRect();
+    const clipX = ((clientX - rect.left) / rect.width) * 2 - 1;
+    const clipY = 1 - ((clientY - rect.top) / rect.height) * 2;
+
+    const inverseViewProjection = mat4.invert(
+      mat4.create(),
+      this.getViewProjectionMatrix()
+    );
+    // transformMat4 divides by w, undoing the perspective divide
+    const near = vec3.transformMat4(
+      vec3.create(),
+      vec3.fromValues(clipX, clipY, -1),
+      inverseViewProjection
+    );
+    const far = vec3.transformMat4(
+      vec3.create(),
+      vec3.fromValues(clipX, clipY, 1),
+      inverseViewProjection
+    );
+
+    const direction = vec3.normalize(far, vec3.subtract(far, far, near));
+    return { origin: near, direction };
+  }
+
+  // Client coordinates in CSS pixels, or null for points behind the camera
+  public worldToScreen(position: ReadonlyVec3): vec2 | null {
+    const clip = vec4.transformMat4(
+      vec4.create(),
+      vec4.fromValues(position[0], position[1], position[2], 1),
+      this.getViewProjectionMatrix()
+    );
+    if (clip[3] <= 0) {
+      return null;
+    }
+
+    const rect = this.canvas.getBoundingClientRect();
+    return vec2.fromValues(
+      rect.left + ((clip[0] / clip[3] + 1) / 2) * rect.width,
+      rect.top + ((1 - clip[1] / clip[3]) / 2) * rect.height
+    );
+  }
+
+  // The rectangle of the plane z = planeZ covering the screen, or null if any
+  // screen corner doesn't see the plane (e.g. looking at the horizon)
+  public getVisibleWorldBounds(planeZ: number = 0): WorldBounds | null {
+    const rect = this.canvas.getBoundingClientRect();
+    const corners = [
+      [rect.left, rect.top],
+      [rect.right, rect.top],
+      [rect.left, rect.bottom],
+      [rect.right, rect.bottom],
+    ];
+
+    const min = vec2.fromValues(Infinity, Infinity);
+    const max = vec2.fromValues(-Infinity, -Infinity);
+    for (const [x, y] of corners) {
+      const ray = this.screenToWorld(x, y);
+      const distance = (planeZ - ray.origin[2]) / ray.direction[2];
+      if (!(distance >= 0 && isFinite(distance))) {
+        return null;
+      }
+
+      const hitX = ray.origin[0] + ray.direction[0] * distance;
+      const hitY = ray.origin[1] + ray.direction[1] * distance;
+      vec2.min(min, min, [hitX, hitY]);
+      vec2.max(max, max, [hitX, hitY]);
+    }
+
+    return { min, max };
+  }
+}
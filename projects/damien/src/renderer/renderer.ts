@@ -4,7 +4,19 @@ import { createBuffer, getUniformLocation, setupShaders } from './gl-utils';
 // how our shape is drawn.
 import vertexShaderSource from './shaders/vertex-shader.glsl?raw';
 import fragmentShaderSource from './shaders/fragment-shader.glsl?raw';
-import { mat4, vec3 } from 'gl-matrix';
+import { World } from '../world/world';
+import { OrbitCamera } from './orbit-camera';
+import { PerspectiveCamera } from './perspective-camera';
+import { FrameScheduler } from '../frame-scheduler';
+import { CanvasResizer, ResizeCallback } from './canvas-resizer';
+import { ResourceStats, ResourceTracker } from './resource-tracker';
+
+// Geometry that can be attached to a SceneNode
+export type Mesh = {
+  vertexArray: WebGLVertexArrayObject;
+  buffer: WebGLBuffer;
+  vertexCount: number;
+};
 
 function createTriangleData(): Float32Array {
   return new Float32Array([
@@ -97,12 +109,26 @@ type MatrixLocations = {
 
 type RendererConfig = {
   canvas: HTMLCanvasElement;
+  // Where the device pixel ratio comes from; defaults to the browser
+  scheduler?: FrameScheduler;
+  // Defaults to 2
+  maxDevicePixelRatio?: number;
+  // e.g. 0.5 to render at half resolution
+  resolutionScale?: number;
 };
 
 export class Renderer {
   private canvas?: HTMLCanvasElement;
   private gl?: WebGL2RenderingContext;
   private cleanupCallbacks: (() => void)[] = [];
+  private resizer?: CanvasResizer;
+
+  public getResizer() {
+    if (!this.resizer) {
+      throw new Error('You must call renderer.init() first');
+    }
+    return this.resizer;
+  }
 
   private getCanvas() {
     if (!this.canvas) {
@@ -118,11 +144,14 @@ export class Renderer {
     return this.gl;
   }
 
-  public matrices = {
-    model: mat4.create(),
-    view: mat4.create(),
-    projection: mat4.create(),
-  };
+  private camera?: OrbitCamera;
+
+  public getCamera() {
+    if (!this.camera) {
+      throw new Error('You must call renderer.init() first');
+    }
+    return this.camera;
+  }
 
   private matrixLocations: MatrixLocations = {
     model: null,
@@ -130,7 +159,16 @@ export class Renderer {
     projection: null,
   };
 
-  private triangleVertexArray?: WebGLVertexArrayObject;
+  private program?: WebGLProgram;
+  // Every mesh created by this renderer and not yet disposed
+  private meshes = new Set<Mesh>();
+
+  private getProgram() {
+    if (!this.program) {
+      throw new Error('You must call renderer.init() first');
+    }
+    return this.program;
+  }
 
   init(config: RendererConfig) {
     this.canvas = config.canvas;
@@ -139,23 +177,16 @@ export class Renderer {
       throw new Error('gl not supported');
     }
     this.gl = gl;
-    this.setInitialMatrices();
-    this.addTriangle();
-  }
+    this.camera = new OrbitCamera(new PerspectiveCamera(config.canvas));
 
-  private setInitialMatrices() {
-    const canvas = this.getCanvas();
-    const { view, projection } = this.matrices;
-    mat4.translate(view, view, [0.0, 0.0, -3.0]);
-
-    // Parameters: field of view (45 degrees), aspect ratio, near plane, far plane
-    mat4.perspective(
-      projection,
-      Math.PI / 4,
-      canvas.width / canvas.height,
-      0.1,
-      100
-    );
+    // Set up shaders and create program
+    const program = setupShaders(gl, vertexShaderSource, fragmentShaderSource);
+    gl.useProgram(program);
+    this.program = program;
+    ResourceTracker.forContext(gl).track(program, 'program', 'Renderer');
+
+    this.createLocationsForMatrices(program);
+    this.cleanupCallbacks.push(this.initAutoResize(config));
   }
 
   private createLocationsForMatrices(program: WebGLProgram) {
@@ -173,7 +204,7 @@ export class Renderer {
     );
   }
 
-  private addTriangle() {
+  public createTriangleMesh(): Mesh {
     const gl = this.getGL();
 
     // make triangle data
@@ -184,92 +215,134 @@ export class Renderer {
     gl.bindBuffer(gl.ARRAY_BUFFER, triangleBuffer);
     gl.bufferData(gl.ARRAY_BUFFER, triangleData, gl.STATIC_DRAW);
 
-    // Set up shaders and create program
-    const program = setupShaders(gl, vertexShaderSource, fragmentShaderSource);
-    gl.useProgram(program);
+    const mesh: Mesh = {
+      vertexArray: setupTriangleVAO(gl, this.getProgram(), triangleBuffer),
+      buffer: triangleBuffer,
+      vertexCount: triangleData.length / 3,
+    };
+    this.meshes.add(mesh);
+
+    const tracker = ResourceTracker.forContext(gl);
+    tracker.track(
+      triangleBuffer,
+      'buffer',
+      'Triangle vertices',
+      triangleData.byteLength
+    );
+    tracker.track(mesh.vertexArray, 'vertexArray', 'Triangle vertex array');
 
-    this.createLocationsForMatrices(program);
-    this.cleanupCallbacks.push(this.initAutoResize());
-    this.triangleVertexArray = setupTriangleVAO(gl, program, triangleBuffer);
-    this.render();
+    return mesh;
   }
 
-  private initAutoResize() {
-    const resize = () => {
-      const canvas = this.getCanvas();
-      const gl = this.getGL();
-
-      // Update canvas size, taking into account the device pixel ratio for sharp
-      // rendering on high DPI displays
-      const dpr = window.devicePixelRatio || 1;
-      canvas.width = canvas.clientWidth * dpr;
-      canvas.height = canvas.clientHeight * dpr;
-
-      // Update WebGL viewport to match new canvas size
-      gl.viewport(0, 0, canvas.width, canvas.height);
-
-      // Recalculate projection matrix with new aspect ratio
-      mat4.perspective(
-        this.matrices.projection,
-        Math.PI / 4,
-        canvas.width / canvas.height,
-        0.1,
-        100
-      );
-
-      // Update projection matrix in the shader
-      if (this.matrixLocations.projection) {
-        gl.uniformMatrix4fv(
-          this.matrixLocations.projection,
-          false,
-          this.matrices.projection
-        );
-      }
-    };
+  // Delete a mesh's buffer and VAO. Detach it from any SceneNode first.
+  public disposeMesh(mesh: Mesh) {
+    if (!this.meshes.delete(mesh)) {
+      return;
+    }
+
+    const gl = this.getGL();
+    const tracker = ResourceTracker.forContext(gl);
+    gl.deleteVertexArray(mesh.vertexArray);
+    tracker.untrack(mesh.vertexArray);
+    gl.deleteBuffer(mesh.buffer);
+    tracker.untrack(mesh.buffer);
+  }
+
+  // Live GPU objects and estimated memory, e.g. for a debug overlay
+  public getResourceStats(): ResourceStats {
+    return ResourceTracker.forContext(this.getGL()).getStats();
+  }
+
+  private initAutoResize(config: RendererConfig) {
+    const resizer = new CanvasResizer(this.getCanvas(), {
+      scheduler: config.scheduler,
+      maxDevicePixelRatio: config.maxDevicePixelRatio,
+      resolutionScale: config.resolutionScale,
+    });
+    this.resizer = resizer;
+
+    // The camera picks up the new aspect ratio from the canvas on the next
+    // render, so only the viewport needs updating here
+    resizer.onResize((width, height) => {
+      this.getGL().viewport(0, 0, width, height);
+    });
+    resizer.update();
 
-    resize();
-    window.addEventListener('resize', resize);
     return () => {
-      window.removeEventListener('resize', resize);
+      resizer.disconnect();
     };
   }
 
-  private render() {
+  // Called with the new drawing buffer size, only when it actually changes
+  public onResize(callback: ResizeCallback) {
+    return this.getResizer().onResize(callback);
+  }
+
+  private render(world: World) {
     const gl = this.getGL();
 
+    // Apply any size change observed since the last frame
+    this.getResizer().update();
+
     // Clear the canvas
     gl.clearColor(0.0, 0.0, 0.0, 1.0);
     gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
 
     // update matrices in gl
-    gl.uniformMatrix4fv(this.matrixLocations.model, false, this.matrices.model);
-    gl.uniformMatrix4fv(this.matrixLocations.view, false, this.matrices.view);
+    const camera = this.getCamera();
+    gl.uniformMatrix4fv(
+      this.matrixLocations.view,
+      false,
+      camera.getViewMatrix()
+    );
+    gl.uniformMatrix4fv(
+      this.matrixLocations.projection,
+      false,
+      camera.getProjectionMatrix()
+    );
 
-    if (this.triangleVertexArray) {
-      gl.bindVertexArray(this.triangleVertexArray);
-      gl.drawArrays(gl.TRIANGLES, 0, 3);
-      gl.bindVertexArray(null);
-    }
+    // Draw every visible mesh in the scene, each with its own world matrix as
+    // the model matrix
+    world.root.traverse((node) => {
+      if (!node.visible) {
+        return false;
+      }
+      if (node.mesh) {
+        gl.uniformMatrix4fv(
+          this.matrixLocations.model,
+          false,
+          node.getWorldMatrix()
+        );
+        gl.bindVertexArray(node.mesh.vertexArray);
+        gl.drawArrays(gl.TRIANGLES, 0, node.mesh.vertexCount);
+      }
+    });
+    gl.bindVertexArray(null);
   }
 
-  public tick(time: number) {
-    // TODO - derive these matrices from state I actually care about
-    mat4.rotateZ(this.matrices.model, this.matrices.model, 0.01);
-    // mat4.translate(
-    //   this.matrices.model,
-    //   this.matrices.model,
-    //   vec3.fromValues(0.01, 0, 0)
-    // );
-    mat4.translate(
-      this.matrices.view,
-      this.matrices.view,
-      vec3.fromValues(-0.01 * Math.sin(time * 0.01), 0, 0)
-    );
+  public tick(time: number, world: World) {
+    // Sway the camera from side to side around the scene
+    this.getCamera().yaw = 0.3 * Math.sin(time * 0.001);
 
-    this.render();
+    this.render(world);
   }
 
+  // Deletes everything the renderer created; anything else still alive on
+  // the GPU is reported as a leak
   public destroy() {
     this.cleanupCallbacks.forEach((cb) => cb());
+
+    if (!this.gl) {
+      return;
+    }
+    const gl = this.gl;
+    this.meshes.forEach((mesh) => this.disposeMesh(mesh));
+    if (this.program) {
+      gl.deleteProgram(this.program);
+      ResourceTracker.forContext(gl).untrack(this.program);
+      this.program = undefined;
+    }
+
+    ResourceTracker.forContext(gl).reportLeaks();
   }
 }
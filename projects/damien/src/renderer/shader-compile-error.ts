@@ -0,0 +1,134 @@
+export type ShaderStage = 'vertex' | 'fragment';
+
+export interface SourceExcerptLine {
+  // 1-based line number in the shader source
+  line: number;
+  text: string;
+  highlighted: boolean;
+}
+
+export interface ShaderDiagnostic {
+  stage: ShaderStage;
+  severity: 'error' | 'warning';
+  // 1-based, or null if the compiler didn't report one
+  line: number | null;
+  column: number | null;
+  message: string;
+  // The offending line plus a few lines of context either side
+  excerpt: SourceExcerptLine[];
+}
+
+const EXCERPT_CONTEXT_LINES = 2;
+
+// ANGLE (most browsers), e.g. `ERROR: 0:12: 'foo' : undeclared identifier`
+const ANGLE_LOG_PATTERN = /^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/;
+
+// Mesa, which also reports a column, e.g. `0:12(5): error: syntax error`
+const MESA_LOG_PATTERN = /^\d+:(\d+)\((\d+)\):\s*(error|warning):\s*(.*)$/;
+
+export function parseShaderInfoLog(
+  stage: ShaderStage,
+  source: string,
+  log: string
+): ShaderDiagnostic[] {
+  const sourceLines = source.split('\n');
+  const diagnostics: ShaderDiagnostic[] = [];
+
+  for (const rawLine of log.split('\n')) {
+    // Drivers often pad the log with null characters
+    const logLine = rawLine.replace(/\0/g, '').trim();
+    if (!logLine) {
+      continue;
+    }
+
+    let severity: ShaderDiagnostic['severity'] = 'error';
+    let line: number | null = null;
+    let column: number | null = null;
+    let message = logLine;
+
+    const angleMatch = ANGLE_LOG_PATTERN.exec(logLine);
+    const mesaMatch = MESA_LOG_PATTERN.exec(logLine);
+    if (angleMatch) {
+      severity = angleMatch[1] === 'WARNING' ? 'warning' : 'error';
+      line = Number(angleMatch[2]);
+      message = angleMatch[3];
+    } else if (mesaMatch) {
+      line = Number(mesaMatch[1]);
+      column = Number(mesaMatch[2]);
+      severity = mesaMatch[3] === 'warning' ? 'warning' : 'error';
+      message = mesaMatch[4];
+    }
+
+    // Line 0 means the whole shader
+    if (line === 0) {
+      line = null;
+    }
+
+    diagnostics.push({
+      stage,
+      severity,
+      line,
+      column,
+      message,
+      excerpt: line === null ? [] : getExcerpt(sourceLines, line),
+    });
+  }
+
+  return diagnostics;
+}
+
+function getExcerpt(sourceLines: string[], line: number): SourceExcerptLine[] {
+  const first = Math.max(1, line - EXCERPT_CONTEXT_LINES);
+  const last = Math.min(sourceLines.length, line + EXCERPT_CONTEXT_LINES);
+
+  const excerpt: SourceExcerptLine[] = [];
+  for (let i = first; i <= last; i++) {
+    excerpt.push({
+      line: i,
+      text: sourceLines[i - 1],
+      highlighted: i === line,
+    });
+  }
+  return excerpt;
+}
+
+export function formatShaderDiagnostic(diagnostic: ShaderDiagnostic): string {
+  const position =
+    diagnostic.line === null
+      ? ''
+      : diagnostic.column === null
+        ? `, line ${diagnostic.line}`
+        : `, line ${diagnostic.line}:${diagnostic.column}`;
+  const header = `${diagnostic.severity.toUpperCase()} (${diagnostic.stage} shader${position}): ${diagnostic.message}`;
+
+  const width = Math.max(
+    0,
+    ...diagnostic.excerpt.map((line) => String(line.line).length)
+  );
+  const excerpt = diagnostic.excerpt.map(
+    (line) =>
+      `${line.highlighted ? '  > ' : '    '}${String(line.line).padStart(width)} | ${line.text}`
+  );
+
+  return [header, ...excerpt].join('\n');
+}
+
+// Carries the parsed diagnostics so tools/overlays can render them
+export class ShaderCompileError extends Error {
+  public readonly diagnostics: ShaderDiagnostic[];
+
+  constructor(
+    public readonly stage: ShaderStage,
+    public readonly source: string,
+    public readonly log: string
+  ) {
+    const diagnostics = parseShaderInfoLog(stage, source, log);
+    super(
+      `Failed to compile ${stage} shader:\n` +
+        diagnostics.map(formatShaderDiagnostic).join('\n\n')
+    );
+
+    this.name = 'ShaderCompileError';
+    this.diagnostics = diagnostics;
+  }
+}
@@ -0,0 +1,188 @@
+import {
+  mat4,
+  quat,
+  vec3,
+  ReadonlyMat4,
+  ReadonlyQuat,
+  ReadonlyVec3,
+} from 'gl-matrix';
+import type { Mesh } from '../renderer/renderer';
+
+/**
+ * A node in the scene graph.
+ *
+ * Each node has a transform (position, rotation and scale) relative to its
+ * parent, so moving a parent moves all of its children along with it. A node
+ * can optionally have a mesh attached, which the renderer draws using the
+ * node's world matrix.
+ *
+ * Matrices are only recalculated when something has actually changed: setting
+ * the transform marks the local matrix as dirty, and a node's world matrix is
+ * recalculated when its own local matrix or its parent's world matrix changed.
+ */
+export class SceneNode {
+  public mesh: Mesh | null = null;
+  // Invisible nodes are skipped by the renderer, along with their children
+  public visible = true;
+
+  private _parent: SceneNode | null = null;
+  private _children: SceneNode[] = [];
+
+  private position = vec3.create();
+  private rotation = quat.create();
+  private scale = vec3.fromValues(1, 1, 1);
+
+  private localMatrix = mat4.create();
+  private worldMatrix = mat4.create();
+  private localDirty = false;
+  private worldDirty = false;
+
+  // Bumped every time the world matrix is recalculated, so that children can
+  // tell whether the parent has moved since they last looked
+  private worldVersion = 0;
+  private parentWorldVersion = -1;
+
+  constructor(public name = '') {}
+
+  get parent(): SceneNode | null {
+    return this._parent;
+  }
+
+  get children(): readonly SceneNode[] {
+    return this._children;
+  }
+
+  getPosition(): ReadonlyVec3 {
+    return this.position;
+  }
+
+  setPosition(x: number, y: number, z: number) {
+    vec3.set(this.position, x, y, z);
+    this.localDirty = true;
+  }
+
+  getRotation(): ReadonlyQuat {
+    return this.rotation;
+  }
+
+  setRotation(rotation: ReadonlyQuat) {
+    quat.copy(this.rotation, rotation);
+    this.localDirty = true;
+  }
+
+  rotateX(radians: number) {
+    quat.rotateX(this.rotation, this.rotation, radians);
+    this.localDirty = true;
+  }
+
+  rotateY(radians: number) {
+    quat.rotateY(this.rotation, this.rotation, radians);
+    this.localDirty = true;
+  }
+
+  rotateZ(radians: number) {
+    quat.rotateZ(this.rotation, this.rotation, radians);
+    this.localDirty = true;
+  }
+
+  getScale(): ReadonlyVec3 {
+    return this.scale;
+  }
+
+  setScale(x: number, y: number, z: number) {
+    vec3.set(this.scale, x, y, z);
+    this.localDirty = true;
+  }
+
+  /**
+   * Attaches a child to this node. If the child already has a parent, it's
+   * detached from it first.
+   */
+  add(child: SceneNode) {
+    // A node can't end up as its own ancestor, or traversal would never end
+    for (let node: SceneNode | null = this; node; node = node._parent) {
+      if (node === child) {
+        throw new Error(
+          `Cannot add node '${child.name}' as a descendant of itself`
+        );
+      }
+    }
+
+    child.removeFromParent();
+    this._children.push(child);
+    child._parent = this;
+    child.worldDirty = true;
+  }
+
+  remove(child: SceneNode) {
+    const index = this._children.indexOf(child);
+    if (index === -1) {
+      throw new Error(
+        `Node '${child.name}' is not a child of node '${this.name}'`
+      );
+    }
+
+    this._children.splice(index, 1);
+    child._parent = null;
+    child.worldDirty = true;
+  }
+
+  removeFromParent() {
+    this._parent?.remove(this);
+  }
+
+  /**
+   * Visits this node and all of its descendants, depth first. Each node is
+   * visited before its children, and children are visited in the order they
+   * were added. If the callback returns `false`, the node's children are
+   * skipped.
+   */
+  traverse(callback: (node: SceneNode) => boolean | void) {
+    if (callback(this) === false) {
+      return;
+    }
+    for (const child of this._children) {
+      child.traverse(callback);
+    }
+  }
+
+  getLocalMatrix(): ReadonlyMat4 {
+    if (this.localDirty) {
+      mat4.fromRotationTranslationScale(
+        this.localMatrix,
+        this.rotation,
+        this.position,
+        this.scale
+      );
+      this.localDirty = false;
+      this.worldDirty = true;
+    }
+    return this.localMatrix;
+  }
+
+  /**
+   * Gets the matrix that transforms from this node's local space to world
+   * space, recalculating it (and any out of date ancestors) if needed.
+   */
+  getWorldMatrix(): ReadonlyMat4 {
+    const parentMatrix = this._parent?.getWorldMatrix() ?? null;
+    const localMatrix = this.getLocalMatrix();
+
+    if (this._parent && this._parent.worldVersion !== this.parentWorldVersion) {
+      this.worldDirty = true;
+    }
+
+    if (this.worldDirty) {
+      if (parentMatrix) {
+        mat4.multiply(this.worldMatrix, parentMatrix, localMatrix);
+      } else {
+        mat4.copy(this.worldMatrix, localMatrix);
+      }
+      this.parentWorldVersion = this._parent?.worldVersion ?? -1;
+      this.worldVersion++;
+      this.worldDirty = false;
+    }
+
+    return this.worldMatrix;
+  }
+}
@@ -1 +1,6 @@
-export class World {}
+import { SceneNode } from './scene-node';
+
+export class World {
+  // Everything in the world hangs off this node
+  public readonly root = new SceneNode('root');
+}
@@ -0,0 +1,252 @@
+import { vec2 } from 'gl-matrix';
+import { Camera } from './camera';
+
+export interface CameraControllerOptions {
+  // Screen heights per second
+  keyboardPanSpeed?: number;
+  // Zoom per pixel of wheel scrolling
+  wheelZoomSpeed?: number;
+  minZoom?: number;
+  maxZoom?: number;
+  // Fraction of velocity kept after one second of gliding, 0..1
+  inertia?: number;
+  // Defaults to window, so keys work without focusing the canvas
+  keyboardTarget?: EventTarget;
+}
+
+const keyDirections: Record<string, [number, number]> = {
+  KeyW: [0, 1],
+  ArrowUp: [0, 1],
+  KeyS: [0, -1],
+  ArrowDown: [0, -1],
+  KeyA: [-1, 0],
+  ArrowLeft: [-1, 0],
+  KeyD: [1, 0],
+  ArrowRight: [1, 0],
+};
+
+// World units per second below which gliding stops
+const minInertiaSpeed = 0.0001;
+// A drag released after holding still this long (ms) shouldn't glide
+const releaseGlideTimeout = 100;
+const wheelLineHeight = 16;
+const wheelPageHeight = 800;
+
+// Drag/one finger pans, wheel/pinch zooms around the cursor, WASD/arrows pan.
+// Input is handled as events arrive; call update(dt) each frame for keyboard
+// movement and inertia, and detach() to remove all listeners.
+export class CameraController {
+  // World units per second
+  private velocity = vec2.create();
+  // Active pointers by id, in client (CSS pixel) coordinates
+  private pointers = new Map<number, vec2>();
+  private lastPointerMoveTime = 0;
+  private keysDown = new Set<string>();
+  private originalTouchAction: string;
+
+  private keyboardPanSpeed: number;
+  private wheelZoomSpeed: number;
+  private minZoom: number;
+  private maxZoom: number;
+  private inertia: number;
+  private keyboardTarget: EventTarget;
+
+  constructor(
+    private camera: Camera,
+    private canvas: HTMLCanvasElement,
+    options: CameraControllerOptions = {}
+  ) {
+    this.keyboardPanSpeed = options.keyboardPanSpeed ?? 1;
+    this.wheelZoomSpeed = options.wheelZoomSpeed ?? 0.002;
+    this.minZoom = options.minZoom ?? 0.1;
+    this.maxZoom = options.maxZoom ?? 10;
+    this.inertia = options.inertia ?? 0.05;
+    this.keyboardTarget = options.keyboardTarget ?? window;
+
+    // Stop the browser scrolling/zooming the page on touch
+    this.originalTouchAction = this.canvas.style.touchAction;
+    this.canvas.style.touchAction = 'none';
+
+    this.canvas.addEventListener('pointerdown', this.onPointerDown);
+    this.canvas.addEventListener('pointermove', this.onPointerMove);
+    this.canvas.addEventListener('pointerup', this.onPointerUp);
+    this.canvas.addEventListener('pointercancel', this.onPointerUp);
+    this.canvas.addEventListener('wheel', this.onWheel, { passive: false });
+    this.keyboardTarget.addEventListener('keydown', this.onKeyDown);
+    this.keyboardTarget.addEventListener('keyup', this.onKeyUp);
+    // Key releases are missed while unfocused
+    this.keyboardTarget.addEventListener('blur', this.onBlur);
+  }
+
+  public detach() {
+    this.canvas.removeEventListener('pointerdown', this.onPointerDown);
+    this.canvas.removeEventListener('pointermove', this.onPointerMove);
+    this.canvas.removeEventListener('pointerup', this.onPointerUp);
+    this.canvas.removeEventListener('pointercancel', this.onPointerUp);
+    this.canvas.removeEventListener('wheel', this.onWheel);
+    this.keyboardTarget.removeEventListener('keydown', this.onKeyDown);
+    this.keyboardTarget.removeEventListener('keyup', this.onKeyUp);
+    this.keyboardTarget.removeEventListener('blur', this.onBlur);
+
+    this.canvas.style.touchAction = this.originalTouchAction;
+    this.pointers.clear();
+    this.keysDown.clear();
+    vec2.zero(this.velocity);
+  }
+
+  // deltaTime in seconds
+  public update(deltaTime: number) {
+    // The camera follows held pointers exactly
+    if (this.pointers.size > 0) {
+      return;
+    }
+
+    const direction = vec2.create();
+    for (const key of this.keysDown) {
+      vec2.add(direction, direction, keyDirections[key]);
+    }
+
+    if (direction[0] !== 0 || direction[1] !== 0) {
+      // Constant on-screen speed at any zoom (the screen is 2 units high)
+      vec2.scale(
+        this.velocity,
+        vec2.normalize(direction, direction),
+        (this.keyboardPanSpeed * 2) / this.camera.zoom
+      );
+    } else {
+      // Frame-rate independent decay
+      vec2.scale(this.velocity, this.velocity, this.inertia ** deltaTime);
+      if (vec2.length(this.velocity) < minInertiaSpeed) {
+        vec2.zero(this.velocity);
+      }
+    }
+
+    vec2.scaleAndAdd(
+      this.camera.position,
+      this.camera.position,
+      this.velocity,
+      deltaTime
+    );
+  }
+
+  // Zoom while keeping the world point under (clientX, clientY) in place
+  private zoomAt(factor: number, clientX: number, clientY: number) {
+    const before = this.camera.screenToWorld(clientX, clientY);
+    this.camera.zoom = Math.min(
+      this.maxZoom,
+      Math.max(this.minZoom, this.camera.zoom * factor)
+    );
+    const after = this.camera.screenToWorld(clientX, clientY);
+    vec2.add(
+      this.camera.position,
+      this.camera.position,
+      vec2.subtract(before, before, after)
+    );
+  }
+
+  // Centroid of the active pointers and their mean distance from it
+  private getPointerCentre(): { centre: vec2; spread: number } {
+    const centre = vec2.create();
+    for (const position of this.pointers.values()) {
+      vec2.add(centre, centre, position);
+    }
+    vec2.scale(centre, centre, 1 / this.pointers.size);
+
+    let spread = 0;
+    for (const position of this.pointers.values()) {
+      spread += vec2.distance(centre, position);
+    }
+    spread /= this.pointers.size;
+
+    return { centre, spread };
+  }
+
+  private onPointerDown = (event: PointerEvent) => {
+    this.canvas.setPointerCapture?.(event.pointerId);
+    this.pointers.set(
+      event.pointerId,
+      vec2.fromValues(event.clientX, event.clientY)
+    );
+    this.lastPointerMoveTime = event.timeStamp;
+    vec2.zero(this.velocity);
+  };
+
+  private onPointerMove = (event: PointerEvent) => {
+    const position = this.pointers.get(event.pointerId);
+    if (!position) {
+      return;
+    }
+
+    const before = this.getPointerCentre();
+    vec2.set(position, event.clientX, event.clientY);
+    const after = this.getPointerCentre();
+
+    // Pinch, around the old centre so the pan below moves that point to the
+    // new one
+    if (this.pointers.size > 1 && before.spread > 0 && after.spread > 0) {
+      this.zoomAt(
+        after.spread / before.spread,
+        before.centre[0],
+        before.centre[1]
+      );
+    }
+
+    // Pan so the grabbed world point stays under the pointers
+    const worldBefore = this.camera.screenToWorld(
+      before.centre[0],
+      before.centre[1]
+    );
+    const worldAfter = this.camera.screenToWorld(
+      after.centre[0],
+      after.centre[1]
+    );
+    const movement = vec2.subtract(vec2.create(), worldBefore, worldAfter);
+    vec2.add(this.camera.position, this.camera.position, movement);
+
+    const deltaTime = (event.timeStamp - this.lastPointerMoveTime) / 1000;
+    if (deltaTime > 0) {
+      vec2.scale(this.velocity, movement, 1 / deltaTime);
+    }
+    this.lastPointerMoveTime = event.timeStamp;
+  };
+
+  private onPointerUp = (event: PointerEvent) => {
+    this.pointers.delete(event.pointerId);
+    if (event.timeStamp - this.lastPointerMoveTime > releaseGlideTimeout) {
+      vec2.zero(this.velocity);
+    }
+  };
+
+  private onWheel = (event: WheelEvent) => {
+    event.preventDefault();
+
+    let deltaY = event.deltaY;
+    if (event.deltaMode === WheelEvent.DOM_DELTA_LINE) {
+      deltaY *= wheelLineHeight;
+    } else if (event.deltaMode === WheelEvent.DOM_DELTA_PAGE) {
+      deltaY *= wheelPageHeight;
+    }
+
+    // Exponential so each wheel step zooms by the same proportion
+    this.zoomAt(
+      Math.exp(-deltaY * this.wheelZoomSpeed),
+      event.clientX,
+      event.clientY
+    );
+  };
+
+  private onKeyDown = (event: Event) => {
+    const code = (event as KeyboardEvent).code;
+    if (code in keyDirections) {
+      this.keysDown.add(code);
+    }
+  };
+
+  private onKeyUp = (event: Event) => {
+    this.keysDown.delete((event as KeyboardEvent).code);
+  };
+
+  private onBlur = () => {
+    this.keysDown.clear();
+  };
+}
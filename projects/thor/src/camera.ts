@@ -1,6 +1,17 @@
-import { mat4, vec2, vec3 } from 'gl-matrix';
+import { mat4, vec2, vec3, vec4, ReadonlyVec2 } from 'gl-matrix';
 
-export class Camera {
+export interface WorldBounds {
+  // Bottom-left and top-right corners
+  min: vec2;
+  max: vec2;
+}
+
+// Anything objects can be rendered from: 2D, perspective or orbit cameras
+export interface RenderCamera {
+  getViewProjectionMatrix(): mat4;
+}
+
+export class Camera implements RenderCamera {
   public position: vec2;
   public zoom: number;
   private canvas: HTMLCanvasElement;
@@ -46,4 +57,46 @@ export class Camera {
 
     return viewProjectionMatrix;
   }
+
+  // Client coordinates are CSS pixels (as in mouse events), so they're
+  // normalised against the canvas's CSS rect and devicePixelRatio cancels out
+  public screenToWorld(clientX: number, clientY: number): vec2 {
+    const rect = this.canvas.getBoundingClientRect();
+    const clipX = ((clientX - rect.left) / rect.width) * 2 - 1;
+    const clipY = 1 - ((clientY - rect.top) / rect.height) * 2;
+
+    const inverseViewProjection = mat4.invert(
+      mat4.create(),
+      this.getViewProjectionMatrix()
+    );
+    const world = vec3.transformMat4(
+      vec3.create(),
+      vec3.fromValues(clipX, clipY, 0),
+      inverseViewProjection
+    );
+    return vec2.fromValues(world[0], world[1]);
+  }
+
+  // Returns client coordinates in CSS pixels
+  public worldToScreen(position: ReadonlyVec2): vec2 {
+    const clip = vec4.transformMat4(
+      vec4.create(),
+      vec4.fromValues(position[0], position[1], 0, 1),
+      this.getViewProjectionMatrix()
+    );
+
+    const rect = this.canvas.getBoundingClientRect();
+    return vec2.fromValues(
+      rect.left + ((clip[0] + 1) / 2) * rect.width,
+      rect.top + ((1 - clip[1]) / 2) * rect.height
+    );
+  }
+
+  public getVisibleWorldBounds(): WorldBounds {
+    const rect = this.canvas.getBoundingClientRect();
+    return {
+      min: this.screenToWorld(rect.left, rect.bottom),
+      max: this.screenToWorld(rect.right, rect.top),
+    };
+  }
 }
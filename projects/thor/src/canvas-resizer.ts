@@ -0,0 +1,143 @@
+import { FrameScheduler, browserScheduler } from './frame-scheduler';
+
+export interface CanvasResizerOptions {
+  // Caps the device pixel ratio used, since rendering at 3x on phones is
+  // rarely worth the fill rate
+  maxDevicePixelRatio?: number;
+  // Multiplies the final size, e.g. 0.5 to render at half resolution
+  resolutionScale?: number;
+  scheduler?: FrameScheduler;
+}
+
+// width and height are the drawing buffer size in pixels
+export type ResizeCallback = (width: number, height: number) => void;
+
+// Keeps the canvas drawing buffer matched to its displayed size. Size changes
+// are observed with a ResizeObserver, but only applied in update() so that the
+// canvas isn't cleared between a frame being rendered and it being shown.
+export class CanvasResizer {
+  public maxDevicePixelRatio: number;
+
+  private resizeCallbacks: ResizeCallback[] = [];
+  private observer: ResizeObserver | null = null;
+  private _resolutionScale: number;
+  private scheduler: FrameScheduler;
+
+  // Displayed size in physical pixels, as last observed
+  private devicePixelWidth = 0;
+  private devicePixelHeight = 0;
+  // The device pixel ratio the size above was observed at
+  private observedDevicePixelRatio = 1;
+
+  constructor(
+    private canvas: HTMLCanvasElement,
+    options: CanvasResizerOptions = {}
+  ) {
+    this.maxDevicePixelRatio = options.maxDevicePixelRatio ?? 2;
+    this._resolutionScale = options.resolutionScale ?? 1;
+    this.scheduler = options.scheduler ?? browserScheduler;
+
+    // The observer reports asynchronously, so measure now for the first frame
+    this.measure();
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this.observer = new ResizeObserver(this.onObserve);
+      try {
+        // Exact physical pixels, so the canvas maps 1:1 onto the screen
+        this.observer.observe(canvas, { box: 'device-pixel-content-box' });
+      } catch {
+        // Not supported (Safari), so fall back to CSS pixels times DPR
+        this.observer.observe(canvas, { box: 'content-box' });
+      }
+    }
+  }
+
+  get width(): number {
+    return this.canvas.width;
+  }
+
+  get height(): number {
+    return this.canvas.height;
+  }
+
+  get resolutionScale(): number {
+    return this._resolutionScale;
+  }
+
+  set resolutionScale(resolutionScale: number) {
+    if (resolutionScale <= 0) {
+      throw new Error(`Invalid resolution scale: ${resolutionScale}`);
+    }
+    this._resolutionScale = resolutionScale;
+  }
+
+  // Returns a function that removes the callback
+  public onResize(callback: ResizeCallback): () => void {
+    this.resizeCallbacks.push(callback);
+    return () => {
+      const index = this.resizeCallbacks.indexOf(callback);
+      if (index !== -1) {
+        this.resizeCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  // Read the displayed size from the canvas's CSS size, for when there's no
+  // ResizeObserver to report it
+  public measure() {
+    const devicePixelRatio = this.scheduler.getDevicePixelRatio();
+    this.devicePixelWidth = Math.round(
+      this.canvas.clientWidth * devicePixelRatio
+    );
+    this.devicePixelHeight = Math.round(
+      this.canvas.clientHeight * devicePixelRatio
+    );
+    this.observedDevicePixelRatio = devicePixelRatio;
+  }
+
+  // Resize the drawing buffer if its target size changed. Call once per frame
+  // before rendering; returns whether it resized.
+  public update(): boolean {
+    const scale =
+      (Math.min(this.observedDevicePixelRatio, this.maxDevicePixelRatio) /
+        this.observedDevicePixelRatio) *
+      this._resolutionScale;
+    // Zero-sized framebuffers are invalid, e.g. while the canvas is hidden
+    const width = Math.max(1, Math.round(this.devicePixelWidth * scale));
+    const height = Math.max(1, Math.round(this.devicePixelHeight * scale));
+
+    // Assigning the size reallocates the drawing buffer, even if unchanged
+    if (width === this.canvas.width && height === this.canvas.height) {
+      return false;
+    }
+
+    this.canvas.width = width;
+    this.canvas.height = height;
+    for (const callback of this.resizeCallbacks) {
+      callback(width, height);
+    }
+    return true;
+  }
+
+  public disconnect() {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.resizeCallbacks = [];
+  }
+
+  private onObserve = (entries: ResizeObserverEntry[]) => {
+    const entry = entries[entries.length - 1];
+    const devicePixelRatio = this.scheduler.getDevicePixelRatio();
+    const devicePixelSize = entry.devicePixelContentBoxSize?.[0];
+
+    if (devicePixelSize) {
+      this.devicePixelWidth = devicePixelSize.inlineSize;
+      this.devicePixelHeight = devicePixelSize.blockSize;
+    } else {
+      const size = entry.contentBoxSize[0];
+      this.devicePixelWidth = Math.round(size.inlineSize * devicePixelRatio);
+      this.devicePixelHeight = Math.round(size.blockSize * devicePixelRatio);
+    }
+    this.observedDevicePixelRatio = devicePixelRatio;
+  };
+}
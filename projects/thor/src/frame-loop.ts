@@ -0,0 +1,158 @@
+import { FrameScheduler, browserScheduler } from './frame-scheduler';
+
+export interface Clock {
+  // Simulated seconds; frozen while paused and scaled by timeScale
+  readonly time: number;
+  // time plus the fraction of the next step elapsed, for smooth animation
+  readonly renderTime: number;
+  // Fixed step length in seconds
+  readonly deltaTime: number;
+  readonly updateCount: number;
+  readonly frameCount: number;
+}
+
+export type UpdateCallback = (deltaTime: number, clock: Clock) => void;
+// alpha is how far (0..1) the frame is between the last update and the next
+export type RenderCallback = (alpha: number, clock: Clock) => void;
+
+export interface FrameLoopOptions {
+  updatesPerSecond?: number;
+  // Past this many catch-up updates in one frame, skip ahead instead
+  maxUpdatesPerFrame?: number;
+  // Defaults to requestAnimationFrame and performance.now
+  scheduler?: FrameScheduler;
+}
+
+// Cap on the time accounted for between frames, e.g. after a hidden tab
+const maxFrameTime = 0.25;
+
+// Fixed-timestep loop: accumulated frame time is consumed in fixed update
+// steps, and every frame renders with the leftover fraction as alpha
+export class FrameLoop {
+  public timeScale = 1;
+  public readonly scheduler: FrameScheduler;
+
+  private updateCallbacks: UpdateCallback[] = [];
+  private renderCallbacks: RenderCallback[] = [];
+  private clock = {
+    time: 0,
+    renderTime: 0,
+    deltaTime: 0,
+    updateCount: 0,
+    frameCount: 0,
+  };
+  private accumulator = 0;
+  private maxUpdatesPerFrame: number;
+  private frameRequest: number | null = null;
+  // Milliseconds, on the scheduler's timeline
+  private lastFrameTime = 0;
+  private paused = false;
+
+  constructor(options: FrameLoopOptions = {}) {
+    this.clock.deltaTime = 1 / (options.updatesPerSecond ?? 60);
+    this.maxUpdatesPerFrame = options.maxUpdatesPerFrame ?? 5;
+    this.scheduler = options.scheduler ?? browserScheduler;
+  }
+
+  // Paused loops are still running; they keep rendering
+  get isRunning(): boolean {
+    return this.frameRequest !== null;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  public onUpdate(callback: UpdateCallback) {
+    this.updateCallbacks.push(callback);
+  }
+
+  public onRender(callback: RenderCallback) {
+    this.renderCallbacks.push(callback);
+  }
+
+  public start() {
+    if (this.isRunning) {
+      return;
+    }
+    this.lastFrameTime = this.scheduler.now();
+    this.frameRequest = this.scheduler.requestFrame(this.frame);
+  }
+
+  public stop() {
+    if (this.frameRequest !== null) {
+      this.scheduler.cancelFrame(this.frameRequest);
+      this.frameRequest = null;
+    }
+    this.accumulator = 0;
+  }
+
+  // Stops updates and the clock, but keeps rendering
+  public pause() {
+    this.paused = true;
+  }
+
+  public resume() {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    // Don't count the time spent paused
+    this.lastFrameTime = this.scheduler.now();
+  }
+
+  // Run exactly one update, e.g. to step through a paused animation
+  public step() {
+    this.update();
+    if (!this.isRunning) {
+      this.render();
+    }
+  }
+
+  private frame = (now: number) => {
+    // Scheduled first so callbacks can stop the loop
+    this.frameRequest = this.scheduler.requestFrame(this.frame);
+
+    // Frame timestamps can be slightly earlier than now() was when we started
+    const frameTime = Math.min(
+      Math.max(0, now - this.lastFrameTime) / 1000,
+      maxFrameTime
+    );
+    this.lastFrameTime = now;
+
+    if (!this.paused) {
+      this.accumulator += frameTime * this.timeScale;
+
+      let updates = 0;
+      while (this.accumulator >= this.clock.deltaTime) {
+        if (updates === this.maxUpdatesPerFrame) {
+          this.accumulator = 0;
+          break;
+        }
+        this.update();
+        this.accumulator -= this.clock.deltaTime;
+        updates++;
+      }
+    }
+
+    this.render();
+  };
+
+  private update() {
+    for (const callback of this.updateCallbacks) {
+      callback(this.clock.deltaTime, this.clock);
+    }
+    this.clock.time += this.clock.deltaTime;
+    this.clock.updateCount++;
+  }
+
+  private render() {
+    const alpha = this.accumulator / this.clock.deltaTime;
+    this.clock.renderTime = this.clock.time + alpha * this.clock.deltaTime;
+
+    for (const callback of this.renderCallbacks) {
+      callback(alpha, this.clock);
+    }
+    this.clock.frameCount++;
+  }
+}
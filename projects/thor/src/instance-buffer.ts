@@ -0,0 +1,244 @@
+import { Program } from './program';
+import { ResourceTracker } from './resource-tracker';
+
+export interface InstanceAttributeDefinition<Name extends string = string> {
+  // Name of the attribute in the shader
+  name: Name;
+  // How many floats per instance, e.g. 2 for a vec2 or 16 for a mat4
+  size: number;
+}
+
+interface InstanceAttribute extends InstanceAttributeDefinition {
+  // Offset into each instance, in floats
+  offset: number;
+}
+
+// Per-instance attribute data, kept in a CPU-side shadow copy so that any
+// number of writes in a frame become a single upload of the changed range
+export class InstanceBuffer<Name extends string = string> {
+  public buffer: WebGLBuffer;
+  // Floats per instance
+  public readonly stride: number;
+  private attributes: Map<string, InstanceAttribute> = new Map();
+  private data: Float32Array;
+  private count: number = 0;
+  // Instances the shadow data has room for
+  private capacity: number = 0;
+  // Instances the GPU buffer has been allocated for
+  private gpuCapacity: number = 0;
+  // Range of floats written since the last upload, as [start, end)
+  private dirtyStart: number = Infinity;
+  private dirtyEnd: number = 0;
+
+  constructor(
+    private gl: WebGL2RenderingContext,
+    definitions: readonly InstanceAttributeDefinition<Name>[]
+  ) {
+    this.buffer = this.createBuffer();
+
+    let offset = 0;
+    for (const definition of definitions) {
+      if (this.attributes.has(definition.name)) {
+        throw new Error(`Duplicate instance attribute: '${definition.name}'`);
+      }
+      this.attributes.set(definition.name, { ...definition, offset });
+      offset += definition.size;
+    }
+    this.stride = offset;
+    this.data = new Float32Array(0);
+  }
+
+  // Recreate the GPU buffer after a context loss; the next upload refills it
+  // from the shadow data
+  restore() {
+    this.buffer = this.createBuffer();
+    this.gpuCapacity = 0;
+  }
+
+  dispose() {
+    this.gl.deleteBuffer(this.buffer);
+    ResourceTracker.forContext(this.gl).untrack(this.buffer);
+  }
+
+  private createBuffer(): WebGLBuffer {
+    const buffer = this.gl.createBuffer();
+    if (!buffer) {
+      throw new Error('Failed to create instance buffer');
+    }
+    ResourceTracker.forContext(this.gl).track(buffer, 'buffer', 'Instances');
+    return buffer;
+  }
+
+  get instanceCount(): number {
+    return this.count;
+  }
+
+  // Existing instances are kept; new ones start zeroed
+  setCount(count: number) {
+    if (count < 0 || !Number.isInteger(count)) {
+      throw new Error(`Invalid instance count: ${count}`);
+    }
+
+    if (count > this.capacity) {
+      this.capacity = Math.max(count, this.capacity * 2);
+      const data = new Float32Array(this.capacity * this.stride);
+      data.set(this.data);
+      this.data = data;
+    }
+
+    const previousCount = this.count;
+    this.count = count;
+    if (count < previousCount) {
+      this.data.fill(0, count * this.stride, previousCount * this.stride);
+      this.dirtyEnd = Math.min(this.dirtyEnd, count * this.stride);
+    } else if (count > previousCount) {
+      // Make sure the GPU copy of the new instances matches the zeroed shadow
+      this.markDirty(previousCount, count);
+    }
+  }
+
+  set(index: number, name: Name, value: number | ArrayLike<number>) {
+    const attribute = this.getAttribute(name);
+    this.checkIndex(index);
+
+    const values = typeof value === 'number' ? [value] : value;
+    if (values.length !== attribute.size) {
+      throw new Error(
+        `Instance attribute '${name}' expects ${attribute.size} values, ` +
+          `got ${values.length}`
+      );
+    }
+
+    const start = index * this.stride + attribute.offset;
+    this.data.set(values, start);
+    this.dirtyStart = Math.min(this.dirtyStart, start);
+    this.dirtyEnd = Math.max(this.dirtyEnd, start + attribute.size);
+  }
+
+  // A live view of the shadow data; call markDirty after writing through it
+  get(index: number, name: Name): Float32Array {
+    const attribute = this.getAttribute(name);
+    this.checkIndex(index);
+    const start = index * this.stride + attribute.offset;
+    return this.data.subarray(start, start + attribute.size);
+  }
+
+  markDirty(startInstance: number = 0, endInstance: number = this.count) {
+    // Outside the live instances, upload could write past the GPU buffer
+    startInstance = Math.max(0, startInstance);
+    endInstance = Math.min(this.count, endInstance);
+    if (startInstance >= endInstance) {
+      return;
+    }
+    this.dirtyStart = Math.min(this.dirtyStart, startInstance * this.stride);
+    this.dirtyEnd = Math.max(this.dirtyEnd, endInstance * this.stride);
+  }
+
+  // Send pending changes to the GPU in one call. Called by Mesh before drawing.
+  upload() {
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
+
+    if (this.count > this.gpuCapacity) {
+      // Reallocating discards the GPU copy, so send everything
+      this.gl.bufferData(this.gl.ARRAY_BUFFER, this.data, this.gl.DYNAMIC_DRAW);
+      this.gpuCapacity = this.capacity;
+      ResourceTracker.forContext(this.gl).setBytes(
+        this.buffer,
+        this.data.byteLength
+      );
+    } else if (this.dirtyStart < this.dirtyEnd) {
+      this.gl.bufferSubData(
+        this.gl.ARRAY_BUFFER,
+        this.dirtyStart * Float32Array.BYTES_PER_ELEMENT,
+        this.data,
+        this.dirtyStart,
+        this.dirtyEnd - this.dirtyStart
+      );
+    }
+
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+    this.dirtyStart = Infinity;
+    this.dirtyEnd = 0;
+  }
+
+  // Set up divisor-1 attribute pointers into this buffer, to be recorded in a
+  // VAO. Matrix attributes take one location per column.
+  bindAttributes(program: Program) {
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
+
+    for (const attribute of this.attributes.values()) {
+      const programAttribute = program.attributes.get(attribute.name);
+      if (!programAttribute) {
+        continue;
+      }
+
+      const columns = getMatrixColumnCount(this.gl, programAttribute.type);
+      const componentsPerColumn = attribute.size / columns;
+      if (!Number.isInteger(componentsPerColumn) || componentsPerColumn > 4) {
+        throw new Error(
+          `Instance attribute '${attribute.name}' has size ${attribute.size}, ` +
+            `which doesn't fit the shader's ${columns}-column type`
+        );
+      }
+
+      for (let column = 0; column < columns; column++) {
+        const location = programAttribute.location + column;
+        this.gl.enableVertexAttribArray(location);
+        this.gl.vertexAttribPointer(
+          location,
+          componentsPerColumn,
+          this.gl.FLOAT,
+          false,
+          this.stride * Float32Array.BYTES_PER_ELEMENT,
+          (attribute.offset + column * componentsPerColumn) *
+            Float32Array.BYTES_PER_ELEMENT
+        );
+        this.gl.vertexAttribDivisor(location, 1);
+      }
+    }
+
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+  }
+
+  getLocationKey(program: Program): string {
+    return [...this.attributes.keys()]
+      .map((name) => program.getAttribLocation(name))
+      .join(',');
+  }
+
+  private checkIndex(index: number) {
+    if (!Number.isInteger(index) || index < 0 || index >= this.count) {
+      throw new Error(
+        `Instance ${index} is out of range for ${this.count} instances`
+      );
+    }
+  }
+
+  private getAttribute(name: string): InstanceAttribute {
+    const attribute = this.attributes.get(name);
+    if (!attribute) {
+      throw new Error(`Instance attribute '${name}' not found`);
+    }
+    return attribute;
+  }
+}
+
+// Matrix attributes occupy one attribute location per column
+function getMatrixColumnCount(gl: WebGL2RenderingContext, type: number) {
+  switch (type) {
+    case gl.FLOAT_MAT2:
+    case gl.FLOAT_MAT2x3:
+    case gl.FLOAT_MAT2x4:
+      return 2;
+    case gl.FLOAT_MAT3:
+    case gl.FLOAT_MAT3x2:
+    case gl.FLOAT_MAT3x4:
+      return 3;
+    case gl.FLOAT_MAT4:
+    case gl.FLOAT_MAT4x2:
+    case gl.FLOAT_MAT4x3:
+      return 4;
+    default:
+      return 1;
+  }
+}
@@ -1,8 +1,14 @@
 import { RenderManager } from './render-manager';
+import { RenderQueue } from './render-queue';
 
 import { Camera } from './camera';
+import { CameraController } from './camera-controller';
 import { TriangleObject } from './triangle';
 
+// How far the pointer can move between pressing and releasing before the
+// click counts as the end of a drag rather than a pick, in CSS pixels
+const clickSlop = 4;
+
 function main() {
   const canvas = document.getElementById('webgl-canvas');
   if (!canvas || !(canvas instanceof HTMLCanvasElement)) {
@@ -12,13 +18,40 @@ function main() {
   const renderManager = new RenderManager(canvas);
 
   const camera = new Camera(canvas);
+  const cameraController = new CameraController(camera, canvas);
 
   const triangleObject = new TriangleObject(renderManager.gl);
 
-  renderManager.addRenderCallback(() => {
-    camera.zoom = (Math.sin(performance.now() / 500) + 1) / 5 + 0.5;
-    camera.position[0] = Math.sin(performance.now() / 250) / 10;
-    triangleObject.render(camera);
+  const picker = renderManager.createPicker<TriangleObject>();
+  picker.add(triangleObject);
+  let pressedAt: [number, number] | null = null;
+  canvas.addEventListener('pointerdown', (event) => {
+    pressedAt = [event.clientX, event.clientY];
+  });
+  canvas.addEventListener('click', (event) => {
+    // Panning the camera ends with a click too, which shouldn't pick
+    if (
+      pressedAt &&
+      Math.hypot(event.clientX - pressedAt[0], event.clientY - pressedAt[1]) >
+        clickSlop
+    ) {
+      return;
+    }
+    picker
+      .pick(event.clientX, event.clientY, camera)
+      .then((result) => triangleObject.highlight(result?.instance ?? null))
+      .catch((error) => console.error('Failed to pick', error));
+  });
+
+  renderManager.addUpdateCallback((deltaTime) => {
+    cameraController.update(deltaTime);
+  });
+
+  const renderQueue = new RenderQueue(renderManager.gl);
+
+  renderManager.addRenderCallback((_alpha, clock) => {
+    triangleObject.render(renderQueue, clock);
+    renderQueue.execute({ camera, clock });
   });
 
   renderManager.startRendering();
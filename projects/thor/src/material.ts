@@ -0,0 +1,156 @@
+import { RenderCamera } from './camera';
+import { Clock } from './frame-loop';
+import { Program, ProgramOptions, UniformValue } from './program';
+import { Texture } from './texture';
+
+export interface FrameContext {
+  camera: RenderCamera;
+  clock: Clock;
+}
+
+// A promise is a texture that's still loading; until it loads, or while the
+// slot is null, a placeholder is bound instead
+export type MaterialTexture = Texture | Promise<Texture> | null;
+
+export interface MaterialOptions extends ProgramOptions {
+  uniforms?: Record<string, UniformValue>;
+  // Keyed by sampler uniform name
+  textures?: Record<string, MaterialTexture>;
+  // RGBA 0-255 of the placeholder, opaque white by default so that it
+  // multiplies away
+  placeholderColor?: [number, number, number, number];
+}
+
+// A program with the uniform values and textures it's drawn with, all set by
+// bind(). Uniforms are reapplied on every bind, so they survive a context
+// loss. Each texture slot gets its own unit, in the order slots were added.
+// uViewProjectionMatrix and uTime come from the frame context, if the shader
+// uses them.
+export class Material {
+  // Created and disposed by the material
+  public readonly program: Program;
+
+  private uniforms: Map<string, UniformValue> = new Map();
+  private textures: Map<string, MaterialTexture> = new Map();
+  // Created the first time a slot needs it
+  private placeholder: Texture | null = null;
+  private placeholderColor: [number, number, number, number];
+
+  constructor(
+    private gl: WebGL2RenderingContext,
+    vertexShaderSource: string,
+    fragmentShaderSource: string,
+    options: MaterialOptions = {}
+  ) {
+    this.program = new Program(
+      gl,
+      vertexShaderSource,
+      fragmentShaderSource,
+      options
+    );
+    this.placeholderColor = options.placeholderColor ?? [255, 255, 255, 255];
+
+    for (const [name, value] of Object.entries(options.uniforms ?? {})) {
+      this.setUniform(name, value);
+    }
+    for (const [name, texture] of Object.entries(options.textures ?? {})) {
+      this.setTexture(name, texture);
+    }
+  }
+
+  // Checked now rather than on bind, so the error points at the mistake
+  public setUniform(name: string, value: UniformValue) {
+    if (!this.program.uniforms.has(name)) {
+      throw new Error(
+        `Uniform '${name}' is not active in the material's program`
+      );
+    }
+    this.uniforms.set(name, value);
+  }
+
+  // Textures aren't owned by the material, so they can be shared; whoever
+  // created them disposes them
+  public setTexture(name: string, texture: MaterialTexture) {
+    if (!this.program.uniforms.has(name)) {
+      throw new Error(
+        `Sampler '${name}' is not active in the material's program`
+      );
+    }
+    this.textures.set(name, texture);
+
+    if (texture instanceof Promise) {
+      texture.then(
+        (loaded) => {
+          // Unless the slot was given something else while it loaded
+          if (this.textures.get(name) === texture) {
+            this.textures.set(name, loaded);
+          }
+        },
+        // Keeps the placeholder; the loader handles the error
+        () => {}
+      );
+    }
+  }
+
+  // Null while the slot is empty or still loading
+  public getTexture(name: string): Texture | null {
+    const texture = this.textures.get(name);
+    return texture instanceof Texture ? texture : null;
+  }
+
+  // What bind() binds, in texture unit order. null stands for the placeholder.
+  public getBoundTextures(): (Texture | null)[] {
+    return [...this.textures.values()].map((texture) =>
+      texture instanceof Texture ? texture : null
+    );
+  }
+
+  // Sets every uniform and binds every texture, ready to draw with `program`
+  public bind(frameContext: FrameContext) {
+    const program = this.program;
+
+    if (program.uniforms.has('uViewProjectionMatrix')) {
+      program.setUniform(
+        'uViewProjectionMatrix',
+        frameContext.camera.getViewProjectionMatrix()
+      );
+    }
+    if (program.uniforms.has('uTime')) {
+      program.setUniform('uTime', frameContext.clock.renderTime);
+    }
+
+    for (const [name, value] of this.uniforms) {
+      program.setUniform(name, value);
+    }
+
+    let unit = 0;
+    for (const [name, texture] of this.textures) {
+      program.setUniform(name, unit);
+      if (texture instanceof Texture) {
+        texture.bind(unit);
+      } else {
+        this.getPlaceholder().bind(unit);
+      }
+      unit++;
+    }
+  }
+
+  // Doesn't dispose the textures
+  public dispose() {
+    this.program.dispose();
+    this.placeholder?.dispose();
+    this.placeholder = null;
+  }
+
+  private getPlaceholder(): Texture {
+    if (!this.placeholder) {
+      const image = new ImageData(
+        new Uint8ClampedArray(this.placeholderColor),
+        1,
+        1
+      );
+      this.placeholder = new Texture(this.gl, image);
+    }
+    return this.placeholder;
+  }
+}
@@ -1,182 +1,327 @@
-import { vec2, vec3 } from 'gl-matrix';
+import { InstanceAttributeDefinition, InstanceBuffer } from './instance-buffer';
 import { Program } from './program';
+import { RenderState, RenderStateCache } from './render-state';
+import { ResourceRegistry } from './resource-registry';
+import { ResourceTracker } from './resource-tracker';
+import { Vertex, VertexLayout } from './vertex-layout';
 
-interface Vertex {
-  position: vec3;
-  uv: vec2;
+export interface MeshOptions {
+  // STATIC_DRAW (default), DYNAMIC_DRAW for occasional edits, or STREAM_DRAW
+  // for data rewritten every frame
+  usage?: number;
 }
 
-interface InstanceAttributeDefinition {
-  // Name of the attribute in the shader
-  name: string;
-  // How many floats per instance
-  size: number;
-}
-
-interface InstanceAttribute extends InstanceAttributeDefinition {
-  offset: number;
-}
+// Indices start at 0, so 16-bit indices can address 65536 vertices
+const maxUint16VertexCount = 0xffff + 1;
 
-const elementsPerPosition = 3;
-const elementsPerUV = 2;
-const elementsPerVertex = elementsPerPosition + elementsPerUV;
-
-export class Mesh {
+export class Mesh<InstanceName extends string = string> {
   public buffer: WebGLBuffer;
-  public instanceBuffer: WebGLBuffer;
-  private instanceCount: number = 0;
-  private instanceAttributes: Map<string, InstanceAttribute> = new Map();
-  private instanceAttributeSize: number = 0;
+  public readonly instances: InstanceBuffer<InstanceName>;
+  // Only set for indexed meshes, where every three indices form a triangle
+  public indexBuffer: WebGLBuffer | null = null;
+  private indexType: number = 0;
+  private indexCount: number = 0;
   private vertexCount: number;
+  // Vertices the buffer has room for, which can exceed vertexCount so that
+  // growing meshes don't reallocate on every append
+  private vertexCapacity: number;
+  private usage: number;
+  // CPU-side copies of what's in the buffers, to rebuild them from after a
+  // context loss
+  private vertexData: Uint8Array;
+  private indexData: Uint16Array | Uint32Array | null = null;
+  // One VAO per program attribute layout, so drawing is just a bind + draw
+  private vertexArrays: Map<string, WebGLVertexArrayObject> = new Map();
+  private stateCache: RenderStateCache;
 
   constructor(
     private gl: WebGL2RenderingContext,
+    public readonly layout: VertexLayout,
     vertices: Vertex[],
-    instanceAttributeDefinition: InstanceAttributeDefinition[] = []
+    instanceAttributeDefinition: readonly InstanceAttributeDefinition<InstanceName>[] = [],
+    indices?: ArrayLike<number>,
+    options: MeshOptions = {}
   ) {
+    this.usage = options.usage ?? this.gl.STATIC_DRAW;
+    this.stateCache = RenderStateCache.forContext(gl);
+
+    this.instances = new InstanceBuffer(this.gl, instanceAttributeDefinition);
+
+    // Interleave the vertices as described by the layout
+    this.vertexData = new Uint8Array(this.layout.pack(vertices));
+    this.vertexCount = vertices.length;
+    this.vertexCapacity = vertices.length;
+    this.buffer = this.createVertexBuffer();
+
+    if (indices) {
+      this.setIndices(indices);
+      this.indexBuffer = this.createIndexBuffer();
+    }
+
+    ResourceRegistry.forContext(gl).register(this);
+  }
+
+  private createVertexBuffer(): WebGLBuffer {
     const buffer = this.gl.createBuffer();
     if (!buffer) {
       throw new Error('Failed to create buffer');
     }
 
-    this.buffer = buffer;
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, buffer);
+    this.gl.bufferData(this.gl.ARRAY_BUFFER, this.vertexData, this.usage);
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
 
-    const instanceBuffer = this.gl.createBuffer();
-    if (!instanceBuffer) {
-      throw new Error('Failed to create instance buffer');
-    }
-    this.instanceBuffer = instanceBuffer;
+    ResourceTracker.forContext(this.gl).track(
+      buffer,
+      'buffer',
+      'Mesh vertices',
+      this.vertexData.byteLength
+    );
+    return buffer;
+  }
 
-    let offset = 0;
-    for (const attr of instanceAttributeDefinition) {
-      this.instanceAttributes.set(attr.name, {
-        ...attr,
-        offset,
-      });
-      offset += attr.size;
-      this.instanceAttributeSize += attr.size;
+  private checkIndices(indices: ArrayLike<number>, vertexCount: number) {
+    for (let i = 0; i < indices.length; i++) {
+      if (indices[i] < 0 || indices[i] >= vertexCount) {
+        throw new Error(
+          `Index ${indices[i]} at position ${i} is out of range for a mesh ` +
+            `with ${vertexCount} vertices`
+        );
+      }
     }
+  }
 
-    this.vertexCount = vertices.length;
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
+  private setIndices(indices: ArrayLike<number>) {
+    this.checkIndices(indices, this.vertexCount);
 
-    // Flatten vertex array so all x, y, z components are laid out sequentially
-    const vertexData = new Float32Array(vertices.length * elementsPerVertex);
-    for (let i = 0; i < vertices.length; i++) {
-      // x, y, z
-      vertexData[i * elementsPerVertex] = vertices[i].position[0];
-      vertexData[i * elementsPerVertex + 1] = vertices[i].position[1];
-      vertexData[i * elementsPerVertex + 2] = vertices[i].position[2];
+    // Use the smallest index type that can address every vertex
+    if (this.vertexCount <= maxUint16VertexCount) {
+      this.indexData = Uint16Array.from(indices);
+      this.indexType = this.gl.UNSIGNED_SHORT;
+    } else {
+      this.indexData = Uint32Array.from(indices);
+      this.indexType = this.gl.UNSIGNED_INT;
+    }
+    this.indexCount = indices.length;
+  }
 
-      // u, v
-      vertexData[i * elementsPerVertex + 3] = vertices[i].uv[0];
-      vertexData[i * elementsPerVertex + 4] = vertices[i].uv[1];
+  private createIndexBuffer(): WebGLBuffer {
+    const indexBuffer = this.gl.createBuffer();
+    if (!indexBuffer) {
+      throw new Error('Failed to create index buffer');
     }
 
-    this.gl.bufferData(this.gl.ARRAY_BUFFER, vertexData, this.gl.STATIC_DRAW);
+    // Otherwise the index buffer would end up in whichever VAO is bound
+    this.stateCache.bindVertexArray(null);
+    this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+    this.gl.bufferData(
+      this.gl.ELEMENT_ARRAY_BUFFER,
+      this.indexData,
+      this.gl.STATIC_DRAW
+    );
+    this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, null);
 
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+    ResourceTracker.forContext(this.gl).track(
+      indexBuffer,
+      'buffer',
+      'Mesh indices',
+      this.indexData?.byteLength
+    );
+    return indexBuffer;
   }
 
-  setInstanceCount(instanceCount: number) {
-    this.instanceCount = instanceCount;
+  // Recreate every buffer after a context loss. The old VAOs died with the
+  // context, so they're rebuilt on the next draw.
+  restore() {
+    this.buffer = this.createVertexBuffer();
+    if (this.indexData) {
+      this.indexBuffer = this.createIndexBuffer();
+    }
+    this.instances.restore();
+    this.vertexArrays.clear();
+  }
 
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.instanceBuffer);
+  // Delete every GPU object. The mesh can't be drawn afterwards.
+  dispose() {
+    this.invalidateVertexArrays();
 
-    const instanceData = new Float32Array(
-      instanceCount * this.instanceAttributeSize
-    );
-    this.gl.bufferData(
-      this.gl.ARRAY_BUFFER,
-      instanceData,
-      this.gl.DYNAMIC_DRAW
-    );
+    const tracker = ResourceTracker.forContext(this.gl);
+    this.gl.deleteBuffer(this.buffer);
+    tracker.untrack(this.buffer);
+    if (this.indexBuffer) {
+      this.gl.deleteBuffer(this.indexBuffer);
+      tracker.untrack(this.indexBuffer);
+      this.indexBuffer = null;
+    }
+    this.instances.dispose();
 
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+    ResourceRegistry.forContext(this.gl).unregister(this);
   }
 
-  setInstanceProperty<T extends Float32Array>(
-    index: number,
-    name: string,
-    data: T
-  ) {
-    const attribute = this.instanceAttributes.get(name);
-    if (!attribute) {
-      throw new Error(`Attribute ${name} not found`);
+  // Overwrite vertices from `start`, or append when start === vertexCount.
+  // Grows the buffer (at least doubling) when the data doesn't fit.
+  updateVertices(start: number, vertices: Vertex[]) {
+    if (start < 0 || start > this.vertexCount) {
+      throw new Error(
+        `Cannot update vertices from ${start} in a mesh with ` +
+          `${this.vertexCount} vertices`
+      );
     }
 
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.instanceBuffer);
+    const end = start + vertices.length;
+    if (end > this.vertexCapacity) {
+      this.growBuffer(Math.max(end, this.vertexCapacity * 2));
+    }
+
+    const data = new Uint8Array(this.layout.pack(vertices));
+    this.vertexData.set(data, start * this.layout.stride);
+
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
     this.gl.bufferSubData(
       this.gl.ARRAY_BUFFER,
-      (index * this.instanceAttributeSize + attribute.offset) *
-        Float32Array.BYTES_PER_ELEMENT,
+      start * this.layout.stride,
       data
     );
-
     this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+
+    this.vertexCount = Math.max(this.vertexCount, end);
   }
 
-  // Display the mesh on screen
-  render(
-    program: Program,
-    positionVariableName: string,
-    uvAttributeName: string
-  ) {
-    program.use();
+  // Replace every vertex, e.g. once per frame with STREAM_DRAW. The buffer is
+  // orphaned first so the upload doesn't stall on draws still using the old
+  // data. Indices, if any, must stay in range of the new vertices.
+  setVertices(vertices: Vertex[]) {
+    if (this.indexData) {
+      this.checkIndices(this.indexData, vertices.length);
+    }
 
-    const positionAttributeLocation =
-      program.getAttribLocation(positionVariableName);
-    const uvAttributeLocation = program.getAttribLocation(uvAttributeName);
+    if (vertices.length > this.vertexCapacity) {
+      this.vertexCapacity = vertices.length;
+      this.vertexData = new Uint8Array(
+        this.vertexCapacity * this.layout.stride
+      );
+    }
+    const data = new Uint8Array(this.layout.pack(vertices));
+    this.vertexData.set(data);
 
-    this.gl.enableVertexAttribArray(positionAttributeLocation);
-    this.gl.enableVertexAttribArray(uvAttributeLocation);
     this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
-    this.gl.vertexAttribPointer(
-      positionAttributeLocation,
-      elementsPerPosition,
-      this.gl.FLOAT,
-      false,
-      elementsPerVertex * Float32Array.BYTES_PER_ELEMENT,
-      0
+    this.gl.bufferData(
+      this.gl.ARRAY_BUFFER,
+      this.vertexCapacity * this.layout.stride,
+      this.usage
     );
-    this.gl.vertexAttribPointer(
-      uvAttributeLocation,
-      elementsPerUV,
-      this.gl.FLOAT,
-      false,
-      elementsPerVertex * Float32Array.BYTES_PER_ELEMENT,
-      elementsPerPosition * Float32Array.BYTES_PER_ELEMENT
+    this.gl.bufferSubData(this.gl.ARRAY_BUFFER, 0, data);
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+    ResourceTracker.forContext(this.gl).setBytes(
+      this.buffer,
+      this.vertexData.byteLength
     );
 
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.instanceBuffer);
-    for (const [name, attribute] of this.instanceAttributes) {
-      const attributeLocation = program.getAttribLocation(name);
-      this.gl.enableVertexAttribArray(attributeLocation);
-
-      this.gl.vertexAttribPointer(
-        attributeLocation,
-        attribute.size,
-        this.gl.FLOAT,
-        false,
-        this.instanceAttributeSize * Float32Array.BYTES_PER_ELEMENT,
-        attribute.offset * Float32Array.BYTES_PER_ELEMENT
+    this.vertexCount = vertices.length;
+  }
+
+  // Reallocate the vertex buffer's storage, re-uploading the existing
+  // vertices from the CPU copy. The buffer object stays the same, so VAOs
+  // referencing it stay valid.
+  private growBuffer(vertexCapacity: number) {
+    const vertexData = new Uint8Array(vertexCapacity * this.layout.stride);
+    vertexData.set(
+      this.vertexData.subarray(0, this.vertexCount * this.layout.stride)
+    );
+    this.vertexData = vertexData;
+    this.vertexCapacity = vertexCapacity;
+
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
+    this.gl.bufferData(this.gl.ARRAY_BUFFER, this.vertexData, this.usage);
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+    ResourceTracker.forContext(this.gl).setBytes(
+      this.buffer,
+      this.vertexData.byteLength
+    );
+  }
+
+  // Keeps existing instance data; set values through `instances`
+  setInstanceCount(instanceCount: number) {
+    this.instances.setCount(instanceCount);
+  }
+
+  // Display the mesh on screen. Each layout attribute feeds the shader
+  // attribute with the same name. Anything the state leaves out uses the
+  // default: depth tested, opaque, no culling.
+  render(program: Program, state: RenderState = {}) {
+    // One upload of everything that changed since the last frame
+    this.instances.upload();
+
+    this.stateCache.apply(state);
+    program.use();
+    this.stateCache.bindVertexArray(this.getVertexArray(program));
+
+    if (this.indexBuffer) {
+      this.gl.drawElementsInstanced(
+        this.gl.TRIANGLES,
+        this.indexCount,
+        this.indexType,
+        0,
+        this.instances.instanceCount
+      );
+    } else {
+      this.gl.drawArraysInstanced(
+        this.gl.TRIANGLES,
+        0,
+        this.vertexCount,
+        this.instances.instanceCount
       );
+    }
+  }
 
-      this.gl.vertexAttribDivisor(attributeLocation, 1);
+  // Must be called if the layout of the data in the buffers changes, since
+  // VAOs remember how to read it
+  invalidateVertexArrays() {
+    const tracker = ResourceTracker.forContext(this.gl);
+    for (const vertexArray of this.vertexArrays.values()) {
+      this.gl.deleteVertexArray(vertexArray);
+      tracker.untrack(vertexArray);
     }
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+    this.vertexArrays.clear();
+  }
 
-    this.gl.drawArraysInstanced(
-      this.gl.TRIANGLES,
-      0,
-      this.vertexCount,
-      this.instanceCount
-    );
+  private getVertexArray(program: Program): WebGLVertexArrayObject {
+    // Programs with their attributes at the same locations can share a VAO
+    const key = [
+      this.layout.getLocationKey(program),
+      this.instances.getLocationKey(program),
+    ].join(',');
+    const existingVertexArray = this.vertexArrays.get(key);
+    if (existingVertexArray) {
+      return existingVertexArray;
+    }
+
+    const vertexArray = this.gl.createVertexArray();
+    if (!vertexArray) {
+      throw new Error('Failed to create vertex array');
+    }
+    this.stateCache.bindVertexArray(vertexArray);
+
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.buffer);
+    this.layout.bindAttributes(this.gl, program);
 
-    // Reset / cleanup
-    this.gl.disableVertexAttribArray(positionAttributeLocation);
-    this.gl.disableVertexAttribArray(uvAttributeLocation);
+    this.instances.bindAttributes(program);
+
+    // The index buffer binding is part of the VAO's state
+    if (this.indexBuffer) {
+      this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+    }
+
+    // The VAO stays bound for drawing. The attributes already point at the
+    // buffer, so unbinding it doesn't affect the VAO.
     this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
-    this.gl.useProgram(null);
+
+    this.vertexArrays.set(key, vertexArray);
+    ResourceTracker.forContext(this.gl).track(
+      vertexArray,
+      'vertexArray',
+      'Mesh vertex array'
+    );
+    return vertexArray;
   }
 }
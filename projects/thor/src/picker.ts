@@ -0,0 +1,292 @@
+import { vec2 } from 'gl-matrix';
+import { Camera, RenderCamera, WorldBounds } from './camera';
+import { CanvasResizer } from './canvas-resizer';
+import { FrameScheduler, browserScheduler } from './frame-scheduler';
+import { RenderStateCache } from './render-state';
+import { RenderTarget } from './render-target';
+import { ResourceTracker } from './resource-tracker';
+import { TextureOptions } from './texture';
+
+export interface Pickable {
+  // Draw with a program using picking-fragment-shader.glsl, with uObjectId
+  // set to objectId and vInstanceId passed from the vertex shader
+  renderPicking(camera: RenderCamera, objectId: number): void;
+  // World space bounds of each instance, for pickBounds() in 2D scenes
+  getInstanceBounds?(): WorldBounds[];
+}
+
+export interface PickResult<T extends Pickable = Pickable> {
+  object: T;
+  instance: number;
+}
+
+export interface PickerOptions {
+  // Read the IDs back through a pixel buffer and fence, so pick() doesn't
+  // stall waiting for the GPU. Falls back to a blocking read if fences aren't
+  // available. On by default.
+  async?: boolean;
+  // Polls the fence once a frame
+  scheduler?: FrameScheduler;
+}
+
+// Finds which object and instance is under the cursor, by drawing object IDs
+// and instance indices into two R32UI attachments and reading back the pixel.
+// Only the pixel under the cursor is drawn, using the scissor test. Depth
+// testing is left as the scene uses it, so what's picked is what's visible.
+export class Picker<T extends Pickable = Pickable> {
+  private target: RenderTarget;
+  private objects: Map<number, T> = new Map();
+  private ids: Map<T, number> = new Map();
+  private nextId = 1;
+  private async: boolean;
+  private scheduler: FrameScheduler;
+
+  constructor(
+    private gl: WebGL2RenderingContext,
+    private canvas: HTMLCanvasElement,
+    resizer: CanvasResizer,
+    options: PickerOptions = {}
+  ) {
+    this.async = options.async ?? true;
+    this.scheduler = options.scheduler ?? browserScheduler;
+
+    this.target = new RenderTarget(gl, resizer.width, resizer.height, {
+      colorAttachments: [getIdAttachment(gl), getIdAttachment(gl)],
+    });
+    this.target.autoResize(resizer);
+  }
+
+  // Objects added later are drawn later, so win ties in pickBounds()
+  public add(object: T) {
+    if (this.ids.has(object)) {
+      return;
+    }
+    const id = this.nextId++;
+    this.objects.set(id, object);
+    this.ids.set(object, id);
+  }
+
+  public remove(object: T) {
+    const id = this.ids.get(object);
+    if (id !== undefined) {
+      this.ids.delete(object);
+      this.objects.delete(id);
+    }
+  }
+
+  // Client coordinates are CSS pixels, as in mouse events. Resolves to null
+  // if nothing is there, or the context was lost before the read finished.
+  public async pick(
+    clientX: number,
+    clientY: number,
+    camera: RenderCamera
+  ): Promise<PickResult<T> | null> {
+    const pixel = this.getPixel(clientX, clientY);
+    if (!pixel || this.gl.isContextLost()) {
+      return null;
+    }
+
+    this.renderIds(pixel, camera);
+
+    const ids = this.async
+      ? await this.readIdsAsync(pixel)
+      : this.readIds(pixel);
+    return ids ? this.getResult(ids[0], ids[1]) : null;
+  }
+
+  // CPU alternative to pick() for 2D scenes: tests the point against each
+  // object's getInstanceBounds(), topmost first. No GPU round trip.
+  public pickBounds(
+    clientX: number,
+    clientY: number,
+    camera: Camera
+  ): PickResult<T> | null {
+    const point = camera.screenToWorld(clientX, clientY);
+    const objects = [...this.objects.values()].reverse();
+    for (const object of objects) {
+      const bounds = object.getInstanceBounds?.() ?? [];
+      for (let instance = bounds.length - 1; instance >= 0; instance--) {
+        if (containsPoint(bounds[instance], point)) {
+          return { object, instance };
+        }
+      }
+    }
+    return null;
+  }
+
+  public dispose() {
+    this.target.dispose();
+    this.objects.clear();
+    this.ids.clear();
+  }
+
+  // Drawing buffer pixel under the cursor, with y up as in GL, or null if
+  // it's outside the canvas
+  private getPixel(clientX: number, clientY: number): [number, number] | null {
+    const rect = this.canvas.getBoundingClientRect();
+    const x = Math.floor(
+      ((clientX - rect.left) / rect.width) * this.target.width
+    );
+    const y = Math.floor(
+      ((rect.bottom - clientY) / rect.height) * this.target.height
+    );
+    if (x < 0 || y < 0 || x >= this.target.width || y >= this.target.height) {
+      return null;
+    }
+    return [x, y];
+  }
+
+  private renderIds([x, y]: [number, number], camera: RenderCamera) {
+    const gl = this.gl;
+    const scissorTest = gl.isEnabled(gl.SCISSOR_TEST);
+    const scissorBox: Int32Array = gl.getParameter(gl.SCISSOR_BOX);
+
+    this.target.bind();
+    gl.enable(gl.SCISSOR_TEST);
+    gl.scissor(x, y, 1, 1);
+
+    // Clears are limited by the colour and depth masks, so reset them first.
+    // Integer attachments can't be cleared with gl.clear.
+    RenderStateCache.forContext(gl).apply();
+    gl.clearBufferuiv(gl.COLOR, 0, [0, 0, 0, 0]);
+    gl.clearBufferuiv(gl.COLOR, 1, [0, 0, 0, 0]);
+    gl.clearBufferfv(gl.DEPTH, 0, [1]);
+
+    for (const [id, object] of this.objects) {
+      object.renderPicking(camera, id);
+    }
+
+    // Reset / cleanup
+    gl.scissor(scissorBox[0], scissorBox[1], scissorBox[2], scissorBox[3]);
+    if (!scissorTest) {
+      gl.disable(gl.SCISSOR_TEST);
+    }
+    this.target.unbind();
+  }
+
+  // Blocks until the GPU has finished drawing
+  private readIds([x, y]: [number, number]): [number, number] {
+    const gl = this.gl;
+    const ids: [number, number] = [0, 0];
+    // RGBA_INTEGER is the one integer read format that's always supported
+    const pixel = new Uint32Array(4);
+
+    const readFramebuffer = gl.getParameter(gl.READ_FRAMEBUFFER_BINDING);
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, this.target.framebuffer);
+    for (let i = 0; i < 2; i++) {
+      gl.readBuffer(gl.COLOR_ATTACHMENT0 + i);
+      gl.readPixels(x, y, 1, 1, gl.RGBA_INTEGER, gl.UNSIGNED_INT, pixel);
+      ids[i] = pixel[0];
+    }
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, readFramebuffer);
+
+    return ids;
+  }
+
+  // Copies the pixel into a pixel pack buffer on the GPU, then waits for a
+  // fence before reading it, so the CPU never waits on the GPU
+  private async readIdsAsync([x, y]: [number, number]): Promise<
+    [number, number] | null
+  > {
+    const gl = this.gl;
+    const tracker = ResourceTracker.forContext(gl);
+
+    const buffer = gl.createBuffer();
+    if (!buffer) {
+      throw new Error('Failed to create buffer');
+    }
+    // One RGBA_INTEGER pixel from each attachment
+    const pixelBytes = 4 * Uint32Array.BYTES_PER_ELEMENT;
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, buffer);
+    gl.bufferData(gl.PIXEL_PACK_BUFFER, pixelBytes * 2, gl.STREAM_READ);
+    tracker.track(buffer, 'buffer', 'Picking readback', pixelBytes * 2);
+
+    const readFramebuffer = gl.getParameter(gl.READ_FRAMEBUFFER_BINDING);
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, this.target.framebuffer);
+    for (let i = 0; i < 2; i++) {
+      gl.readBuffer(gl.COLOR_ATTACHMENT0 + i);
+      // With a pixel pack buffer bound, the last argument is an offset into it
+      gl.readPixels(
+        x,
+        y,
+        1,
+        1,
+        gl.RGBA_INTEGER,
+        gl.UNSIGNED_INT,
+        pixelBytes * i
+      );
+    }
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, readFramebuffer);
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+
+    const sync = gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0);
+    // Make sure the fence is actually sent to the GPU
+    gl.flush();
+
+    try {
+      // Without a fence, getBufferSubData just blocks like readPixels would
+      if (sync && !(await this.waitForSync(sync))) {
+        return null;
+      }
+
+      const pixels = new Uint32Array(8);
+      gl.bindBuffer(gl.PIXEL_PACK_BUFFER, buffer);
+      gl.getBufferSubData(gl.PIXEL_PACK_BUFFER, 0, pixels);
+      gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+      return [pixels[0], pixels[4]];
+    } finally {
+      if (sync) {
+        gl.deleteSync(sync);
+      }
+      gl.deleteBuffer(buffer);
+      tracker.untrack(buffer);
+    }
+  }
+
+  // Resolves to false if the context is lost while waiting
+  private waitForSync(sync: WebGLSync): Promise<boolean> {
+    return new Promise((resolve) => {
+      const poll = () => {
+        if (this.gl.isContextLost()) {
+          resolve(false);
+          return;
+        }
+
+        const status = this.gl.clientWaitSync(sync, 0, 0);
+        if (status === this.gl.WAIT_FAILED) {
+          resolve(false);
+        } else if (status === this.gl.TIMEOUT_EXPIRED) {
+          this.scheduler.requestFrame(poll);
+        } else {
+          resolve(true);
+        }
+      };
+      poll();
+    });
+  }
+
+  private getResult(objectId: number, instance: number): PickResult<T> | null {
+    const object = this.objects.get(objectId);
+    return object ? { object, instance } : null;
+  }
+}
+
+function containsPoint(bounds: WorldBounds, point: vec2): boolean {
+  return (
+    point[0] >= bounds.min[0] &&
+    point[0] <= bounds.max[0] &&
+    point[1] >= bounds.min[1] &&
+    point[1] <= bounds.max[1]
+  );
+}
+
+// Integer attachments can only use nearest filtering
+function getIdAttachment(gl: WebGL2RenderingContext): TextureOptions {
+  return {
+    internalFormat: gl.R32UI,
+    format: gl.RED_INTEGER,
+    type: gl.UNSIGNED_INT,
+    minFilter: gl.NEAREST,
+    magFilter: gl.NEAREST,
+  };
+}
@@ -0,0 +1,212 @@
+import { CanvasResizer } from './canvas-resizer';
+import { Program, ProgramOptions } from './program';
+import { RenderState, RenderStateCache } from './render-state';
+import { RenderTarget, RenderTargetOptions } from './render-target';
+import { ResourceRegistry } from './resource-registry';
+import { Texture, TextureOptions } from './texture';
+
+import fullScreenVertexShaderSource from './shaders/post-processing/full-screen-vertex-shader.glsl?raw';
+import copyFragmentShaderSource from './shaders/post-processing/copy-fragment-shader.glsl?raw';
+
+export interface PostProcessPass {
+  // Disabled passes are skipped; can be toggled between frames
+  enabled: boolean;
+  // Draw input with the effect applied into output, or the canvas if null.
+  // The viewport is already set for the canvas.
+  render(input: Texture, output: RenderTarget | null): void;
+  dispose(): void;
+}
+
+export interface PostProcessChainOptions {
+  // Render the scene in half floats, so colours can go above 1 for bloom and
+  // tone mapping. Needs EXT_color_buffer_float, otherwise RGBA8 is used.
+  hdr?: boolean;
+}
+
+const fullScreenRenderState: RenderState = {
+  depthTest: false,
+  depthWrite: false,
+};
+
+// Draws one triangle covering the viewport with a fragment shader; the
+// building block of every pass. The vertex shader outputs vUv.
+export class FullScreenPass {
+  public readonly program: Program;
+  private stateCache: RenderStateCache;
+
+  constructor(
+    private gl: WebGL2RenderingContext,
+    fragmentShaderSource: string,
+    options: ProgramOptions = {}
+  ) {
+    this.stateCache = RenderStateCache.forContext(gl);
+    this.program = new Program(
+      gl,
+      fullScreenVertexShaderSource,
+      fragmentShaderSource,
+      options
+    );
+  }
+
+  // Each texture is bound to its own unit and set as the sampler uniform of
+  // the same name. Other uniforms must be set on `program` beforehand.
+  public draw(
+    output: RenderTarget | null,
+    textures: Record<string, Texture> = {}
+  ) {
+    output?.bind();
+
+    let unit = 0;
+    for (const [name, texture] of Object.entries(textures)) {
+      this.program.setUniform(name, unit);
+      texture.bind(unit);
+      unit++;
+    }
+
+    // Every pixel is drawn exactly once, so depth and blending only get in
+    // the way
+    this.stateCache.apply(fullScreenRenderState);
+    this.program.use();
+    this.stateCache.bindVertexArray(null);
+    this.gl.drawArrays(this.gl.TRIANGLES, 0, 3);
+
+    output?.unbind();
+  }
+
+  public dispose() {
+    this.program.dispose();
+  }
+}
+
+// Renders the scene into an offscreen target, then runs it through each
+// enabled pass in turn. Passes alternate between two ping-pong targets, and
+// the last one draws straight to the canvas.
+export class PostProcessChain {
+  // When false, the scene is drawn straight to the canvas instead
+  public enabled = true;
+  // The format of the scene and every intermediate target
+  public readonly colorAttachment: TextureOptions;
+
+  private passes: PostProcessPass[] = [];
+  private targets: RenderTarget[] = [];
+  private sceneTarget: RenderTarget;
+  private pingPongTargets: [RenderTarget, RenderTarget];
+  // Presents the scene when no passes are enabled
+  private copyPass: FullScreenPass;
+  private hdr: boolean;
+
+  constructor(
+    public readonly gl: WebGL2RenderingContext,
+    private resizer: CanvasResizer,
+    options: PostProcessChainOptions = {}
+  ) {
+    this.hdr = (options.hdr ?? true) && this.enableFloatRendering();
+    this.colorAttachment = this.hdr
+      ? { internalFormat: gl.RGBA16F, format: gl.RGBA, type: gl.HALF_FLOAT }
+      : {};
+
+    // Registered before the targets, so float rendering is enabled again
+    // before they're recreated
+    ResourceRegistry.forContext(gl).register(this);
+
+    this.sceneTarget = this.createTarget({ depth: true });
+    this.pingPongTargets = [this.createTarget(), this.createTarget()];
+    this.copyPass = new FullScreenPass(gl, copyFragmentShaderSource);
+  }
+
+  get isHDR(): boolean {
+    return this.hdr;
+  }
+
+  public getPasses(): readonly PostProcessPass[] {
+    return this.passes;
+  }
+
+  // Passes run in the order they're added
+  public add<T extends PostProcessPass>(pass: T): T {
+    this.passes.push(pass);
+    return pass;
+  }
+
+  // Doesn't dispose the pass, so it can be added again
+  public remove(pass: PostProcessPass) {
+    const index = this.passes.indexOf(pass);
+    if (index !== -1) {
+      this.passes.splice(index, 1);
+    }
+  }
+
+  // A target in the chain's colour format that follows the canvas size
+  // (times options.scale), for passes that need scratch space. Disposed with
+  // the chain. No depth buffer unless asked for.
+  public createTarget(options: RenderTargetOptions = {}): RenderTarget {
+    const target = new RenderTarget(
+      this.gl,
+      this.resizer.width,
+      this.resizer.height,
+      {
+        colorAttachments: [this.colorAttachment],
+        depth: false,
+        ...options,
+      }
+    );
+    target.autoResize(this.resizer);
+    this.targets.push(target);
+    return target;
+  }
+
+  // Everything drawn from here until end() goes into the scene target
+  public begin() {
+    this.sceneTarget.bind();
+  }
+
+  // Runs the passes and draws the result to output, or the canvas if null
+  public end(output: RenderTarget | null = null) {
+    this.sceneTarget.unbind();
+
+    const passes = this.passes.filter((pass) => pass.enabled);
+    if (passes.length === 0) {
+      this.copyPass.draw(output, { uTexture: this.sceneTarget.getTexture() });
+      return;
+    }
+
+    let input = this.sceneTarget.getTexture();
+    passes.forEach((pass, i) => {
+      if (i === passes.length - 1) {
+        pass.render(input, output);
+        return;
+      }
+
+      const target = this.pingPongTargets[i % 2];
+      pass.render(input, target);
+      input = target.getTexture();
+    });
+  }
+
+  public restore() {
+    if (this.hdr) {
+      this.enableFloatRendering();
+    }
+  }
+
+  // Disposes the passes as well as the chain's own targets
+  public dispose() {
+    for (const pass of this.passes) {
+      pass.dispose();
+    }
+    this.passes = [];
+
+    for (const target of this.targets) {
+      target.dispose();
+    }
+    this.targets = [];
+
+    this.copyPass.dispose();
+    ResourceRegistry.forContext(this.gl).unregister(this);
+  }
+
+  // Extensions have to be enabled again on a restored context
+  private enableFloatRendering(): boolean {
+    return this.gl.getExtension('EXT_color_buffer_float') !== null;
+  }
+}
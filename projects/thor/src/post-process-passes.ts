@@ -0,0 +1,324 @@
+import {
+  FullScreenPass,
+  PostProcessChain,
+  PostProcessPass,
+} from './post-process-chain';
+import { RenderTarget } from './render-target';
+import { Texture } from './texture';
+
+import blurFragmentShaderSource from './shaders/post-processing/blur-fragment-shader.glsl?raw';
+import bloomThresholdFragmentShaderSource from './shaders/post-processing/bloom-threshold-fragment-shader.glsl?raw';
+import bloomCompositeFragmentShaderSource from './shaders/post-processing/bloom-composite-fragment-shader.glsl?raw';
+import vignetteFragmentShaderSource from './shaders/post-processing/vignette-fragment-shader.glsl?raw';
+import colorGradingFragmentShaderSource from './shaders/post-processing/color-grading-fragment-shader.glsl?raw';
+import fxaaFragmentShaderSource from './shaders/post-processing/fxaa-fragment-shader.glsl?raw';
+import toneMappingFragmentShaderSource from './shaders/post-processing/tone-mapping-fragment-shader.glsl?raw';
+
+// A reasonable order when using several: bloom, tone mapping, colour grading,
+// vignette, then FXAA on the final image.
+
+export interface GaussianBlurOptions {
+  // Spacing between samples in pixels; larger is blurrier but can band
+  radius?: number;
+  // Blurring the result again widens the blur without banding
+  iterations?: number;
+  // Resolution of the blur relative to the canvas; lower is cheaper and
+  // blurrier
+  scale?: number;
+}
+
+export class GaussianBlurPass implements PostProcessPass {
+  public enabled = true;
+  public radius: number;
+  public iterations: number;
+
+  private pass: FullScreenPass;
+  private targets: [RenderTarget, RenderTarget];
+
+  constructor(chain: PostProcessChain, options: GaussianBlurOptions = {}) {
+    this.radius = options.radius ?? 1;
+    this.iterations = options.iterations ?? 2;
+
+    this.pass = new FullScreenPass(chain.gl, blurFragmentShaderSource);
+    const scale = options.scale ?? 1;
+    this.targets = [
+      chain.createTarget({ scale }),
+      chain.createTarget({ scale }),
+    ];
+  }
+
+  // Input is only read by the first step, so it can also be the output
+  public render(input: Texture, output: RenderTarget | null) {
+    const [horizontal, vertical] = this.targets;
+    const iterations = Math.max(1, Math.round(this.iterations));
+
+    let source = input;
+    for (let i = 0; i < iterations; i++) {
+      this.blur(source, horizontal, [1, 0]);
+      const last = i === iterations - 1;
+      this.blur(horizontal.getTexture(), last ? output : vertical, [0, 1]);
+      source = vertical.getTexture();
+    }
+  }
+
+  public dispose() {
+    this.pass.dispose();
+    // The targets belong to the chain
+  }
+
+  private blur(
+    input: Texture,
+    output: RenderTarget | null,
+    [x, y]: [number, number]
+  ) {
+    this.pass.program.setUniform('uDirection', [
+      (x * this.radius) / input.width,
+      (y * this.radius) / input.height,
+    ]);
+    this.pass.draw(output, { uTexture: input });
+  }
+}
+
+export interface BloomOptions extends GaussianBlurOptions {
+  // Brightness above which pixels glow
+  threshold?: number;
+  // How strongly the glow is added back
+  intensity?: number;
+}
+
+// Makes bright areas glow, by blurring them and adding them back on top. Best
+// with an HDR chain, where highlights can go well above 1.
+export class BloomPass implements PostProcessPass {
+  public enabled = true;
+  public threshold: number;
+  public intensity: number;
+  // Exposed so its radius and iterations can be adjusted
+  public readonly blur: GaussianBlurPass;
+
+  private thresholdPass: FullScreenPass;
+  private compositePass: FullScreenPass;
+  private brightTarget: RenderTarget;
+
+  constructor(chain: PostProcessChain, options: BloomOptions = {}) {
+    this.threshold = options.threshold ?? 0.8;
+    this.intensity = options.intensity ?? 0.8;
+
+    const scale = options.scale ?? 0.5;
+    this.thresholdPass = new FullScreenPass(
+      chain.gl,
+      bloomThresholdFragmentShaderSource
+    );
+    this.compositePass = new FullScreenPass(
+      chain.gl,
+      bloomCompositeFragmentShaderSource
+    );
+    this.brightTarget = chain.createTarget({ scale });
+    this.blur = new GaussianBlurPass(chain, {
+      radius: options.radius,
+      iterations: options.iterations ?? 3,
+      scale,
+    });
+  }
+
+  public render(input: Texture, output: RenderTarget | null) {
+    this.thresholdPass.program.setUniform('uThreshold', this.threshold);
+    this.thresholdPass.draw(this.brightTarget, { uTexture: input });
+
+    this.blur.render(this.brightTarget.getTexture(), this.brightTarget);
+
+    this.compositePass.program.setUniform('uIntensity', this.intensity);
+    this.compositePass.draw(output, {
+      uTexture: input,
+      uBloomTexture: this.brightTarget.getTexture(),
+    });
+  }
+
+  public dispose() {
+    this.thresholdPass.dispose();
+    this.compositePass.dispose();
+    this.blur.dispose();
+  }
+}
+
+export interface VignetteOptions {
+  // 0 leaves the corners alone, 1 makes them black
+  intensity?: number;
+  // Distance from the centre where darkening ends, where 1 is the corners
+  radius?: number;
+  // How far inside the radius the darkening starts
+  softness?: number;
+}
+
+export class VignettePass implements PostProcessPass {
+  public enabled = true;
+  public intensity: number;
+  public radius: number;
+  public softness: number;
+
+  private pass: FullScreenPass;
+
+  constructor(chain: PostProcessChain, options: VignetteOptions = {}) {
+    this.intensity = options.intensity ?? 0.5;
+    this.radius = options.radius ?? 1;
+    this.softness = options.softness ?? 0.6;
+
+    this.pass = new FullScreenPass(chain.gl, vignetteFragmentShaderSource);
+  }
+
+  public render(input: Texture, output: RenderTarget | null) {
+    this.pass.program.setUniform('uIntensity', this.intensity);
+    this.pass.program.setUniform('uRadius', this.radius);
+    this.pass.program.setUniform('uSoftness', this.softness);
+    this.pass.draw(output, { uTexture: input });
+  }
+
+  public dispose() {
+    this.pass.dispose();
+  }
+}
+
+export interface ColorGradingOptions {
+  // A strip of lutSize square slices, red increasing to the right and green
+  // downwards within a slice, blue increasing from slice to slice. Load it
+  // with linear filtering and no mipmaps. Defaults to an identity LUT.
+  lut?: Texture;
+  lutSize?: number;
+  // How much of the graded colour to use
+  intensity?: number;
+}
+
+export class ColorGradingPass implements PostProcessPass {
+  public enabled = true;
+  public intensity: number;
+
+  private pass: FullScreenPass;
+  private lut: Texture;
+  private lutSize: number;
+  // Only disposed if we created it
+  private ownsLut: boolean;
+
+  constructor(chain: PostProcessChain, options: ColorGradingOptions = {}) {
+    this.intensity = options.intensity ?? 1;
+    this.pass = new FullScreenPass(chain.gl, colorGradingFragmentShaderSource);
+
+    this.lutSize = options.lutSize ?? 16;
+    this.ownsLut = !options.lut;
+    this.lut =
+      options.lut ?? ColorGradingPass.createIdentityLut(chain.gl, this.lutSize);
+  }
+
+  // A LUT that leaves colours unchanged, as a starting point for editing
+  public static createIdentityLut(
+    gl: WebGL2RenderingContext,
+    size: number = 16
+  ): Texture {
+    const image = new ImageData(size * size, size);
+    for (let green = 0; green < size; green++) {
+      for (let blue = 0; blue < size; blue++) {
+        for (let red = 0; red < size; red++) {
+          const i = (green * size * size + blue * size + red) * 4;
+          image.data[i] = Math.round((red / (size - 1)) * 255);
+          image.data[i + 1] = Math.round((green / (size - 1)) * 255);
+          image.data[i + 2] = Math.round((blue / (size - 1)) * 255);
+          image.data[i + 3] = 255;
+        }
+      }
+    }
+
+    return new Texture(gl, image, {
+      minFilter: gl.LINEAR,
+      magFilter: gl.LINEAR,
+      wrapU: gl.CLAMP_TO_EDGE,
+      wrapV: gl.CLAMP_TO_EDGE,
+    });
+  }
+
+  // The previous LUT is disposed if the pass created it
+  public setLut(lut: Texture, lutSize: number) {
+    if (this.ownsLut) {
+      this.lut.dispose();
+    }
+    this.lut = lut;
+    this.lutSize = lutSize;
+    this.ownsLut = false;
+  }
+
+  public render(input: Texture, output: RenderTarget | null) {
+    this.pass.program.setUniform('uLutSize', this.lutSize);
+    this.pass.program.setUniform('uIntensity', this.intensity);
+    this.pass.draw(output, { uTexture: input, uLut: this.lut });
+  }
+
+  public dispose() {
+    this.pass.dispose();
+    if (this.ownsLut) {
+      this.lut.dispose();
+    }
+  }
+}
+
+// Smooths jagged edges. Expects colours in 0-1, so goes after tone mapping.
+export class FXAAPass implements PostProcessPass {
+  public enabled = true;
+
+  private pass: FullScreenPass;
+
+  constructor(chain: PostProcessChain) {
+    this.pass = new FullScreenPass(chain.gl, fxaaFragmentShaderSource);
+  }
+
+  public render(input: Texture, output: RenderTarget | null) {
+    this.pass.program.setUniform('uTexelSize', [
+      1 / input.width,
+      1 / input.height,
+    ]);
+    this.pass.draw(output, { uTexture: input });
+  }
+
+  public dispose() {
+    this.pass.dispose();
+  }
+}
+
+// Matches the TONE_MAPPING_ defines in the shader
+const toneMappingOperators = {
+  none: 0,
+  reinhard: 1,
+  aces: 2,
+};
+
+export type ToneMappingOperator = keyof typeof toneMappingOperators;
+
+export interface ToneMappingOptions {
+  exposure?: number;
+  operator?: ToneMappingOperator;
+}
+
+// Maps HDR colours into the 0-1 range the screen can show
+export class ToneMappingPass implements PostProcessPass {
+  public enabled = true;
+  public exposure: number;
+  public operator: ToneMappingOperator;
+
+  private pass: FullScreenPass;
+
+  constructor(chain: PostProcessChain, options: ToneMappingOptions = {}) {
+    this.exposure = options.exposure ?? 1;
+    this.operator = options.operator ?? 'aces';
+
+    this.pass = new FullScreenPass(chain.gl, toneMappingFragmentShaderSource);
+  }
+
+  public render(input: Texture, output: RenderTarget | null) {
+    this.pass.program.setUniform('uExposure', this.exposure);
+    this.pass.program.setUniform(
+      'uOperator',
+      toneMappingOperators[this.operator]
+    );
+    this.pass.draw(output, { uTexture: input });
+  }
+
+  public dispose() {
+    this.pass.dispose();
+  }
+}
@@ -1,38 +1,138 @@
-import { mat4, vec3 } from 'gl-matrix';
+import { ShaderCompileError } from './shader-compile-error';
+import { preprocessShader, ShaderDefines } from './shader-preprocessor';
+import { RenderStateCache } from './render-state';
+import { ResourceRegistry } from './resource-registry';
+import { ResourceTracker } from './resource-tracker';
+
+export type UniformValue =
+  | number
+  | boolean
+  | Float32List
+  | Int32List
+  | Uint32List;
+
+export interface ProgramOptions {
+  // Injected into both shaders as `#define`s
+  defines?: ShaderDefines;
+  // Files available to `#include`, defaults to everything in `shaders/`
+  includes?: Record<string, string>;
+}
+
+export interface ActiveUniform {
+  // Name in the shader, without the `[0]` suffix WebGL reports for arrays
+  name: string;
+  // GL type, e.g. FLOAT_VEC3
+  type: number;
+  // Number of array elements (1 if not an array)
+  size: number;
+  location: WebGLUniformLocation;
+}
+
+export interface ActiveAttribute {
+  name: string;
+  type: number;
+  size: number;
+  location: number;
+}
+
+interface UniformTypeInfo {
+  glslName: string;
+  // Booleans use the int setters, but are the only kind that takes true/false
+  kind: 'float' | 'int' | 'uint' | 'bool' | 'matrix';
+  // How many numbers make up a single value of this type
+  components: number;
+}
 
 export class Program {
   // The result of compiling and linking vertex and fragment shaders
   public program: WebGLProgram;
 
+  // Only uniforms/attributes that are actually used by the shaders are active
+  private _uniforms: Map<string, ActiveUniform>;
+  private _attributes: Map<string, ActiveAttribute>;
+  // Array elements like `uWeights[2]`, which WebGL doesn't list, looked up on
+  // first use
+  private elementUniforms = new Map<string, ActiveUniform>();
+  private stateCache: RenderStateCache;
+
   constructor(
     private gl: WebGL2RenderingContext,
-    vertexShaderSource: string,
-    fragmentShaderSource: string
+    private vertexShaderSource: string,
+    private fragmentShaderSource: string,
+    private options: ProgramOptions = {}
   ) {
+    this.stateCache = RenderStateCache.forContext(gl);
+    this.program = this.build();
+    this._uniforms = this.reflectUniforms();
+    this._attributes = this.reflectAttributes();
+
+    ResourceRegistry.forContext(gl).register(this);
+  }
+
+  get uniforms(): ReadonlyMap<string, ActiveUniform> {
+    return this._uniforms;
+  }
+
+  get attributes(): ReadonlyMap<string, ActiveAttribute> {
+    return this._attributes;
+  }
+
+  // The program can't be used afterwards
+  dispose() {
+    this.gl.deleteProgram(this.program);
+    ResourceTracker.forContext(this.gl).untrack(this.program);
+    ResourceRegistry.forContext(this.gl).unregister(this);
+  }
+
+  // Recompile after a context loss. Uniform values are lost with the old
+  // program, so they need setting again before drawing.
+  restore() {
+    this.program = this.build();
+    this._uniforms = this.reflectUniforms();
+    this._attributes = this.reflectAttributes();
+    this.elementUniforms.clear();
+  }
+
+  private build(): WebGLProgram {
     const vertexShader = this.compileShader(
-      gl.VERTEX_SHADER,
-      vertexShaderSource
-    );
-    const fragmentShader = this.compileShader(
-      gl.FRAGMENT_SHADER,
-      fragmentShaderSource
+      this.gl.VERTEX_SHADER,
+      this.vertexShaderSource
     );
+    // Otherwise a failed fragment shader leaks the vertex shader
+    let fragmentShader: WebGLShader;
+    try {
+      fragmentShader = this.compileShader(
+        this.gl.FRAGMENT_SHADER,
+        this.fragmentShaderSource
+      );
+    } catch (error) {
+      this.gl.deleteShader(vertexShader);
+      throw error;
+    }
 
-    this.program = this.createProgram(vertexShader, fragmentShader);
+    return this.createProgram(vertexShader, fragmentShader);
   }
 
   private compileShader(type: number, source: string): WebGLShader {
+    const preprocessed = preprocessShader(source, this.options);
+
     const shader = this.gl.createShader(type);
     if (!shader) {
       throw new Error(`Failed to create ${type} shader`);
     }
 
-    this.gl.shaderSource(shader, source);
+    this.gl.shaderSource(shader, preprocessed.source);
     this.gl.compileShader(shader);
 
     if (!this.gl.getShaderParameter(shader, this.gl.COMPILE_STATUS)) {
-      const info = this.gl.getShaderInfoLog(shader);
-      throw new Error(`Failed to compile ${type} shader: ${info}`);
+      const info = this.gl.getShaderInfoLog(shader) ?? '';
+      this.gl.deleteShader(shader);
+      throw new ShaderCompileError(
+        type === this.gl.VERTEX_SHADER ? 'vertex' : 'fragment',
+        preprocessed.source,
+        info,
+        preprocessed.lineMap
+      );
     }
 
     return shader;
@@ -52,63 +152,338 @@ export class Program {
 
     this.gl.linkProgram(program);
 
+    // The linked program doesn't need the shaders any more, and deleting them
+    // lets the driver free their memory
+    this.gl.detachShader(program, vertexShader);
+    this.gl.detachShader(program, fragmentShader);
+    this.gl.deleteShader(vertexShader);
+    this.gl.deleteShader(fragmentShader);
+
     if (!this.gl.getProgramParameter(program, this.gl.LINK_STATUS)) {
       const info = this.gl.getProgramInfoLog(program);
+      this.gl.deleteProgram(program);
       throw new Error(`Failed to link program: ${info}`);
     }
 
+    ResourceTracker.forContext(this.gl).track(program, 'program', 'Program');
     return program;
   }
 
+  private reflectUniforms(): Map<string, ActiveUniform> {
+    const uniforms = new Map<string, ActiveUniform>();
+
+    const count: number = this.gl.getProgramParameter(
+      this.program,
+      this.gl.ACTIVE_UNIFORMS
+    );
+    for (let i = 0; i < count; i++) {
+      const info = this.gl.getActiveUniform(this.program, i);
+      if (!info) {
+        continue;
+      }
+
+      // Uniform block members have no location
+      const location = this.gl.getUniformLocation(this.program, info.name);
+      if (!location) {
+        continue;
+      }
+
+      const name = info.name.endsWith('[0]')
+        ? info.name.slice(0, -'[0]'.length)
+        : info.name;
+
+      uniforms.set(name, { name, type: info.type, size: info.size, location });
+    }
+
+    return uniforms;
+  }
+
+  private reflectAttributes(): Map<string, ActiveAttribute> {
+    const attributes = new Map<string, ActiveAttribute>();
+
+    const count: number = this.gl.getProgramParameter(
+      this.program,
+      this.gl.ACTIVE_ATTRIBUTES
+    );
+    for (let i = 0; i < count; i++) {
+      const info = this.gl.getActiveAttrib(this.program, i);
+
+      // Skip built-ins like gl_VertexID, which some drivers report
+      if (!info || info.name.startsWith('gl_')) {
+        continue;
+      }
+
+      attributes.set(info.name, {
+        name: info.name,
+        type: info.type,
+        size: info.size,
+        location: this.gl.getAttribLocation(this.program, info.name),
+      });
+    }
+
+    return attributes;
+  }
+
   use(): void {
-    this.gl.useProgram(this.program);
+    this.stateCache.useProgram(this.program);
   }
 
   getAttribLocation(name: string): number {
-    return this.gl.getAttribLocation(this.program, name);
+    return this.attributes.get(name)?.location ?? -1;
   }
 
+  // Falls back to WebGL for names it doesn't list, like array elements
   getUniformLocation(name: string): WebGLUniformLocation | null {
-    return this.gl.getUniformLocation(this.program, name);
+    return (
+      this.uniforms.get(name)?.location ??
+      this.gl.getUniformLocation(this.program, name)
+    );
   }
 
-  setUniform1i(location: WebGLUniformLocation | null, value: number): void {
-    if (location == null) {
-      throw new Error('Uniform location is null');
+  // Picks the right `uniform*` call based on the type declared in the shader.
+  // Vectors, matrices and arrays are passed as a flat list of numbers. An
+  // element name like `uWeights[2]` sets from that element onwards.
+  setUniform(name: string, value: UniformValue): void {
+    const uniform = this.findUniform(name);
+    if (!uniform) {
+      const available = [...this.uniforms.keys()].join(', ') || 'none';
+      throw new Error(
+        `Uniform '${name}' is not active (misspelled, or unused and optimised ` +
+          `out by the compiler). Active uniforms: ${available}`
+      );
     }
 
-    this.use();
-    this.gl.uniform1i(location, value);
-    this.gl.useProgram(null);
-  }
+    const typeInfo = this.getUniformTypeInfo(uniform.type);
+
+    if (typeof value === 'boolean' && typeInfo.kind !== 'bool') {
+      throw new Error(
+        `Uniform '${name}' is a ${typeInfo.glslName}, which can't be set to a ` +
+          `boolean (${value})`
+      );
+    }
+
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      if (typeInfo.components !== 1) {
+        throw new Error(
+          `Uniform '${name}' is a ${typeInfo.glslName}, which needs ` +
+            `${typeInfo.components} values, but a single ${typeof value} was given`
+        );
+      }
+      value = [Number(value)];
+    }
+
+    if (
+      value.length === 0 ||
+      value.length % typeInfo.components !== 0 ||
+      value.length > typeInfo.components * uniform.size
+    ) {
+      const expected =
+        uniform.size === 1
+          ? `${typeInfo.components}`
+          : `a multiple of ${typeInfo.components}, up to ${typeInfo.components * uniform.size}`;
+      throw new Error(
+        `Uniform '${name}' is a ${typeInfo.glslName}` +
+          (uniform.size > 1 ? `[${uniform.size}]` : '') +
+          `, which needs ${expected} values, but ${value.length} were given`
+      );
+    }
 
-  setUniform1f(location: WebGLUniformLocation | null, value: number): void {
-    if (location == null) {
-      throw new Error('Uniform location is null');
+    // The int setters would silently truncate fractions, and the uint ones
+    // wrap negatives around
+    if (typeInfo.kind !== 'float' && typeInfo.kind !== 'matrix') {
+      for (const component of value) {
+        if (
+          !Number.isInteger(component) ||
+          (typeInfo.kind === 'uint' && component < 0)
+        ) {
+          throw new Error(
+            `Uniform '${name}' is a ${typeInfo.glslName}, which needs ` +
+              `${typeInfo.kind === 'uint' ? 'non-negative ' : ''}whole ` +
+              `numbers, but ${component} was given`
+          );
+        }
+      }
     }
 
     this.use();
-    this.gl.uniform1f(location, value);
-    this.gl.useProgram(null);
+
+    const location = uniform.location;
+    const gl = this.gl;
+    switch (typeInfo.kind) {
+      case 'float': {
+        const data = value instanceof Float32Array ? value : Array.from(value);
+        [gl.uniform1fv, gl.uniform2fv, gl.uniform3fv, gl.uniform4fv][
+          typeInfo.components - 1
+        ].call(gl, location, data);
+        break;
+      }
+      case 'int':
+      case 'bool': {
+        const data = value instanceof Int32Array ? value : Array.from(value);
+        [gl.uniform1iv, gl.uniform2iv, gl.uniform3iv, gl.uniform4iv][
+          typeInfo.components - 1
+        ].call(gl, location, data);
+        break;
+      }
+      case 'uint': {
+        const data = value instanceof Uint32Array ? value : Array.from(value);
+        [gl.uniform1uiv, gl.uniform2uiv, gl.uniform3uiv, gl.uniform4uiv][
+          typeInfo.components - 1
+        ].call(gl, location, data);
+        break;
+      }
+      case 'matrix': {
+        const data = value instanceof Float32Array ? value : Array.from(value);
+        this.getMatrixSetter(uniform.type).call(gl, location, false, data);
+        break;
+      }
+    }
   }
 
-  setUniform3fv(location: WebGLUniformLocation | null, value: vec3): void {
-    if (location == null) {
-      throw new Error('Uniform location is null');
+  // WebGL lists an array once, as `uName[0]` (stored as `uName`), so other
+  // elements are resolved against it. Struct array members like
+  // `uLights[2].color` are listed separately and found directly.
+  private findUniform(name: string): ActiveUniform | undefined {
+    const uniform = this.uniforms.get(name) ?? this.elementUniforms.get(name);
+    if (uniform) {
+      return uniform;
     }
 
-    this.use();
-    this.gl.uniform3fv(location, value);
-    this.gl.useProgram(null);
+    const match = /^(.+)\[(\d+)\]$/.exec(name);
+    if (!match) {
+      return undefined;
+    }
+    const array = this.uniforms.get(match[1]);
+    const index = Number(match[2]);
+    if (!array || index >= array.size) {
+      return undefined;
+    }
+    const location = this.gl.getUniformLocation(this.program, name);
+    if (!location) {
+      return undefined;
+    }
+
+    // Elements from this one to the end of the array can be set
+    const element = {
+      name,
+      type: array.type,
+      size: array.size - index,
+      location,
+    };
+    this.elementUniforms.set(name, element);
+    return element;
   }
 
-  setUniformMat4(location: WebGLUniformLocation | null, value: mat4): void {
-    if (location == null) {
-      throw new Error('Uniform location is null');
+  private getUniformTypeInfo(type: number): UniformTypeInfo {
+    const gl = this.gl;
+    switch (type) {
+      case gl.FLOAT:
+        return { glslName: 'float', kind: 'float', components: 1 };
+      case gl.FLOAT_VEC2:
+        return { glslName: 'vec2', kind: 'float', components: 2 };
+      case gl.FLOAT_VEC3:
+        return { glslName: 'vec3', kind: 'float', components: 3 };
+      case gl.FLOAT_VEC4:
+        return { glslName: 'vec4', kind: 'float', components: 4 };
+      case gl.INT:
+        return { glslName: 'int', kind: 'int', components: 1 };
+      case gl.INT_VEC2:
+        return { glslName: 'ivec2', kind: 'int', components: 2 };
+      case gl.INT_VEC3:
+        return { glslName: 'ivec3', kind: 'int', components: 3 };
+      case gl.INT_VEC4:
+        return { glslName: 'ivec4', kind: 'int', components: 4 };
+      case gl.BOOL:
+        return { glslName: 'bool', kind: 'bool', components: 1 };
+      case gl.BOOL_VEC2:
+        return { glslName: 'bvec2', kind: 'bool', components: 2 };
+      case gl.BOOL_VEC3:
+        return { glslName: 'bvec3', kind: 'bool', components: 3 };
+      case gl.BOOL_VEC4:
+        return { glslName: 'bvec4', kind: 'bool', components: 4 };
+      case gl.UNSIGNED_INT:
+        return { glslName: 'uint', kind: 'uint', components: 1 };
+      case gl.UNSIGNED_INT_VEC2:
+        return { glslName: 'uvec2', kind: 'uint', components: 2 };
+      case gl.UNSIGNED_INT_VEC3:
+        return { glslName: 'uvec3', kind: 'uint', components: 3 };
+      case gl.UNSIGNED_INT_VEC4:
+        return { glslName: 'uvec4', kind: 'uint', components: 4 };
+      case gl.FLOAT_MAT2:
+        return { glslName: 'mat2', kind: 'matrix', components: 4 };
+      case gl.FLOAT_MAT3:
+        return { glslName: 'mat3', kind: 'matrix', components: 9 };
+      case gl.FLOAT_MAT4:
+        return { glslName: 'mat4', kind: 'matrix', components: 16 };
+      case gl.FLOAT_MAT2x3:
+        return { glslName: 'mat2x3', kind: 'matrix', components: 6 };
+      case gl.FLOAT_MAT2x4:
+        return { glslName: 'mat2x4', kind: 'matrix', components: 8 };
+      case gl.FLOAT_MAT3x2:
+        return { glslName: 'mat3x2', kind: 'matrix', components: 6 };
+      case gl.FLOAT_MAT3x4:
+        return { glslName: 'mat3x4', kind: 'matrix', components: 12 };
+      case gl.FLOAT_MAT4x2:
+        return { glslName: 'mat4x2', kind: 'matrix', components: 8 };
+      case gl.FLOAT_MAT4x3:
+        return { glslName: 'mat4x3', kind: 'matrix', components: 12 };
+      // Samplers are set to a texture unit index
+      case gl.SAMPLER_2D:
+        return { glslName: 'sampler2D', kind: 'int', components: 1 };
+      case gl.SAMPLER_3D:
+        return { glslName: 'sampler3D', kind: 'int', components: 1 };
+      case gl.SAMPLER_CUBE:
+        return { glslName: 'samplerCube', kind: 'int', components: 1 };
+      case gl.SAMPLER_2D_SHADOW:
+        return { glslName: 'sampler2DShadow', kind: 'int', components: 1 };
+      case gl.SAMPLER_2D_ARRAY:
+        return { glslName: 'sampler2DArray', kind: 'int', components: 1 };
+      case gl.SAMPLER_2D_ARRAY_SHADOW:
+        return { glslName: 'sampler2DArrayShadow', kind: 'int', components: 1 };
+      case gl.SAMPLER_CUBE_SHADOW:
+        return { glslName: 'samplerCubeShadow', kind: 'int', components: 1 };
+      case gl.INT_SAMPLER_2D:
+        return { glslName: 'isampler2D', kind: 'int', components: 1 };
+      case gl.INT_SAMPLER_3D:
+        return { glslName: 'isampler3D', kind: 'int', components: 1 };
+      case gl.INT_SAMPLER_CUBE:
+        return { glslName: 'isamplerCube', kind: 'int', components: 1 };
+      case gl.INT_SAMPLER_2D_ARRAY:
+        return { glslName: 'isampler2DArray', kind: 'int', components: 1 };
+      case gl.UNSIGNED_INT_SAMPLER_2D:
+        return { glslName: 'usampler2D', kind: 'int', components: 1 };
+      case gl.UNSIGNED_INT_SAMPLER_3D:
+        return { glslName: 'usampler3D', kind: 'int', components: 1 };
+      case gl.UNSIGNED_INT_SAMPLER_CUBE:
+        return { glslName: 'usamplerCube', kind: 'int', components: 1 };
+      case gl.UNSIGNED_INT_SAMPLER_2D_ARRAY:
+        return { glslName: 'usampler2DArray', kind: 'int', components: 1 };
+      default:
+        throw new Error(`Unsupported uniform type: 0x${type.toString(16)}`);
     }
+  }
 
-    this.use();
-    this.gl.uniformMatrix4fv(location, false, value);
-    this.gl.useProgram(null);
+  private getMatrixSetter(type: number) {
+    const gl = this.gl;
+    switch (type) {
+      case gl.FLOAT_MAT2:
+        return gl.uniformMatrix2fv;
+      case gl.FLOAT_MAT3:
+        return gl.uniformMatrix3fv;
+      case gl.FLOAT_MAT2x3:
+        return gl.uniformMatrix2x3fv;
+      case gl.FLOAT_MAT2x4:
+        return gl.uniformMatrix2x4fv;
+      case gl.FLOAT_MAT3x2:
+        return gl.uniformMatrix3x2fv;
+      case gl.FLOAT_MAT3x4:
+        return gl.uniformMatrix3x4fv;
+      case gl.FLOAT_MAT4x2:
+        return gl.uniformMatrix4x2fv;
+      case gl.FLOAT_MAT4x3:
+        return gl.uniformMatrix4x3fv;
+      default:
+        return gl.uniformMatrix4fv;
+    }
   }
 }
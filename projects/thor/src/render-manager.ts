@@ -1,10 +1,45 @@
+import {
+  Clock,
+  FrameLoop,
+  FrameLoopOptions,
+  RenderCallback,
+  UpdateCallback,
+} from './frame-loop';
+import {
+  CanvasResizer,
+  CanvasResizerOptions,
+  ResizeCallback,
+} from './canvas-resizer';
+import { RenderStateCache } from './render-state';
+import { ResourceRegistry } from './resource-registry';
+import { ResourceStats, ResourceTracker } from './resource-tracker';
+import { RenderTarget, RenderTargetOptions } from './render-target';
+import {
+  PostProcessChain,
+  PostProcessChainOptions,
+} from './post-process-chain';
+import { Pickable, Picker, PickerOptions } from './picker';
+
+export type RenderManagerOptions = FrameLoopOptions & CanvasResizerOptions;
+
+export type ContextCallback = () => void;
+
 export class RenderManager {
   public gl: WebGL2RenderingContext;
   public canvas: HTMLCanvasElement;
+  public readonly loop: FrameLoop;
+  public readonly resizer: CanvasResizer;
+  // When set and enabled, the scene is drawn through it instead of straight
+  // to the canvas
+  public postProcessChain: PostProcessChain | null = null;
 
-  private onRenderCallbacks: (() => void)[] = [];
+  private onRenderCallbacks: RenderCallback[] = [];
+  private contextLostCallbacks: ContextCallback[] = [];
+  private contextRestoredCallbacks: ContextCallback[] = [];
+  // Whether to restart the loop once the context is back
+  private runningWhenLost = false;
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, options: RenderManagerOptions = {}) {
     const gl = canvas.getContext('webgl2');
     if (!gl) {
       throw new Error('WebGL2 not supported');
@@ -12,41 +47,206 @@ export class RenderManager {
 
     this.gl = gl;
     this.canvas = canvas;
+
+    this.loop = new FrameLoop(options);
+    this.loop.onRender(this.render);
+    this.resizer = new CanvasResizer(canvas, options);
+
+    canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
+  }
+
+  get isContextLost(): boolean {
+    return this.gl.isContextLost();
+  }
+
+  // Live GPU objects and estimated memory, e.g. for a debug overlay
+  public getResourceStats(): ResourceStats {
+    return ResourceTracker.forContext(this.gl).getStats();
+  }
+
+  // Sized to the canvas (times options.scale) and resized along with it
+  public createRenderTarget(options: RenderTargetOptions = {}): RenderTarget {
+    const target = new RenderTarget(
+      this.gl,
+      this.canvas.width,
+      this.canvas.height,
+      options
+    );
+    target.autoResize(this.resizer);
+    return target;
+  }
+
+  // Replaces (and disposes) any existing chain
+  public createPostProcessChain(
+    options: PostProcessChainOptions = {}
+  ): PostProcessChain {
+    this.postProcessChain?.dispose();
+    this.postProcessChain = new PostProcessChain(
+      this.gl,
+      this.resizer,
+      options
+    );
+    return this.postProcessChain;
+  }
+
+  // Polls for readbacks on the loop's scheduler unless told otherwise
+  public createPicker<T extends Pickable = Pickable>(
+    options: PickerOptions = {}
+  ): Picker<T> {
+    return new Picker<T>(this.gl, this.canvas, this.resizer, {
+      scheduler: this.loop.scheduler,
+      ...options,
+    });
   }
 
   public startRendering() {
-    requestAnimationFrame(this.render);
+    this.loop.start();
+  }
+
+  public stop() {
+    this.loop.stop();
+  }
+
+  // Stop rendering and stop watching the canvas size. Dispose of everything
+  // created with the context first; whatever's left is reported as a leak.
+  public destroy() {
+    this.loop.stop();
+    this.resizer.disconnect();
+    this.postProcessChain?.dispose();
+    this.postProcessChain = null;
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.removeEventListener(
+      'webglcontextrestored',
+      this.handleContextRestored
+    );
+
+    ResourceTracker.forContext(this.gl).reportLeaks();
+  }
+
+  public pause() {
+    this.loop.pause();
+  }
+
+  public resume() {
+    this.loop.resume();
+  }
+
+  public step() {
+    this.loop.step();
+  }
+
+  get timeScale(): number {
+    return this.loop.timeScale;
+  }
+
+  set timeScale(timeScale: number) {
+    this.loop.timeScale = timeScale;
+  }
+
+  // Runs at a fixed timestep, independent of the frame rate
+  public addUpdateCallback(callback: UpdateCallback) {
+    this.loop.onUpdate(callback);
+  }
+
+  // Called with the new drawing buffer size, only when it actually changes
+  public addResizeCallback(callback: ResizeCallback): () => void {
+    return this.resizer.onResize(callback);
   }
 
-  public addRenderCallback(callback: () => void) {
+  public addRenderCallback(callback: RenderCallback) {
     this.onRenderCallbacks.push(callback);
   }
 
-  public render = () => {
-    // Calculate physical pixel dimensions based on canvas size and device pixel ratio
-    const width = this.canvas.clientWidth * window.devicePixelRatio;
-    const height = this.canvas.clientHeight * window.devicePixelRatio;
+  // e.g. to show a notice while the GPU is unavailable
+  public addContextLostCallback(callback: ContextCallback) {
+    this.contextLostCallbacks.push(callback);
+  }
+
+  // Called after every registered resource has been recreated, for restoring
+  // anything that isn't (like GL state set outside of the resources)
+  public addContextRestoredCallback(callback: ContextCallback) {
+    this.contextRestoredCallbacks.push(callback);
+  }
+
+  // Lose and restore the context on purpose, to test recovery
+  public simulateContextLoss() {
+    this.getLoseContextExtension().loseContext();
+  }
+
+  public simulateContextRestore() {
+    this.getLoseContextExtension().restoreContext();
+  }
+
+  private getLoseContextExtension(): WEBGL_lose_context {
+    const extension = this.gl.getExtension('WEBGL_lose_context');
+    if (!extension) {
+      throw new Error('WEBGL_lose_context not supported');
+    }
+    return extension;
+  }
+
+  private handleContextLost = (event: Event) => {
+    // Without this, the browser won't ever restore the context
+    event.preventDefault();
 
-    // Resize the HTML canvas element to match the display size
-    this.canvas.width = width;
-    this.canvas.height = height;
+    this.runningWhenLost = this.loop.isRunning;
+    this.loop.stop();
+
+    // Every GPU object went with the context; restoring creates new ones.
+    // State goes back to WebGL's defaults too.
+    ResourceTracker.forContext(this.gl).clear();
+    RenderStateCache.forContext(this.gl).reset();
+
+    for (const callback of this.contextLostCallbacks) {
+      callback();
+    }
+  };
+
+  private handleContextRestored = () => {
+    ResourceRegistry.forContext(this.gl).restoreAll();
+
+    for (const callback of this.contextRestoredCallbacks) {
+      callback();
+    }
+
+    if (this.runningWhenLost) {
+      this.loop.start();
+    }
+  };
+
+  public render = (alpha: number, clock: Clock) => {
+    // Resources can't be used until they're restored
+    if (this.gl.isContextLost()) {
+      return;
+    }
+
+    // Only touches the canvas when its displayed size has changed
+    this.resizer.update();
 
     // Set the WebGL viewport to match the canvas size
-    this.gl.viewport(0, 0, width, height);
+    this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+
+    const postProcessChain = this.postProcessChain?.enabled
+      ? this.postProcessChain
+      : null;
+    postProcessChain?.begin();
 
-    // Clear the canvas with a solid color
+    // Clear the canvas (or the chain's scene target) with a solid color
     this.drawColor(0, 0.5, 0.8, 1.0);
 
     // Execute all render callbacks
     for (const callback of this.onRenderCallbacks) {
-      callback();
+      callback(alpha, clock);
     }
 
-    // Render another frame
-    requestAnimationFrame(this.render);
+    // Composite the effects onto the canvas
+    postProcessChain?.end();
   };
 
   public drawColor(r: number, g: number, b: number, a: number) {
+    // Clears are limited by the colour, depth and stencil masks, so reset them
+    RenderStateCache.forContext(this.gl).apply();
     this.gl.clearColor(r, g, b, a);
     this.gl.clear(this.gl.COLOR_BUFFER_BIT | this.gl.DEPTH_BUFFER_BIT);
   }
@@ -0,0 +1,172 @@
+import { mat4, vec3 } from 'gl-matrix';
+import { FrameContext, Material } from './material';
+import { Mesh } from './mesh';
+import { RenderState, RenderStateCache } from './render-state';
+
+export interface DrawItem {
+  mesh: Mesh;
+  material: Material;
+  // Set as uModelMatrix if the shader has it, and used to sort transparent
+  // items. Identity by default.
+  transform?: mat4;
+  // Items that blend are transparent and drawn last
+  renderState?: RenderState;
+}
+
+export interface RenderQueueStats {
+  drawCalls: number;
+  // Consecutive items with the same material share one bind
+  materialBinds: number;
+  // Settings changed and objects bound, from RenderStateCache.changeCount
+  stateChanges: number;
+}
+
+interface QueuedItem {
+  item: DrawItem;
+  // NDC depth, -1 nearest to 1 furthest; only worked out for transparent items
+  depth: number;
+  // The material's textures, as a string of sort ids; only for opaque items
+  textureKey: string;
+}
+
+const identityTransform = mat4.create();
+
+// Arbitrary but stable numbers for grouping items by program, texture and
+// material
+const sortIds = new WeakMap<object, number>();
+let nextSortId = 0;
+
+// Collects a frame's draws and executes them in a better order than they were
+// submitted in: opaque items grouped by program, then textures, then material,
+// so each material is bound once and the state cache can skip bindings that
+// materials share, then transparent items back to front so they blend over
+// what's behind them.
+export class RenderQueue {
+  private items: DrawItem[] = [];
+  private _stats: RenderQueueStats = {
+    drawCalls: 0,
+    materialBinds: 0,
+    stateChanges: 0,
+  };
+
+  constructor(private gl: WebGL2RenderingContext) {}
+
+  // Of the last execute()
+  get stats(): Readonly<RenderQueueStats> {
+    return this._stats;
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  public submit(item: DrawItem) {
+    this.items.push(item);
+  }
+
+  public clear() {
+    this.items = [];
+  }
+
+  // Draws everything submitted since the last execute(), then empties the
+  // queue
+  public execute(frameContext: FrameContext) {
+    const stateCache = RenderStateCache.forContext(this.gl);
+    const changeCountBefore = stateCache.changeCount;
+    const stats: RenderQueueStats = {
+      drawCalls: 0,
+      materialBinds: 0,
+      stateChanges: 0,
+    };
+
+    const viewProjectionMatrix = frameContext.camera.getViewProjectionMatrix();
+    const opaque: QueuedItem[] = [];
+    const transparent: QueuedItem[] = [];
+    for (const item of this.items) {
+      if (isTransparent(item)) {
+        transparent.push({
+          item,
+          depth: getDepth(item, viewProjectionMatrix),
+          textureKey: '',
+        });
+      } else {
+        opaque.push({ item, depth: 0, textureKey: getTextureKey(item) });
+      }
+    }
+
+    // Materials sharing a program and textures only differ in uniforms, so
+    // they're kept together; then by material so each is bound once
+    opaque.sort(
+      (a, b) =>
+        getSortId(a.item.material.program) -
+          getSortId(b.item.material.program) ||
+        compareKeys(a.textureKey, b.textureKey) ||
+        getSortId(a.item.material) - getSortId(b.item.material)
+    );
+    transparent.sort((a, b) => b.depth - a.depth);
+
+    let boundMaterial: Material | null = null;
+    for (const { item } of [...opaque, ...transparent]) {
+      const { material, mesh, transform, renderState } = item;
+
+      if (material !== boundMaterial) {
+        material.bind(frameContext);
+        boundMaterial = material;
+        stats.materialBinds++;
+      }
+
+      // Also set without a transform, so it isn't left from the last item
+      if (material.program.uniforms.has('uModelMatrix')) {
+        material.program.setUniform(
+          'uModelMatrix',
+          transform ?? identityTransform
+        );
+      }
+
+      mesh.render(material.program, renderState);
+      stats.drawCalls++;
+    }
+
+    stats.stateChanges = stateCache.changeCount - changeCountBefore;
+    this._stats = stats;
+    this.items = [];
+  }
+}
+
+function isTransparent(item: DrawItem): boolean {
+  return (item.renderState?.blend ?? 'none') !== 'none';
+}
+
+// Depth of the transform's position on screen, which orders items the same
+// way for perspective and orthographic cameras
+function getDepth(item: DrawItem, viewProjectionMatrix: mat4): number {
+  const position = item.transform
+    ? vec3.fromValues(
+        item.transform[12],
+        item.transform[13],
+        item.transform[14]
+      )
+    : vec3.create();
+  vec3.transformMat4(position, position, viewProjectionMatrix);
+  return position[2];
+}
+
+function getTextureKey(item: DrawItem): string {
+  return item.material
+    .getBoundTextures()
+    .map((texture) => (texture ? getSortId(texture) : -1))
+    .join();
+}
+
+function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function getSortId(object: object): number {
+  let id = sortIds.get(object);
+  if (id === undefined) {
+    id = nextSortId++;
+    sortIds.set(object, id);
+  }
+  return id;
+}
@@ -0,0 +1,304 @@
+export type CompareFunc =
+  | 'never'
+  | 'less'
+  | 'equal'
+  | 'lequal'
+  | 'greater'
+  | 'notequal'
+  | 'gequal'
+  | 'always';
+
+// alpha: ordinary transparency
+// additive: adds light, for glows and particles
+// premultiplied: transparency for colours already multiplied by their alpha
+// multiply: darkens what's behind by the colour, ignoring alpha
+export type BlendMode =
+  | 'none'
+  | 'alpha'
+  | 'additive'
+  | 'premultiplied'
+  | 'multiply';
+
+// Front faces are the ones whose vertices go anticlockwise on screen
+export type CullFace = 'none' | 'back' | 'front';
+
+export type StencilOp =
+  | 'keep'
+  | 'zero'
+  | 'replace'
+  | 'increment'
+  | 'increment-wrap'
+  | 'decrement'
+  | 'decrement-wrap'
+  | 'invert';
+
+export type ColorMask = [boolean, boolean, boolean, boolean];
+
+export interface StencilState {
+  // Passes when `ref & readMask` compares true against the stored value
+  func?: CompareFunc;
+  ref?: number;
+  readMask?: number;
+  // Bits the ops (and clears) are allowed to change
+  writeMask?: number;
+  // When the stencil test fails, when it passes but the depth test fails,
+  // and when both pass
+  fail?: StencilOp;
+  depthFail?: StencilOp;
+  pass?: StencilOp;
+}
+
+// Everything a draw depends on besides its program and inputs. Anything left
+// out uses the default below, so each draw only says how it differs.
+export interface RenderState {
+  depthTest?: boolean;
+  depthWrite?: boolean;
+  depthFunc?: CompareFunc;
+  blend?: BlendMode;
+  cullFace?: CullFace;
+  colorMask?: ColorMask;
+  // null turns the stencil test off. Only works with a stencil buffer.
+  stencil?: StencilState | null;
+}
+
+export const defaultRenderState: Readonly<Required<RenderState>> = {
+  depthTest: true,
+  depthWrite: true,
+  depthFunc: 'less',
+  blend: 'none',
+  cullFace: 'none',
+  colorMask: [true, true, true, true],
+  stencil: null,
+};
+
+const defaultStencilState: Readonly<Required<StencilState>> = {
+  func: 'always',
+  ref: 0,
+  readMask: 0xff,
+  writeMask: 0xff,
+  fail: 'keep',
+  depthFail: 'keep',
+  pass: 'keep',
+};
+
+// What's set on the context. Undefined means unknown, so the next call is
+// issued whatever the value.
+interface CachedState {
+  depthTest?: boolean;
+  depthWrite?: boolean;
+  depthFunc?: CompareFunc;
+  blend?: boolean;
+  blendMode?: BlendMode;
+  cullFace?: boolean;
+  cullFaceMode?: CullFace;
+  colorMask?: string;
+  stencilTest?: boolean;
+  stencilFunc?: string;
+  stencilWriteMask?: number;
+  stencilOp?: string;
+  program?: WebGLProgram | null;
+  vertexArray?: WebGLVertexArrayObject | null;
+  activeTexture?: number;
+}
+
+type Capability = 'depthTest' | 'blend' | 'cullFace' | 'stencilTest';
+
+const caches = new WeakMap<WebGL2RenderingContext, RenderStateCache>();
+
+// Remembers what's set on a context so that only changes reach WebGL. Draws
+// set everything they need through it and leave it that way afterwards, so
+// anything else that changes the same state must go through it too (or call
+// reset()).
+export class RenderStateCache {
+  private state: CachedState = {};
+  // Indexed by texture unit
+  private textures: (WebGLTexture | null | undefined)[] = [];
+  private changes = 0;
+
+  private constructor(private gl: WebGL2RenderingContext) {}
+
+  public static forContext(gl: WebGL2RenderingContext): RenderStateCache {
+    let cache = caches.get(gl);
+    if (!cache) {
+      cache = new RenderStateCache(gl);
+      caches.set(gl, cache);
+    }
+    return cache;
+  }
+
+  // Running total of settings changed and objects bound, for stats
+  get changeCount(): number {
+    return this.changes;
+  }
+
+  // Forget everything, e.g. after a context loss, when it all went back to
+  // WebGL's defaults
+  public reset() {
+    this.state = {};
+    this.textures = [];
+  }
+
+  public apply(state: RenderState = {}) {
+    const gl = this.gl;
+    const {
+      depthTest,
+      depthWrite,
+      depthFunc,
+      blend,
+      cullFace,
+      colorMask,
+      stencil,
+    } = { ...defaultRenderState, ...state };
+
+    this.setEnabled('depthTest', gl.DEPTH_TEST, depthTest);
+    if (depthTest && this.update('depthFunc', depthFunc)) {
+      gl.depthFunc(getCompareFunc(gl, depthFunc));
+    }
+    if (this.update('depthWrite', depthWrite)) {
+      gl.depthMask(depthWrite);
+    }
+
+    this.setEnabled('blend', gl.BLEND, blend !== 'none');
+    if (blend !== 'none' && this.update('blendMode', blend)) {
+      setBlendFunc(gl, blend);
+    }
+
+    this.setEnabled('cullFace', gl.CULL_FACE, cullFace !== 'none');
+    if (cullFace !== 'none' && this.update('cullFaceMode', cullFace)) {
+      gl.cullFace(cullFace === 'back' ? gl.BACK : gl.FRONT);
+    }
+
+    if (this.update('colorMask', colorMask.join())) {
+      gl.colorMask(...colorMask);
+    }
+
+    this.applyStencil(stencil);
+  }
+
+  public useProgram(program: WebGLProgram | null) {
+    if (this.update('program', program)) {
+      this.gl.useProgram(program);
+    }
+  }
+
+  // Unbinding before binding an ELEMENT_ARRAY_BUFFER keeps it out of
+  // whichever VAO was last drawn
+  public bindVertexArray(vertexArray: WebGLVertexArrayObject | null) {
+    if (this.update('vertexArray', vertexArray)) {
+      this.gl.bindVertexArray(vertexArray);
+    }
+  }
+
+  public bindTexture(unit: number, texture: WebGLTexture | null) {
+    if (this.textures[unit] === texture) {
+      return;
+    }
+    this.textures[unit] = texture;
+    this.changes++;
+
+    if (this.update('activeTexture', unit)) {
+      this.gl.activeTexture(this.gl.TEXTURE0 + unit);
+    }
+    this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+  }
+
+  private applyStencil(stencil: StencilState | null) {
+    const gl = this.gl;
+    const { func, ref, readMask, writeMask, fail, depthFail, pass } = {
+      ...defaultStencilState,
+      ...stencil,
+    };
+
+    this.setEnabled('stencilTest', gl.STENCIL_TEST, stencil !== null);
+    if (stencil && this.update('stencilFunc', [func, ref, readMask].join())) {
+      gl.stencilFunc(getCompareFunc(gl, func), ref, readMask);
+    }
+    if (stencil && this.update('stencilOp', [fail, depthFail, pass].join())) {
+      gl.stencilOp(
+        getStencilOp(gl, fail),
+        getStencilOp(gl, depthFail),
+        getStencilOp(gl, pass)
+      );
+    }
+    // Also limits clears, so it's set even with the test off
+    if (this.update('stencilWriteMask', writeMask)) {
+      gl.stencilMask(writeMask);
+    }
+  }
+
+  private setEnabled(key: Capability, capability: number, enabled: boolean) {
+    if (!this.update(key, enabled)) {
+      return;
+    }
+    if (enabled) {
+      this.gl.enable(capability);
+    } else {
+      this.gl.disable(capability);
+    }
+  }
+
+  // Stores the value, returning whether it changed
+  private update<K extends keyof CachedState>(
+    key: K,
+    value: CachedState[K]
+  ): boolean {
+    if (this.state[key] === value) {
+      return false;
+    }
+    this.state[key] = value;
+    this.changes++;
+    return true;
+  }
+}
+
+function setBlendFunc(
+  gl: WebGL2RenderingContext,
+  mode: Exclude<BlendMode, 'none'>
+) {
+  switch (mode) {
+    case 'alpha':
+      // Alpha accumulates the same way, so transparent targets stay correct
+      gl.blendFuncSeparate(
+        gl.SRC_ALPHA,
+        gl.ONE_MINUS_SRC_ALPHA,
+        gl.ONE,
+        gl.ONE_MINUS_SRC_ALPHA
+      );
+      break;
+    case 'additive':
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE);
+      break;
+    case 'premultiplied':
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+      break;
+    case 'multiply':
+      gl.blendFuncSeparate(gl.DST_COLOR, gl.ZERO, gl.ZERO, gl.ONE);
+      break;
+  }
+}
+
+function getCompareFunc(gl: WebGL2RenderingContext, func: CompareFunc): number {
+  return {
+    never: gl.NEVER,
+    less: gl.LESS,
+    equal: gl.EQUAL,
+    lequal: gl.LEQUAL,
+    greater: gl.GREATER,
+    notequal: gl.NOTEQUAL,
+    gequal: gl.GEQUAL,
+    always: gl.ALWAYS,
+  }[func];
+}
+
+function getStencilOp(gl: WebGL2RenderingContext, op: StencilOp): number {
+  return {
+    keep: gl.KEEP,
+    zero: gl.ZERO,
+    replace: gl.REPLACE,
+    increment: gl.INCR,
+    'increment-wrap': gl.INCR_WRAP,
+    decrement: gl.DECR,
+    'decrement-wrap': gl.DECR_WRAP,
+    invert: gl.INVERT,
+  }[op];
+}
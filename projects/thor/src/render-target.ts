@@ -0,0 +1,259 @@
+import { CanvasResizer } from './canvas-resizer';
+import { ResourceRegistry } from './resource-registry';
+import { ResourceTracker } from './resource-tracker';
+import { Texture, TextureOptions } from './texture';
+
+export interface RenderTargetOptions {
+  // One texture per entry, attached to COLOR_ATTACHMENT0, 1, ... in order, so
+  // fragment shader output n is written to entry n
+  colorAttachments?: TextureOptions[];
+  // Adds a depth renderbuffer, on by default
+  depth?: boolean;
+  // Makes the depth renderbuffer DEPTH24_STENCIL8
+  stencil?: boolean;
+  // Size relative to the canvas when resized automatically, e.g. 0.5 for a
+  // half resolution blur
+  scale?: number;
+}
+
+// A framebuffer with colour textures and an optional depth/stencil
+// renderbuffer. Anything drawn between bind() and unbind() goes into the
+// textures, which can then be sampled in a later pass.
+export class RenderTarget {
+  public framebuffer: WebGLFramebuffer;
+  public readonly textures: Texture[];
+  public readonly scale: number;
+
+  private renderbuffer: WebGLRenderbuffer | null = null;
+  private depth: boolean;
+  private stencil: boolean;
+  private _width: number;
+  private _height: number;
+
+  // What bind() replaced, for unbind() to put back
+  private previousFramebuffer: WebGLFramebuffer | null = null;
+  private previousViewport: Int32Array | null = null;
+
+  private stopAutoResize: (() => void) | null = null;
+
+  constructor(
+    private gl: WebGL2RenderingContext,
+    width: number,
+    height: number,
+    options: RenderTargetOptions = {}
+  ) {
+    validateSize(width, height);
+    this._width = width;
+    this._height = height;
+    this.depth = options.depth ?? true;
+    this.stencil = options.stencil ?? false;
+    this.scale = options.scale ?? 1;
+
+    const colorAttachments = options.colorAttachments ?? [{}];
+    if (colorAttachments.length === 0) {
+      throw new Error('A render target needs at least one colour attachment');
+    }
+    const maxDrawBuffers = gl.getParameter(gl.MAX_DRAW_BUFFERS);
+    if (colorAttachments.length > maxDrawBuffers) {
+      throw new Error(
+        `Too many colour attachments: ${colorAttachments.length} (max ${maxDrawBuffers})`
+      );
+    }
+
+    // Created before registering, so they're restored before the framebuffer
+    // they're attached to
+    this.textures = colorAttachments.map((textureOptions) =>
+      Texture.createEmpty(gl, width, height, textureOptions)
+    );
+
+    this.framebuffer = this.create();
+    ResourceRegistry.forContext(gl).register(this);
+  }
+
+  get width(): number {
+    return this._width;
+  }
+
+  get height(): number {
+    return this._height;
+  }
+
+  // The colour attachment to sample in a later pass
+  public getTexture(index: number = 0): Texture {
+    const texture = this.textures[index];
+    if (!texture) {
+      throw new Error(`Render target has no colour attachment ${index}`);
+    }
+    return texture;
+  }
+
+  // Draw into the target from now on, with the viewport covering all of it.
+  // Targets can be nested: unbind() goes back to whatever was bound before.
+  public bind() {
+    this.previousFramebuffer = this.gl.getParameter(
+      this.gl.FRAMEBUFFER_BINDING
+    );
+    this.previousViewport = this.gl.getParameter(this.gl.VIEWPORT);
+
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffer);
+    this.gl.viewport(0, 0, this._width, this._height);
+  }
+
+  public unbind() {
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.previousFramebuffer);
+    if (this.previousViewport) {
+      const [x, y, width, height] = this.previousViewport;
+      this.gl.viewport(x, y, width, height);
+    }
+
+    this.previousFramebuffer = null;
+    this.previousViewport = null;
+  }
+
+  // Discards the contents. Does nothing if the size hasn't changed.
+  public resize(width: number, height: number) {
+    validateSize(width, height);
+    if (width === this._width && height === this._height) {
+      return;
+    }
+
+    this._width = width;
+    this._height = height;
+
+    // The textures and renderbuffer keep their WebGL objects, so the
+    // framebuffer's attachments stay valid
+    for (const texture of this.textures) {
+      texture.resize(width, height);
+    }
+    if (this.renderbuffer) {
+      this.gl.bindRenderbuffer(this.gl.RENDERBUFFER, this.renderbuffer);
+      this.allocateRenderbuffer(this.renderbuffer);
+      this.gl.bindRenderbuffer(this.gl.RENDERBUFFER, null);
+    }
+  }
+
+  // Keep the size matched to the canvas (times scale) until disposed
+  public autoResize(resizer: CanvasResizer) {
+    this.stopAutoResize?.();
+
+    const resize = (width: number, height: number) => {
+      this.resize(
+        Math.max(1, Math.round(width * this.scale)),
+        Math.max(1, Math.round(height * this.scale))
+      );
+    };
+    resize(resizer.width, resizer.height);
+    this.stopAutoResize = resizer.onResize(resize);
+  }
+
+  public restore() {
+    this.framebuffer = this.create();
+  }
+
+  // The target and its textures can't be used afterwards
+  public dispose() {
+    this.stopAutoResize?.();
+    this.stopAutoResize = null;
+
+    const tracker = ResourceTracker.forContext(this.gl);
+    this.gl.deleteFramebuffer(this.framebuffer);
+    tracker.untrack(this.framebuffer);
+    if (this.renderbuffer) {
+      this.gl.deleteRenderbuffer(this.renderbuffer);
+      tracker.untrack(this.renderbuffer);
+      this.renderbuffer = null;
+    }
+    for (const texture of this.textures) {
+      texture.dispose();
+    }
+
+    ResourceRegistry.forContext(this.gl).unregister(this);
+  }
+
+  private create(): WebGLFramebuffer {
+    const framebuffer = this.gl.createFramebuffer();
+    if (!framebuffer) {
+      throw new Error('Failed to create framebuffer');
+    }
+
+    // Don't disturb whatever's currently being drawn to
+    const previousFramebuffer = this.gl.getParameter(
+      this.gl.FRAMEBUFFER_BINDING
+    );
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, framebuffer);
+
+    const drawBuffers = this.textures.map((texture, i) => {
+      this.gl.framebufferTexture2D(
+        this.gl.FRAMEBUFFER,
+        this.gl.COLOR_ATTACHMENT0 + i,
+        this.gl.TEXTURE_2D,
+        texture.texture,
+        0
+      );
+      return this.gl.COLOR_ATTACHMENT0 + i;
+    });
+    // Part of the framebuffer's state, so only needs setting once
+    this.gl.drawBuffers(drawBuffers);
+
+    if (this.depth) {
+      const renderbuffer = this.gl.createRenderbuffer();
+      if (!renderbuffer) {
+        throw new Error('Failed to create renderbuffer');
+      }
+      this.renderbuffer = renderbuffer;
+
+      this.gl.bindRenderbuffer(this.gl.RENDERBUFFER, renderbuffer);
+      this.allocateRenderbuffer(renderbuffer);
+      this.gl.bindRenderbuffer(this.gl.RENDERBUFFER, null);
+
+      this.gl.framebufferRenderbuffer(
+        this.gl.FRAMEBUFFER,
+        this.stencil
+          ? this.gl.DEPTH_STENCIL_ATTACHMENT
+          : this.gl.DEPTH_ATTACHMENT,
+        this.gl.RENDERBUFFER,
+        renderbuffer
+      );
+    }
+
+    const status = this.gl.checkFramebufferStatus(this.gl.FRAMEBUFFER);
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, previousFramebuffer);
+    if (status !== this.gl.FRAMEBUFFER_COMPLETE) {
+      this.gl.deleteFramebuffer(framebuffer);
+      throw new Error(`Framebuffer incomplete: 0x${status.toString(16)}`);
+    }
+
+    ResourceTracker.forContext(this.gl).track(
+      framebuffer,
+      'framebuffer',
+      'RenderTarget'
+    );
+
+    return framebuffer;
+  }
+
+  // Storage for the bound renderbuffer at the current size
+  private allocateRenderbuffer(renderbuffer: WebGLRenderbuffer) {
+    this.gl.renderbufferStorage(
+      this.gl.RENDERBUFFER,
+      this.stencil ? this.gl.DEPTH24_STENCIL8 : this.gl.DEPTH_COMPONENT24,
+      this._width,
+      this._height
+    );
+
+    // Both formats are 4 bytes per pixel. Tracking again on resize just
+    // updates the size.
+    ResourceTracker.forContext(this.gl).track(
+      renderbuffer,
+      'renderbuffer',
+      'RenderTarget depth',
+      this._width * this._height * 4
+    );
+  }
+}
+
+function validateSize(width: number, height: number) {
+  if (!(width >= 1 && height >= 1)) {
+    throw new Error(`Invalid render target size: ${width}x${height}`);
+  }
+}
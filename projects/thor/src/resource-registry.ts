@@ -0,0 +1,51 @@
+// Anything holding GPU objects that can rebuild them from data it kept on the
+// CPU side
+export interface RestorableResource {
+  // Recreate every GPU object. The old ones died with the lost context, so
+  // they shouldn't be deleted.
+  restore(): void;
+}
+
+const registries = new WeakMap<WebGL2RenderingContext, ResourceRegistry>();
+
+// Every live GPU resource of one context, so they can all be recreated after
+// the context is lost and restored
+export class ResourceRegistry {
+  private resources: Set<RestorableResource> = new Set();
+
+  private constructor(private gl: WebGL2RenderingContext) {}
+
+  // Shared per context, so resources only need the context to find it
+  public static forContext(gl: WebGL2RenderingContext): ResourceRegistry {
+    let registry = registries.get(gl);
+    if (!registry) {
+      registry = new ResourceRegistry(gl);
+      registries.set(gl, registry);
+    }
+    return registry;
+  }
+
+  get size(): number {
+    return this.resources.size;
+  }
+
+  public register(resource: RestorableResource) {
+    this.resources.add(resource);
+  }
+
+  public unregister(resource: RestorableResource) {
+    this.resources.delete(resource);
+  }
+
+  // In registration order, so resources are rebuilt before anything created
+  // after them that might depend on them
+  public restoreAll() {
+    for (const resource of this.resources) {
+      // Lost again part way through; the next restore will start over
+      if (this.gl.isContextLost()) {
+        return;
+      }
+      resource.restore();
+    }
+  }
+}
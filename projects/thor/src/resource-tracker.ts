@@ -0,0 +1,134 @@
+export type TrackedResourceKind =
+  | 'program'
+  | 'buffer'
+  | 'texture'
+  | 'vertexArray'
+  | 'framebuffer'
+  | 'renderbuffer';
+
+export interface TrackedResource {
+  kind: TrackedResourceKind;
+  // What it's for, shown in leak reports, e.g. 'Mesh vertices'
+  label: string;
+  // Estimated GPU memory use
+  bytes: number;
+}
+
+export interface ResourceStats {
+  programs: number;
+  buffers: number;
+  textures: number;
+  vertexArrays: number;
+  framebuffers: number;
+  renderbuffers: number;
+  bytes: number;
+}
+
+type GPUObject =
+  | WebGLProgram
+  | WebGLBuffer
+  | WebGLTexture
+  | WebGLVertexArrayObject
+  | WebGLFramebuffer
+  | WebGLRenderbuffer;
+
+const trackers = new WeakMap<WebGL2RenderingContext, ResourceTracker>();
+
+// Counts the live GPU objects of one context and roughly how much memory they
+// use. Wrappers report what they create and delete; anything still alive at
+// teardown is a leak.
+export class ResourceTracker {
+  private resources: Map<GPUObject, TrackedResource> = new Map();
+
+  private constructor() {}
+
+  public static forContext(gl: WebGL2RenderingContext): ResourceTracker {
+    let tracker = trackers.get(gl);
+    if (!tracker) {
+      tracker = new ResourceTracker();
+      trackers.set(gl, tracker);
+    }
+    return tracker;
+  }
+
+  public track(
+    object: GPUObject,
+    kind: TrackedResourceKind,
+    label: string,
+    bytes: number = 0
+  ) {
+    this.resources.set(object, { kind, label, bytes });
+  }
+
+  // e.g. after bufferData with a new size
+  public setBytes(object: GPUObject, bytes: number) {
+    const resource = this.resources.get(object);
+    if (resource) {
+      resource.bytes = bytes;
+    }
+  }
+
+  public untrack(object: GPUObject) {
+    this.resources.delete(object);
+  }
+
+  // After a context loss, when every object is gone at once
+  public clear() {
+    this.resources.clear();
+  }
+
+  public getStats(): ResourceStats {
+    const stats: ResourceStats = {
+      programs: 0,
+      buffers: 0,
+      textures: 0,
+      vertexArrays: 0,
+      framebuffers: 0,
+      renderbuffers: 0,
+      bytes: 0,
+    };
+    for (const resource of this.resources.values()) {
+      switch (resource.kind) {
+        case 'program':
+          stats.programs++;
+          break;
+        case 'buffer':
+          stats.buffers++;
+          break;
+        case 'texture':
+          stats.textures++;
+          break;
+        case 'vertexArray':
+          stats.vertexArrays++;
+          break;
+        case 'framebuffer':
+          stats.framebuffers++;
+          break;
+        case 'renderbuffer':
+          stats.renderbuffers++;
+          break;
+      }
+      stats.bytes += resource.bytes;
+    }
+    return stats;
+  }
+
+  public getLiveResources(): TrackedResource[] {
+    return [...this.resources.values()];
+  }
+
+  // Warn about anything not disposed, e.g. on teardown. Returns the leaks.
+  public reportLeaks(): TrackedResource[] {
+    const leaks = this.getLiveResources();
+    if (leaks.length > 0) {
+      const lines = leaks.map(
+        (leak) => `  ${leak.kind} '${leak.label}' (${leak.bytes} bytes)`
+      );
+      console.warn(
+        `${leaks.length} GPU resource(s) were never disposed:\n` +
+          lines.join('\n')
+      );
+    }
+    return leaks;
+  }
+}
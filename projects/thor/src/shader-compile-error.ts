@@ -0,0 +1,165 @@
+import { SourceLocation } from './shader-preprocessor';
+
+export type ShaderStage = 'vertex' | 'fragment';
+
+export interface SourceExcerptLine {
+  // 1-based line number in the original file
+  line: number;
+  text: string;
+  highlighted: boolean;
+}
+
+export interface ShaderDiagnostic {
+  stage: ShaderStage;
+  severity: 'error' | 'warning';
+  // The `#include`d file the error is in, or null for the shader itself
+  file: string | null;
+  // 1-based line in the original file, or null if the compiler didn't report one
+  line: number | null;
+  column: number | null;
+  message: string;
+  // The offending line plus a few lines of context from the same file
+  excerpt: SourceExcerptLine[];
+}
+
+const EXCERPT_CONTEXT_LINES = 2;
+
+// ANGLE (most browsers), e.g. `ERROR: 0:12: 'foo' : undeclared identifier`
+const ANGLE_LOG_PATTERN = /^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/;
+
+// Mesa, which also reports a column, e.g. `0:12(5): error: syntax error`
+const MESA_LOG_PATTERN = /^\d+:(\d+)\((\d+)\):\s*(error|warning):\s*(.*)$/;
+
+export function parseShaderInfoLog(
+  stage: ShaderStage,
+  source: string,
+  log: string,
+  lineMap?: SourceLocation[]
+): ShaderDiagnostic[] {
+  const sourceLines = source.split('\n');
+  const locate = (line: number): SourceLocation =>
+    lineMap?.[line - 1] ?? { file: null, line };
+  const diagnostics: ShaderDiagnostic[] = [];
+
+  for (const rawLine of log.split('\n')) {
+    // Drivers often pad the log with null characters
+    const logLine = rawLine.replace(/\0/g, '').trim();
+    if (!logLine) {
+      continue;
+    }
+
+    let severity: ShaderDiagnostic['severity'] = 'error';
+    let line: number | null = null;
+    let column: number | null = null;
+    let message = logLine;
+
+    const angleMatch = ANGLE_LOG_PATTERN.exec(logLine);
+    const mesaMatch = MESA_LOG_PATTERN.exec(logLine);
+    if (angleMatch) {
+      severity = angleMatch[1] === 'WARNING' ? 'warning' : 'error';
+      line = Number(angleMatch[2]);
+      message = angleMatch[3];
+    } else if (mesaMatch) {
+      line = Number(mesaMatch[1]);
+      column = Number(mesaMatch[2]);
+      severity = mesaMatch[3] === 'warning' ? 'warning' : 'error';
+      message = mesaMatch[4];
+    }
+
+    // Line 0 means the whole shader
+    if (line === 0 || line === null) {
+      diagnostics.push({
+        stage,
+        severity,
+        file: null,
+        line: null,
+        column,
+        message,
+        excerpt: [],
+      });
+      continue;
+    }
+
+    const location = locate(line);
+    diagnostics.push({
+      stage,
+      severity,
+      file: location.file,
+      line: location.line,
+      column,
+      message,
+      excerpt: getExcerpt(sourceLines, line, locate),
+    });
+  }
+
+  return diagnostics;
+}
+
+function getExcerpt(
+  sourceLines: string[],
+  line: number,
+  locate: (line: number) => SourceLocation
+): SourceExcerptLine[] {
+  const first = Math.max(1, line - EXCERPT_CONTEXT_LINES);
+  const last = Math.min(sourceLines.length, line + EXCERPT_CONTEXT_LINES);
+  const file = locate(line).file;
+
+  const excerpt: SourceExcerptLine[] = [];
+  for (let i = first; i <= last; i++) {
+    // Don't run into or out of an included file
+    const location = locate(i);
+    if (location.file !== file) {
+      continue;
+    }
+
+    excerpt.push({
+      line: location.line,
+      text: sourceLines[i - 1],
+      highlighted: i === line,
+    });
+  }
+  return excerpt;
+}
+
+export function formatShaderDiagnostic(diagnostic: ShaderDiagnostic): string {
+  const file = diagnostic.file === null ? '' : ` ${diagnostic.file}`;
+  const position =
+    diagnostic.line === null
+      ? ''
+      : diagnostic.column === null
+        ? `,${file} line ${diagnostic.line}`
+        : `,${file} line ${diagnostic.line}:${diagnostic.column}`;
+  const header = `${diagnostic.severity.toUpperCase()} (${diagnostic.stage} shader${position}): ${diagnostic.message}`;
+
+  const width = Math.max(
+    0,
+    ...diagnostic.excerpt.map((line) => String(line.line).length)
+  );
+  const excerpt = diagnostic.excerpt.map(
+    (line) =>
+      `${line.highlighted ? '  > ' : '    '}${String(line.line).padStart(width)} | ${line.text}`
+  );
+
+  return [header, ...excerpt].join('\n');
+}
+
+// Carries the parsed diagnostics so tools/overlays can render them
+export class ShaderCompileError extends Error {
+  public readonly diagnostics: ShaderDiagnostic[];
+
+  constructor(
+    public readonly stage: ShaderStage,
+    public readonly source: string,
+    public readonly log: string,
+    lineMap?: SourceLocation[]
+  ) {
+    const diagnostics = parseShaderInfoLog(stage, source, log, lineMap);
+    super(
+      `Failed to compile ${stage} shader:\n` +
+        diagnostics.map(formatShaderDiagnostic).join('\n\n')
+    );
+
+    this.name = 'ShaderCompileError';
+    this.diagnostics = diagnostics;
+  }
+}
@@ -0,0 +1,151 @@
+// `true` becomes 1, `false` leaves the name undefined so `#ifdef` is skipped
+export type ShaderDefines = Record<string, number | boolean | string>;
+
+export interface SourceLocation {
+  // Path relative to `shaders/`, or null for the source passed in directly
+  file: string | null;
+  line: number;
+}
+
+export interface PreprocessedShader {
+  source: string;
+  // Entry i is where output line i + 1 came from
+  lineMap: SourceLocation[];
+}
+
+export interface PreprocessOptions {
+  // Keyed by path relative to `shaders/`. Defaults to every .glsl file there.
+  includes?: Record<string, string>;
+  defines?: ShaderDefines;
+}
+
+const DEFINES_FILE = '<defines>';
+
+const INCLUDE_PATTERN = /^\s*#include\s+"([^"]+)"\s*$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const SHADER_FILES: Record<string, string> = Object.fromEntries(
+  Object.entries(
+    import.meta.glob<string>('./shaders/**/*.glsl', {
+      query: '?raw',
+      import: 'default',
+      eager: true,
+    })
+  ).map(([path, source]) => [path.replace(/^\.\/shaders\//, ''), source])
+);
+
+// Resolves `#include "path"` directives (relative to the including file, then
+// to `shaders/`), pasting each file once, and injects defines after `#version`
+export function preprocessShader(
+  source: string,
+  options: PreprocessOptions = {}
+): PreprocessedShader {
+  const includes = options.includes ?? SHADER_FILES;
+
+  const output: string[] = [];
+  const lineMap: SourceLocation[] = [];
+  const includeStack: (string | null)[] = [];
+  // Each file is only pasted once per shader, so two files can both include
+  // the same snippet without redefining its functions
+  const includedFiles = new Set<string>();
+
+  const processFile = (file: string | null, fileSource: string) => {
+    includeStack.push(file);
+
+    const lines = fileSource.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const match = INCLUDE_PATTERN.exec(lines[i]);
+      if (!match) {
+        output.push(lines[i]);
+        lineMap.push({ file, line: i + 1 });
+        continue;
+      }
+
+      const includedFile = resolveIncludePath(file, match[1], includes);
+      if (includedFile === null) {
+        throw new Error(
+          `Cannot find shader include "${match[1]}" ` +
+            `(included from ${describeLocation({ file, line: i + 1 })})`
+        );
+      }
+
+      if (includeStack.includes(includedFile)) {
+        const chain = [...includeStack, includedFile]
+          .map((f) => f ?? '<shader>')
+          .join(' -> ');
+        throw new Error(`Shader include cycle detected: ${chain}`);
+      }
+
+      if (includedFiles.has(includedFile)) {
+        continue;
+      }
+      includedFiles.add(includedFile);
+
+      processFile(includedFile, includes[includedFile]);
+    }
+
+    includeStack.pop();
+  };
+
+  processFile(null, source);
+
+  // `#version` must stay on the first line
+  const defineLines = getDefineLines(options.defines ?? {});
+  const insertAt = /^\s*#version\b/.test(output[0] ?? '') ? 1 : 0;
+  output.splice(insertAt, 0, ...defineLines);
+  lineMap.splice(
+    insertAt,
+    0,
+    ...defineLines.map((_, i) => ({ file: DEFINES_FILE, line: i + 1 }))
+  );
+
+  return { source: output.join('\n'), lineMap };
+}
+
+export function describeLocation(location: SourceLocation): string {
+  return `${location.file ?? '<shader>'}:${location.line}`;
+}
+
+function resolveIncludePath(
+  fromFile: string | null,
+  path: string,
+  includes: Record<string, string>
+): string | null {
+  const candidates: string[] = [];
+  if (fromFile !== null) {
+    const directory = fromFile.split('/').slice(0, -1).join('/');
+    candidates.push(normalizePath(`${directory}/${path}`));
+  }
+  candidates.push(normalizePath(path));
+
+  return candidates.find((candidate) => candidate in includes) ?? null;
+}
+
+function normalizePath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+function getDefineLines(defines: ShaderDefines): string[] {
+  const lines: string[] = [];
+  for (const [name, value] of Object.entries(defines)) {
+    if (!IDENTIFIER_PATTERN.test(name)) {
+      throw new Error(`Invalid shader define name: '${name}'`);
+    }
+    if (value === false) {
+      continue;
+    }
+    lines.push(`#define ${name} ${value === true ? 1 : value}`);
+  }
+  return lines;
+}
@@ -0,0 +1,14 @@
+// Samples a greyscale noise texture, scrolling it diagonally over time.
+//
+// `scale` controls how zoomed in the noise is (smaller values zoom in), and
+// `speed` controls how quickly it scrolls.
+float sampleScrollingNoise(
+  sampler2D noiseTexture,
+  vec2 uv,
+  float time,
+  float scale,
+  float speed
+) {
+  // Only sample one channel since the noise texture is greyscale
+  return texture(noiseTexture, uv * scale + vec2(time * speed)).r;
+}
@@ -0,0 +1,19 @@
+#version 300 es
+
+precision highp float;
+precision highp int;
+
+// Written into the picking render target instead of a colour. 0 means
+// nothing was drawn, so object IDs start at 1.
+uniform uint uObjectId;
+
+// From the vertex shader, when compiled with PICKING defined
+flat in uint vInstanceId;
+
+layout(location = 0) out uint objectId;
+layout(location = 1) out uint instanceId;
+
+void main() {
+  objectId = uObjectId;
+  instanceId = vInstanceId;
+}
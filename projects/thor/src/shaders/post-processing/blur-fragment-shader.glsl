@@ -0,0 +1,26 @@
+#version 300 es
+
+precision highp float;
+
+uniform sampler2D uTexture;
+
+// One texel along the axis being blurred; run once per axis
+uniform vec2 uDirection;
+
+in vec2 vUv;
+
+out vec4 fragColour;
+
+void main() {
+  // 9 tap gaussian in 5 samples, using linear filtering between texel pairs
+  vec2 offset1 = uDirection * 1.3846153846;
+  vec2 offset2 = uDirection * 3.2307692308;
+
+  vec3 colour = texture(uTexture, vUv).rgb * 0.2270270270;
+  colour += texture(uTexture, vUv + offset1).rgb * 0.3162162162;
+  colour += texture(uTexture, vUv - offset1).rgb * 0.3162162162;
+  colour += texture(uTexture, vUv + offset2).rgb * 0.0702702703;
+  colour += texture(uTexture, vUv - offset2).rgb * 0.0702702703;
+
+  fragColour = vec4(colour, 1.0);
+}
@@ -0,0 +1,44 @@
+#version 300 es
+
+precision highp float;
+
+uniform sampler2D uTexture;
+
+// Strip of square slices, blue increasing per slice; red goes right and green
+// down within each
+uniform sampler2D uLut;
+
+// Slice count, which is also each slice's width and height
+uniform float uLutSize;
+
+// 0 to 1
+uniform float uIntensity;
+
+in vec2 vUv;
+
+out vec4 fragColour;
+
+vec3 lookUp(vec3 colour) {
+  colour = clamp(colour, 0.0, 1.0);
+
+  // Blend slices by hand, as linear filtering would bleed across them
+  float slice = colour.b * (uLutSize - 1.0);
+  float slice0 = floor(slice);
+  float slice1 = min(slice0 + 1.0, uLutSize - 1.0);
+
+  // Pixel centres, so a slice's edge doesn't blend with the next one
+  float x = (colour.r * (uLutSize - 1.0) + 0.5) / (uLutSize * uLutSize);
+  float y = (colour.g * (uLutSize - 1.0) + 0.5) / uLutSize;
+
+  // Flipped on upload, so the top row is at y = 1
+  vec3 colour0 = texture(uLut, vec2(x + slice0 / uLutSize, 1.0 - y)).rgb;
+  vec3 colour1 = texture(uLut, vec2(x + slice1 / uLutSize, 1.0 - y)).rgb;
+
+  return mix(colour0, colour1, slice - slice0);
+}
+
+void main() {
+  vec3 colour = texture(uTexture, vUv).rgb;
+
+  fragColour = vec4(mix(colour, lookUp(colour), uIntensity), 1.0);
+}
@@ -0,0 +1,11 @@
+#version 300 es
+
+// (0, 0) bottom left to (1, 1) top right
+out vec2 vUv;
+
+void main() {
+  // One oversized triangle with no vertex buffer: UVs (0, 0), (2, 0), (0, 2)
+  vUv = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+
+  gl_Position = vec4(vUv * 2.0 - 1.0, 0.0, 1.0);
+}
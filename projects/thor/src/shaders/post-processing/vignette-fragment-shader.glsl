@@ -0,0 +1,30 @@
+#version 300 es
+
+precision highp float;
+
+uniform sampler2D uTexture;
+
+// 0 to 1, where 1 makes the corners black
+uniform float uIntensity;
+
+// Where the darkening reaches full strength, 1 being the corners
+uniform float uRadius;
+
+// Width of the fade
+uniform float uSoftness;
+
+in vec2 vUv;
+
+out vec4 fragColour;
+
+void main() {
+  vec3 colour = texture(uTexture, vUv).rgb;
+
+  // 0 at the centre of the screen and 1 in the corners
+  float edgeDistance = length(vUv - 0.5) * sqrt(2.0);
+
+  float darkening = smoothstep(uRadius - uSoftness, uRadius, edgeDistance);
+  colour *= 1.0 - darkening * uIntensity;
+
+  fragColour = vec4(colour, 1.0);
+}
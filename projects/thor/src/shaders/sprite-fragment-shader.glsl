@@ -0,0 +1,14 @@
+#version 300 es
+
+precision highp float;
+
+uniform sampler2D uTexture;
+
+in vec2 vUv;
+in vec4 vColor;
+
+out vec4 fragColour;
+
+void main() {
+  fragColour = texture(uTexture, vUv) * vColor;
+}
@@ -0,0 +1,17 @@
+#version 300 es
+
+// Corners arrive already transformed, so there's no model matrix
+in vec2 aPosition;
+in vec2 aUv;
+in vec4 aColor;
+
+uniform mat4 uViewProjectionMatrix;
+
+out vec2 vUv;
+out vec4 vColor;
+
+void main() {
+  vUv = aUv;
+  vColor = aColor;
+  gl_Position = uViewProjectionMatrix * vec4(aPosition, 0.0, 1.0);
+}
@@ -2,6 +2,8 @@
 
 precision highp float;
 
+#include "common/noise.glsl"
+
 uniform sampler2D uTexture;
 uniform sampler2D uNoiseTexture;
 
@@ -15,8 +17,7 @@ out vec4 fragColour;
 void main() {
   vec3 textureColor = texture(uTexture, vUv).rgb;
 
-  // Only sample one channel since the noise texture is grayscale
-  float noise = texture(uNoiseTexture, 0.5 * vUv.xy + vec2(uTime * 0.1)).r;
+  float noise = sampleScrollingNoise(uNoiseTexture, vUv, uTime, 0.5, 0.1);
 
   fragColour = vec4(textureColor * vColor * noise, 1.0);
 }
@@ -11,9 +11,17 @@ uniform mat4 uViewProjectionMatrix;
 out vec2 vUv;
 out vec3 vColor;
 
+#ifdef PICKING
+flat out uint vInstanceId;
+#endif
+
 void main() {
   vUv = aUv;
   vColor = iColor;
 
+#ifdef PICKING
+  vInstanceId = uint(gl_InstanceID);
+#endif
+
   gl_Position = uViewProjectionMatrix * vec4(aPosition + iOffset, 1.0);
 }
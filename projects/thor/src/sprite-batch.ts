@@ -0,0 +1,299 @@
+import { ReadonlyVec2, ReadonlyVec4 } from 'gl-matrix';
+import { RenderCamera } from './camera';
+import { Program } from './program';
+import { RenderState, RenderStateCache } from './render-state';
+import { ResourceRegistry } from './resource-registry';
+import { ResourceTracker } from './resource-tracker';
+import { Texture } from './texture';
+import { VertexLayout } from './vertex-layout';
+
+import vertexShaderSource from './shaders/sprite-vertex-shader.glsl?raw';
+import fragmentShaderSource from './shaders/sprite-fragment-shader.glsl?raw';
+
+export interface Sprite {
+  position: ReadonlyVec2;
+  size: ReadonlyVec2;
+  // Radians, anticlockwise around the origin
+  rotation?: number;
+  // [x, y, width, height] in texture coordinates, from the bottom-left, for
+  // picking sprites out of an atlas. Whole texture by default.
+  uvRect?: ReadonlyVec4;
+  // Multiplies the texture; white by default
+  tint?: ReadonlyVec4;
+  // Fraction of the size to position and rotate around; centre by default
+  origin?: ReadonlyVec2;
+}
+
+export interface SpriteBatchOptions {
+  // Sprites per draw call, up to maxCapacity
+  capacity?: number;
+  renderState?: RenderState;
+}
+
+export interface SpriteBatchStats {
+  sprites: number;
+  // One per texture change or full batch
+  drawCalls: number;
+}
+
+const defaultCapacity = 2000;
+// 4 vertices per sprite, addressed with 16-bit indices
+const maxCapacity = (0xffff + 1) / 4;
+
+// Drawn in submission order, blended over what's behind
+export const defaultSpriteRenderState: Readonly<RenderState> = {
+  depthTest: false,
+  depthWrite: false,
+  blend: 'alpha',
+};
+
+const spriteLayout = new VertexLayout([
+  { name: 'aPosition', components: 2 },
+  { name: 'aUv', components: 2 },
+  { name: 'aColor', components: 4, type: 'unsigned-byte', normalized: true },
+]);
+const floatsPerVertex = spriteLayout.stride / 4;
+const colorOffset = spriteLayout.attributes[2].offset;
+
+const fullUvRect: ReadonlyVec4 = [0, 0, 1, 1];
+const white: ReadonlyVec4 = [1, 1, 1, 1];
+const centre: ReadonlyVec2 = [0.5, 0.5];
+
+// Collects sprites into one dynamic vertex buffer and draws them together,
+// flushing whenever the texture changes or the buffer fills up. Sprites that
+// share a texture (or an atlas) should be drawn one after another.
+export class SpriteBatch {
+  public readonly capacity: number;
+  public renderState: RenderState;
+  private program: Program;
+  // Corners of the pending sprites, written through both views: floats for
+  // positions and UVs, clamped bytes for colours
+  private vertexData: ArrayBuffer;
+  private floats: Float32Array;
+  private bytes: Uint8ClampedArray;
+  private vertexBuffer: WebGLBuffer;
+  // The same two triangles per sprite, so created once for the whole capacity
+  private indexBuffer: WebGLBuffer;
+  private vertexArray: WebGLVertexArrayObject;
+  private count = 0;
+  private texture: Texture | null = null;
+  // Only set between begin() and end()
+  private camera: RenderCamera | null = null;
+  private _stats: SpriteBatchStats = { sprites: 0, drawCalls: 0 };
+  private stateCache: RenderStateCache;
+
+  constructor(
+    private gl: WebGL2RenderingContext,
+    options: SpriteBatchOptions = {}
+  ) {
+    this.capacity = options.capacity ?? defaultCapacity;
+    if (
+      !Number.isInteger(this.capacity) ||
+      this.capacity < 1 ||
+      this.capacity > maxCapacity
+    ) {
+      throw new Error(
+        `Sprite batch capacity must be from 1 to ${maxCapacity}, but was ${this.capacity}`
+      );
+    }
+    this.renderState = options.renderState ?? defaultSpriteRenderState;
+    this.stateCache = RenderStateCache.forContext(gl);
+
+    this.program = new Program(gl, vertexShaderSource, fragmentShaderSource);
+
+    this.vertexData = new ArrayBuffer(this.capacity * 4 * spriteLayout.stride);
+    this.floats = new Float32Array(this.vertexData);
+    this.bytes = new Uint8ClampedArray(this.vertexData);
+
+    [this.vertexBuffer, this.indexBuffer, this.vertexArray] =
+      this.createBuffers();
+
+    // Registered after the program, so it's rebuilt before our VAO
+    ResourceRegistry.forContext(gl).register(this);
+  }
+
+  // Of the current or last begin()/end()
+  get stats(): Readonly<SpriteBatchStats> {
+    return this._stats;
+  }
+
+  public begin(camera: RenderCamera) {
+    if (this.camera) {
+      throw new Error('SpriteBatch.begin() called twice without end()');
+    }
+    this.camera = camera;
+    this._stats = { sprites: 0, drawCalls: 0 };
+  }
+
+  public draw(texture: Texture, sprite: Sprite) {
+    if (!this.camera) {
+      throw new Error('SpriteBatch.draw() called without begin()');
+    }
+
+    if (texture !== this.texture || this.count === this.capacity) {
+      this.flush();
+      this.texture = texture;
+    }
+
+    const [x, y] = sprite.position;
+    const [width, height] = sprite.size;
+    const [originX, originY] = sprite.origin ?? centre;
+    const [u, v, uvWidth, uvHeight] = sprite.uvRect ?? fullUvRect;
+    const tint = sprite.tint ?? white;
+    const rotation = sprite.rotation ?? 0;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+
+    const left = -originX * width;
+    const right = left + width;
+    const bottom = -originY * height;
+    const top = bottom + height;
+
+    // Anticlockwise from the bottom-left, matching the indices
+    const corners = [
+      [left, bottom, u, v],
+      [right, bottom, u + uvWidth, v],
+      [right, top, u + uvWidth, v + uvHeight],
+      [left, top, u, v + uvHeight],
+    ];
+
+    let vertex = this.count * 4;
+    for (const [cornerX, cornerY, cornerU, cornerV] of corners) {
+      const offset = vertex * floatsPerVertex;
+      this.floats[offset] = x + cornerX * cos - cornerY * sin;
+      this.floats[offset + 1] = y + cornerX * sin + cornerY * cos;
+      this.floats[offset + 2] = cornerU;
+      this.floats[offset + 3] = cornerV;
+
+      const byteOffset = vertex * spriteLayout.stride + colorOffset;
+      for (let i = 0; i < 4; i++) {
+        this.bytes[byteOffset + i] = tint[i] * 255;
+      }
+      vertex++;
+    }
+
+    this.count++;
+    this._stats.sprites++;
+  }
+
+  public end() {
+    if (!this.camera) {
+      throw new Error('SpriteBatch.end() called without begin()');
+    }
+    this.flush();
+    this.camera = null;
+    this.texture = null;
+  }
+
+  // Vertices are uploaded every flush, so there's nothing to restore but the
+  // objects themselves
+  public restore() {
+    [this.vertexBuffer, this.indexBuffer, this.vertexArray] =
+      this.createBuffers();
+  }
+
+  // Textures belong to the caller and are left alone
+  public dispose() {
+    const tracker = ResourceTracker.forContext(this.gl);
+    this.gl.deleteVertexArray(this.vertexArray);
+    tracker.untrack(this.vertexArray);
+    this.gl.deleteBuffer(this.vertexBuffer);
+    tracker.untrack(this.vertexBuffer);
+    this.gl.deleteBuffer(this.indexBuffer);
+    tracker.untrack(this.indexBuffer);
+
+    this.program.dispose();
+    ResourceRegistry.forContext(this.gl).unregister(this);
+  }
+
+  private flush() {
+    if (this.count === 0 || !this.texture || !this.camera) {
+      return;
+    }
+
+    // Orphan before writing, so we don't wait on the previous flush's draw
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.vertexBuffer);
+    this.gl.bufferData(
+      this.gl.ARRAY_BUFFER,
+      this.vertexData.byteLength,
+      this.gl.STREAM_DRAW
+    );
+    this.gl.bufferSubData(
+      this.gl.ARRAY_BUFFER,
+      0,
+      this.bytes,
+      0,
+      this.count * 4 * spriteLayout.stride
+    );
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+
+    this.stateCache.apply(this.renderState);
+    this.program.setUniform(
+      'uViewProjectionMatrix',
+      this.camera.getViewProjectionMatrix()
+    );
+    this.texture.bind(0);
+    this.program.setUniform('uTexture', 0);
+    this.program.use();
+    this.stateCache.bindVertexArray(this.vertexArray);
+
+    this.gl.drawElements(
+      this.gl.TRIANGLES,
+      this.count * 6,
+      this.gl.UNSIGNED_SHORT,
+      0
+    );
+
+    this._stats.drawCalls++;
+    this.count = 0;
+  }
+
+  private createBuffers(): [WebGLBuffer, WebGLBuffer, WebGLVertexArrayObject] {
+    const tracker = ResourceTracker.forContext(this.gl);
+
+    const vertexBuffer = this.gl.createBuffer();
+    const indexBuffer = this.gl.createBuffer();
+    const vertexArray = this.gl.createVertexArray();
+    if (!vertexBuffer || !indexBuffer || !vertexArray) {
+      throw new Error('Failed to create sprite batch buffers');
+    }
+
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, vertexBuffer);
+    this.gl.bufferData(
+      this.gl.ARRAY_BUFFER,
+      this.vertexData.byteLength,
+      this.gl.STREAM_DRAW
+    );
+    tracker.track(
+      vertexBuffer,
+      'buffer',
+      'Sprite vertices',
+      this.vertexData.byteLength
+    );
+
+    // The index buffer binding is recorded into the VAO along with the
+    // attributes
+    this.stateCache.bindVertexArray(vertexArray);
+    spriteLayout.bindAttributes(this.gl, this.program);
+    this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+    tracker.track(vertexArray, 'vertexArray', 'Sprite vertex array');
+
+    const indices = new Uint16Array(this.capacity * 6);
+    for (let i = 0; i < this.capacity; i++) {
+      const corner = i * 4;
+      indices.set(
+        [corner, corner + 1, corner + 2, corner + 2, corner + 3, corner],
+        i * 6
+      );
+    }
+    this.gl.bufferData(
+      this.gl.ELEMENT_ARRAY_BUFFER,
+      indices,
+      this.gl.STATIC_DRAW
+    );
+    tracker.track(indexBuffer, 'buffer', 'Sprite indices', indices.byteLength);
+
+    return [vertexBuffer, indexBuffer, vertexArray];
+  }
+}
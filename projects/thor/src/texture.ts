@@ -1,43 +1,127 @@
-interface TextureOptions {
+import { RenderStateCache } from './render-state';
+import { ResourceRegistry } from './resource-registry';
+import { ResourceTracker } from './resource-tracker';
+
+export interface TextureOptions {
   minFilter?: number;
   magFilter?: number;
   wrapU?: number;
   wrapV?: number;
+  // Storage format, RGBA8 / RGBA / UNSIGNED_BYTE by default
+  internalFormat?: number;
+  format?: number;
+  type?: number;
+  // Size of a texture without an image; ignored when there is one
+  width?: number;
+  height?: number;
 }
 
 export class Texture {
-  private texture: WebGLTexture;
+  public texture: WebGLTexture;
+  private _width: number;
+  private _height: number;
+  private stateCache: RenderStateCache;
 
+  // The image and options are kept to recreate the texture after a context
+  // loss. Without an image the texture is left empty, e.g. to be rendered to.
   constructor(
     private gl: WebGL2RenderingContext,
-    image: TexImageSource,
-    options: TextureOptions = {}
+    private image: TexImageSource | null,
+    private options: TextureOptions = {}
   ) {
-    const texture = gl.createTexture();
-    if (!texture) {
-      throw new Error('Failed to create texture');
+    this.stateCache = RenderStateCache.forContext(gl);
+
+    if (image) {
+      [this._width, this._height] = getImageSize(image);
+    } else {
+      if (options.width === undefined || options.height === undefined) {
+        throw new Error('A texture without an image needs a width and height');
+      }
+      this._width = options.width;
+      this._height = options.height;
     }
 
-    this.texture = texture;
+    this.texture = this.create();
+    ResourceRegistry.forContext(gl).register(this);
+  }
+
+  // Not mipmapped, and clamped rather than repeated unless options say so
+  public static createEmpty(
+    gl: WebGL2RenderingContext,
+    width: number,
+    height: number,
+    options: TextureOptions = {}
+  ): Texture {
+    return new Texture(gl, null, { ...options, width, height });
+  }
+
+  get width(): number {
+    return this._width;
+  }
+
+  get height(): number {
+    return this._height;
+  }
+
+  // Reallocates an empty texture, discarding its contents. The WebGLTexture
+  // stays the same, so framebuffers it's attached to don't need updating.
+  public resize(width: number, height: number) {
+    if (this.image) {
+      throw new Error('Only textures without an image can be resized');
+    }
+    if (width === this._width && height === this._height) {
+      return;
+    }
+
+    this._width = width;
+    this._height = height;
+
+    this.bind(0);
+    this.allocate();
+
+    ResourceTracker.forContext(this.gl).setBytes(
+      this.texture,
+      this.getByteSize()
+    );
+  }
+
+  public restore() {
+    this.texture = this.create();
+  }
+
+  // The texture can't be used afterwards
+  public dispose() {
+    this.gl.deleteTexture(this.texture);
+    ResourceTracker.forContext(this.gl).untrack(this.texture);
+    ResourceRegistry.forContext(this.gl).unregister(this);
+  }
 
-    this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+  private create(): WebGLTexture {
+    const options = this.options;
+    const texture = this.gl.createTexture();
+    if (!texture) {
+      throw new Error('Failed to create texture');
+    }
 
-    this.gl.pixelStorei(this.gl.UNPACK_FLIP_Y_WEBGL, true);
+    // Uploads go through unit 0
+    this.stateCache.bindTexture(0, texture);
 
+    const defaultWrap = this.image ? this.gl.REPEAT : this.gl.CLAMP_TO_EDGE;
     this.gl.texParameteri(
       this.gl.TEXTURE_2D,
       this.gl.TEXTURE_WRAP_S,
-      options.wrapU ?? this.gl.REPEAT
+      options.wrapU ?? defaultWrap
     );
     this.gl.texParameteri(
       this.gl.TEXTURE_2D,
       this.gl.TEXTURE_WRAP_T,
-      options.wrapV ?? this.gl.REPEAT
+      options.wrapV ?? defaultWrap
     );
     this.gl.texParameteri(
       this.gl.TEXTURE_2D,
       this.gl.TEXTURE_MIN_FILTER,
-      options.minFilter ?? this.gl.NEAREST_MIPMAP_LINEAR
+      options.minFilter ??
+        (this.image ? this.gl.NEAREST_MIPMAP_LINEAR : this.gl.LINEAR)
     );
     this.gl.texParameteri(
       this.gl.TEXTURE_2D,
@@ -45,18 +129,56 @@ export class Texture {
       options.magFilter ?? this.gl.LINEAR
     );
 
+    if (this.image) {
+      this.gl.pixelStorei(this.gl.UNPACK_FLIP_Y_WEBGL, true);
+
+      this.gl.texImage2D(
+        this.gl.TEXTURE_2D,
+        0,
+        options.internalFormat ?? this.gl.RGBA8,
+        options.format ?? this.gl.RGBA,
+        options.type ?? this.gl.UNSIGNED_BYTE,
+        this.image
+      );
+
+      this.gl.generateMipmap(this.gl.TEXTURE_2D);
+    } else {
+      this.allocate();
+    }
+
+    ResourceTracker.forContext(this.gl).track(
+      texture,
+      'texture',
+      'Texture',
+      this.getByteSize()
+    );
+
+    return texture;
+  }
+
+  // Storage for an empty texture, which must be bound
+  private allocate() {
     this.gl.texImage2D(
       this.gl.TEXTURE_2D,
       0,
-      this.gl.RGBA,
-      this.gl.RGBA,
-      this.gl.UNSIGNED_BYTE,
-      image
+      this.options.internalFormat ?? this.gl.RGBA8,
+      this._width,
+      this._height,
+      0,
+      this.options.format ?? this.gl.RGBA,
+      this.options.type ?? this.gl.UNSIGNED_BYTE,
+      null
     );
+  }
 
-    this.gl.generateMipmap(this.gl.TEXTURE_2D);
+  private getByteSize(): number {
+    const bytes =
+      this._width *
+      this._height *
+      getBytesPerPixel(this.gl, this.options.internalFormat ?? this.gl.RGBA8);
 
-    this.gl.bindTexture(this.gl.TEXTURE_2D, null);
+    // Plus a third again for the mipmaps
+    return Math.round(this.image ? (bytes * 4) / 3 : bytes);
   }
 
   public static fromURL(
@@ -78,18 +200,41 @@ export class Texture {
     });
   }
 
+  // Stays bound until something else is bound to the unit
   public bind(unit: number): void {
-    this.gl.activeTexture(this.gl.TEXTURE0 + unit);
-    this.gl.bindTexture(this.gl.TEXTURE_2D, this.texture);
+    this.stateCache.bindTexture(unit, this.texture);
   }
+}
 
-  public static unbindAll(
-    gl: WebGL2RenderingContext,
-    maxTextureUnit: number
-  ): void {
-    for (let i = maxTextureUnit; i >= 0; i--) {
-      gl.activeTexture(gl.TEXTURE0 + i);
-      gl.bindTexture(gl.TEXTURE_2D, null);
-    }
+function getImageSize(image: TexImageSource): [number, number] {
+  if ('videoWidth' in image) {
+    return [image.videoWidth, image.videoHeight];
+  }
+  if ('displayWidth' in image) {
+    return [image.displayWidth, image.displayHeight];
+  }
+  return [image.width, image.height];
+}
+
+// Estimated; the driver may pad or compress
+function getBytesPerPixel(
+  gl: WebGL2RenderingContext,
+  internalFormat: number
+): number {
+  switch (internalFormat) {
+    case gl.R8:
+      return 1;
+    case gl.RG8:
+    case gl.R16F:
+      return 2;
+    case gl.RGBA16F:
+    case gl.RG32F:
+      return 8;
+    case gl.RGBA32F:
+    case gl.RGBA32UI:
+      return 16;
+    default:
+      // RGBA8, R32F, R32UI, RG16F and most others
+      return 4;
   }
 }
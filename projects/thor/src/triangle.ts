@@ -1,28 +1,44 @@
-import { vec2, vec3 } from 'gl-matrix';
+import { ReadonlyVec2, ReadonlyVec3, vec2, vec3 } from 'gl-matrix';
+import { Material } from './material';
 import { Mesh } from './mesh';
 import { Program } from './program';
+import { RenderQueue } from './render-queue';
+import { RenderState } from './render-state';
 
 import vertexShaderSource from './shaders/triangle-vertex-shader.glsl?raw';
 import fragmentShaderSource from './shaders/triangle-fragment-shader.glsl?raw';
-import { Camera } from './camera';
+import pickingFragmentShaderSource from './shaders/picking-fragment-shader.glsl?raw';
+import { RenderCamera, WorldBounds } from './camera';
+import { Clock } from './frame-loop';
 
 import textureUrl from './assets/test-texture.png?url';
 import noiseTextureUrl from './assets/noise-texture.png?url';
 import { Texture } from './texture';
+import { VertexLayout } from './vertex-layout';
+import { Pickable } from './picker';
 
-export class TriangleObject {
-  private mesh: Mesh;
-  private program: Program;
+// Replaces the colour of the instance picked by highlight()
+const highlightColor: ReadonlyVec3 = [1.0, 1.0, 0.25];
 
-  private texture: Texture | null = null;
-  private noiseTexture: Texture | null = null;
+export class TriangleObject implements Pickable {
+  // The instances all sit at z = 0, so with lequal later ones still draw over
+  // earlier ones
+  public renderState: RenderState = { depthFunc: 'lequal' };
 
-  private viewProjectionMatrixUniform: WebGLUniformLocation | null;
-  private colour1Uniform: WebGLUniformLocation | null;
-  private colour2Uniform: WebGLUniformLocation | null;
-  private timeUniform: WebGLUniformLocation | null;
-  private textureUniform: WebGLUniformLocation | null;
-  private noiseTextureUniform: WebGLUniformLocation | null;
+  private mesh: Mesh<'iOffset' | 'iColor'>;
+  private material: Material;
+  // Same vertex shader, writing IDs instead of colours
+  private pickingProgram: Program;
+  // Kept for getInstanceBounds(), since instance data is write-only
+  private offsets: ReadonlyVec2[] = [];
+  // Each instance's own colour, for when it isn't highlighted
+  private colors: ReadonlyVec3[] = [
+    [1.0, 0.5, 0.5],
+    [0.5, 1.0, 0.5],
+    [0.5, 0.5, 1.0],
+  ];
+  // Promises, so they can be disposed even if they're still loading
+  private textures: Promise<Texture>[];
 
   constructor(private gl: WebGL2RenderingContext) {
     //        (0.0, 0.5, 0.0)
@@ -32,15 +48,26 @@ export class TriangleObject {
     //           /      \
     //          /________\
     // (-0.5,-0.5,0.0)  (0.5,-0.5,0.0)
+    const layout = new VertexLayout([
+      { name: 'aPosition', components: 3 },
+      { name: 'aUv', components: 2 },
+    ]);
     this.mesh = new Mesh(
       this.gl,
+      layout,
       [
         // Top of the triangle
-        { position: vec3.fromValues(0, 0.5, 0), uv: vec2.fromValues(0.5, 1) },
+        { aPosition: vec3.fromValues(0, 0.5, 0), aUv: vec2.fromValues(0.5, 1) },
         // Bottom left of the triangle
-        { position: vec3.fromValues(-0.5, -0.5, 0), uv: vec2.fromValues(0, 0) },
+        {
+          aPosition: vec3.fromValues(-0.5, -0.5, 0),
+          aUv: vec2.fromValues(0, 0),
+        },
         // Bottom right of the triangle
-        { position: vec3.fromValues(0.5, -0.5, 0), uv: vec2.fromValues(1, 0) },
+        {
+          aPosition: vec3.fromValues(0.5, -0.5, 0),
+          aUv: vec2.fromValues(1, 0),
+        },
       ],
       [
         {
@@ -53,91 +80,89 @@ export class TriangleObject {
         },
       ]
     );
-    this.mesh.setInstanceCount(3);
-    this.mesh.setInstanceProperty(
-      0,
-      'iColor',
-      vec3.fromValues(1.0, 0.5, 0.5) as Float32Array
-    );
-    this.mesh.setInstanceProperty(
-      1,
-      'iColor',
-      vec3.fromValues(0.5, 1.0, 0.5) as Float32Array
-    );
-    this.mesh.setInstanceProperty(
-      2,
-      'iColor',
-      vec3.fromValues(0.5, 0.5, 1.0) as Float32Array
-    );
+    this.mesh.setInstanceCount(this.colors.length);
+    this.highlight(null);
+
+    const texture = Texture.fromURL(gl, textureUrl);
+    const noiseTexture = Texture.fromURL(gl, noiseTextureUrl);
+    this.textures = [texture, noiseTexture];
 
-    this.program = new Program(
+    // Draws with a placeholder until the textures load
+    this.material = new Material(
       this.gl,
       vertexShaderSource,
-      fragmentShaderSource
+      fragmentShaderSource,
+      { textures: { uTexture: texture, uNoiseTexture: noiseTexture } }
     );
-    this.viewProjectionMatrixUniform = this.program.getUniformLocation(
-      'uViewProjectionMatrix'
+    this.pickingProgram = new Program(
+      this.gl,
+      vertexShaderSource,
+      pickingFragmentShaderSource,
+      { defines: { PICKING: true } }
     );
-    this.colour1Uniform = this.program.getUniformLocation('uColour1');
-    this.colour2Uniform = this.program.getUniformLocation('uColour2');
-    this.timeUniform = this.program.getUniformLocation('uTime');
-    this.textureUniform = this.program.getUniformLocation('uTexture');
-    this.noiseTextureUniform = this.program.getUniformLocation('uNoiseTexture');
-
-    Texture.fromURL(gl, textureUrl).then((texture) => {
-      this.texture = texture;
-    });
-    Texture.fromURL(gl, noiseTextureUrl).then((noiseTexture) => {
-      this.noiseTexture = noiseTexture;
-    });
   }
 
-  public render(camera: Camera) {
-    this.program.setUniformMat4(
-      this.viewProjectionMatrixUniform,
-      camera.getViewProjectionMatrix()
-    );
-
-    this.program.setUniform1f(this.timeUniform, performance.now() / 1000);
+  public dispose() {
+    this.mesh.dispose();
+    this.material.dispose();
+    this.pickingProgram.dispose();
 
-    let textureUnit = 0;
-    if (this.texture) {
-      this.texture.bind(textureUnit);
+    // The material doesn't own them. Ones still loading are disposed once
+    // they've loaded.
+    for (const texture of this.textures) {
+      texture.then(
+        (loaded) => loaded.dispose(),
+        () => {}
+      );
     }
-    this.program.setUniform1i(this.textureUniform, textureUnit++);
+  }
 
-    if (this.noiseTexture) {
-      this.noiseTexture.bind(textureUnit);
-    }
-    this.program.setUniform1i(this.noiseTextureUniform, textureUnit++);
-
-    this.mesh.setInstanceProperty(
-      0,
-      'iOffset',
-      vec2.fromValues(
-        Math.cos(performance.now() / 1000),
-        Math.sin(performance.now() / 600)
-      ) as Float32Array
-    );
-    this.mesh.setInstanceProperty(
-      1,
-      'iOffset',
-      vec2.fromValues(
-        Math.sin(performance.now() / 350),
-        Math.cos(performance.now() / 350)
-      ) as Float32Array
-    );
-    this.mesh.setInstanceProperty(
-      2,
-      'iOffset',
-      vec2.fromValues(
-        Math.sin(performance.now() / 750),
-        Math.cos(performance.now() / 500)
-      ) as Float32Array
+  // Submits the triangle to be drawn when the queue is executed
+  public render(queue: RenderQueue, clock: Clock) {
+    const time = clock.renderTime * 1000;
+    this.offsets = [
+      [Math.cos(time / 1000), Math.sin(time / 600)],
+      [Math.sin(time / 350), Math.cos(time / 350)],
+      [Math.sin(time / 750), Math.cos(time / 500)],
+    ];
+    this.offsets.forEach((offset, instance) => {
+      this.mesh.instances.set(instance, 'iOffset', offset);
+    });
+
+    queue.submit({
+      mesh: this.mesh,
+      material: this.material,
+      renderState: this.renderState,
+    });
+  }
+
+  // Tints one instance, or none with null
+  public highlight(instance: number | null) {
+    this.colors.forEach((color, i) => {
+      this.mesh.instances.set(
+        i,
+        'iColor',
+        i === instance ? highlightColor : color
+      );
+    });
+  }
+
+  // Uses the instance offsets from the last render()
+  public renderPicking(camera: RenderCamera, objectId: number) {
+    this.pickingProgram.setUniform(
+      'uViewProjectionMatrix',
+      camera.getViewProjectionMatrix()
     );
+    this.pickingProgram.setUniform('uObjectId', objectId);
 
-    this.mesh.render(this.program, 'aPosition', 'aUv');
+    this.mesh.render(this.pickingProgram, this.renderState);
+  }
 
-    Texture.unbindAll(this.gl, textureUnit - 1);
+  // The triangle spans -0.5 to 0.5 around each instance's offset
+  public getInstanceBounds(): WorldBounds[] {
+    return this.offsets.map((offset) => ({
+      min: vec2.fromValues(offset[0] - 0.5, offset[1] - 0.5),
+      max: vec2.fromValues(offset[0] + 0.5, offset[1] + 0.5),
+    }));
   }
 }
@@ -0,0 +1,277 @@
+import { Program } from './program';
+
+export type VertexAttributeType =
+  | 'float'
+  | 'half-float'
+  | 'byte'
+  | 'unsigned-byte'
+  | 'short'
+  | 'unsigned-short';
+
+export interface VertexAttributeDescription {
+  // Name of the attribute in the shader, and of the property on each vertex
+  name: string;
+  components: 1 | 2 | 3 | 4;
+  // Defaults to 'float'
+  type?: VertexAttributeType;
+  // Integer types are read as 0..1 (or -1..1 if signed) floats in the shader.
+  // Vertex data for normalized attributes is given in that range too.
+  normalized?: boolean;
+}
+
+export interface VertexAttribute extends Required<VertexAttributeDescription> {
+  // Byte offset from the start of each vertex
+  offset: number;
+}
+
+export type Vertex = Record<string, number | ArrayLike<number>>;
+
+const bytesPerComponent: Record<VertexAttributeType, number> = {
+  float: 4,
+  'half-float': 2,
+  byte: 1,
+  'unsigned-byte': 1,
+  short: 2,
+  'unsigned-short': 2,
+};
+
+// Attributes must start at a multiple of their type's size, and 4 bytes is the
+// fastest alignment on most hardware, so every attribute is padded to it
+const attributeAlignment = 4;
+
+// Interleaved layout of a vertex, with offsets and stride worked out from the
+// attribute list
+export class VertexLayout {
+  public readonly attributes: readonly VertexAttribute[];
+  // Size of a whole vertex in bytes
+  public readonly stride: number;
+
+  constructor(descriptions: VertexAttributeDescription[]) {
+    const attributes: VertexAttribute[] = [];
+    let offset = 0;
+    for (const description of descriptions) {
+      if (attributes.some((a) => a.name === description.name)) {
+        throw new Error(`Duplicate vertex attribute: '${description.name}'`);
+      }
+
+      const attribute: VertexAttribute = {
+        type: 'float',
+        normalized: false,
+        ...description,
+        offset,
+      };
+      attributes.push(attribute);
+
+      offset += align(
+        attribute.components * bytesPerComponent[attribute.type],
+        attributeAlignment
+      );
+    }
+
+    this.attributes = attributes;
+    this.stride = offset;
+  }
+
+  pack(vertices: Vertex[]): ArrayBuffer {
+    const data = new ArrayBuffer(vertices.length * this.stride);
+    const view = new DataView(data);
+
+    for (let i = 0; i < vertices.length; i++) {
+      for (const attribute of this.attributes) {
+        const value = vertices[i][attribute.name];
+        if (value === undefined) {
+          throw new Error(
+            `Vertex ${i} is missing a value for '${attribute.name}'`
+          );
+        }
+
+        const values = typeof value === 'number' ? [value] : value;
+        if (values.length !== attribute.components) {
+          throw new Error(
+            `Vertex ${i} has ${values.length} values for '${attribute.name}', ` +
+              `but the layout expects ${attribute.components}`
+          );
+        }
+
+        const size = bytesPerComponent[attribute.type];
+        for (let c = 0; c < attribute.components; c++) {
+          writeComponent(
+            view,
+            i * this.stride + attribute.offset + c * size,
+            attribute,
+            values[c]
+          );
+        }
+      }
+    }
+
+    return data;
+  }
+
+  // Sets up attribute pointers into the currently bound ARRAY_BUFFER, skipping
+  // attributes the program doesn't use. Meant to be recorded into a VAO.
+  bindAttributes(
+    gl: WebGL2RenderingContext,
+    program: Program,
+    divisor: number = 0
+  ) {
+    for (const attribute of this.attributes) {
+      const programAttribute = program.attributes.get(attribute.name);
+      if (!programAttribute) {
+        continue;
+      }
+
+      const location = programAttribute.location;
+      const type = getGLType(gl, attribute.type);
+      gl.enableVertexAttribArray(location);
+
+      // `in ivec*`/`in uvec*` attributes must not be converted to floats
+      if (
+        !attribute.normalized &&
+        isIntegerAttribute(gl, programAttribute.type)
+      ) {
+        gl.vertexAttribIPointer(
+          location,
+          attribute.components,
+          type,
+          this.stride,
+          attribute.offset
+        );
+      } else {
+        gl.vertexAttribPointer(
+          location,
+          attribute.components,
+          type,
+          attribute.normalized,
+          this.stride,
+          attribute.offset
+        );
+      }
+
+      gl.vertexAttribDivisor(location, divisor);
+    }
+  }
+
+  // Programs with the same key can share a VAO for this layout
+  getLocationKey(program: Program): string {
+    return this.attributes
+      .map((attribute) => program.getAttribLocation(attribute.name))
+      .join(',');
+  }
+}
+
+function align(value: number, alignment: number): number {
+  return Math.ceil(value / alignment) * alignment;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function writeComponent(
+  view: DataView,
+  byteOffset: number,
+  attribute: VertexAttribute,
+  value: number
+) {
+  // WebGL buffers use the platform's byte order, which is little-endian in
+  // practice
+  const littleEndian = true;
+  const normalized = attribute.normalized;
+
+  switch (attribute.type) {
+    case 'float':
+      view.setFloat32(byteOffset, value, littleEndian);
+      break;
+    case 'half-float':
+      view.setUint16(byteOffset, toHalfFloat(value), littleEndian);
+      break;
+    case 'byte':
+      view.setInt8(
+        byteOffset,
+        normalized ? Math.round(clamp(value, -1, 1) * 0x7f) : value
+      );
+      break;
+    case 'unsigned-byte':
+      view.setUint8(
+        byteOffset,
+        normalized ? Math.round(clamp(value, 0, 1) * 0xff) : value
+      );
+      break;
+    case 'short':
+      view.setInt16(
+        byteOffset,
+        normalized ? Math.round(clamp(value, -1, 1) * 0x7fff) : value,
+        littleEndian
+      );
+      break;
+    case 'unsigned-short':
+      view.setUint16(
+        byteOffset,
+        normalized ? Math.round(clamp(value, 0, 1) * 0xffff) : value,
+        littleEndian
+      );
+      break;
+  }
+}
+
+const floatView = new Float32Array(1);
+const floatBitsView = new Uint32Array(floatView.buffer);
+
+// Converts a number to the bits of an IEEE half float, rounding to nearest
+function toHalfFloat(value: number): number {
+  floatView[0] = value;
+  const bits = floatBitsView[0];
+
+  const sign = (bits >>> 16) & 0x8000;
+  const rawExponent = (bits >>> 23) & 0xff;
+  const exponent = rawExponent - 127 + 15;
+  const mantissa = bits & 0x7fffff;
+
+  if (rawExponent === 0xff && mantissa !== 0) {
+    return sign | 0x7e00; // NaN
+  }
+  if (exponent >= 0x1f) {
+    return sign | 0x7c00; // Infinity
+  }
+  if (exponent <= 0) {
+    // Subnormal, or too small and flushed to zero
+    if (exponent < -10) {
+      return sign;
+    }
+    const subnormal = (mantissa | 0x800000) >>> (1 - exponent);
+    return sign | ((subnormal + 0x1000) >>> 13);
+  }
+  return sign | ((exponent << 10) + ((mantissa + 0x1000) >>> 13));
+}
+
+function getGLType(gl: WebGL2RenderingContext, type: VertexAttributeType) {
+  switch (type) {
+    case 'float':
+      return gl.FLOAT;
+    case 'half-float':
+      return gl.HALF_FLOAT;
+    case 'byte':
+      return gl.BYTE;
+    case 'unsigned-byte':
+      return gl.UNSIGNED_BYTE;
+    case 'short':
+      return gl.SHORT;
+    case 'unsigned-short':
+      return gl.UNSIGNED_SHORT;
+  }
+}
+
+function isIntegerAttribute(gl: WebGL2RenderingContext, type: number) {
+  const integerTypes: number[] = [
+    gl.INT,
+    gl.INT_VEC2,
+    gl.INT_VEC3,
+    gl.INT_VEC4,
+    gl.UNSIGNED_INT,
+    gl.UNSIGNED_INT_VEC2,
+    gl.UNSIGNED_INT_VEC3,
+    gl.UNSIGNED_INT_VEC4,
+  ];
+  return integerTypes.includes(type);
+}
@@ -0,0 +1,200 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { ResolvedConfig } from 'vite';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { glslPlugin } from './vite-plugin-glsl';
+
+const vertexShader = `#version 300 es
+in vec2 aPosition;
+out vec2 vUv;
+void main() {
+  vUv = aPosition;
+  gl_Position = vec4(aPosition, 0.0, 1.0);
+}`;
+
+const fragmentShader = `#version 300 es
+precision highp float;
+in vec2 vUv;
+out vec4 fragColour;
+void main() {
+  fragColour = vec4(vUv, 0.0, 1.0);
+}`;
+
+let shadersDirectory: string;
+
+// Shader files are read from disk, so each test gets its own `shaders`
+// directory to write them into
+beforeEach(() => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'glsl-plugin-'));
+  shadersDirectory = path.join(root, 'shaders');
+  fs.mkdirSync(shadersDirectory);
+});
+
+afterEach(() => {
+  fs.rmSync(path.dirname(shadersDirectory), { recursive: true, force: true });
+});
+
+function writeShaders(files: Record<string, string>) {
+  for (const [name, source] of Object.entries(files)) {
+    const file = path.join(shadersDirectory, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, source);
+  }
+}
+
+// Runs the plugin's load hook as Vite would, returning the source the module
+// exports, or null if the plugin left the file alone
+function load(
+  name: string,
+  { build = false, query = 'raw' } = {}
+): string | null {
+  const plugin = glslPlugin();
+  const configResolved = plugin.configResolved as (
+    config: Pick<ResolvedConfig, 'command'>
+  ) => void;
+  configResolved({ command: build ? 'build' : 'serve' });
+
+  const context = {
+    addWatchFile: () => {},
+    error: (error: { message: string }) => {
+      throw new Error(error.message);
+    },
+  };
+  // The plugin only uses these two methods of Vite's plugin context
+  const loadHook = plugin.load as unknown as (
+    this: typeof context,
+    id: string
+  ) => string | null;
+
+  const file = path.join(shadersDirectory, name);
+  const code = loadHook.call(context, query ? `${file}?${query}` : file);
+  return code === null
+    ? null
+    : JSON.parse(code.replace(/^export default /, '').replace(/;$/, ''));
+}
+
+describe('glslPlugin', () => {
+  it('serves the source as-is in dev', () => {
+    writeShaders({ 'triangle-vertex-shader.glsl': `// Hi\n${vertexShader}` });
+
+    expect(load('triangle-vertex-shader.glsl')).toBe(`// Hi\n${vertexShader}`);
+  });
+
+  it('leaves other files and queries alone', () => {
+    writeShaders({ 'triangle-vertex-shader.glsl': vertexShader });
+
+    expect(load('main.ts')).toBeNull();
+    expect(load('triangle-vertex-shader.glsl', { query: 'url' })).toBeNull();
+  });
+
+  it('strips comments, indentation and blank lines from builds', () => {
+    writeShaders({
+      'vertex-shader.glsl': [
+        '#version 300 es',
+        '/* Block',
+        '   comment */',
+        '',
+        'void main() { // Line comment',
+        '  gl_Position = vec4(0.0);',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(load('vertex-shader.glsl', { build: true })).toBe(
+      '#version 300 es\nvoid main() {\ngl_Position = vec4(0.0);\n}'
+    );
+  });
+
+  it('pastes a file included from two places only once in builds', () => {
+    writeShaders({
+      'common/one.glsl': 'float one() { return 1.0; }',
+      'common/a.glsl': '#include "one.glsl"\nfloat a() { return one(); }',
+      'common/b.glsl':
+        '#include "common/one.glsl"\nfloat b() { return one(); }',
+      'vertex-shader.glsl': [
+        '#version 300 es',
+        '#include "common/a.glsl"',
+        '#include "common/b.glsl"',
+        'void main() { gl_Position = vec4(a() + b()); }',
+      ].join('\n'),
+    });
+
+    expect(load('vertex-shader.glsl', { build: true })).toBe(
+      [
+        '#version 300 es',
+        'float one() { return 1.0; }',
+        'float a() { return one(); }',
+        'float b() { return one(); }',
+        'void main() { gl_Position = vec4(a() + b()); }',
+      ].join('\n')
+    );
+  });
+
+  it('rejects include cycles', () => {
+    writeShaders({
+      'a.glsl': '#include "b.glsl"',
+      'b.glsl': '#include "a.glsl"',
+    });
+
+    expect(() => load('a.glsl')).toThrow('Shader include cycle detected');
+  });
+
+  it('rejects missing includes', () => {
+    writeShaders({ 'a.glsl': '#include "missing.glsl"' });
+
+    expect(() => load('a.glsl')).toThrow(
+      'a.glsl:1: Cannot find shader include "missing.glsl"'
+    );
+  });
+
+  it('only checks the brackets of snippets', () => {
+    writeShaders({
+      'common/vertex-skinning.glsl': 'mat4 skin() { return mat4(1.0); }',
+      'common/broken.glsl': 'float broken() { return (1.0; }',
+    });
+
+    expect(load('common/vertex-skinning.glsl')).toBe(
+      'mat4 skin() { return mat4(1.0); }'
+    );
+    expect(() => load('common/broken.glsl')).toThrow("Unexpected '}'");
+  });
+
+  it('checks that stages are complete', () => {
+    writeShaders({
+      'empty-vertex-shader.glsl': 'float x;',
+      'empty.frag': '#version 300 es\nvoid main() { gl_FragColor = vec4(1); }',
+    });
+
+    expect(() => load('empty-vertex-shader.glsl')).toThrow(
+      /Missing `#version 300 es` directive[\s\S]*Missing `void main\(\)`/
+    );
+    expect(() => load('empty.frag')).toThrow(
+      /must declare a float precision[\s\S]*`gl_FragColor` is not available/
+    );
+  });
+
+  it('checks that fragment inputs match the paired vertex outputs', () => {
+    writeShaders({
+      'sprite-vertex-shader.glsl': vertexShader,
+      'sprite-fragment-shader.glsl': fragmentShader.replace(
+        'in vec2 vUv;',
+        'in vec3 vUv;\nin float vAlpha;'
+      ),
+    });
+
+    expect(() => load('sprite-fragment-shader.glsl')).toThrow(
+      /Input 'vUv' is a vec3, but sprite-vertex-shader.glsl outputs it as a vec2[\s\S]*Input 'vAlpha' has no matching output/
+    );
+  });
+
+  it('accepts a valid pair of stages', () => {
+    writeShaders({
+      'sprite-vertex-shader.glsl': vertexShader,
+      'sprite-fragment-shader.glsl': fragmentShader,
+    });
+
+    expect(load('sprite-fragment-shader.glsl')).toBe(fragmentShader);
+  });
+});
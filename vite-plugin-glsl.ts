@@ -0,0 +1,433 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+
+const SHADER_FILE_PATTERN = /\.(glsl|vert|frag)$/;
+// Whole stages end in `vertex-shader.glsl`/`fragment-shader.glsl` (optionally
+// after a `-`) or `.vert`/`.frag`. Anything else is a snippet, even with
+// `vertex` in its name, e.g. `common/vertex-skinning.glsl`.
+const VERTEX_SHADER_PATTERN = /(?:^|-)vertex-shader\.glsl$|\.vert$/;
+const FRAGMENT_SHADER_PATTERN = /(?:^|-)fragment-shader\.glsl$|\.frag$/;
+const INCLUDE_PATTERN = /^\s*#include\s+"([^"]+)"\s*$/;
+const DECLARATION_PATTERN =
+  /^\s*(?:layout\s*\([^)]*\)\s*)?(?:(?:flat|smooth|centroid|invariant)\s+)*(in|out)\s+(?:(?:lowp|mediump|highp)\s+)?([A-Za-z_]\w*)\s+([^;]+);/;
+
+type ShaderStage = 'vertex' | 'fragment';
+
+interface SourceLocation {
+  file: string;
+  line: number;
+}
+
+interface ResolvedShader {
+  source: string;
+  // Entry i is where line i + 1 of `source` came from
+  lineMap: SourceLocation[];
+  // Every file that was included, directly or indirectly
+  dependencies: string[];
+}
+
+interface ShaderProblem extends SourceLocation {
+  message: string;
+}
+
+interface InterfaceVariable {
+  type: string;
+  line: number;
+}
+
+class ShaderValidationError extends Error {
+  constructor(public readonly problems: ShaderProblem[]) {
+    super(
+      problems
+        .map(
+          (problem) =>
+            `${path.relative(process.cwd(), problem.file)}:${problem.line}: ${problem.message}`
+        )
+        .join('\n')
+    );
+    this.name = 'ShaderValidationError';
+  }
+}
+
+function getStage(file: string): ShaderStage | null {
+  const name = path.basename(file);
+  if (VERTEX_SHADER_PATTERN.test(name)) {
+    return 'vertex';
+  }
+  if (FRAGMENT_SHADER_PATTERN.test(name)) {
+    return 'fragment';
+  }
+  // Anything else is a snippet that is only ever `#include`d
+  return null;
+}
+
+// e.g. `triangle-fragment-shader.glsl` is paired with
+// `triangle-vertex-shader.glsl`, and `sprite.frag` with `sprite.vert`
+function findPairedVertexShader(fragmentFile: string): string | null {
+  const directory = path.dirname(fragmentFile);
+  const name = path.basename(fragmentFile);
+
+  const candidates = [
+    name.replace(/\.frag$/, '.vert'),
+    name.replace(/fragment-shader\.glsl$/, 'vertex-shader.glsl'),
+  ];
+  for (const candidate of candidates) {
+    const candidatePath = path.join(directory, candidate);
+    if (candidate !== name && fs.existsSync(candidatePath)) {
+      return candidatePath;
+    }
+  }
+  return null;
+}
+
+// The nearest ancestor directory called `shaders`, which includes can be
+// relative to (matching the runtime preprocessor)
+function findShadersRoot(file: string): string | null {
+  let directory = path.dirname(file);
+  while (directory !== path.dirname(directory)) {
+    if (path.basename(directory) === 'shaders') {
+      return directory;
+    }
+    directory = path.dirname(directory);
+  }
+  return null;
+}
+
+function resolveIncludes(file: string, source: string): ResolvedShader {
+  const shadersRoot = findShadersRoot(file);
+
+  const output: string[] = [];
+  const lineMap: SourceLocation[] = [];
+  const dependencies = new Set<string>();
+  const includeStack: string[] = [];
+
+  const processFile = (currentFile: string, currentSource: string) => {
+    includeStack.push(currentFile);
+
+    const lines = currentSource.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const match = INCLUDE_PATTERN.exec(lines[i]);
+      if (!match) {
+        output.push(lines[i]);
+        lineMap.push({ file: currentFile, line: i + 1 });
+        continue;
+      }
+
+      const candidates = [path.resolve(path.dirname(currentFile), match[1])];
+      if (shadersRoot) {
+        candidates.push(path.resolve(shadersRoot, match[1]));
+      }
+      const includedFile = candidates.find((candidate) =>
+        fs.existsSync(candidate)
+      );
+      if (!includedFile) {
+        throw new ShaderValidationError([
+          {
+            file: currentFile,
+            line: i + 1,
+            message: `Cannot find shader include "${match[1]}"`,
+          },
+        ]);
+      }
+
+      if (includeStack.includes(includedFile)) {
+        const chain = [...includeStack, includedFile]
+          .map((f) => path.relative(process.cwd(), f))
+          .join(' -> ');
+        throw new ShaderValidationError([
+          {
+            file: currentFile,
+            line: i + 1,
+            message: `Shader include cycle detected: ${chain}`,
+          },
+        ]);
+      }
+
+      // Each file is pasted once, matching the runtime preprocessor, so two
+      // files can share an include without redefining its functions
+      if (dependencies.has(includedFile)) {
+        continue;
+      }
+      dependencies.add(includedFile);
+      processFile(includedFile, fs.readFileSync(includedFile, 'utf-8'));
+    }
+
+    includeStack.pop();
+  };
+
+  processFile(file, source);
+
+  return {
+    source: output.join('\n'),
+    lineMap,
+    dependencies: [...dependencies],
+  };
+}
+
+// Blanks out comments while keeping every other character in place, so line
+// numbers still match up
+function stripComments(source: string): string {
+  return source.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, (comment) =>
+    comment.replace(/[^\n]/g, ' ')
+  );
+}
+
+function minifyShader(source: string): string {
+  // Preprocessor directives must stay on their own lines, so we only go as far
+  // as removing comments, indentation and blank lines
+  return stripComments(source)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+// Splits the shader into lines, recording for each whether it starts at the
+// top level (outside any braces), and checks the brackets are balanced
+function scanLines(
+  shader: ResolvedShader,
+  problems: ShaderProblem[]
+): { text: string; topLevel: boolean }[] {
+  const lines = stripComments(shader.source).split('\n');
+  const openers: { char: string; line: number }[] = [];
+  const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+  const scanned = lines.map((text, i) => {
+    const topLevel = !openers.some((opener) => opener.char === '{');
+
+    for (const char of text) {
+      if (char === '(' || char === '[' || char === '{') {
+        openers.push({ char, line: i });
+      } else if (char in pairs) {
+        const opener = openers.pop();
+        if (!opener || opener.char !== pairs[char]) {
+          problems.push({
+            ...shader.lineMap[i],
+            message: `Unexpected '${char}'`,
+          });
+          if (opener) {
+            openers.push(opener);
+          }
+        }
+      }
+    }
+
+    return { text, topLevel };
+  });
+
+  for (const opener of openers) {
+    problems.push({
+      ...shader.lineMap[opener.line],
+      message: `Unclosed '${opener.char}'`,
+    });
+  }
+
+  return scanned;
+}
+
+function getInterfaceVariables(
+  lines: { text: string; topLevel: boolean }[],
+  qualifier: 'in' | 'out'
+): Map<string, InterfaceVariable> {
+  const variables = new Map<string, InterfaceVariable>();
+  lines.forEach(({ text, topLevel }, i) => {
+    const match = DECLARATION_PATTERN.exec(text);
+    if (!topLevel || !match || match[1] !== qualifier) {
+      return;
+    }
+
+    // Handles `out vec2 vA, vB;` and arrays such as `in float vWeights[4];`
+    for (const declarator of match[3].split(',')) {
+      const [, name, arraySize = ''] =
+        /^\s*([A-Za-z_]\w*)\s*(\[[^\]]*\])?\s*$/.exec(declarator) ?? [];
+      if (name) {
+        variables.set(name, {
+          type: match[2] + arraySize.replace(/\s/g, ''),
+          line: i,
+        });
+      }
+    }
+  });
+  return variables;
+}
+
+function validateShader(
+  shader: ResolvedShader,
+  stage: ShaderStage | null
+): ShaderProblem[] {
+  const problems: ShaderProblem[] = [];
+  const lines = scanLines(shader, problems);
+  const entry: SourceLocation = shader.lineMap[0];
+
+  // Included snippets are only checked for balanced brackets; everything else
+  // only makes sense for a complete shader
+  if (stage === null) {
+    return problems;
+  }
+
+  const firstLine = lines.findIndex(({ text }) => text.trim().length > 0);
+  const versionLine = lines.findIndex(({ text }) =>
+    /^\s*#version\b/.test(text)
+  );
+  if (versionLine === -1) {
+    problems.push({
+      ...entry,
+      message: 'Missing `#version 300 es` directive',
+    });
+  } else if (versionLine !== firstLine) {
+    problems.push({
+      ...shader.lineMap[versionLine],
+      message: 'The `#version` directive must come before anything else',
+    });
+  } else if (!/^\s*#version\s+300\s+es\s*$/.test(lines[versionLine].text)) {
+    problems.push({
+      ...shader.lineMap[versionLine],
+      message: 'WebGL 2 shaders must use `#version 300 es`',
+    });
+  }
+
+  const hasMain = lines.some(
+    ({ text, topLevel }) => topLevel && /\bvoid\s+main\s*\(/.test(text)
+  );
+  if (!hasMain) {
+    problems.push({ ...entry, message: 'Missing `void main()` function' });
+  }
+
+  if (stage === 'fragment') {
+    // Unlike vertex shaders, fragment shaders have no default float precision
+    const hasPrecision = lines.some(
+      ({ text, topLevel }) =>
+        topLevel &&
+        /^\s*precision\s+(lowp|mediump|highp)\s+float\s*;/.test(text)
+    );
+    if (!hasPrecision) {
+      problems.push({
+        ...entry,
+        message:
+          'Fragment shaders must declare a float precision, e.g. `precision highp float;`',
+      });
+    }
+
+    const legacyOutput = lines.findIndex(({ text }) =>
+      /\bgl_Frag(Color|Data)\b/.test(text)
+    );
+    if (legacyOutput !== -1) {
+      problems.push({
+        ...shader.lineMap[legacyOutput],
+        message:
+          '`gl_FragColor` is not available in GLSL ES 3.00, declare an `out vec4` instead',
+      });
+    } else if (getInterfaceVariables(lines, 'out').size === 0) {
+      problems.push({
+        ...entry,
+        message:
+          'Fragment shaders must declare an output, e.g. `out vec4 fragColour;`',
+      });
+    }
+  }
+
+  return problems;
+}
+
+// Every `in` of the fragment shader must be an `out` of the vertex shader,
+// with the same type
+function validateStageInterface(
+  vertexShader: ResolvedShader,
+  fragmentShader: ResolvedShader
+): ShaderProblem[] {
+  const problems: ShaderProblem[] = [];
+  const outputs = getInterfaceVariables(scanLines(vertexShader, []), 'out');
+  const inputs = getInterfaceVariables(scanLines(fragmentShader, []), 'in');
+
+  const vertexFile = path.basename(vertexShader.lineMap[0].file);
+  for (const [name, input] of inputs) {
+    const output = outputs.get(name);
+    if (!output) {
+      problems.push({
+        ...fragmentShader.lineMap[input.line],
+        message: `Input '${name}' has no matching output in ${vertexFile}`,
+      });
+    } else if (output.type !== input.type) {
+      problems.push({
+        ...fragmentShader.lineMap[input.line],
+        message:
+          `Input '${name}' is a ${input.type}, but ${vertexFile} outputs it ` +
+          `as a ${output.type}`,
+      });
+    }
+  }
+
+  return problems;
+}
+
+function loadShader(file: string): ResolvedShader {
+  return resolveIncludes(file, fs.readFileSync(file, 'utf-8'));
+}
+
+/**
+ * Handles importing `.glsl`, `.vert` and `.frag` files (with or without
+ * `?raw`), checking them for mistakes so that they fail the build (or show the
+ * error overlay in dev) instead of only failing at runtime in the browser.
+ *
+ * In production builds, `#include`s are resolved and comments and whitespace
+ * are stripped. In dev, the original source is served as-is, so that the
+ * runtime preprocessor can still map compile errors back to the right file.
+ */
+export function glslPlugin(): Plugin {
+  let isBuild = false;
+
+  return {
+    name: 'glsl',
+    enforce: 'pre',
+
+    configResolved(config) {
+      isBuild = config.command === 'build';
+    },
+
+    load(id) {
+      const [file, query] = id.split('?');
+      if (!SHADER_FILE_PATTERN.test(file) || (query && query !== 'raw')) {
+        return null;
+      }
+
+      const source = fs.readFileSync(file, 'utf-8');
+      const stage = getStage(file);
+
+      try {
+        const shader = resolveIncludes(file, source);
+        shader.dependencies.forEach((dependency) =>
+          this.addWatchFile(dependency)
+        );
+
+        const problems = validateShader(shader, stage);
+
+        if (stage === 'fragment') {
+          const vertexFile = findPairedVertexShader(file);
+          if (vertexFile) {
+            this.addWatchFile(vertexFile);
+            problems.push(
+              ...validateStageInterface(loadShader(vertexFile), shader)
+            );
+          }
+        }
+
+        if (problems.length > 0) {
+          throw new ShaderValidationError(problems);
+        }
+
+        const code = isBuild ? minifyShader(shader.source) : source;
+        return `export default ${JSON.stringify(code)};`;
+      } catch (error) {
+        if (error instanceof ShaderValidationError) {
+          const [first] = error.problems;
+          this.error({
+            message: `Invalid shader:\n${error.message}`,
+            loc: { file: first.file, line: first.line, column: 0 },
+          });
+        }
+        throw error;
+      }
+    },
+  };
+}
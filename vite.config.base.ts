@@ -1,6 +1,8 @@
 import { defineConfig, type UserConfig, type Plugin } from 'vite';
 import EnvironmentPlugin from 'vite-plugin-environment';
 
+import { glslPlugin } from './vite-plugin-glsl';
+
 const redirectToDir = ({ root }: { root: string }): Plugin => ({
   name: 'redirect-to-dir',
   configureServer(server) {
@@ -30,6 +32,7 @@ export function defineViteConfig(
     ...config,
     plugins: [
       redirectToDir({ root: rootDirectory }),
+      glslPlugin(),
       EnvironmentPlugin(
         {
           APP_ROOT: rootDirectory,
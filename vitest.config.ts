@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+import { glslPlugin } from './vite-plugin-glsl';
+
+export default defineConfig({
+  plugins: [glslPlugin()],
+  test: {
+    include: ['*.test.ts', 'exercises/**/*.test.ts', 'projects/**/*.test.ts'],
+  },
+});